@@ -17,6 +17,7 @@ const eslintConfig = [
       ".next/**",
       "out/**",
       "build/**",
+      ".test-build/**",
       "next-env.d.ts",
     ],
   },
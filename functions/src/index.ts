@@ -1,11 +1,14 @@
 /**
  * Firebase Cloud Functions — LinkedIn Autoposter
  *
- * Three scheduled functions that call the Next.js admin API endpoints:
+ * Six scheduled functions that call the Next.js admin API endpoints:
  *
- *   generateDrafts  — Every 1 hour → /api/autoposter/generate-all
- *   cutoffReview    — Every 5 min  → /api/autoposter/cutoff-all
- *   publishPosts    — Every 5 min  → /api/autoposter/publish-all
+ *   generateDrafts  — Every 1 hour  → /api/autoposter/generate-all
+ *   cutoffReview    — Every 5 min   → /api/autoposter/cutoff-all
+ *   publishPosts    — Every 5 min   → /api/autoposter/publish-all
+ *   syncMetrics     — Every 6 hours → /api/autoposter/sync-metrics
+ *   refreshTokens   — Daily         → /api/autoposter/refresh-tokens
+ *   fillSlots       — Every 6 hours → /api/autoposter/autopilot-all
  *
  * Each endpoint checks the user's timezone + configured hours (draftGenerationHour,
  * reviewDeadlineHour, posting schedule) to determine if this is the right time to act.
@@ -120,3 +123,60 @@ export const publishPosts = onSchedule(
     await callEndpoint('/api/autoposter/publish-all');
   },
 );
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 4. SYNC METRICS
+// Runs every 6 hours. Snapshots impressions, reactions, comments and reshares
+// for posts published in the last 30 days.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const syncMetrics = onSchedule(
+  {
+    schedule: 'every 6 hours',
+    timeZone: 'Asia/Kolkata',
+    region: 'us-central1',
+    timeoutSeconds: 300,
+    memory: '256MiB',
+  },
+  async () => {
+    await callEndpoint('/api/autoposter/sync-metrics');
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 5. REFRESH TOKENS
+// Runs daily. Refreshes LinkedIn tokens that expire within a week and warns
+// users whose token can't be refreshed so they can reconnect in time.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const refreshTokens = onSchedule(
+  {
+    schedule: 'every 24 hours',
+    timeZone: 'Asia/Kolkata',
+    region: 'us-central1',
+    timeoutSeconds: 120,
+    memory: '256MiB',
+  },
+  async () => {
+    await callEndpoint('/api/autoposter/refresh-tokens');
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 6. FILL SLOTS
+// Runs every 6 hours. Books free posting slots for users who turned on
+// autopilot, so generateDrafts has something to draft on unattended weeks.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const fillSlots = onSchedule(
+  {
+    schedule: 'every 6 hours',
+    timeZone: 'Asia/Kolkata',
+    region: 'us-central1',
+    timeoutSeconds: 120,
+    memory: '256MiB',
+  },
+  async () => {
+    await callEndpoint('/api/autoposter/autopilot-all');
+  },
+);
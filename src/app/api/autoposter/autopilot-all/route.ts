@@ -0,0 +1,213 @@
+/**
+ * Autopilot All — Admin Cron Endpoint
+ *
+ * POST /api/autoposter/autopilot-all
+ *
+ * Called by the Firebase scheduled function `fillSlots` (every 6 hours).
+ *
+ * For every profile with `autopilotEnabled`:
+ *   1. List every enabled slot in the posting schedule over the next
+ *      `autopilotDays` days (in the user's timezone)
+ *   2. Skip slots that already have a post booked at that time, or fall on
+ *      a vacation / blackout day
+ *   3. Pick a topic for each free slot — the oldest unused idea first, then
+ *      the next unreserved topic in the series queue. A slot tied to a
+ *      series only takes that series' ideas and topics; any other slot
+ *      walks the active series in priority order
+ *   4. Book a `scheduled` placeholder — generate-all drafts it the night before
+ *
+ * Series topics are reserved by the `topicIndex` of posts already booked,
+ * so two slots never take the same topic. Ideas are marked used once their
+ * post is booked. Placeholders get a post ID derived from the slot, so an
+ * overlapping run can't book the same slot twice.
+ *
+ * Auth: shared CRON_SECRET secret in `x-cron-secret` header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ProfileService } from '@/lib/linkedin/services/profile.service';
+import { SeriesService } from '@/lib/linkedin/services/series.service';
+import { IdeaService } from '@/lib/linkedin/services/idea.service';
+import { PostService } from '@/lib/linkedin/services/post.service';
+import { normalizeAutopilotDays, upcomingSlotTimes } from '@/lib/linkedin/schedule';
+import { DEFAULT_TIMEZONE } from '@/lib/linkedin/timezone';
+import { isBlackedOut } from '@/lib/linkedin/blackout';
+import type { AutoposterProfile, PostingSlot, Series } from '@/lib/linkedin/types';
+
+export const maxDuration = 300;
+
+// ── Auth helper ──────────────────────────────────────────────────────────────
+
+function isAuthorised(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get('x-cron-secret') === secret;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Review closes at least this long before a post goes out — generate-all may move it earlier */
+const REVIEW_LEAD_MS = 60 * 60 * 1000;
+
+/** Pages for auto-booked HTML carousels — same as the manual trigger */
+const AUTOPILOT_PAGE_COUNT = 3;
+
+interface TopicPick {
+  topic: string;
+  notes?: string;
+  series?: Series;
+  topicIndex?: number;
+  ideaId?: string;
+}
+
+/**
+ * Next topic for a slot. `reserved` holds the taken topic indexes per
+ * series and is updated by the caller once the post is booked.
+ */
+async function pickTopic(
+  userId: string,
+  slot: PostingSlot,
+  activeSeries: Series[],
+  allSeries: Series[],
+  reserved: Map<string, Set<number>>,
+  usedIdeaIds: Set<string>,
+): Promise<TopicPick | null> {
+  const candidates = slot.seriesId
+    ? allSeries.filter(s => s.id === slot.seriesId && s.status === 'active')
+    : activeSeries;
+
+  // Idea bank first — scoped to the slot's series, else any unused idea
+  const ideaResult = await IdeaService.getNextUnused(userId, slot.seriesId);
+  const idea = ideaResult.data;
+  if (idea && !usedIdeaIds.has(idea.id)) {
+    const series = allSeries.find(s => s.id === (idea.seriesId ?? slot.seriesId));
+    return { topic: idea.text, series, ideaId: idea.id };
+  }
+
+  for (const series of candidates) {
+    const taken = reserved.get(series.id) ?? new Set<number>();
+    for (let i = series.currentIndex; i < series.topicQueue.length; i++) {
+      if (taken.has(i)) continue;
+      const t = series.topicQueue[i];
+      return { topic: t.title, notes: t.notes, series, topicIndex: i };
+    }
+  }
+  return null;
+}
+
+interface UserResult {
+  userId: string;
+  booked: number;
+  /** Free slots left empty because nothing was left to post about */
+  unfilled: number;
+  error?: string;
+}
+
+async function fillSlots(profile: AutoposterProfile): Promise<UserResult> {
+  const userId = profile.userId;
+  const timezone = profile.timezone || DEFAULT_TIMEZONE;
+  const slots = upcomingSlotTimes(profile.postingSchedule, timezone, normalizeAutopilotDays(profile.autopilotDays));
+
+  const bookedResult = await PostService.getBooked(userId);
+  if (!bookedResult.success) throw new Error(bookedResult.error ?? 'Could not load booked posts');
+  const booked = bookedResult.data ?? [];
+
+  const seriesResult = await SeriesService.getAllByUser(userId);
+  if (!seriesResult.success) throw new Error(seriesResult.error ?? 'Could not load series');
+  const allSeries = seriesResult.data ?? [];
+  const activeSeries = allSeries.filter(s => s.status === 'active');
+
+  const bookedTimes = new Set(booked.map(p => p.scheduledFor.getTime()));
+  const reserved = new Map<string, Set<number>>();
+  for (const post of booked) {
+    if (!post.seriesId || post.topicIndex === undefined || post.topicIndex === null) continue;
+    if (!reserved.has(post.seriesId)) reserved.set(post.seriesId, new Set());
+    reserved.get(post.seriesId)!.add(post.topicIndex);
+  }
+  const usedIdeaIds = new Set<string>();
+
+  let bookedCount = 0;
+  let unfilled = 0;
+
+  for (const { at, slot } of slots) {
+    if (bookedTimes.has(at.getTime()) || isBlackedOut(profile, at)) continue;
+
+    const pick = await pickTopic(userId, slot, activeSeries, allSeries, reserved, usedIdeaIds);
+    if (!pick) {
+      unfilled++;
+      continue;
+    }
+
+    const mediaType = slot.mediaType ?? profile.preferredMediaType ?? 'text';
+    const created = await PostService.createScheduled({
+      postId: `autopilot_${userId}_${at.getTime()}`,
+      userId,
+      topic: pick.topic,
+      notes: pick.notes,
+      scheduledFor: at,
+      reviewDeadline: new Date(at.getTime() - REVIEW_LEAD_MS),
+      seriesId: pick.series?.id,
+      topicIndex: pick.topicIndex,
+      mediaType,
+      templateId: mediaType === 'html' ? pick.series?.templateId ?? undefined : undefined,
+      pageCount: mediaType === 'html' ? AUTOPILOT_PAGE_COUNT : 1,
+      // Series may publish with a specific account / as a Company Page
+      linkedinAccountId: pick.series?.linkedinAccountId ?? undefined,
+      authorUrn: pick.series?.authorUrn ?? undefined,
+    });
+    if (!created.success) {
+      // Most likely an overlapping run booked this slot first
+      console.warn(`[autopilot-all] Slot ${at.toISOString()} for user ${userId} not booked:`, created.error);
+      continue;
+    }
+
+    bookedTimes.add(at.getTime());
+    bookedCount++;
+    if (pick.ideaId) {
+      usedIdeaIds.add(pick.ideaId);
+      const marked = await IdeaService.markUsed(pick.ideaId);
+      if (!marked.success) console.error(`[autopilot-all] Idea ${pick.ideaId} not marked used:`, marked.error);
+    }
+    if (pick.series && pick.topicIndex !== undefined) {
+      if (!reserved.has(pick.series.id)) reserved.set(pick.series.id, new Set());
+      reserved.get(pick.series.id)!.add(pick.topicIndex);
+    }
+  }
+
+  return { userId, booked: bookedCount, unfilled };
+}
+
+// ── Handler ──────────────────────────────────────────────────────────────────
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorised(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const results: UserResult[] = [];
+
+  try {
+    const profilesResult = await ProfileService.getAllProfiles();
+    if (!profilesResult.success) throw new Error(profilesResult.error ?? 'Could not load profiles');
+
+    for (const profile of profilesResult.data ?? []) {
+      if (!profile.autopilotEnabled || !profile.userId) continue;
+
+      try {
+        results.push(await fillSlots(profile));
+      } catch (err) {
+        console.error(`[autopilot-all] Failed for user ${profile.userId}:`, err);
+        results.push({ userId: profile.userId, booked: 0, unfilled: 0, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    const booked = results.reduce((n, r) => n + r.booked, 0);
+    const unfilled = results.reduce((n, r) => n + r.unfilled, 0);
+    const failed = results.filter(r => r.error).length;
+    console.log(`[autopilot-all] ${results.length} users: ${booked} slots booked, ${unfilled} left empty, ${failed} failed`);
+    return NextResponse.json({ success: failed === 0, processed: results.length, booked, unfilled, failed, results });
+  } catch (err) {
+    console.error('[API /autoposter/autopilot-all]', err);
+    return NextResponse.json({ error: 'Internal error', details: String(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Best Times API — when the user's posts do best
+ *
+ * GET /api/autoposter/best-times?timezone=
+ *
+ * Scores every weekday/hour from the user's published posts and their
+ * synced metrics (see lib/linkedin/best-time). Hours are local to
+ * `timezone` — the profile's by default, so Settings can preview a zone
+ * it hasn't saved yet.
+ *
+ * Returns: { success: true, data: PostingTimeScores }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/server';
+import { PostService } from '@/lib/linkedin/services/post.service';
+import { ProfileService } from '@/lib/linkedin/services/profile.service';
+import { scorePostingTimes, type PostingTimeSample } from '@/lib/linkedin/best-time';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/lib/linkedin/timezone';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const requested = request.nextUrl.searchParams.get('timezone');
+    if (requested && !isValidTimeZone(requested)) {
+      return NextResponse.json({ error: 'timezone must be an IANA zone name, e.g. "Asia/Kolkata"' }, { status: 400 });
+    }
+    const profile = (await ProfileService.getSummary(user.uid)).data;
+    const timezone = requested || profile?.timezone || DEFAULT_TIMEZONE;
+
+    const published = await PostService.getByStatus(user.uid, 'published');
+    if (!published.success) throw new Error(published.error ?? 'Could not load published posts');
+
+    const samples: PostingTimeSample[] = (published.data ?? []).flatMap(post =>
+      post.metrics && post.publishedAt ? [{ publishedAt: new Date(post.publishedAt), metrics: post.metrics }] : [],
+    );
+
+    return NextResponse.json({ success: true, data: scorePostingTimes(samples, timezone) });
+  } catch (err) {
+    console.error('[API /autoposter/best-times GET]', err);
+    return NextResponse.json({ error: 'Failed to score posting times' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Encrypt Tokens — Admin Migration Endpoint
+ *
+ * POST /api/autoposter/encrypt-tokens
+ *
+ * Run once after deploying token encryption, and again after every
+ * master-key rotation (not scheduled):
+ *
+ *   curl -X POST "$APP_URL/api/autoposter/encrypt-tokens" -H "x-cron-secret: $CRON_SECRET"
+ *
+ * For every user it re-wraps the data key with the current master key
+ * (the first in TOKEN_ENCRYPTION_KEYS), then encrypts any OAuth tokens
+ * still stored in plaintext — LinkedIn accounts, legacy profile fields
+ * and cross-post connections. Safe to run any number of times.
+ *
+ * Auth: shared CRON_SECRET secret in `x-cron-secret` header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { LinkedInAccountService } from '@/lib/linkedin/services/linkedin-account.service';
+import { ProfileService } from '@/lib/linkedin/services/profile.service';
+import { rewrapTokenKey } from '@/lib/linkedin/token-crypto';
+
+export const maxDuration = 300;
+
+function isAuthorised(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get('x-cron-secret') === secret;
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorised(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const results: { userId: string; rewrapped: boolean; encrypted: number; error?: string }[] = [];
+
+  try {
+    const profilesResult = await ProfileService.getAllProfiles();
+    if (!profilesResult.success) throw new Error(profilesResult.error ?? 'Could not load profiles');
+
+    for (const profile of profilesResult.data ?? []) {
+      const userId = profile.userId;
+      if (!userId) continue;
+
+      try {
+        const rewrapped = await rewrapTokenKey(userId);
+        const accounts = await LinkedInAccountService.encryptStoredTokens(userId);
+        if (!accounts.success) throw new Error(accounts.error ?? 'LinkedIn accounts not encrypted');
+        const profileFields = await ProfileService.encryptStoredTokens(userId);
+        if (!profileFields.success) throw new Error(profileFields.error ?? 'Profile tokens not encrypted');
+
+        results.push({ userId, rewrapped, encrypted: (accounts.data ?? 0) + (profileFields.data ?? 0) });
+      } catch (err) {
+        console.error(`[encrypt-tokens] Failed for user ${userId}:`, err);
+        results.push({ userId, rewrapped: false, encrypted: 0, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    const failed = results.filter(r => r.error).length;
+    const encrypted = results.reduce((n, r) => n + r.encrypted, 0);
+    const rewrapped = results.filter(r => r.rewrapped).length;
+    console.log(`[encrypt-tokens] ${results.length} users: ${encrypted} tokens encrypted, ${rewrapped} keys re-wrapped, ${failed} failed`);
+    return NextResponse.json({ success: failed === 0, processed: results.length, encrypted, rewrapped, failed, results });
+  } catch (err) {
+    console.error('[API /autoposter/encrypt-tokens]', err);
+    return NextResponse.json({ error: 'Internal error', details: String(err) }, { status: 500 });
+  }
+}
@@ -10,11 +10,18 @@
  *      the next 28 hours (covers same-day + tomorrow posts)
  *   2. Only process users whose current hour matches their draftGenerationHour
  *   3. For each: generate AI draft content using the saved model/media preferences
- *   4. Update the post: fill in content, set status → pending_review
+ *   4. Update the post: fill in content, set status → pending_review, with the
+ *      review deadline at reviewDeadlineHour on the post's day — or 1 hour before
+ *      the post if that's earlier (days can have several posting slots)
  *
  * Users first "book" posts via the Schedule dialog (just topic + time slot),
  * and the AI draft is created automatically the night before at draftGenerationHour.
  *
+ * Vacation and blackout days: a scheduled or approved post in the window
+ * that falls on one is moved to the next free slot instead — nothing is
+ * drafted for it. Approved posts were already signed off, so the user is
+ * notified of the new time.
+ *
  * Auth: shared CRON_SECRET secret in `x-cron-secret` header.
  */
 
@@ -29,7 +36,12 @@ import { getAdminDb } from '@/lib/firebase/admin';
 import { POSTS_COLLECTION } from '@/lib/linkedin/collections';
 import { FieldValue } from 'firebase-admin/firestore';
 import type { Timestamp } from 'firebase-admin/firestore';
-import type { PostMediaType } from '@/lib/linkedin/types';
+import { normalizeArticle, getArticleError } from '@/lib/linkedin/article';
+import { normalizeVisibility, resolveAudience } from '@/lib/linkedin/visibility';
+import { DEFAULT_TIMEZONE, utcToZoned, zonedToUtc, zonedWeekdayName } from '@/lib/linkedin/timezone';
+import { isBlackedOut } from '@/lib/linkedin/blackout';
+import { moveOutOfBlackout } from '@/lib/linkedin/blackout-reschedule';
+import type { CrossPostTarget, PostMediaType } from '@/lib/linkedin/types';
 
 export const maxDuration = 300; // AI generation can be slow
 
@@ -43,9 +55,13 @@ function isAuthorised(request: NextRequest): boolean {
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
+/** Review closes at least this long before a post goes out */
+const REVIEW_LEAD_MS = 60 * 60 * 1000;
+
 /**
  * Get range of posts to generate drafts for: from NOW to 28 hours ahead.
- * This covers both same-day posts (scheduled later today) and tomorrow's posts.
+ * This covers both same-day posts (scheduled later today) and tomorrow's posts,
+ * every slot of each day included.
  * Any scheduled post whose scheduledFor falls within this window will get a
  * draft generated — no draft-hour gating, since the cron runs every hour and
  * waiting for a specific hour caused posts to be missed entirely.
@@ -56,6 +72,18 @@ function getUpcomingRange(): { start: Date; end: Date } {
   return { start, end };
 }
 
+/** A user's booked post times — loaded once per run, only for users with a post to move */
+async function loadBookedTimes(cache: Map<string, Set<number>>, userId: string): Promise<Set<number>> {
+  let times = cache.get(userId);
+  if (!times) {
+    const booked = await PostService.getBooked(userId);
+    if (!booked.success) throw new Error(booked.error ?? 'Could not load booked posts');
+    times = new Set((booked.data ?? []).map(p => p.scheduledFor.getTime()));
+    cache.set(userId, times);
+  }
+  return times;
+}
+
 // ── Main handler ─────────────────────────────────────────────────────────────
 
 export async function POST(request: NextRequest) {
@@ -66,10 +94,10 @@ export async function POST(request: NextRequest) {
   const results: { postId: string; userId: string; status: string; detail?: string }[] = [];
 
   try {
-    // 1. Get all scheduled posts (not yet generated)
+    // 1. Get all scheduled posts (not yet generated) — and approved ones, for blackouts
     const db = getAdminDb();
     const scheduledSnap = await db.collection(POSTS_COLLECTION)
-      .where('status', '==', 'scheduled')
+      .where('status', 'in', ['scheduled', 'approved'])
       .get();
 
     if (scheduledSnap.empty) {
@@ -79,12 +107,14 @@ export async function POST(request: NextRequest) {
     // 2. Load all profiles (cached per run for efficiency)
     const profilesResult = await ProfileService.getAllProfiles();
     const profileMap = new Map((profilesResult.data ?? []).map(p => [p.userId, p]));
+    const bookedTimes = new Map<string, Set<number>>();
 
     // 3. Process each scheduled post
     for (const doc of scheduledSnap.docs) {
       const data = doc.data();
       const postId = doc.id;
       const userId = data.userId as string;
+      const status = data.status as 'scheduled' | 'approved';
 
       try {
         // Get user profile
@@ -94,7 +124,7 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
-        const timezone = profile.timezone || 'Asia/Kolkata';
+        const timezone = profile.timezone || DEFAULT_TIMEZONE;
 
         // Check if the post's scheduledFor is within the next 28 hours
         const scheduledFor = (data.scheduledFor as Timestamp)?.toDate?.();
@@ -109,6 +139,22 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // Vacation / blackout day — move it to the next free slot, don't draft it
+        if (isBlackedOut(profile, scheduledFor)) {
+          const movedTo = await moveOutOfBlackout(profile, {
+            postId, userId, status, scheduledFor,
+            topic: data.topic as string,
+            reviewDeadline: (data.reviewDeadline as Timestamp | null)?.toDate?.() ?? null,
+          }, await loadBookedTimes(bookedTimes, userId), start);
+          results.push(movedTo
+            ? { postId, userId, status: 'rescheduled', detail: movedTo.toISOString() }
+            : { postId, userId, status: 'skipped', detail: 'blackout day — no free slot to move to' });
+          continue;
+        }
+
+        // Approved posts are only here for the blackout check
+        if (status === 'approved') continue;
+
         // 4. Gather series context
         const seriesId = data.seriesId as string | null;
         let seriesTitle: string | undefined;
@@ -141,8 +187,10 @@ export async function POST(request: NextRequest) {
         const pageCount = (data.pageCount as number) || 1;
         const topic = data.topic as string;
         const notes = (data.notes as string) || undefined;
-        const dayName = scheduledFor.toLocaleDateString('en-US', { weekday: 'long' });
+        const dayName = zonedWeekdayName(scheduledFor, timezone);
         const pageInstructions = Array.isArray(data.pageInstructions) ? data.pageInstructions as string[] : undefined;
+        const article = normalizeArticle(data.article);
+        const crossPosts = (data.crossPosts ?? []) as CrossPostTarget[];
 
         // 6. Generate AI draft
         const draft = await generatePostDraft({
@@ -161,35 +209,28 @@ export async function POST(request: NextRequest) {
           pageInstructions,
           provider: ((data.provider as string) || profile.preferredProvider) as 'gemini' | 'kieai' | undefined,
           textModel: (data.textModel as string) || profile.preferredTextModel,
+          // Unusable links are caught at review; don't feed them to the prompt
+          article: article && !getArticleError(article) ? article : undefined,
+          // Written for the audience it will publish to
+          ...resolveAudience({
+            visibility: normalizeVisibility(data.visibility),
+            disableReshare: data.disableReshare as boolean | null,
+            authorUrn: data.authorUrn as string | null,
+          }, profile),
+          crossPostNetworks: crossPosts.map(t => t.network),
         });
 
-        // 7. Calculate review deadline in the user's timezone.
-        // BUG-FIX: new Date("YYYY-MM-DDTHH:mm:ss") with no suffix is parsed as LOCAL (= UTC on Vercel),
-        // so "12:00" was stored as 12:00 UTC (= 17:30 IST) instead of 12:00 IST (= 06:30 UTC).
-        // Fix: use Intl to find the exact UTC offset (including :30 for IST etc.) and adjust.
+        // 7. Review deadline: reviewDeadlineHour:00 on the post's date, in the user's timezone.
+        // A day can have several slots — an early one may come before
+        // reviewDeadlineHour, so never close review later than 1 hr before the slot
         const reviewDeadlineHour = profile.reviewDeadlineHour ?? 3;
-        const fmtDate = new Intl.DateTimeFormat('en-CA', {
-          year: 'numeric', month: '2-digit', day: '2-digit',
-          timeZone: timezone,
-        });
-        const postDateStr = fmtDate.format(scheduledFor); // "YYYY-MM-DD" in user's TZ
-
-        // Build the correct UTC timestamp for "postDate at reviewDeadlineHour:00 in user's timezone"
-        // 1. Start with a UTC probe at that hour
-        const probeUtc = new Date(`${postDateStr}T${String(reviewDeadlineHour).padStart(2, '0')}:00:00Z`);
-        // 2. Find what local H:M the probe shows in the user's TZ (e.g. 17:30 for 12:00 UTC in IST)
-        const localH = parseInt(
-          new Intl.DateTimeFormat('en-US', { hour: 'numeric', hour12: false, timeZone: timezone }).format(probeUtc),
-          10,
-        );
-        const localM = parseInt(
-          new Intl.DateTimeFormat('en-US', { minute: 'numeric', timeZone: timezone }).format(probeUtc),
-          10,
+        const dayDeadline = zonedToUtc(
+          utcToZoned(scheduledFor, timezone).date,
+          `${String(reviewDeadlineHour).padStart(2, '0')}:00`,
+          timezone,
         );
-        // 3. Shift the probe so local time becomes exactly reviewDeadlineHour:00
-        //    e.g. probe=12:00 UTC shows 17:30 IST → need to go back 5h30m to get 12:00 IST = 06:30 UTC
         const reviewDeadline = new Date(
-          probeUtc.getTime() + (reviewDeadlineHour - localH) * 60 * 60 * 1000 - localM * 60 * 1000,
+          Math.min(dayDeadline.getTime(), scheduledFor.getTime() - REVIEW_LEAD_MS),
         );
 
         // 8. Update the post with generated content → pending_review
@@ -201,6 +242,11 @@ export async function POST(request: NextRequest) {
           mediaMimeType: draft.media?.mimeType ?? null,
           mediaPrompt: draft.media?.prompt ?? null,
           htmlContent: draft.htmlContent ?? null,
+          altTexts: draft.altTexts ?? null,
+          poll: draft.poll ?? null,
+          crossPosts: crossPosts.length > 0
+            ? crossPosts.map(t => ({ ...t, content: draft.crossPosts?.[t.network] ?? null }))
+            : null,
           reviewDeadline,
           status: 'pending_review',
           updatedAt: FieldValue.serverTimestamp(),
@@ -0,0 +1,59 @@
+/**
+ * Migrate Schedules — Admin Migration Endpoint
+ *
+ * POST /api/autoposter/migrate-schedules
+ *
+ * Run once after deploying posting slots (not scheduled):
+ *
+ *   curl -X POST "$APP_URL/api/autoposter/migrate-schedules" -H "x-cron-secret: $CRON_SECRET"
+ *
+ * Rewrites every profile whose weekly schedule still has one `postTime`
+ * per day as a list of slots. Profiles are already read in the new shape
+ * either way, so this only tidies the stored data. Safe to run any number
+ * of times.
+ *
+ * Auth: shared CRON_SECRET secret in `x-cron-secret` header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ProfileService } from '@/lib/linkedin/services/profile.service';
+
+function isAuthorised(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get('x-cron-secret') === secret;
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorised(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const results: { userId: string; migrated: boolean; error?: string }[] = [];
+
+  try {
+    const profilesResult = await ProfileService.getAllProfiles();
+    if (!profilesResult.success) throw new Error(profilesResult.error ?? 'Could not load profiles');
+
+    for (const profile of profilesResult.data ?? []) {
+      const userId = profile.userId;
+      if (!userId) continue;
+
+      const migrated = await ProfileService.migratePostingSchedule(userId);
+      if (!migrated.success) {
+        console.error(`[migrate-schedules] Failed for user ${userId}:`, migrated.error);
+        results.push({ userId, migrated: false, error: migrated.error ?? 'Schedule not migrated' });
+        continue;
+      }
+      results.push({ userId, migrated: migrated.data ?? false });
+    }
+
+    const failed = results.filter(r => r.error).length;
+    const migrated = results.filter(r => r.migrated).length;
+    console.log(`[migrate-schedules] ${results.length} users: ${migrated} migrated, ${failed} failed`);
+    return NextResponse.json({ success: failed === 0, processed: results.length, migrated, failed, results });
+  } catch (err) {
+    console.error('[API /autoposter/migrate-schedules]', err);
+    return NextResponse.json({ error: 'Internal error', details: String(err) }, { status: 500 });
+  }
+}
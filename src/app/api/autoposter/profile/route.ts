@@ -9,6 +9,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/server';
 import { ProfileService } from '@/lib/linkedin/services/profile.service';
+import { normalizeVisibility } from '@/lib/linkedin/visibility';
+import { normalizeAutopilotDays, normalizePostingSchedule } from '@/lib/linkedin/schedule';
+import { isValidTimeZone } from '@/lib/linkedin/timezone';
+import { normalizeBlackouts, normalizeVacationUntil } from '@/lib/linkedin/blackout';
+import { rescheduleBlackedOutPosts } from '@/lib/linkedin/blackout-reschedule';
+
+/** Fields that change which days are off — saving one moves booked posts off them */
+const TIME_OFF_FIELDS = ['vacationMode', 'vacationUntil', 'blackouts', 'timezone'];
 
 export async function GET() {
   try {
@@ -17,7 +25,8 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const result = await ProfileService.get(user.uid);
+    // Tokens stay server-side — /api/crosspost/accounts lists the cross-posting connections
+    const result = await ProfileService.getSummary(user.uid);
     return NextResponse.json({ success: true, data: result.data });
   } catch (err) {
     console.error('[API /autoposter/profile GET]', err);
@@ -33,7 +42,7 @@ export async function POST() {
     }
 
     // Check if profile already exists
-    const existing = await ProfileService.get(user.uid);
+    const existing = await ProfileService.getSummary(user.uid);
     if (existing.data) {
       return NextResponse.json({ success: true, message: 'Profile already exists', data: existing.data });
     }
@@ -60,6 +69,9 @@ export async function PATCH(request: NextRequest) {
       'persona', 'postingSchedule', 'timezone',
       'draftGenerationHour', 'reviewDeadlineHour', 'fcmToken',
       'preferredProvider', 'preferredTextModel', 'preferredMediaType',
+      'defaultVisibility', 'defaultDisableReshare',
+      'autopilotEnabled', 'autopilotDays',
+      'vacationMode', 'vacationUntil', 'blackouts',
     ];
 
     const updates: Record<string, unknown> = {};
@@ -69,11 +81,62 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    if ('defaultVisibility' in updates && !normalizeVisibility(updates.defaultVisibility)) {
+      return NextResponse.json({ error: 'defaultVisibility must be PUBLIC or CONNECTIONS' }, { status: 400 });
+    }
+    if ('defaultDisableReshare' in updates && typeof updates.defaultDisableReshare !== 'boolean') {
+      return NextResponse.json({ error: 'defaultDisableReshare must be a boolean' }, { status: 400 });
+    }
+
+    if ('timezone' in updates && !isValidTimeZone(updates.timezone)) {
+      return NextResponse.json({ error: 'timezone must be an IANA zone name, e.g. "Asia/Kolkata"' }, { status: 400 });
+    }
+    if ('autopilotEnabled' in updates && typeof updates.autopilotEnabled !== 'boolean') {
+      return NextResponse.json({ error: 'autopilotEnabled must be a boolean' }, { status: 400 });
+    }
+    if ('autopilotDays' in updates) {
+      updates.autopilotDays = normalizeAutopilotDays(updates.autopilotDays);
+    }
+    if ('postingSchedule' in updates) {
+      updates.postingSchedule = normalizePostingSchedule(updates.postingSchedule);
+    }
+    if ('vacationMode' in updates && typeof updates.vacationMode !== 'boolean') {
+      return NextResponse.json({ error: 'vacationMode must be a boolean' }, { status: 400 });
+    }
+    if ('vacationUntil' in updates) {
+      const vacationUntil = normalizeVacationUntil(updates.vacationUntil);
+      if (updates.vacationUntil && !vacationUntil) {
+        return NextResponse.json({ error: 'vacationUntil must be a date, e.g. "2025-08-31"' }, { status: 400 });
+      }
+      updates.vacationUntil = vacationUntil;
+    }
+    if ('blackouts' in updates) {
+      if (!Array.isArray(updates.blackouts)) {
+        return NextResponse.json({ error: 'blackouts must be an array of { start, end, label? }' }, { status: 400 });
+      }
+      updates.blackouts = normalizeBlackouts(updates.blackouts);
+    }
+
     if (Object.keys(updates).length === 0) {
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
     }
 
     await ProfileService.update(user.uid, updates);
+
+    if (TIME_OFF_FIELDS.some(field => field in updates)) {
+      try {
+        const profile = (await ProfileService.getSummary(user.uid)).data;
+        const { moved, stuck } = profile
+          ? await rescheduleBlackedOutPosts(user.uid, profile)
+          : { moved: 0, stuck: 0 };
+        return NextResponse.json({ success: true, message: 'Profile updated', data: { rescheduled: moved, unmoved: stuck } });
+      } catch (moveErr) {
+        // Saved all the same — the crons move what's left before it's drafted or published
+        console.error('[API /autoposter/profile PATCH] Could not reschedule posts on time off:', moveErr);
+        return NextResponse.json({ success: true, message: 'Profile updated, but posts on your time off could not be moved yet' });
+      }
+    }
+
     return NextResponse.json({ success: true, message: 'Profile updated' });
   } catch (err) {
     console.error('[API /autoposter/profile PATCH]', err);
@@ -7,28 +7,64 @@
  * every 30 min 8–11 AM IST Tue–Thu in production).
  *
  * Finds all approved posts whose scheduledFor time has passed and publishes
- * them to LinkedIn. Handles token refresh, media upload, and series advancement.
+ * them to LinkedIn. Handles token refresh, media upload, the optional first
+ * comment, and series advancement. LinkedIn calls go through `createPublisher()`,
+ * so PUBLISHER_BACKEND=fake runs the whole pipeline without LinkedIn.
+ *
+ * Each post is claimed ('publishing' + lease) before any work, so overlapping
+ * runs and "Post Now" never double-post. Stale claims from crashed runs are
+ * recovered first.
+ *
+ * Transient failures (LinkedIn 5xx / 429, network, media download) go back
+ * to 'approved' with a backed-off `nextRetryAt`; the user only hears about
+ * a failure once retries are exhausted or the error is permanent.
+ *
+ * LinkedIn rate limits are different: once a member's (or the app's) daily
+ * budget is used up or LinkedIn answers 429, that member's remaining posts
+ * are handed back untouched and go out on the next run.
+ *
+ * Video uploads don't wait for LinkedIn to process them: a post whose
+ * video is still processing goes back to 'approved' and is checked again
+ * on a later run (see video-processing.ts), so one slow video never
+ * holds up the rest of the batch.
+ *
+ * Once a post is live, its Mastodon / Bluesky / X targets fan out; each
+ * keeps its own status, so a failed network never affects the others.
+ *
+ * Nothing goes out on a user's vacation or blackout days: a post due then
+ * moves to the next free slot and the user is notified.
  *
  * Auth: shared CRON_SECRET secret in `x-cron-secret` header.
  */
 
+import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { getAdminDb } from '@/lib/firebase/admin';
 import { POSTS_COLLECTION } from '@/lib/linkedin/collections';
 import { FieldValue } from 'firebase-admin/firestore';
 import type { Timestamp } from 'firebase-admin/firestore';
-import { ProfileService } from '@/lib/linkedin/services/profile.service';
+import { LinkedInAccountService } from '@/lib/linkedin/services/linkedin-account.service';
 import { PostService } from '@/lib/linkedin/services/post.service';
 import { SeriesService } from '@/lib/linkedin/services/series.service';
+import { LinkedInRateLimitService } from '@/lib/linkedin/services/linkedin-rate-limit.service';
+import { ProfileService } from '@/lib/linkedin/services/profile.service';
 import { sendPushNotification } from '@/lib/linkedin/services/push.service';
-import {
-  createLinkedInPost,
-  uploadImageToLinkedIn,
-  uploadVideoToLinkedIn,
-  downloadMediaAsBuffer,
-  refreshAccessToken,
-} from '@/lib/linkedin/linkedin-oauth';
-import type { PostMediaType } from '@/lib/linkedin/types';
+import { resolveAuthorUrn, downloadMediaAsBuffer } from '@/lib/linkedin/linkedin-oauth';
+import { createPublisher } from '@/lib/linkedin/publisher';
+import { MAX_THUMBNAIL_BYTES, downloadPublicMedia } from '@/lib/linkedin/safe-fetch';
+import { VIDEO_RECHECK_MS, VideoProcessingError, isVideoReady } from '@/lib/linkedin/video-processing';
+import { LinkedInRateLimitError } from '@/lib/linkedin/linkedin-client';
+import { getFreshAccessToken } from '@/lib/linkedin/token-refresh';
+import { buildCarouselPdf } from '@/lib/linkedin/carousel-pdf';
+import { normalizePoll, getPollError } from '@/lib/linkedin/poll';
+import { normalizeArticle, getArticleError } from '@/lib/linkedin/article';
+import { normalizeAltTexts } from '@/lib/linkedin/alt-text';
+import { normalizeVisibility, resolveAudience } from '@/lib/linkedin/visibility';
+import { isRetryablePublishError } from '@/lib/linkedin/publish-retry';
+import { publishCrossPosts } from '@/lib/linkedin/crosspost-fanout';
+import { isDueInBlackout } from '@/lib/linkedin/blackout';
+import { moveOutOfBlackout } from '@/lib/linkedin/blackout-reschedule';
+import type { AutoposterProfile, PostMediaType } from '@/lib/linkedin/types';
 
 export const maxDuration = 300; // LinkedIn uploads can be slow
 
@@ -48,6 +84,21 @@ export async function POST(request: NextRequest) {
 
   try {
     const db = getAdminDb();
+    const workerId = `cron:${randomUUID()}`;
+    const publisher = createPublisher();
+
+    // Rate-limited this run: member `sub` → when LinkedIn accepts calls again
+    const limitedMembers = new Map<string, Date>();
+    let appLimitedUntil: Date | null = null;
+
+    // Audience defaults and time off — one profile read per user per run
+    const profiles = new Map<string, AutoposterProfile | null>();
+    // Booked post times per user — loaded only when a post has to move
+    const bookedTimes = new Map<string, Set<number>>();
+
+    // Release claims left behind by runs that died mid-publish
+    const recovery = await PostService.recoverStalePublishing();
+    if (recovery.data) console.log(`[publish-all] Recovered ${recovery.data} stale publishing claims`);
 
     // Query all approved posts
     const snap = await db.collection(POSTS_COLLECTION)
@@ -61,64 +112,139 @@ export async function POST(request: NextRequest) {
       const topic = data.topic as string;
       const scheduledFor = (data.scheduledFor as Timestamp)?.toDate?.() ?? new Date(0);
 
-      // Not due yet
-      if (scheduledFor > now) continue;
+      // Not due yet — a post waiting on an automatic retry is due at nextRetryAt
+      const nextRetryAt = (data.nextRetryAt as Timestamp | null)?.toDate?.();
+      if ((nextRetryAt ?? scheduledFor) > now) continue;
+
+      // Booked on, or only now due on, a vacation / blackout day — move it to the next free slot instead
+      if (!profiles.has(userId)) profiles.set(userId, (await ProfileService.get(userId)).data ?? null);
+      const profile = profiles.get(userId);
+      if (profile && isDueInBlackout(profile, scheduledFor, now)) {
+        try {
+          if (!bookedTimes.has(userId)) {
+            const booked = await PostService.getBooked(userId);
+            if (!booked.success) throw new Error(booked.error ?? 'Could not load booked posts');
+            bookedTimes.set(userId, new Set((booked.data ?? []).map(p => p.scheduledFor.getTime())));
+          }
+          const movedTo = await moveOutOfBlackout(profile, {
+            postId, userId, topic, status: 'approved', scheduledFor,
+            reviewDeadline: (data.reviewDeadline as Timestamp | null)?.toDate?.() ?? null,
+          }, bookedTimes.get(userId)!, now);
+          results.push(movedTo
+            ? { postId, userId, topic, status: 'rescheduled', detail: movedTo.toISOString() }
+            : { postId, userId, topic, status: 'deferred', detail: 'Blackout day — no free slot to move to' });
+        } catch (moveErr) {
+          console.error(`[publish-all] Could not move post ${postId} out of a blackout:`, moveErr);
+          results.push({ postId, userId, topic, status: 'deferred', detail: moveErr instanceof Error ? moveErr.message : String(moveErr) });
+        }
+        continue;
+      }
+
+      // The app's LinkedIn budget is spent — everything else waits for the next run
+      if (appLimitedUntil) {
+        results.push({ postId, userId, topic, status: 'deferred', detail: `LinkedIn app rate limit until ${appLimitedUntil.toISOString()}` });
+        continue;
+      }
+
+      // Another run or "Post Now" got there first
+      const claim = await PostService.claimForPublishing(postId, workerId, ['approved']);
+      if (!claim.data?.claimed) {
+        results.push({ postId, userId, topic, status: 'skipped', detail: claim.data?.reason ?? claim.error ?? 'not claimed' });
+        continue;
+      }
+
+      // Set once LinkedIn accepts the post — later errors must not retry it
+      let publishedUrn: string | undefined;
+      let memberId: string | undefined;
 
       try {
-        // Load profile for LinkedIn tokens
-        const profileResult = await ProfileService.get(userId);
-        const profile = profileResult.data;
+        // Load the LinkedIn account this post publishes with
+        const accountResult = await LinkedInAccountService.getForPublishing(
+          userId,
+          data.linkedinAccountId as string | null,
+        );
+        const account = accountResult.data;
 
-        if (!profile?.linkedinConnected || !profile.linkedinAccessToken || !profile.linkedinMemberUrn) {
-          await PostService.markFailed(postId, 'LinkedIn not connected');
-          results.push({ postId, userId, topic, status: 'failed', detail: 'LinkedIn not connected' });
+        if (!account) {
+          await PostService.markFailed(postId, 'LinkedIn account not connected');
+          results.push({ postId, userId, topic, status: 'failed', detail: 'LinkedIn account not connected' });
           continue;
         }
+        memberId = account.id;
+        const accountPublisher = publisher.forMember(account.id);
 
-        // Refresh token if expired
-        let accessToken = profile.linkedinAccessToken;
-        if (profile.linkedinTokenExpiry && new Date(profile.linkedinTokenExpiry) < now) {
-          if (!profile.linkedinRefreshToken) {
-            await PostService.markFailed(postId, 'LinkedIn token expired — reconnect required');
-            results.push({ postId, userId, topic, status: 'failed', detail: 'token expired, no refresh token' });
-            continue;
-          }
-          try {
-            const newTokens = await refreshAccessToken(profile.linkedinRefreshToken);
-            accessToken = newTokens.accessToken;
-            // Update stored tokens
-            await ProfileService.setLinkedInTokens(userId, {
-              accessToken: newTokens.accessToken,
-              refreshToken: newTokens.refreshToken,
-              expiresIn: newTokens.expiresIn,
-              memberUrn: profile.linkedinMemberUrn,
-            });
-          } catch {
-            await PostService.markFailed(postId, 'Token refresh failed');
-            results.push({ postId, userId, topic, status: 'failed', detail: 'token refresh failed' });
-            continue;
-          }
+        // Don't start uploads for a member LinkedIn is already refusing
+        const knownLimit = limitedMembers.get(account.id);
+        const block = knownLimit
+          ? { scope: 'member' as const, retryAt: knownLimit }
+          : (await LinkedInRateLimitService.getBlock(account.id)).data;
+        if (block) {
+          throw new LinkedInRateLimitError(`LinkedIn daily budget used up until ${block.retryAt.toISOString()}`, block.scope, block.retryAt);
+        }
+
+        // Refresh token if expired (refresh-tokens normally did it days ago)
+        let accessToken: string;
+        try {
+          accessToken = await getFreshAccessToken(account, now);
+        } catch (tokenErr) {
+          const tokenMsg = tokenErr instanceof Error ? tokenErr.message : 'Token refresh failed';
+          await PostService.markFailed(postId, tokenMsg);
+          results.push({ postId, userId, topic, status: 'failed', detail: tokenMsg });
+          continue;
         }
 
+        // Personal profile or a Company Page — throws if the member no
+        // longer administers the page (caught below → markFailed)
+        const authorUrn = resolveAuthorUrn(account, data.authorUrn as string | null);
+
+        // Post's own visibility / resharing, else the profile defaults
+        const audience = resolveAudience({
+          visibility: normalizeVisibility(data.visibility),
+          disableReshare: data.disableReshare as boolean | null,
+          authorUrn,
+        }, profiles.get(userId));
+
         const mediaType = (data.mediaType as PostMediaType) ?? 'text';
         const content = (data.editedContent as string | null)
           ?? (data.content as string);
 
+        // Poll posts never fall back to text-only — an unusable poll fails the post
+        const poll = mediaType === 'poll' ? normalizePoll(data.poll) : null;
+        if (mediaType === 'poll') {
+          const pollError = getPollError(poll);
+          if (pollError) throw new Error(pollError);
+        }
+        const article = mediaType === 'article' ? normalizeArticle(data.article) : null;
+        if (mediaType === 'article') {
+          const articleError = getArticleError(article);
+          if (articleError) throw new Error(articleError);
+        }
+
         // ── Build LinkedIn media assets ──────────────────────────────────
 
         let mediaAssetUrns: string[] | undefined;
         let mediaAssetUrn: string | undefined;
+        let documentUrn: string | undefined;
+        const documentTitle = (data.documentTitle as string | null) || topic;
 
         if (mediaType === 'html') {
           // HTML posts: use pre-captured PNG URLs stored at approval time
           const imageUrls = data.imageUrls as string[] | undefined;
-          if (imageUrls && imageUrls.length > 0) {
+          if (imageUrls && imageUrls.length > 0 && data.carouselFormat === 'document') {
+            // Document carousel — stitch the slides into a PDF
+            const slides: Buffer[] = [];
+            for (const url of imageUrls) {
+              slides.push(await downloadMediaAsBuffer(url));
+            }
+            const pdf = await buildCarouselPdf(slides, documentTitle);
+            ({ documentUrn } = await accountPublisher.uploadDocument(accessToken, authorUrn, pdf));
+          } else if (imageUrls && imageUrls.length > 0) {
             const urns: string[] = [];
             for (const url of imageUrls) {
               const buf = await downloadMediaAsBuffer(url);
-              const { imageUrn } = await uploadImageToLinkedIn(
+              const { imageUrn } = await accountPublisher.uploadImage(
                 accessToken,
-                profile.linkedinMemberUrn,
+                authorUrn,
                 buf,
               );
               urns.push(imageUrn);
@@ -127,49 +253,136 @@ export async function POST(request: NextRequest) {
             mediaAssetUrn = urns.length === 1 ? urns[0] : undefined;
           }
           // If no imageUrls, publish as text-only (HTML wasn't pre-captured)
+        } else if (article?.thumbnailUrl) {
+          // Article thumbnail — publish without it rather than fail the post
+          try {
+            const buf = await downloadPublicMedia(article.thumbnailUrl, MAX_THUMBNAIL_BYTES);
+            const { imageUrn } = await accountPublisher.uploadImage(accessToken, authorUrn, buf);
+            mediaAssetUrn = imageUrn;
+          } catch (thumbErr) {
+            console.warn(`[publish-all] Article thumbnail upload failed for post ${postId}:`, thumbErr);
+          }
+        } else if (mediaType === 'video' && data.mediaUrl) {
+          // Uploaded on an earlier run (or by Post Now) — LinkedIn may still be processing it
+          let videoUrn = data.linkedinMediaAsset as string | null;
+          let uploadedAt = (data.videoUploadedAt as Timestamp | null)?.toDate?.() ?? now;
+          if (!videoUrn) {
+            const buf = await downloadMediaAsBuffer(data.mediaUrl as string);
+            const thumbnailUrl = data.videoThumbnailUrl as string | null;
+            ({ videoUrn } = await accountPublisher.uploadVideo(
+              accessToken,
+              authorUrn,
+              buf,
+              {
+                captionsSrt: (data.videoCaptions as string | null) ?? undefined,
+                thumbnail: thumbnailUrl ? await downloadPublicMedia(thumbnailUrl, MAX_THUMBNAIL_BYTES) : undefined,
+              },
+            ));
+            await PostService.setVideoAsset(postId, videoUrn);
+            uploadedAt = new Date();
+          }
+
+          let videoReady: boolean;
+          try {
+            videoReady = await isVideoReady(accountPublisher, accessToken, videoUrn, uploadedAt);
+          } catch (videoErr) {
+            // Failed or stuck — the next attempt uploads it again
+            if (videoErr instanceof VideoProcessingError) await PostService.setVideoAsset(postId, null);
+            throw videoErr;
+          }
+          if (!videoReady) {
+            const checkAt = new Date(Date.now() + VIDEO_RECHECK_MS);
+            await PostService.deferForVideoProcessing(postId, workerId, checkAt);
+            results.push({ postId, userId, topic, status: 'processing', detail: `LinkedIn is processing the video — checking again at ${checkAt.toISOString()}` });
+            continue;
+          }
+          mediaAssetUrn = videoUrn;
         } else if (data.mediaUrl) {
           const buf = await downloadMediaAsBuffer(data.mediaUrl as string);
           if (mediaType === 'image') {
-            const { imageUrn } = await uploadImageToLinkedIn(
+            const { imageUrn } = await accountPublisher.uploadImage(
               accessToken,
-              profile.linkedinMemberUrn,
+              authorUrn,
               buf,
             );
             mediaAssetUrn = imageUrn;
-          } else if (mediaType === 'video') {
-            const { videoUrn } = await uploadVideoToLinkedIn(
-              accessToken,
-              profile.linkedinMemberUrn,
-              buf,
-            );
-            mediaAssetUrn = videoUrn;
           }
         }
 
         // ── Publish to LinkedIn ──────────────────────────────────────────
 
-        const linkedinPostId = await createLinkedInPost({
+        // Idempotency key goes on the post before LinkedIn is called
+        const attemptKey = await PostService.beginPublishAttempt(postId, workerId);
+        if (!attemptKey.data) {
+          results.push({ postId, userId, topic, status: 'skipped', detail: 'publishing claim lost' });
+          continue;
+        }
+
+        const linkedinPostId = await accountPublisher.createPost({
           accessToken,
-          authorUrn: profile.linkedinMemberUrn,
+          authorUrn,
           text: content,
+          visibility: audience.visibility,
+          disableReshare: audience.disableReshare,
           mediaType,
           mediaAssetUrn: mediaAssetUrns ? mediaAssetUrns[0] : mediaAssetUrn,
           mediaAssetUrns,
+          documentUrn,
+          documentTitle,
+          mediaAltTexts: normalizeAltTexts(data.altTexts) ?? undefined,
+          poll: poll ?? undefined,
+          article: article ?? undefined,
+          articleThumbnailUrn: article ? mediaAssetUrn : undefined,
         });
 
+        publishedUrn = linkedinPostId;
+
         // ── Mark published in Firestore (direct update for speed) ────────
 
         await db.collection(POSTS_COLLECTION).doc(postId).update({
           status: 'published',
+          publishWorkerId: null,
+          publishLeaseExpiresAt: null,
+          publishClaimedFrom: null,
+          nextRetryAt: null,
           linkedinPostId,
           publishedAt: FieldValue.serverTimestamp(),
           updatedAt: FieldValue.serverTimestamp(),
         });
 
+        // ── First comment (failure never un-publishes the post) ──────────
+
+        const firstComment = (data.firstComment as string | null)?.trim();
+        if (firstComment) {
+          try {
+            const commentUrn = await accountPublisher.createComment(accessToken, authorUrn, linkedinPostId, firstComment);
+            await PostService.markFirstCommentPosted(postId, commentUrn);
+          } catch (commentErr) {
+            const commentMsg = commentErr instanceof Error ? commentErr.message : String(commentErr);
+            console.error(`[publish-all] First comment failed for post ${postId}:`, commentErr);
+            await PostService.markFirstCommentFailed(postId, commentMsg).catch(() => null);
+          }
+        }
+
+        // ── Cross-posts (failures stay on their target for a retry) ──────
+
+        if (Array.isArray(data.crossPosts) && data.crossPosts.length > 0) {
+          const livePost = (await PostService.getById(postId)).data;
+          if (livePost) {
+            const outcomes = await publishCrossPosts(livePost, profiles.get(userId) ?? null, audience.visibility);
+            const failed = outcomes.filter(o => o.status === 'failed');
+            if (failed.length > 0) {
+              console.warn(`[publish-all] Post ${postId}: ${failed.length} cross-post(s) failed — ${failed.map(o => o.network).join(', ')}`);
+            }
+          }
+        }
+
         // ── Advance series index ─────────────────────────────────────────
 
+        // Only a post written from the series queue moves it on — an idea
+        // filed under the series has no topicIndex
         const seriesId = data.seriesId as string | null;
-        if (seriesId) {
+        if (seriesId && typeof data.topicIndex === 'number') {
           try {
             const seriesResult = await SeriesService.getById(seriesId);
             if (seriesResult.data) {
@@ -204,7 +417,29 @@ export async function POST(request: NextRequest) {
       } catch (postErr) {
         const msg = postErr instanceof Error ? postErr.message : String(postErr);
         console.error(`[publish-all] Failed to publish post ${postId}:`, postErr);
-        await PostService.markFailed(postId, msg).catch(() => null);
+
+        if (publishedUrn) {
+          // The post is live — only the bookkeeping after it failed
+          await PostService.markPublished(postId, publishedUrn);
+          results.push({ postId, userId, topic, status: 'published', detail: publishedUrn });
+          continue;
+        }
+
+        // Rate limited — nothing went live, so the post waits for the next run
+        if (postErr instanceof LinkedInRateLimitError) {
+          await PostService.releasePublishClaim(postId, workerId);
+          if (postErr.scope === 'app') appLimitedUntil = postErr.retryAt;
+          else if (memberId) limitedMembers.set(memberId, postErr.retryAt);
+          results.push({ postId, userId, topic, status: 'deferred', detail: msg });
+          continue;
+        }
+
+        const outcome = (await PostService.recordPublishFailure(postId, msg, isRetryablePublishError(postErr))).data;
+        if (outcome?.willRetry) {
+          results.push({ postId, userId, topic, status: 'retrying', detail: `${msg} — retry ${outcome.retryCount} at ${outcome.nextRetryAt.toISOString()}` });
+          continue;
+        }
+        if (!outcome) await PostService.markFailed(postId, msg).catch(() => null);
         results.push({ postId, userId, topic, status: 'failed', detail: msg });
 
         // Notify user that publish failed
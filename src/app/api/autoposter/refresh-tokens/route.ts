@@ -0,0 +1,103 @@
+/**
+ * Refresh Tokens — Admin Cron Endpoint
+ *
+ * POST /api/autoposter/refresh-tokens
+ *
+ * Called by the Firebase scheduled function `refreshTokens` (daily).
+ *
+ * Refreshes every connected LinkedIn account whose access token expires
+ * within the next 7 days, so publishing never meets an expired token.
+ * Accounts that can't be refreshed (no refresh token, or LinkedIn refuses
+ * it) are flagged on the profile and the user gets one
+ * `linkedin_token_expiring` push per token, days before it stops working.
+ *
+ * Auth: shared CRON_SECRET secret in `x-cron-secret` header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { LinkedInAccountService } from '@/lib/linkedin/services/linkedin-account.service';
+import { ProfileService } from '@/lib/linkedin/services/profile.service';
+import { sendPushNotification } from '@/lib/linkedin/services/push.service';
+import { refreshAccountToken, tokenExpiresWithin, TOKEN_REFRESH_WINDOW_MS } from '@/lib/linkedin/token-refresh';
+
+export const maxDuration = 120;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+function isAuthorised(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get('x-cron-secret') === secret;
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorised(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const now = new Date();
+  const results: { userId: string; accountId: string; status: string; detail?: string }[] = [];
+
+  try {
+    const profilesResult = await ProfileService.getAllProfiles();
+    if (!profilesResult.success) {
+      console.error('[refresh-tokens] Could not load profiles:', profilesResult.error);
+      return NextResponse.json({ error: 'Could not load profiles', details: profilesResult.error }, { status: 500 });
+    }
+
+    for (const profile of profilesResult.data ?? []) {
+      const userId = profile.userId;
+      if (!userId) continue;
+
+      // Resolving the default migrates a pre-multi-account connection first
+      await LinkedInAccountService.getForPublishing(userId);
+      const accountsResult = await LinkedInAccountService.getAll(userId);
+
+      for (const account of accountsResult.data ?? []) {
+        if (!tokenExpiresWithin(account, TOKEN_REFRESH_WINDOW_MS, now)) continue;
+
+        let refreshError: string;
+        try {
+          await refreshAccountToken(account);
+          results.push({ userId, accountId: account.id, status: 'refreshed' });
+          continue;
+        } catch (err) {
+          refreshError = err instanceof Error ? err.message : String(err);
+          console.error(`[refresh-tokens] Refresh failed for account ${account.id} (user ${userId}):`, err);
+        }
+
+        // Warn once per token — a reconnect or refresh clears tokenExpiryWarnedAt
+        if (account.tokenExpiryWarnedAt) {
+          results.push({ userId, accountId: account.id, status: 'already_warned', detail: refreshError });
+          continue;
+        }
+
+        await LinkedInAccountService.markTokenExpiring(userId, account.id);
+
+        const daysLeft = Math.max(0, Math.ceil((new Date(account.tokenExpiry!).getTime() - now.getTime()) / DAY_MS));
+        const when = daysLeft === 0 ? 'has expired' : `expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+        try {
+          const sent = await sendPushNotification(userId, {
+            type: 'linkedin_token_expiring',
+            title: '🔑 LinkedIn reconnect needed',
+            body: `Your LinkedIn connection for ${account.name} ${when}. Reconnect in Settings to keep posting.`,
+            clickAction: '/settings',
+          });
+          if (!sent) {
+            console.warn(`[refresh-tokens] Expiry notification NOT sent for account ${account.id} (user ${userId}) — FCM token may be missing or invalid`);
+          }
+        } catch (pushErr) {
+          console.error(`[refresh-tokens] Expiry notification error for account ${account.id}:`, pushErr);
+        }
+
+        results.push({ userId, accountId: account.id, status: 'warned', detail: refreshError });
+      }
+    }
+
+    console.log(`[refresh-tokens] Processed ${results.length} expiring accounts`);
+    return NextResponse.json({ success: true, processed: results.length, results });
+  } catch (err) {
+    console.error('[API /autoposter/refresh-tokens]', err);
+    return NextResponse.json({ error: 'Internal error', details: String(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Sync Metrics — Admin Cron Endpoint
+ *
+ * POST /api/autoposter/sync-metrics
+ *
+ * Called by the Firebase scheduled function `syncMetrics` (every 6 hours).
+ *
+ * Fetches impressions, reactions, comments and reshares from LinkedIn for
+ * every post published in the last METRICS_WINDOW_DAYS days and stores a
+ * snapshot in `post_metrics`. Poll posts also get their vote counts
+ * refreshed. Older posts keep their last synced counters.
+ * A failure on one post never affects its status — it's just retried on
+ * the next run.
+ *
+ * Auth: shared CRON_SECRET secret in `x-cron-secret` header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { POSTS_COLLECTION } from '@/lib/linkedin/collections';
+import { LinkedInAccountService } from '@/lib/linkedin/services/linkedin-account.service';
+import { PostMetricsService } from '@/lib/linkedin/services/post-metrics.service';
+import { PostService } from '@/lib/linkedin/services/post.service';
+import { createPublisher } from '@/lib/linkedin/publisher';
+import { getFreshAccessToken } from '@/lib/linkedin/token-refresh';
+import type { LinkedInAccount, PostMetrics } from '@/lib/linkedin/types';
+
+export const maxDuration = 300;
+
+/** Posts older than this stop being synced — engagement has levelled off */
+const METRICS_WINDOW_DAYS = 30;
+
+function isAuthorised(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get('x-cron-secret') === secret;
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorised(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const now = new Date();
+  const since = new Date(now.getTime() - METRICS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const results: { postId: string; userId: string; status: string; detail?: string }[] = [];
+
+  // One account lookup (and token refresh) per user + account, not per post
+  const accounts = new Map<string, { account: LinkedInAccount; accessToken: string } | null>();
+
+  const loadAccount = async (userId: string, accountId: string | null) => {
+    const key = `${userId}:${accountId ?? ''}`;
+    if (accounts.has(key)) return accounts.get(key)!;
+
+    const accountResult = await LinkedInAccountService.getForPublishing(userId, accountId);
+    const account = accountResult.data;
+    let entry: { account: LinkedInAccount; accessToken: string } | null = null;
+
+    if (account) {
+      try {
+        entry = { account, accessToken: await getFreshAccessToken(account, now) };
+      } catch (refreshErr) {
+        console.error(`[sync-metrics] Token refresh failed for user ${userId}:`, refreshErr);
+      }
+    }
+
+    accounts.set(key, entry);
+    return entry;
+  };
+
+  try {
+    const db = getAdminDb();
+    const publisher = createPublisher();
+
+    const snap = await db.collection(POSTS_COLLECTION)
+      .where('status', '==', 'published')
+      .where('publishedAt', '>=', since)
+      .get();
+
+    for (const doc of snap.docs) {
+      const data = doc.data();
+      const postId = doc.id;
+      const userId = data.userId as string;
+      const linkedinPostId = data.linkedinPostId as string | null;
+
+      if (!linkedinPostId) continue;
+
+      try {
+        const entry = await loadAccount(userId, data.linkedinAccountId as string | null);
+        if (!entry) {
+          results.push({ postId, userId, status: 'skipped', detail: 'LinkedIn account not connected or token expired' });
+          continue;
+        }
+
+        const authorUrn = (data.authorUrn as string | null) ?? entry.account.memberUrn;
+        const accountPublisher = publisher.forMember(entry.account.id);
+        const metrics = await accountPublisher.getPostMetrics(entry.accessToken, linkedinPostId, authorUrn);
+
+        const recorded = await PostMetricsService.record({
+          postId,
+          userId,
+          linkedinPostId,
+          previous: data.metrics as PostMetrics | null,
+        }, metrics);
+        if (!recorded.success) throw new Error(recorded.error ?? 'Could not save metrics');
+
+        if (data.mediaType === 'poll') {
+          const pollResults = await accountPublisher.getPollResults(entry.accessToken, linkedinPostId);
+          if (pollResults) {
+            const saved = await PostService.setPollResults(postId, pollResults);
+            if (!saved.success) throw new Error(saved.error ?? 'Could not save poll results');
+          }
+        }
+
+        results.push({ postId, userId, status: 'synced' });
+      } catch (postErr) {
+        const msg = postErr instanceof Error ? postErr.message : String(postErr);
+        console.error(`[sync-metrics] Failed to sync post ${postId}:`, postErr);
+        results.push({ postId, userId, status: 'failed', detail: msg });
+      }
+    }
+
+    console.log(`[sync-metrics] Processed ${results.length} posts`);
+    return NextResponse.json({ success: true, processed: results.length, results });
+  } catch (err) {
+    console.error('[API /autoposter/sync-metrics]', err);
+    return NextResponse.json({ error: 'Internal error', details: String(err) }, { status: 500 });
+  }
+}
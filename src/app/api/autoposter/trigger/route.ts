@@ -20,6 +20,8 @@ import { IdeaService } from '@/lib/linkedin/services/idea.service';
 import { PostService } from '@/lib/linkedin/services/post.service';
 import { TemplateService } from '@/lib/linkedin/services/template.service';
 import { generatePostDraft } from '@/lib/linkedin/services/post-generator.service';
+import { resolveAudience } from '@/lib/linkedin/visibility';
+import { DEFAULT_TIMEZONE, zonedWeekdayName } from '@/lib/linkedin/timezone';
 import type { PostMediaType } from '@/lib/linkedin/types';
 
 export const maxDuration = 300; // 5 minutes — AI generation can be slow
@@ -125,7 +127,7 @@ export async function POST(request: NextRequest) {
 
     const reviewDeadline = new Date(scheduledFor.getTime() - 30 * 60 * 1000); // 30 min before post
 
-    const dayName = scheduledFor.toLocaleDateString('en-US', { weekday: 'long' });
+    const dayName = zonedWeekdayName(scheduledFor, profile.timezone || DEFAULT_TIMEZONE);
 
     // ── Generate draft with AI ───────────────────────────────────────────
 
@@ -145,6 +147,8 @@ export async function POST(request: NextRequest) {
       templateHtml,
       templateDimensions,
       pageCount,
+      // Audience — the profile defaults, which the post also publishes with
+      ...resolveAudience({ authorUrn: series?.authorUrn }, profile),
       // Model control — use profile preferences
       provider: profile.preferredProvider,
       textModel: profile.preferredTextModel,
@@ -168,6 +172,11 @@ export async function POST(request: NextRequest) {
       mediaPrompt: draft.media?.prompt,
       htmlContent: draft.htmlContent,
       pageCount,
+      altTexts: draft.altTexts,
+      poll: draft.poll,
+      // Series may publish with a specific account / as a Company Page
+      linkedinAccountId: series?.linkedinAccountId ?? undefined,
+      authorUrn: series?.authorUrn ?? undefined,
     });
 
     if (!result.success || !result.data) {
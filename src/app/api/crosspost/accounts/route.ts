@@ -0,0 +1,103 @@
+/**
+ * Cross-posting Connections API
+ *
+ * GET    /api/crosspost/accounts           — list connected Mastodon / Bluesky / X accounts (no tokens)
+ * POST   /api/crosspost/accounts           — connect Bluesky with an app password
+ * DELETE /api/crosspost/accounts?network=  — disconnect a network
+ *
+ * Mastodon and X connect through their OAuth flows
+ * (/api/crosspost/mastodon/auth, /api/crosspost/x/auth).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/server';
+import { ProfileService, toCrossPostSummaries } from '@/lib/linkedin/services/profile.service';
+import { getBlueskyConnection } from '@/lib/linkedin/cross-publisher';
+import { normalizeCrossPostNetworks } from '@/lib/linkedin/crosspost';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// GET — List connections
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await ProfileService.get(user.uid);
+    return NextResponse.json({ success: true, data: toCrossPostSummaries(result.data) });
+  } catch (err) {
+    console.error('[API /crosspost/accounts GET]', err);
+    return NextResponse.json({ error: 'Failed to fetch cross-posting accounts' }, { status: 500 });
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST — Connect Bluesky
+//
+// Body: { network: 'bluesky', identifier: string, appPassword: string }
+//   identifier — handle ("me.bsky.social") or account email
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (body.network !== 'bluesky') {
+      return NextResponse.json({ error: 'Only Bluesky connects with an app password' }, { status: 400 });
+    }
+    const identifier = typeof body.identifier === 'string' ? body.identifier.trim().replace(/^@/, '') : '';
+    const appPassword = typeof body.appPassword === 'string' ? body.appPassword.trim() : '';
+    if (!identifier || !appPassword) {
+      return NextResponse.json({ error: 'Missing required fields: identifier, appPassword' }, { status: 400 });
+    }
+
+    let connection;
+    try {
+      connection = await getBlueskyConnection(identifier, appPassword);
+    } catch (signInErr) {
+      console.warn('[API /crosspost/accounts POST] Bluesky sign-in failed:', signInErr);
+      return NextResponse.json({ error: 'Bluesky didn\'t accept that handle and app password' }, { status: 400 });
+    }
+
+    const saved = await ProfileService.setCrossPostConnection(user.uid, connection);
+    if (!saved.success) {
+      return NextResponse.json({ error: saved.error ?? 'Failed to save Bluesky connection' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, message: `Connected ${connection.handle}` });
+  } catch (err) {
+    console.error('[API /crosspost/accounts POST]', err);
+    return NextResponse.json({ error: 'Failed to connect Bluesky' }, { status: 500 });
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DELETE — Disconnect a network
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const network = normalizeCrossPostNetworks([request.nextUrl.searchParams.get('network')])[0];
+    if (!network) {
+      return NextResponse.json({ error: 'network must be mastodon, bluesky or x' }, { status: 400 });
+    }
+
+    await ProfileService.removeCrossPostConnection(user.uid, network);
+    return NextResponse.json({ success: true, message: 'Disconnected' });
+  } catch (err) {
+    console.error('[API /crosspost/accounts DELETE]', err);
+    return NextResponse.json({ error: 'Failed to disconnect' }, { status: 500 });
+  }
+}
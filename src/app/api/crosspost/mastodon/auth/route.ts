@@ -0,0 +1,54 @@
+/**
+ * Mastodon OAuth — Initiate
+ *
+ * GET /api/crosspost/mastodon/auth?instance=mastodon.social
+ *
+ * Registers the app on the user's instance if it hasn't been yet, then
+ * redirects to the instance's consent page. The CSRF `state` and the
+ * instance are kept in httpOnly cookies for the callback.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '@/lib/auth/server';
+import { normalizeMastodonInstance, getMastodonApp, getMastodonAuthUrl } from '@/lib/linkedin/cross-publisher';
+
+const STATE_COOKIE = 'mastodon_oauth_state';
+const INSTANCE_COOKIE = 'mastodon_oauth_instance';
+
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let instanceUrl: string;
+  try {
+    instanceUrl = normalizeMastodonInstance(request.nextUrl.searchParams.get('instance') ?? '');
+  } catch (instanceErr) {
+    return NextResponse.json({ error: instanceErr instanceof Error ? instanceErr.message : 'Invalid server' }, { status: 400 });
+  }
+
+  try {
+    const app = await getMastodonApp(instanceUrl);
+    const state = crypto.randomUUID();
+
+    const cookieStore = await cookies();
+    const cookieOptions = {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax' as const,
+      path: '/',
+      maxAge: 10 * 60,
+    };
+    cookieStore.set(STATE_COOKIE, state, cookieOptions);
+    cookieStore.set(INSTANCE_COOKIE, instanceUrl, cookieOptions);
+
+    return NextResponse.redirect(getMastodonAuthUrl(instanceUrl, app, state));
+  } catch (err) {
+    console.error('[Mastodon OAuth] Could not start the flow:', err);
+    return NextResponse.redirect(
+      new URL('/settings?crosspost=error&network=mastodon&reason=app_registration_failed', request.url),
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Mastodon OAuth — Callback
+ *
+ * GET /api/crosspost/mastodon/callback?code=...&state=...
+ *
+ * Verifies the state, exchanges the code for a token on the instance
+ * chosen in /auth, looks up the account and stores the connection on the
+ * profile. Mastodon tokens don't expire.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '@/lib/auth/server';
+import { getMastodonApp, exchangeMastodonCode, getMastodonConnection } from '@/lib/linkedin/cross-publisher';
+import { ProfileService } from '@/lib/linkedin/services/profile.service';
+
+const STATE_COOKIE = 'mastodon_oauth_state';
+const INSTANCE_COOKIE = 'mastodon_oauth_instance';
+
+function settingsRedirect(request: NextRequest, result: string) {
+  return NextResponse.redirect(new URL(`/settings?crosspost=${result}&network=mastodon`, request.url));
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.redirect(new URL('/login', request.url));
+    }
+
+    const code = request.nextUrl.searchParams.get('code');
+    const state = request.nextUrl.searchParams.get('state');
+    const error = request.nextUrl.searchParams.get('error');
+
+    if (error) {
+      console.error('[Mastodon OAuth] Error from instance:', error);
+      return settingsRedirect(request, `error&reason=${encodeURIComponent(error)}`);
+    }
+    if (!code || !state) {
+      return settingsRedirect(request, 'error&reason=missing_params');
+    }
+
+    // Verify CSRF state
+    const cookieStore = await cookies();
+    const storedState = cookieStore.get(STATE_COOKIE)?.value;
+    const instanceUrl = cookieStore.get(INSTANCE_COOKIE)?.value;
+    cookieStore.delete(STATE_COOKIE);
+    cookieStore.delete(INSTANCE_COOKIE);
+
+    if (!storedState || storedState !== state || !instanceUrl) {
+      return settingsRedirect(request, 'error&reason=state_mismatch');
+    }
+
+    const app = await getMastodonApp(instanceUrl);
+    const accessToken = await exchangeMastodonCode(instanceUrl, app, code);
+    const connection = await getMastodonConnection(instanceUrl, accessToken);
+
+    const saved = await ProfileService.setCrossPostConnection(user.uid, connection);
+    if (!saved.success) {
+      throw new Error(saved.error ?? 'Failed to save Mastodon connection');
+    }
+
+    return settingsRedirect(request, 'connected');
+  } catch (err) {
+    console.error('[Mastodon OAuth] Callback error:', err);
+    return settingsRedirect(request, 'error&reason=token_exchange_failed');
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * X OAuth — Initiate
+ *
+ * GET /api/crosspost/x/auth
+ *
+ * Redirects to X's consent page with a PKCE challenge. The CSRF `state`
+ * and the PKCE verifier are kept in httpOnly cookies for the callback.
+ */
+
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '@/lib/auth/server';
+import { getXAuthUrl } from '@/lib/linkedin/cross-publisher';
+import { createPkcePair, OAUTH_STATE_TTL_SECONDS } from '@/lib/linkedin/oauth-state';
+
+const STATE_COOKIE = 'x_oauth_state';
+const VERIFIER_COOKIE = 'x_oauth_verifier';
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const state = crypto.randomUUID();
+  const { verifier, challenge } = createPkcePair();
+
+  const cookieStore = await cookies();
+  const cookieOptions = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge: OAUTH_STATE_TTL_SECONDS,
+  };
+  cookieStore.set(STATE_COOKIE, state, cookieOptions);
+  cookieStore.set(VERIFIER_COOKIE, verifier, cookieOptions);
+
+  return NextResponse.redirect(getXAuthUrl(state, challenge));
+}
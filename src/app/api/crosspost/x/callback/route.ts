@@ -0,0 +1,67 @@
+/**
+ * X OAuth — Callback
+ *
+ * GET /api/crosspost/x/callback?code=...&state=...
+ *
+ * Verifies the state, exchanges the code (with the PKCE verifier) for
+ * tokens, looks up the account and stores the connection on the profile.
+ * Publishing refreshes the two-hour access token as needed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '@/lib/auth/server';
+import { exchangeXCode, getXConnection } from '@/lib/linkedin/cross-publisher';
+import { ProfileService } from '@/lib/linkedin/services/profile.service';
+
+const STATE_COOKIE = 'x_oauth_state';
+const VERIFIER_COOKIE = 'x_oauth_verifier';
+
+function settingsRedirect(request: NextRequest, result: string) {
+  return NextResponse.redirect(new URL(`/settings?crosspost=${result}&network=x`, request.url));
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.redirect(new URL('/login', request.url));
+    }
+
+    const code = request.nextUrl.searchParams.get('code');
+    const state = request.nextUrl.searchParams.get('state');
+    const error = request.nextUrl.searchParams.get('error');
+
+    if (error) {
+      console.error('[X OAuth] Error from X:', error);
+      return settingsRedirect(request, `error&reason=${encodeURIComponent(error)}`);
+    }
+    if (!code || !state) {
+      return settingsRedirect(request, 'error&reason=missing_params');
+    }
+
+    // Verify CSRF state
+    const cookieStore = await cookies();
+    const storedState = cookieStore.get(STATE_COOKIE)?.value;
+    const verifier = cookieStore.get(VERIFIER_COOKIE)?.value;
+    cookieStore.delete(STATE_COOKIE);
+    cookieStore.delete(VERIFIER_COOKIE);
+
+    if (!storedState || storedState !== state || !verifier) {
+      return settingsRedirect(request, 'error&reason=state_mismatch');
+    }
+
+    const tokens = await exchangeXCode(code, verifier);
+    const connection = await getXConnection(tokens);
+
+    const saved = await ProfileService.setCrossPostConnection(user.uid, connection);
+    if (!saved.success) {
+      throw new Error(saved.error ?? 'Failed to save X connection');
+    }
+
+    return settingsRedirect(request, 'connected');
+  } catch (err) {
+    console.error('[X OAuth] Callback error:', err);
+    return settingsRedirect(request, 'error&reason=token_exchange_failed');
+  }
+}
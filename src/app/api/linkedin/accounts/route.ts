@@ -0,0 +1,121 @@
+/**
+ * Connected LinkedIn Accounts API
+ *
+ * GET    /api/linkedin/accounts      — list connected accounts (no tokens, with today's API usage)
+ * PATCH  /api/linkedin/accounts      — make an account the default
+ * DELETE /api/linkedin/accounts?id=  — disconnect an account
+ *
+ * New accounts are added through the OAuth flow (/api/linkedin/auth).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/server';
+import { ProfileService } from '@/lib/linkedin/services/profile.service';
+import {
+  LinkedInAccountService,
+  toAccountSummary,
+} from '@/lib/linkedin/services/linkedin-account.service';
+import { LinkedInRateLimitService } from '@/lib/linkedin/services/linkedin-rate-limit.service';
+import { ConnectionAuditService, auditRequestInfo } from '@/lib/linkedin/services/connection-audit.service';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// GET — List accounts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Resolving the default also migrates a pre-multi-account connection
+    const defaultResult = await LinkedInAccountService.getForPublishing(user.uid);
+    const result = await LinkedInAccountService.getAll(user.uid);
+
+    const defaultId = defaultResult.data?.id;
+    const accounts = await Promise.all((result.data ?? []).map(async (a) => ({
+      ...toAccountSummary(a, defaultId),
+      apiUsage: (await LinkedInRateLimitService.getUsage(a.id)).data ?? undefined,
+    })));
+
+    return NextResponse.json({ success: true, data: accounts });
+  } catch (err) {
+    console.error('[API /linkedin/accounts GET]', err);
+    return NextResponse.json({ error: 'Failed to fetch LinkedIn accounts' }, { status: 500 });
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PATCH — Set default account
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { accountId } = await request.json();
+    if (!accountId || typeof accountId !== 'string') {
+      return NextResponse.json({ error: 'Missing accountId' }, { status: 400 });
+    }
+
+    const accountResult = await LinkedInAccountService.getById(user.uid, accountId);
+    if (!accountResult.data) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    await ProfileService.setDefaultLinkedInAccount(user.uid, accountId);
+    return NextResponse.json({ success: true, message: 'Default account updated' });
+  } catch (err) {
+    console.error('[API /linkedin/accounts PATCH]', err);
+    return NextResponse.json({ error: 'Failed to update default account' }, { status: 500 });
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DELETE — Disconnect account
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const accountId = request.nextUrl.searchParams.get('id');
+    if (!accountId) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    }
+
+    const accountResult = await LinkedInAccountService.getById(user.uid, accountId);
+    if (!accountResult.data) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    await LinkedInAccountService.remove(user.uid, accountId);
+
+    const audited = await ConnectionAuditService.record(user.uid, 'disconnected', { accountId, ...auditRequestInfo(request) });
+    if (!audited.success) console.error('[API /linkedin/accounts DELETE] Audit event not recorded:', audited.error);
+
+    // Hand the default over to the oldest remaining account (or none)
+    const profileResult = await ProfileService.get(user.uid);
+    if (profileResult.data?.defaultLinkedinAccountId === accountId) {
+      const remaining = await LinkedInAccountService.getAll(user.uid);
+      const nextDefault = remaining.data?.[0]?.id ?? null;
+      if (nextDefault) {
+        await ProfileService.setDefaultLinkedInAccount(user.uid, nextDefault);
+      } else {
+        await ProfileService.disconnectLinkedIn(user.uid);
+      }
+    }
+
+    return NextResponse.json({ success: true, message: 'Account disconnected' });
+  } catch (err) {
+    console.error('[API /linkedin/accounts DELETE]', err);
+    return NextResponse.json({ error: 'Failed to disconnect account' }, { status: 500 });
+  }
+}
@@ -3,38 +3,48 @@
  *
  * GET /api/linkedin/auth
  *
- * Redirects the browser to LinkedIn's OAuth consent page.
- * Stores a CSRF `state` token in a httpOnly cookie so we can verify
- * it in the callback.
+ * Redirects the browser to LinkedIn's OAuth consent page with a PKCE
+ * challenge. The signed `state` (bound to the signed-in user) and the
+ * PKCE verifier are kept in httpOnly cookies so the callback can verify
+ * them.
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { getLinkedInAuthUrl } from '@/lib/linkedin/linkedin-oauth';
+import { createPublisher } from '@/lib/linkedin/publisher';
+import { createOAuthState, createPkcePair, OAUTH_STATE_TTL_SECONDS } from '@/lib/linkedin/oauth-state';
+import { ConnectionAuditService, auditRequestInfo } from '@/lib/linkedin/services/connection-audit.service';
 import { getCurrentUser } from '@/lib/auth/server';
 
 const STATE_COOKIE = 'linkedin_oauth_state';
+const VERIFIER_COOKIE = 'linkedin_oauth_verifier';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   // Must be authenticated
   const user = await getCurrentUser();
   if (!user) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  // Generate a random state parameter for CSRF protection
-  const state = crypto.randomUUID();
+  // Signed state for CSRF protection, bound to this user
+  const state = createOAuthState(user.uid);
+  const { verifier, challenge } = createPkcePair();
 
-  // Store state in httpOnly cookie (expires in 10 minutes)
+  // Store both in httpOnly cookies (expire with the state)
   const cookieStore = await cookies();
-  cookieStore.set(STATE_COOKIE, state, {
+  const cookieOptions = {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
+    sameSite: 'lax' as const,
     path: '/',
-    maxAge: 10 * 60,
-  });
+    maxAge: OAUTH_STATE_TTL_SECONDS,
+  };
+  cookieStore.set(STATE_COOKIE, state, cookieOptions);
+  cookieStore.set(VERIFIER_COOKIE, verifier, cookieOptions);
 
-  const authUrl = getLinkedInAuthUrl(state);
-  return NextResponse.redirect(authUrl);
+  const audited = await ConnectionAuditService.record(user.uid, 'connect_started', auditRequestInfo(request));
+  if (!audited.success) console.error('[LinkedIn OAuth] Audit event not recorded:', audited.error);
+
+  const authUrl = createPublisher().getAuthUrl(state, challenge);
+  return NextResponse.redirect(new URL(authUrl, request.url));
 }
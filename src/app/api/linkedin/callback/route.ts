@@ -4,26 +4,44 @@
  * GET /api/linkedin/callback?code=...&state=...
  *
  * LinkedIn redirects here after the user grants permission.
- * We verify the state, exchange the code for tokens, fetch the user's
- * profile, and store everything in Firestore.
+ * We verify the state (signed, unexpired, started by this same user),
+ * exchange the code plus PKCE verifier for tokens, fetch the user's
+ * profile + administered Company Pages, and store everything in Firestore.
+ * Every outcome is recorded in the connection audit trail.
+ *
+ * Each LinkedIn member becomes its own `linkedin_accounts` doc, so
+ * connecting a second account adds to — rather than replaces — the first.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { getCurrentUser } from '@/lib/auth/server';
-import { exchangeCodeForTokens, getLinkedInProfile } from '@/lib/linkedin/linkedin-oauth';
+import { verifyOAuthState } from '@/lib/linkedin/oauth-state';
+import { createPublisher } from '@/lib/linkedin/publisher';
 import { ProfileService } from '@/lib/linkedin/services/profile.service';
+import { LinkedInAccountService } from '@/lib/linkedin/services/linkedin-account.service';
+import { ConnectionAuditService, auditRequestInfo } from '@/lib/linkedin/services/connection-audit.service';
 
 const STATE_COOKIE = 'linkedin_oauth_state';
+const VERIFIER_COOKIE = 'linkedin_oauth_verifier';
 
 export async function GET(request: NextRequest) {
-  try {
-    // 1. Must be authenticated
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.redirect(new URL('/login', request.url));
-    }
+  // 1. Must be authenticated
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.redirect(new URL('/login', request.url));
+  }
+
+  const requestInfo = auditRequestInfo(request);
+  const fail = async (reason: string) => {
+    const audited = await ConnectionAuditService.record(user.uid, 'connect_failed', { reason, ...requestInfo });
+    if (!audited.success) console.error('[LinkedIn OAuth] Audit event not recorded:', audited.error);
+    return NextResponse.redirect(
+      new URL('/dashboard?linkedin=error&reason=' + encodeURIComponent(reason), request.url),
+    );
+  };
 
+  try {
     // 2. Extract params
     const code = request.nextUrl.searchParams.get('code');
     const state = request.nextUrl.searchParams.get('state');
@@ -31,50 +49,80 @@ export async function GET(request: NextRequest) {
 
     if (error) {
       console.error('[LinkedIn OAuth] Error from LinkedIn:', error);
-      return NextResponse.redirect(
-        new URL('/dashboard?linkedin=error&reason=' + encodeURIComponent(error), request.url),
-      );
+      return fail(error);
     }
 
     if (!code || !state) {
-      return NextResponse.redirect(
-        new URL('/dashboard?linkedin=error&reason=missing_params', request.url),
-      );
+      return fail('missing_params');
     }
 
-    // 3. Verify CSRF state
+    // 3. Verify CSRF state — the cookie must match, and the signed state
+    //    must be unexpired and belong to the user signed in now
     const cookieStore = await cookies();
     const storedState = cookieStore.get(STATE_COOKIE)?.value;
+    const codeVerifier = cookieStore.get(VERIFIER_COOKIE)?.value;
     cookieStore.delete(STATE_COOKIE);
+    cookieStore.delete(VERIFIER_COOKIE);
 
-    if (!storedState || storedState !== state) {
-      return NextResponse.redirect(
-        new URL('/dashboard?linkedin=error&reason=state_mismatch', request.url),
-      );
+    if (!storedState || storedState !== state || !codeVerifier) {
+      return fail('state_mismatch');
+    }
+    const stateError = verifyOAuthState(state, user.uid);
+    if (stateError) {
+      console.warn(`[LinkedIn OAuth] Rejected state for user ${user.uid}: ${stateError}`);
+      return fail(stateError);
     }
 
-    // 4. Exchange code for tokens
-    const tokens = await exchangeCodeForTokens(code);
+    // 4. Exchange code (+ PKCE verifier) for tokens
+    const publisher = createPublisher();
+    const tokens = await publisher.exchangeCode(code, codeVerifier);
 
     // 5. Fetch LinkedIn profile (we need the member URN for posting)
-    const profile = await getLinkedInProfile(tokens.accessToken);
+    const profile = await publisher.getProfile(tokens.accessToken);
+
+    // 6. Store as a connected account (doc ID = member sub). A connection
+    //    from before multi-account support is migrated first so it isn't
+    //    orphaned — and so it can't overwrite these fresher tokens.
+    const existingDefault = await LinkedInAccountService.getForPublishing(user.uid);
 
-    // 6. Store in Firestore
-    await ProfileService.setLinkedInTokens(user.uid, {
+    const accountId = profile.sub;
+    const saved = await LinkedInAccountService.upsert(user.uid, {
+      accountId,
+      memberUrn: `urn:li:person:${profile.sub}`,
+      name: profile.name,
+      email: profile.email,
+      pictureUrl: profile.picture,
       accessToken: tokens.accessToken,
       refreshToken: tokens.refreshToken,
       expiresIn: tokens.expiresIn,
-      memberUrn: `urn:li:person:${profile.sub}`,
     });
+    if (!saved.success) {
+      throw new Error(saved.error ?? 'Failed to save LinkedIn account');
+    }
+
+    // First connected account becomes the default
+    if (!existingDefault.data) {
+      await ProfileService.setDefaultLinkedInAccount(user.uid, accountId);
+    }
 
-    // 7. Redirect to dashboard with success indicator
+    // 7. Cache Company Pages the member can post as — non-fatal, the
+    //    personal profile still works if the org scopes weren't granted
+    try {
+      const organizations = await publisher.forMember(accountId).getOrganizations(tokens.accessToken);
+      await LinkedInAccountService.setOrganizations(user.uid, accountId, organizations);
+    } catch (orgErr) {
+      console.warn('[LinkedIn OAuth] Could not fetch organizations:', orgErr);
+    }
+
+    const audited = await ConnectionAuditService.record(user.uid, 'connected', { accountId, ...requestInfo });
+    if (!audited.success) console.error('[LinkedIn OAuth] Audit event not recorded:', audited.error);
+
+    // 8. Redirect to dashboard with success indicator
     return NextResponse.redirect(
       new URL('/dashboard?linkedin=connected', request.url),
     );
   } catch (err) {
     console.error('[LinkedIn OAuth] Callback error:', err);
-    return NextResponse.redirect(
-      new URL('/dashboard?linkedin=error&reason=token_exchange_failed', request.url),
-    );
+    return fail('token_exchange_failed');
   }
 }
@@ -0,0 +1,60 @@
+/**
+ * Mention Lookup API
+ *
+ * GET /api/linkedin/mentions?q=<company URL | vanity name>&accountId=
+ *
+ * Resolves a Company Page to the organization URN needed for an
+ * @[Name](urn:li:organization:…) mention token. LinkedIn has no member
+ * search for apps, so person mentions are entered with their
+ * urn:li:person:… directly in the editor and never hit this route.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/server';
+import { LinkedInAccountService } from '@/lib/linkedin/services/linkedin-account.service';
+import { createPublisher } from '@/lib/linkedin/publisher';
+
+/** "https://www.linkedin.com/company/acme-inc/about" → "acme-inc" */
+function toVanityName(query: string): string | null {
+  const fromUrl = query.match(/linkedin\.com\/company\/([^/?#]+)/i);
+  const vanity = fromUrl ? decodeURIComponent(fromUrl[1]) : query;
+  return /^[\w-]+$/.test(vanity) ? vanity : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const query = request.nextUrl.searchParams.get('q')?.trim() ?? '';
+    const vanityName = toVanityName(query);
+    if (!vanityName) {
+      return NextResponse.json(
+        { error: 'Enter a LinkedIn company page URL or its vanity name' },
+        { status: 400 },
+      );
+    }
+
+    const accountId = request.nextUrl.searchParams.get('accountId');
+    const accountResult = await LinkedInAccountService.getForPublishing(user.uid, accountId);
+    if (!accountResult.data) {
+      return NextResponse.json(
+        { error: 'LinkedIn not connected. Go to Settings to connect your account.' },
+        { status: 400 },
+      );
+    }
+
+    const { id: memberId, accessToken } = accountResult.data;
+    const organization = await createPublisher().forMember(memberId).findOrganization(accessToken, vanityName);
+    if (!organization) {
+      return NextResponse.json({ error: `No company page found for "${vanityName}"` }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: organization });
+  } catch (err) {
+    console.error('[API /linkedin/mentions GET]', err);
+    return NextResponse.json({ error: 'Failed to look up company page' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Link Preview API
+ *
+ * GET /api/posts/link-preview?url=
+ *
+ * Reads the page's OpenGraph tags and returns them as an article card
+ * ({ source, title, description?, thumbnailUrl? }) for 'article' posts.
+ * The editor lets the user override every field afterwards.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/server';
+import { fetchLinkPreview } from '@/lib/linkedin/link-preview';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const url = request.nextUrl.searchParams.get('url')?.trim();
+    if (!url) {
+      return NextResponse.json({ error: 'Missing required query param: url' }, { status: 400 });
+    }
+
+    try {
+      const preview = await fetchLinkPreview(url);
+      return NextResponse.json({ success: true, data: preview });
+    } catch (previewErr) {
+      // Bad URL, unreachable page, not HTML — the user can still fill it in by hand
+      const message = previewErr instanceof Error && previewErr.name !== 'TimeoutError'
+        ? previewErr.message
+        : 'The page took too long to respond';
+      return NextResponse.json({ error: message }, { status: 422 });
+    }
+  } catch (err) {
+    console.error('[API /posts/link-preview GET]', err);
+    return NextResponse.json({ error: 'Failed to load link preview' }, { status: 500 });
+  }
+}
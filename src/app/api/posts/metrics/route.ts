@@ -0,0 +1,39 @@
+/**
+ * Post Metrics API — engagement history of a published post
+ *
+ * GET /api/posts/metrics?postId=  — snapshots, oldest first
+ *
+ * Snapshots are written by the `syncMetrics` cron (/api/autoposter/sync-metrics).
+ * The latest counters are also on the post itself (`metrics`, `previousMetrics`).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/server';
+import { PostService } from '@/lib/linkedin/services/post.service';
+import { PostMetricsService } from '@/lib/linkedin/services/post-metrics.service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const postId = request.nextUrl.searchParams.get('postId');
+    if (!postId) {
+      return NextResponse.json({ error: 'Missing required query param: postId' }, { status: 400 });
+    }
+
+    // Verify ownership
+    const postResult = await PostService.getById(postId);
+    if (!postResult.data || postResult.data.userId !== user.uid) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const result = await PostMetricsService.getByPost(postId);
+    return NextResponse.json({ success: true, data: result.data ?? [] });
+  } catch (err) {
+    console.error('[API /posts/metrics GET]', err);
+    return NextResponse.json({ error: 'Failed to fetch post metrics' }, { status: 500 });
+  }
+}
@@ -4,8 +4,13 @@
  * POST  /api/posts — generate AI content (instant or scheduled mode)
  * GET   /api/posts — list user's posts
  * PATCH /api/posts — approve / reject / edit / retry / regenerate / publish
+ *                    (publish also posts the optional first comment;
+ *                    edit + publish accept poll / article / video extras / alt text changes)
+ *                    + edit-live / delete-live for posts already on LinkedIn
+ *                    + retry-crosspost for Mastodon / Bluesky / X copies
  */
 
+import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/server';
 
@@ -15,17 +20,45 @@ import { PostService } from '@/lib/linkedin/services/post.service';
 import { SeriesService } from '@/lib/linkedin/services/series.service';
 import { IdeaService } from '@/lib/linkedin/services/idea.service';
 import { ProfileService } from '@/lib/linkedin/services/profile.service';
+import { LinkedInAccountService } from '@/lib/linkedin/services/linkedin-account.service';
+import { LinkedInRateLimitService } from '@/lib/linkedin/services/linkedin-rate-limit.service';
+import { PostMetricsService } from '@/lib/linkedin/services/post-metrics.service';
 import { TemplateService } from '@/lib/linkedin/services/template.service';
-import { generatePostDraft, regeneratePostDraft } from '@/lib/linkedin/services/post-generator.service';
+import { generatePostDraft, regeneratePostDraft, generateCrossPostDrafts } from '@/lib/linkedin/services/post-generator.service';
 import { sendPushNotification } from '@/lib/linkedin/services/push.service';
 import {
-  createLinkedInPost,
-  uploadImageToLinkedIn,
-  uploadVideoToLinkedIn,
+  resolveAuthorUrn,
+  isOrganizationUrn,
   downloadMediaAsBuffer,
 } from '@/lib/linkedin/linkedin-oauth';
 import { uploadMediaToStorage } from '@/lib/firebase/services/media-storage.service';
-import type { PostMediaType } from '@/lib/linkedin/types';
+import { buildCarouselPdf } from '@/lib/linkedin/carousel-pdf';
+import { POLL_DURATIONS, normalizePoll, getPollError } from '@/lib/linkedin/poll';
+import { normalizeArticle, getArticleError } from '@/lib/linkedin/article';
+import { normalizeCaptions, getCaptionsError, getVideoThumbnailError } from '@/lib/linkedin/video';
+import { normalizeAltTexts } from '@/lib/linkedin/alt-text';
+import { normalizeVisibility, getVisibilityError, resolveAudience } from '@/lib/linkedin/visibility';
+import {
+  CROSS_POST_NETWORK_LABELS,
+  normalizeCrossPostNetworks,
+  normalizeCrossPostEdits,
+  mergeCrossPostTargets,
+  newCrossPostTargets,
+  getCrossPostError,
+  getCrossPostAudienceError,
+} from '@/lib/linkedin/crosspost';
+import { publishCrossPosts, type CrossPostOutcome } from '@/lib/linkedin/crosspost-fanout';
+import { isRetryablePublishError, getMaxPublishRetries } from '@/lib/linkedin/publish-retry';
+import { fetchLinkPreview } from '@/lib/linkedin/link-preview';
+import { MAX_THUMBNAIL_BYTES, downloadPublicMedia } from '@/lib/linkedin/safe-fetch';
+import { VIDEO_RECHECK_MS, VideoProcessingError, waitForVideo } from '@/lib/linkedin/video-processing';
+import { LinkedInRateLimitError } from '@/lib/linkedin/linkedin-client';
+import { createPublisher } from '@/lib/linkedin/publisher';
+import { getFreshAccessToken } from '@/lib/linkedin/token-refresh';
+import { DEFAULT_TIMEZONE, zonedWeekdayName } from '@/lib/linkedin/timezone';
+import type {
+  AutoposterProfile, CarouselFormat, CrossPostTarget, PollDuration, PostArticle, PostMediaType, PostPoll, PostVisibility,
+} from '@/lib/linkedin/types';
 
 // ── Validation constants ─────────────────────────────────────────────────────
 
@@ -33,6 +66,27 @@ const VALID_PROVIDERS = ['gemini', 'kieai'] as const;
 const VALID_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4', '4:5', '5:4', '2:3', '3:2', '21:9'];
 const VALID_IMAGE_SIZES = ['1K', '2K', '4K'];
 const VALID_VIDEO_RESOLUTIONS = ['720p', '1080p', '4k'];
+const VALID_CAROUSEL_FORMATS = ['document', 'multi_image'];
+
+/**
+ * Why one of the unpublished `targets` can't go out — its network isn't
+ * connected, can't take the audience, or its rewrite is too long.
+ */
+function getCrossPostTargetsError(
+  targets: CrossPostTarget[],
+  profile: AutoposterProfile | null | undefined,
+  visibility: PostVisibility,
+): string | null {
+  for (const { network, content, status } of targets) {
+    if (status === 'published' || status === 'publishing') continue;
+    if (!profile?.crossPostConnections?.[network]) {
+      return `${CROSS_POST_NETWORK_LABELS[network]} isn't connected — connect it in Settings`;
+    }
+    const targetError = getCrossPostAudienceError(network, visibility) ?? (content ? getCrossPostError(content, network) : null);
+    if (targetError) return targetError;
+  }
+  return null;
+}
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // POST — Generate AI content
@@ -40,9 +94,14 @@ const VALID_VIDEO_RESOLUTIONS = ['720p', '1080p', '4k'];
 // Body:
 //   mode: 'instant' | 'scheduled'  (default 'scheduled')
 //   topic: string (required)
-//   mediaType: 'text' | 'image' | 'video' | 'html'  (default 'text')
+//   mediaType: 'text' | 'image' | 'video' | 'html' | 'poll' | 'article'  (default 'text')
 //   notes?: string
 //   seriesId?: string
+//   linkedinAccountId?: string | null  (omitted = series account, null = profile default)
+//   authorUrn?: string | null  ("urn:li:organization:..." — omitted = series author, null = personal)
+//   visibility?: 'PUBLIC' | 'CONNECTIONS'  (omitted = profile default)
+//   disableReshare?: boolean               (omitted = profile default)
+//   crossPostNetworks?: ('mastodon' | 'bluesky' | 'x')[]  (connected networks — the AI rewrites for each)
 //
 //   -- Model control (all optional, defaults to env config) --
 //   provider?: 'gemini' | 'kieai'
@@ -60,6 +119,18 @@ const VALID_VIDEO_RESOLUTIONS = ['720p', '1080p', '4k'];
 //   videoResolution?: '720p' | '1080p' | '4k'
 //   negativePrompt?: string
 //
+//   -- HTML carousel (optional) --
+//   carouselFormat?: 'document' | 'multi_image'
+//   documentTitle?: string  (shown above document carousels — defaults to topic)
+//
+//   -- Poll (optional) --
+//   pollDuration?: 'ONE_DAY' | 'THREE_DAYS' | 'SEVEN_DAYS' | 'FOURTEEN_DAYS'
+//                  (question + options are proposed by the AI)
+//
+//   -- Article (required for mediaType 'article') --
+//   article: { source, title?, description?, thumbnailUrl? }
+//            (missing fields are filled from the page's OpenGraph tags)
+//
 //   -- Scheduled mode only --
 //   scheduledFor: ISO string (required)
 //   reviewDeadline: ISO string (required)
@@ -131,6 +202,37 @@ export async function POST(request: NextRequest) {
       ? Math.max(1, Math.min(9, Math.floor(body.pageCount)))
       : 1;
 
+    const carouselFormat: CarouselFormat | undefined = mediaType === 'html' && VALID_CAROUSEL_FORMATS.includes(body.carouselFormat)
+      ? body.carouselFormat
+      : undefined;
+    const documentTitle = typeof body.documentTitle === 'string'
+      ? body.documentTitle.trim().slice(0, 200) || undefined
+      : undefined;
+
+    const pollDuration: PollDuration | undefined = mediaType === 'poll' && POLL_DURATIONS.includes(body.pollDuration)
+      ? body.pollDuration
+      : undefined;
+
+    // ── Validate article link ────────────────────────────────────────────────
+
+    let article: PostArticle | undefined;
+    if (mediaType === 'article') {
+      article = normalizeArticle(body.article) ?? undefined;
+      if (article && !article.title) {
+        // Only the URL was given — fill the rest from OpenGraph, keeping user values
+        try {
+          const preview = await fetchLinkPreview(article.source);
+          article = { ...preview, ...article, title: preview.title };
+        } catch (previewErr) {
+          console.warn('[API /posts POST] Link preview failed:', previewErr);
+        }
+      }
+      const articleError = getArticleError(article);
+      if (articleError) {
+        return NextResponse.json({ error: articleError }, { status: 400 });
+      }
+    }
+
     // ── Get profile & series context ─────────────────────────────────────────
 
     const profileResult = await ProfileService.get(user.uid);
@@ -139,12 +241,16 @@ export async function POST(request: NextRequest) {
     let seriesTitle: string | undefined;
     let previousPostSummary: string | undefined;
     let topicIndex: number | undefined;
+    let seriesAccountId: string | undefined;
+    let seriesAuthorUrn: string | undefined;
 
     if (seriesId) {
       const seriesResult = await SeriesService.getById(seriesId);
       if (seriesResult.data) {
         seriesTitle = seriesResult.data.title;
         topicIndex = seriesResult.data.currentIndex;
+        seriesAccountId = seriesResult.data.linkedinAccountId ?? undefined;
+        seriesAuthorUrn = seriesResult.data.authorUrn ?? undefined;
       }
 
       const lastPostResult = await PostService.getLastPublishedInSeries(user.uid, seriesId);
@@ -153,6 +259,53 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // ── Resolve LinkedIn account + author (personal or Company Page) ───────
+
+    // Explicit null overrides the series default (→ profile default / personal)
+    const linkedinAccountId = body.linkedinAccountId !== undefined
+      ? (typeof body.linkedinAccountId === 'string' && body.linkedinAccountId ? body.linkedinAccountId : undefined)
+      : seriesAccountId;
+    const authorUrn = body.authorUrn !== undefined
+      ? (isOrganizationUrn(body.authorUrn) ? body.authorUrn : undefined)
+      : seriesAuthorUrn;
+
+    if (linkedinAccountId || authorUrn) {
+      const accountResult = await LinkedInAccountService.getForPublishing(user.uid, linkedinAccountId);
+      if (!accountResult.data) {
+        return NextResponse.json({ error: 'Selected LinkedIn account is not connected' }, { status: 400 });
+      }
+      if (authorUrn && !accountResult.data.organizations.some(o => o.urn === authorUrn)) {
+        return NextResponse.json(
+          { error: 'You are not an administrator of the selected Company Page' },
+          { status: 400 },
+        );
+      }
+    }
+
+    // ── Audience (visibility + resharing) ────────────────────────────────────
+
+    let visibility: PostVisibility | undefined;
+    if (body.visibility !== undefined && body.visibility !== null) {
+      visibility = normalizeVisibility(body.visibility) ?? undefined;
+      if (!visibility) {
+        return NextResponse.json({ error: 'visibility must be PUBLIC or CONNECTIONS' }, { status: 400 });
+      }
+      const visibilityError = getVisibilityError(visibility, authorUrn);
+      if (visibilityError) {
+        return NextResponse.json({ error: visibilityError }, { status: 400 });
+      }
+    }
+    const disableReshare = typeof body.disableReshare === 'boolean' ? body.disableReshare : undefined;
+    const audience = resolveAudience({ visibility, disableReshare, authorUrn }, profile);
+
+    // ── Cross-posting (Mastodon / Bluesky / X) ───────────────────────────────
+
+    const crossPostNetworks = normalizeCrossPostNetworks(body.crossPostNetworks);
+    const crossPostError = getCrossPostTargetsError(newCrossPostTargets(crossPostNetworks), profile, audience.visibility);
+    if (crossPostError) {
+      return NextResponse.json({ error: crossPostError }, { status: 400 });
+    }
+
     // ── Determine schedule times ─────────────────────────────────────────────
 
     const now = new Date();
@@ -182,7 +335,7 @@ export async function POST(request: NextRequest) {
 
     // ── Generate draft with AI ───────────────────────────────────────────────
 
-    const dayName = scheduledFor.toLocaleDateString('en-US', { weekday: 'long' });
+    const dayName = zonedWeekdayName(scheduledFor, profile?.timezone || DEFAULT_TIMEZONE);
     const draft = await generatePostDraft({
       userId: user.uid,
       topic,
@@ -198,6 +351,12 @@ export async function POST(request: NextRequest) {
       templateDimensions,
       // Page count (HTML carousel)
       pageCount,
+      pollDuration,
+      article,
+      // Audience
+      visibility: audience.visibility,
+      disableReshare: audience.disableReshare,
+      crossPostNetworks,
       // Model control
       provider,
       textModel,
@@ -231,6 +390,16 @@ export async function POST(request: NextRequest) {
       mediaPrompt: draft.media?.prompt,
       htmlContent: draft.htmlContent,
       pageCount,
+      carouselFormat,
+      documentTitle,
+      altTexts: draft.altTexts,
+      poll: draft.poll,
+      article,
+      linkedinAccountId,
+      authorUrn,
+      visibility,
+      disableReshare,
+      crossPosts: newCrossPostTargets(crossPostNetworks, draft.crossPosts),
     });
 
     if (!result.success || !result.data) {
@@ -257,6 +426,10 @@ export async function POST(request: NextRequest) {
         media: draft.media,
         htmlContent: draft.htmlContent,
         pageCount,
+        altTexts: draft.altTexts,
+        poll: draft.poll,
+        article,
+        crossPosts: draft.crossPosts,
         mediaType,
         mode,
         ...(draft.mediaGenerationError && { mediaWarning: draft.mediaGenerationError }),
@@ -326,8 +499,12 @@ export async function DELETE(request: NextRequest) {
     if (!postResult.data || postResult.data.userId !== user.uid) {
       return NextResponse.json({ error: 'Post not found' }, { status: 404 });
     }
+    if (postResult.data.status === 'publishing') {
+      return NextResponse.json({ error: 'This post is being published right now — try again in a moment' }, { status: 409 });
+    }
 
     await PostService.deletePost(postId);
+    await PostMetricsService.deleteByPost(postId);
     return NextResponse.json({ success: true, message: 'Post deleted' });
   } catch (err) {
     console.error('[API /posts DELETE]', err);
@@ -337,6 +514,19 @@ export async function DELETE(request: NextRequest) {
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // PATCH — Status transitions (approve, reject, edit, retry, regenerate)
+//         + set-carousel-format (document | multi_image) and publish
+//         + edit-live / delete-live (change the post on LinkedIn itself)
+//
+// `firstComment` (edit + publish): string sets it, '' clears it
+// `poll` (edit + publish, poll posts only): { question, options, duration }
+// `article` (edit + publish, article posts only): { source, title, description?, thumbnailUrl? }
+// `videoCaptions` / `videoThumbnailUrl` (edit, video posts only): SRT text / image URL, '' clears
+// `altTexts` (edit + publish, image / html posts only): one string per image or slide
+// `visibility` / `disableReshare` (edit + publish): 'PUBLIC' | 'CONNECTIONS' / boolean,
+//                                                   null = back to the profile default
+// `crossPosts` (edit + publish): [{ network, content }] — every network the post should
+//                                go to; content null = the LinkedIn text. Published
+//                                targets are kept whatever the list says.
 // ═══════════════════════════════════════════════════════════════════════════════
 
 export async function PATCH(request: NextRequest) {
@@ -348,6 +538,32 @@ export async function PATCH(request: NextRequest) {
 
     const body = await request.json();
     const { postId, action, editedContent, imageBase64, imageBase64Array, slideIndex } = body;
+    const carouselFormat: CarouselFormat | undefined = VALID_CAROUSEL_FORMATS.includes(body.carouselFormat)
+      ? body.carouselFormat
+      : undefined;
+    const firstComment: string | null | undefined = typeof body.firstComment === 'string'
+      ? (body.firstComment.trim() || null)
+      : undefined;
+    const poll: PostPoll | null = normalizePoll(body.poll);
+    const article: PostArticle | null = normalizeArticle(body.article);
+    const videoCaptions: string | null | undefined = typeof body.videoCaptions === 'string'
+      ? normalizeCaptions(body.videoCaptions)
+      : undefined;
+    const videoThumbnailUrl: string | null | undefined = typeof body.videoThumbnailUrl === 'string'
+      ? (body.videoThumbnailUrl.trim() || null)
+      : undefined;
+    const hasVideoExtras = videoCaptions !== undefined || videoThumbnailUrl !== undefined;
+    const altTexts: string[] | null | undefined = Array.isArray(body.altTexts)
+      ? normalizeAltTexts(body.altTexts)
+      : undefined;
+    const visibility: PostVisibility | null | undefined = body.visibility === null
+      ? null
+      : body.visibility !== undefined ? (normalizeVisibility(body.visibility) ?? undefined) : undefined;
+    const disableReshare: boolean | null | undefined = body.disableReshare === null || typeof body.disableReshare === 'boolean'
+      ? body.disableReshare
+      : undefined;
+    const hasAudience = visibility !== undefined || disableReshare !== undefined;
+    const crossPostEdits = normalizeCrossPostEdits(body.crossPosts) ?? undefined;
 
     if (!postId || !action) {
       return NextResponse.json(
@@ -355,6 +571,9 @@ export async function PATCH(request: NextRequest) {
         { status: 400 },
       );
     }
+    if (body.visibility !== undefined && body.visibility !== null && !visibility) {
+      return NextResponse.json({ error: 'visibility must be PUBLIC or CONNECTIONS' }, { status: 400 });
+    }
 
     // Verify ownership
     const postResult = await PostService.getById(postId);
@@ -364,9 +583,31 @@ export async function PATCH(request: NextRequest) {
 
     const post = postResult.data;
 
+    // A claimed post belongs to the worker publishing it — publish itself
+    // re-checks the claim (a stale one may be taken over)
+    if (post.status === 'publishing' && action !== 'publish') {
+      return NextResponse.json({ error: 'This post is being published right now — try again in a moment' }, { status: 409 });
+    }
+
     switch (action) {
       case 'approve': {
-        await PostService.approve(postId, editedContent);
+        // Scheduled publishing can't fix a broken poll — catch it at review time
+        if (post.mediaType === 'poll') {
+          const pollError = getPollError(post.poll);
+          if (pollError) return NextResponse.json({ error: `${pollError} — edit the poll before approving` }, { status: 400 });
+        }
+        if (post.mediaType === 'article') {
+          const articleError = getArticleError(post.article);
+          if (articleError) return NextResponse.json({ error: `${articleError} — edit the link before approving` }, { status: 400 });
+        }
+
+        const approved = await PostService.approve(postId, editedContent);
+        if (!approved.success) {
+          return NextResponse.json({ error: approved.error ?? 'Failed to approve post' }, { status: 500 });
+        }
+        if (!approved.data) {
+          return NextResponse.json({ error: 'Only posts waiting for review can be approved' }, { status: 409 });
+        }
 
         // If the client captured HTML→PNG images, upload them to Storage
         // and persist the URLs so the scheduled Firebase Function can publish
@@ -409,18 +650,94 @@ export async function PATCH(request: NextRequest) {
           mediaMimeType: null,
           imageUrls: null,
           linkedinMediaAsset: null,
+          poll: null,
+          altTexts: null,
+          // Captions are timed to the old video
+          videoCaptions: null,
+          // Rewrites of the old draft — generate-all writes new ones
+          crossPosts: post.crossPosts?.map(t => ({ ...t, content: null })) ?? null,
           updatedAt: FV.serverTimestamp(),
         });
 
         return NextResponse.json({ success: true, message: 'Post rejected — will be regenerated at next draft hour' });
       }
 
-      case 'edit':
-        if (!editedContent) {
-          return NextResponse.json({ error: 'editedContent required for edit action' }, { status: 400 });
+      case 'edit': {
+        if (!editedContent && firstComment === undefined && !poll && !article && !hasVideoExtras && altTexts === undefined && !hasAudience && !crossPostEdits) {
+          return NextResponse.json(
+            { error: 'editedContent, firstComment, poll, article, alt texts, video captions / thumbnail, audience or cross-posts required for edit action' },
+            { status: 400 },
+          );
+        }
+        if (hasAudience) {
+          if (post.status === 'published') {
+            return NextResponse.json({ error: 'Visibility and resharing are fixed once the post is on LinkedIn' }, { status: 400 });
+          }
+          const visibilityError = visibility ? getVisibilityError(visibility, post.authorUrn) : null;
+          if (visibilityError) return NextResponse.json({ error: visibilityError }, { status: 400 });
         }
-        await PostService.updateContent(postId, editedContent);
-        return NextResponse.json({ success: true, message: 'Post updated' });
+        if (altTexts !== undefined && post.mediaType !== 'image' && post.mediaType !== 'html') {
+          return NextResponse.json({ error: 'Only image and HTML posts have alt text' }, { status: 400 });
+        }
+        if (poll) {
+          if (post.mediaType !== 'poll') {
+            return NextResponse.json({ error: 'Only poll posts have a poll' }, { status: 400 });
+          }
+          const pollError = getPollError(poll);
+          if (pollError) return NextResponse.json({ error: pollError }, { status: 400 });
+        }
+        if (article) {
+          if (post.mediaType !== 'article') {
+            return NextResponse.json({ error: 'Only article posts have a link card' }, { status: 400 });
+          }
+          const articleError = getArticleError(article);
+          if (articleError) return NextResponse.json({ error: articleError }, { status: 400 });
+        }
+        if (hasVideoExtras) {
+          if (post.mediaType !== 'video') {
+            return NextResponse.json({ error: 'Only video posts have captions and a thumbnail' }, { status: 400 });
+          }
+          if (post.status === 'published') {
+            return NextResponse.json({ error: 'Captions and thumbnail are fixed once the video is on LinkedIn' }, { status: 400 });
+          }
+          const extrasError = getCaptionsError(videoCaptions) ?? getVideoThumbnailError(videoThumbnailUrl);
+          if (extrasError) return NextResponse.json({ error: extrasError }, { status: 400 });
+        }
+        // A new audience can rule out a network, so both are checked together
+        const editCrossPosts = crossPostEdits ? mergeCrossPostTargets(post.crossPosts, crossPostEdits) : undefined;
+        if (editCrossPosts || (hasAudience && post.crossPosts?.length)) {
+          const editProfile = (await ProfileService.get(user.uid)).data;
+          const editAudience = resolveAudience({
+            visibility: visibility !== undefined ? visibility : post.visibility,
+            disableReshare: disableReshare !== undefined ? disableReshare : post.disableReshare,
+            authorUrn: post.authorUrn,
+          }, editProfile);
+          const crossPostError = getCrossPostTargetsError(editCrossPosts ?? post.crossPosts ?? [], editProfile, editAudience.visibility);
+          if (crossPostError) return NextResponse.json({ error: crossPostError }, { status: 400 });
+        }
+        if (editedContent) await PostService.updateContent(postId, editedContent);
+        if (firstComment !== undefined) await PostService.setFirstComment(postId, firstComment);
+        if (poll) await PostService.setPoll(postId, poll);
+        if (article) await PostService.setArticle(postId, article);
+        if (hasVideoExtras) await PostService.setVideoExtras(postId, { videoCaptions, videoThumbnailUrl });
+        if (altTexts !== undefined) await PostService.setAltTexts(postId, altTexts);
+        if (hasAudience) await PostService.setAudience(postId, { visibility, disableReshare });
+        if (editCrossPosts) await PostService.setCrossPosts(postId, editCrossPosts);
+        return NextResponse.json({ success: true, message: 'Post updated', data: { crossPosts: editCrossPosts } });
+      }
+
+      case 'set-carousel-format': {
+        // Choose PDF document vs multi-image for a multi-page HTML post
+        if (!carouselFormat) {
+          return NextResponse.json({ error: 'carouselFormat must be "document" or "multi_image"' }, { status: 400 });
+        }
+        if (post.mediaType !== 'html') {
+          return NextResponse.json({ error: 'Only HTML posts can be published as a carousel' }, { status: 400 });
+        }
+        const title = typeof body.documentTitle === 'string' ? body.documentTitle.trim().slice(0, 200) : '';
+        await PostService.setCarouselFormat(postId, carouselFormat, title || undefined);
+        return NextResponse.json({ success: true, message: 'Carousel format updated' });
+      }
 
       case 'remove-slide': {
         // Remove a specific slide from a multi-page HTML carousel
@@ -436,23 +753,79 @@ export async function PATCH(request: NextRequest) {
           return NextResponse.json({ error: 'Could not remove slide' }, { status: 400 });
         }
         await PostService.updateHtml(postId, result.html, result.newPageCount);
+        // Keep alt texts lined up with the remaining slides
+        const remainingAltTexts = post.altTexts ? normalizeAltTexts(post.altTexts.filter((_, i) => i !== slideIndex)) : null;
+        if (post.altTexts) await PostService.setAltTexts(postId, remainingAltTexts);
         return NextResponse.json({
           success: true,
           message: 'Slide removed',
-          data: { htmlContent: result.html, pageCount: result.newPageCount },
+          data: { htmlContent: result.html, pageCount: result.newPageCount, altTexts: remainingAltTexts },
         });
       }
 
-      case 'retry':
-        await PostService.retry(postId);
+      case 'retry': {
+        const retried = await PostService.retry(postId);
+        if (!retried.success) {
+          return NextResponse.json({ error: retried.error ?? 'Failed to retry post' }, { status: 500 });
+        }
+        if (!retried.data) {
+          return NextResponse.json({ error: 'Only failed posts can be retried' }, { status: 409 });
+        }
         return NextResponse.json({ success: true, message: 'Post queued for retry' });
+      }
+
+      case 'rewrite-crosspost': {
+        // Fresh AI rewrite of the current text for one target
+        const network = normalizeCrossPostNetworks([body.network])[0];
+        const target = post.crossPosts?.find(t => t.network === network);
+        if (!network || !target) {
+          return NextResponse.json({ error: 'network must be one of the post\'s cross-post targets' }, { status: 400 });
+        }
+        if (target.status === 'published' || target.status === 'publishing') {
+          return NextResponse.json({ error: `The ${CROSS_POST_NETWORK_LABELS[network]} copy is already out` }, { status: 400 });
+        }
+        const rewriteProfile = (await ProfileService.get(user.uid)).data;
+        const rewrites = await generateCrossPostDrafts(
+          { provider: rewriteProfile?.preferredProvider, textModel: rewriteProfile?.preferredTextModel },
+          post.editedContent ?? post.content,
+          [network],
+          post.article,
+        );
+        const content = rewrites?.[network];
+        if (!content) return NextResponse.json({ error: 'The AI did not return a rewrite — try again' }, { status: 502 });
+
+        const rewritten = mergeCrossPostTargets(post.crossPosts, post.crossPosts!.map(t => ({
+          network: t.network,
+          content: t.network === network ? content : t.content,
+        })));
+        await PostService.setCrossPosts(postId, rewritten);
+        return NextResponse.json({ success: true, message: 'Rewritten', data: { crossPosts: rewritten } });
+      }
+
+      case 'retry-crosspost': {
+        // Send the Mastodon / Bluesky / X copies that are still waiting or failed
+        if (post.status !== 'published') {
+          return NextResponse.json({ error: 'Cross-posts go out once the post is on LinkedIn' }, { status: 400 });
+        }
+        if (!post.crossPosts?.some(t => t.status !== 'published')) {
+          return NextResponse.json({ error: 'Nothing left to cross-post' }, { status: 400 });
+        }
+        const retryProfile = (await ProfileService.get(user.uid)).data;
+        const outcomes = await publishCrossPosts(post, retryProfile, resolveAudience(post, retryProfile).visibility);
+        const failed = outcomes.filter(o => o.status === 'failed').length;
+        return NextResponse.json({
+          success: true,
+          message: failed > 0 ? `${failed} cross-post${failed === 1 ? '' : 's'} failed again` : 'Cross-posted',
+          data: { crossPosts: outcomes },
+        });
+      }
 
       case 'regenerate': {
         // Get profile for persona
         const profileResult = await ProfileService.get(user.uid);
         const profile = profileResult.data;
 
-        const dayName = new Date(post.scheduledFor).toLocaleDateString('en-US', { weekday: 'long' });
+        const dayName = zonedWeekdayName(new Date(post.scheduledFor), profile?.timezone || DEFAULT_TIMEZONE);
         const newDraft = await regeneratePostDraft(
           {
             userId: user.uid,
@@ -462,46 +835,164 @@ export async function PATCH(request: NextRequest) {
             persona: profile?.persona ?? undefined,
             publishDay: dayName,
             mediaType: post.mediaType,
+            pollDuration: post.poll?.duration,
+            article: post.article,
+            ...resolveAudience(post, profile),
+            crossPostNetworks: (post.crossPosts ?? []).filter(t => t.status === 'pending' || t.status === 'failed').map(t => t.network),
           },
           post.content,
         );
 
         await PostService.updateContent(postId, newDraft.content, newDraft.htmlContent);
+        if (newDraft.poll) await PostService.setPoll(postId, newDraft.poll);
+        // New slides need new alt text — stale descriptions are worse than none
+        if (newDraft.htmlContent) await PostService.setAltTexts(postId, newDraft.altTexts ?? null);
+        // Rewrites of the old draft would contradict the new one
+        const regenCrossPosts = post.crossPosts?.length
+          ? mergeCrossPostTargets(post.crossPosts, post.crossPosts.map(t => ({ network: t.network, content: newDraft.crossPosts?.[t.network] ?? null })))
+          : undefined;
+        if (regenCrossPosts) await PostService.setCrossPosts(postId, regenCrossPosts);
 
         return NextResponse.json({
           success: true,
           message: 'Post regenerated',
-          data: { content: newDraft.content, htmlContent: newDraft.htmlContent },
+          data: {
+            content: newDraft.content, htmlContent: newDraft.htmlContent, poll: newDraft.poll, altTexts: newDraft.altTexts, crossPosts: regenCrossPosts,
+          },
         });
       }
 
       case 'publish': {
-        // Instant publish to LinkedIn
-        const pubProfileResult = await ProfileService.get(user.uid);
-        const pubProfile = pubProfileResult.data;
+        // Instant publish to LinkedIn — with the post's account, else the default
+        const pubAccountResult = await LinkedInAccountService.getForPublishing(user.uid, post.linkedinAccountId);
+        const pubAccount = pubAccountResult.data;
 
-        if (!pubProfile?.linkedinConnected || !pubProfile.linkedinAccessToken || !pubProfile.linkedinMemberUrn) {
+        if (!pubAccount) {
           return NextResponse.json(
             { error: 'LinkedIn not connected. Go to Settings to connect your account.' },
             { status: 400 },
           );
         }
 
-        // Check token expiry
-        if (pubProfile.linkedinTokenExpiry && new Date(pubProfile.linkedinTokenExpiry) < new Date()) {
+        // An expired token is refreshed here — only a failed refresh needs the user
+        let pubAccessToken: string;
+        try {
+          pubAccessToken = await getFreshAccessToken(pubAccount);
+        } catch {
           return NextResponse.json(
             { error: 'LinkedIn token expired. Please reconnect in Settings.' },
             { status: 400 },
           );
         }
 
+        // Personal profile or one of the member's Company Pages
+        let pubAuthorUrn: string;
+        try {
+          pubAuthorUrn = resolveAuthorUrn(pubAccount, post.authorUrn);
+        } catch (authorErr) {
+          return NextResponse.json(
+            { error: authorErr instanceof Error ? authorErr.message : 'Invalid post author' },
+            { status: 400 },
+          );
+        }
+
         const publishContent = editedContent ?? post.editedContent ?? post.content;
 
+        // Body override (Post Now flow) → post's own choice → profile default
+        const visibilityError = visibility ? getVisibilityError(visibility, pubAuthorUrn) : null;
+        if (visibilityError) return NextResponse.json({ error: visibilityError }, { status: 400 });
+        const pubProfile = (await ProfileService.get(user.uid)).data;
+        const pubAudience = resolveAudience({
+          visibility: visibility !== undefined ? visibility : post.visibility,
+          disableReshare: disableReshare !== undefined ? disableReshare : post.disableReshare,
+          authorUrn: pubAuthorUrn,
+        }, pubProfile);
+
+        // Poll / article posts can't go out without valid data — checked before anything is uploaded
+        const pubPoll = post.mediaType === 'poll' ? (poll ?? post.poll) : undefined;
+        const pollError = post.mediaType === 'poll' ? getPollError(pubPoll) : null;
+        if (pollError) return NextResponse.json({ error: pollError }, { status: 400 });
+        const pubArticle = post.mediaType === 'article' ? (article ?? post.article) : undefined;
+        const articleError = post.mediaType === 'article' ? getArticleError(pubArticle) : null;
+        if (articleError) return NextResponse.json({ error: articleError }, { status: 400 });
+
+        // Cross-post override (Post Now flow) → stored targets
+        const pubCrossPosts = crossPostEdits ? mergeCrossPostTargets(post.crossPosts, crossPostEdits) : (post.crossPosts ?? []);
+        if (crossPostEdits || hasAudience) {
+          const crossPostError = getCrossPostTargetsError(pubCrossPosts, pubProfile, pubAudience.visibility);
+          if (crossPostError) return NextResponse.json({ error: crossPostError }, { status: 400 });
+        }
+
+        // LinkedIn is already refusing this member's calls — don't upload anything
+        const rateLimit = (await LinkedInRateLimitService.getBlock(pubAccount.id)).data;
+        if (rateLimit) {
+          return NextResponse.json(
+            { error: 'LinkedIn\'s daily API limit is reached — try again later.', retryAt: rateLimit.retryAt },
+            { status: 429 },
+          );
+        }
+
+        // Claim the post — a cron run or a second click can't publish it too
+        const workerId = `api:${randomUUID()}`;
+        const claim = await PostService.claimForPublishing(postId, workerId, ['pending_review', 'approved', 'failed']);
+        if (!claim.data?.claimed) {
+          const reason = claim.data ? claim.data.reason : (claim.error ?? 'Could not claim the post');
+          return NextResponse.json({ error: reason }, { status: 409 });
+        }
+
+        if (poll) await PostService.setPoll(postId, poll);
+        // A changed link drops the cached thumbnail
+        if (article) {
+          await PostService.setArticle(postId, article);
+          post.linkedinMediaAsset = undefined;
+        }
+
+        if (hasAudience) await PostService.setAudience(postId, { visibility, disableReshare });
+        if (crossPostEdits) await PostService.setCrossPosts(postId, pubCrossPosts);
+
+        // Alt text override (Post Now flow) is saved like the first comment
+        if (altTexts !== undefined) await PostService.setAltTexts(postId, altTexts);
+        const pubAltTexts = (altTexts !== undefined ? altTexts : post.altTexts) ?? undefined;
+
+        // Body override (Post Now flow) is saved so the post shows what was commented
+        if (firstComment !== undefined) await PostService.setFirstComment(postId, firstComment);
+        const pubFirstComment = firstComment !== undefined ? firstComment : post.firstComment;
+
+        // Body override (Post Now flow) → stored choice → multi-image
+        const pubCarouselFormat = carouselFormat ?? post.carouselFormat ?? 'multi_image';
+        const documentTitle = post.documentTitle || post.topic;
+
+        // LinkedIn, or the fake backend when PUBLISHER_BACKEND=fake
+        const publisher = createPublisher().forMember(pubAccount.id);
+
+        // Set once LinkedIn accepts the post — later errors must not retry it
+        let publishedUrn: string | undefined;
+
         try {
-          // ── HTML posts: multi-page carousel or single image ────────────────
+          // ── HTML posts: PDF document, multi-page carousel or single image ──
           let mediaAssetUrns: string[] | undefined;
-
-          if (post.mediaType === 'html' && imageBase64Array && Array.isArray(imageBase64Array) && imageBase64Array.length > 0) {
+          let documentUrn: string | undefined;
+
+          const capturedPages: string[] = Array.isArray(imageBase64Array) && imageBase64Array.length > 0
+            ? imageBase64Array
+            : imageBase64 ? [imageBase64] : [];
+
+          if (post.mediaType === 'html' && pubCarouselFormat === 'document'
+            && (capturedPages.length > 0 || (post.imageUrls?.length ?? 0) > 0)) {
+            // Document carousel — stitch the slides into a PDF
+            const slides: Buffer[] = [];
+            if (capturedPages.length > 0) {
+              for (const b64 of capturedPages) slides.push(Buffer.from(b64, 'base64'));
+            } else {
+              for (const storedUrl of post.imageUrls!) slides.push(await downloadMediaAsBuffer(storedUrl));
+            }
+            const pdf = await buildCarouselPdf(slides, documentTitle);
+            ({ documentUrn } = await publisher.uploadDocument(
+              pubAccessToken,
+              pubAuthorUrn,
+              pdf,
+            ));
+          } else if (post.mediaType === 'html' && imageBase64Array && Array.isArray(imageBase64Array) && imageBase64Array.length > 0) {
             // Client sent freshly-captured pages (Post Now flow)
             const urns: string[] = [];
             for (const b64 of imageBase64Array) {
@@ -512,9 +1003,9 @@ export async function PATCH(request: NextRequest) {
                 userId: user.uid,
               });
               const mediaBuffer = await downloadMediaAsBuffer(mediaUrl);
-              const { imageUrn } = await uploadImageToLinkedIn(
-                pubProfile.linkedinAccessToken,
-                pubProfile.linkedinMemberUrn,
+              const { imageUrn } = await publisher.uploadImage(
+                pubAccessToken,
+                pubAuthorUrn,
                 mediaBuffer,
               );
               urns.push(imageUrn);
@@ -525,9 +1016,9 @@ export async function PATCH(request: NextRequest) {
             const urns: string[] = [];
             for (const storedUrl of post.imageUrls) {
               const mediaBuffer = await downloadMediaAsBuffer(storedUrl);
-              const { imageUrn } = await uploadImageToLinkedIn(
-                pubProfile.linkedinAccessToken,
-                pubProfile.linkedinMemberUrn,
+              const { imageUrn } = await publisher.uploadImage(
+                pubAccessToken,
+                pubAuthorUrn,
                 mediaBuffer,
               );
               urns.push(imageUrn);
@@ -549,42 +1040,133 @@ export async function PATCH(request: NextRequest) {
           // asset URN yet, upload the media to LinkedIn now and get the URN.
           let mediaAssetUrn = post.linkedinMediaAsset ?? undefined;
 
-          if (!mediaAssetUrns && !mediaAssetUrn && post.mediaUrl && post.mediaType !== 'text') {
+          // Article thumbnail — a site blocking the download shouldn't block the post
+          if (pubArticle?.thumbnailUrl && !mediaAssetUrn) {
+            try {
+              const thumbBuffer = await downloadPublicMedia(pubArticle.thumbnailUrl, MAX_THUMBNAIL_BYTES);
+              ({ imageUrn: mediaAssetUrn } = await publisher.uploadImage(
+                pubAccessToken,
+                pubAuthorUrn,
+                thumbBuffer,
+              ));
+              await PostService.setLinkedinMediaAsset(post.id, mediaAssetUrn);
+            } catch (thumbErr) {
+              console.warn(`[posts] Article thumbnail upload failed for post ${postId} — publishing without it:`, thumbErr);
+            }
+          }
+
+          if (!documentUrn && !mediaAssetUrns && !mediaAssetUrn && post.mediaUrl && post.mediaType !== 'text') {
             const mediaBuffer = await downloadMediaAsBuffer(post.mediaUrl);
 
             if (post.mediaType === 'image' || post.mediaType === 'html') {
-              const { imageUrn } = await uploadImageToLinkedIn(
-                pubProfile.linkedinAccessToken,
-                pubProfile.linkedinMemberUrn,
+              const { imageUrn } = await publisher.uploadImage(
+                pubAccessToken,
+                pubAuthorUrn,
                 mediaBuffer,
               );
               mediaAssetUrn = imageUrn;
             } else if (post.mediaType === 'video') {
-              const { videoUrn } = await uploadVideoToLinkedIn(
-                pubProfile.linkedinAccessToken,
-                pubProfile.linkedinMemberUrn,
+              const { videoUrn } = await publisher.uploadVideo(
+                pubAccessToken,
+                pubAuthorUrn,
                 mediaBuffer,
+                {
+                  captionsSrt: post.videoCaptions,
+                  thumbnail: post.videoThumbnailUrl ? await downloadPublicMedia(post.videoThumbnailUrl, MAX_THUMBNAIL_BYTES) : undefined,
+                },
               );
               mediaAssetUrn = videoUrn;
+              post.videoUploadedAt = new Date();
             }
 
             // Cache the LinkedIn asset URN on the post so re-publishes skip re-upload
-            if (mediaAssetUrn) {
+            if (mediaAssetUrn && post.mediaType === 'video') {
+              await PostService.setVideoAsset(post.id, mediaAssetUrn);
+            } else if (mediaAssetUrn) {
               await PostService.setLinkedinMediaAsset(post.id, mediaAssetUrn);
             }
           }
 
-          const linkedinPostId = await createLinkedInPost({
-            accessToken: pubProfile.linkedinAccessToken,
-            authorUrn: pubProfile.linkedinMemberUrn,
+          // LinkedIn has to finish processing a video before it can be posted —
+          // past a short wait, publish-all takes over
+          if (post.mediaType === 'video' && mediaAssetUrn) {
+            let videoReady: boolean;
+            try {
+              videoReady = await waitForVideo(publisher, pubAccessToken, mediaAssetUrn, post.videoUploadedAt ?? new Date());
+            } catch (videoErr) {
+              if (videoErr instanceof VideoProcessingError) await PostService.setVideoAsset(postId, null);
+              throw videoErr;
+            }
+            if (!videoReady) {
+              if (editedContent) await PostService.updateContent(postId, editedContent);
+              await PostService.deferForVideoProcessing(postId, workerId, new Date(Date.now() + VIDEO_RECHECK_MS));
+              return NextResponse.json({
+                success: true,
+                message: 'Video uploaded — LinkedIn is still processing it. The post goes out automatically in a few minutes.',
+                data: { videoProcessing: true },
+              }, { status: 202 });
+            }
+          }
+
+          // Idempotency key goes on the post before LinkedIn is called — if we
+          // die after this, recovery fails the post instead of re-posting it
+          const attemptKey = await PostService.beginPublishAttempt(postId, workerId);
+          if (!attemptKey.data) {
+            return NextResponse.json(
+              { error: 'Publishing took too long and was handed to another worker — refresh to see its status' },
+              { status: 409 },
+            );
+          }
+
+          const linkedinPostId = await publisher.createPost({
+            accessToken: pubAccessToken,
+            authorUrn: pubAuthorUrn,
             text: publishContent,
+            visibility: pubAudience.visibility,
+            disableReshare: pubAudience.disableReshare,
             mediaType: post.mediaType,
             mediaAssetUrn: mediaAssetUrns ? mediaAssetUrns[0] : mediaAssetUrn,
             mediaAssetUrns,
+            documentUrn,
+            documentTitle,
+            mediaAltTexts: pubAltTexts,
+            poll: pubPoll,
+            article: pubArticle,
+            articleThumbnailUrn: pubArticle ? mediaAssetUrn : undefined,
           });
 
+          publishedUrn = linkedinPostId;
           await PostService.markPublished(postId, linkedinPostId);
 
+          // First comment — a failure is recorded on the post, not a publish failure
+          let firstCommentError: string | undefined;
+          if (pubFirstComment) {
+            try {
+              const commentUrn = await publisher.createComment(
+                pubAccessToken,
+                pubAuthorUrn,
+                linkedinPostId,
+                pubFirstComment,
+              );
+              await PostService.markFirstCommentPosted(postId, commentUrn);
+            } catch (commentErr) {
+              firstCommentError = commentErr instanceof Error ? commentErr.message : 'Unknown comment error';
+              console.error(`[posts] First comment failed for post ${postId}:`, commentErr);
+              await PostService.markFirstCommentFailed(postId, firstCommentError);
+            }
+          }
+
+          // Mastodon / Bluesky / X — failures stay on their target for a retry
+          let crossPostOutcomes: CrossPostOutcome[] = [];
+          if (pubCrossPosts.length > 0) {
+            crossPostOutcomes = await publishCrossPosts(
+              { ...post, editedContent: publishContent, crossPosts: pubCrossPosts },
+              pubProfile,
+              pubAudience.visibility,
+            );
+          }
+          const crossPostsFailed = crossPostOutcomes.filter(o => o.status === 'failed').map(o => CROSS_POST_NETWORK_LABELS[o.network]);
+
           // Notify user of successful publish
           try {
             const sent = await sendPushNotification(user.uid, {
@@ -602,7 +1184,7 @@ export async function PATCH(request: NextRequest) {
           }
 
           // Advance series topic index so the next generation picks the next topic
-          if (post.seriesId && post.topicIndex !== undefined) {
+          if (post.seriesId && typeof post.topicIndex === 'number') {
             const seriesResult = await SeriesService.getById(post.seriesId);
             if (seriesResult.data) {
               await SeriesService.advanceIndex(
@@ -615,12 +1197,49 @@ export async function PATCH(request: NextRequest) {
 
           return NextResponse.json({
             success: true,
-            message: 'Post published to LinkedIn!',
-            data: { linkedinPostId },
+            message: firstCommentError
+              ? 'Post published to LinkedIn, but the first comment failed'
+              : crossPostsFailed.length > 0
+                ? `Post published to LinkedIn, but not to ${crossPostsFailed.join(', ')}`
+                : 'Post published to LinkedIn!',
+            data: { linkedinPostId, firstCommentError, crossPosts: crossPostOutcomes },
           });
         } catch (pubErr: unknown) {
           const errMessage = pubErr instanceof Error ? pubErr.message : 'Unknown publish error';
-          await PostService.markFailed(postId, errMessage);
+
+          if (publishedUrn) {
+            // The post is live — only the bookkeeping after it failed
+            console.error(`[posts] Post ${postId} published as ${publishedUrn}, but follow-up failed:`, pubErr);
+            await PostService.markPublished(postId, publishedUrn);
+            return NextResponse.json({
+              success: true,
+              message: 'Post published to LinkedIn!',
+              data: { linkedinPostId: publishedUrn },
+            });
+          }
+
+          // Rate limited — nothing went live; the post keeps its status and retry budget
+          if (pubErr instanceof LinkedInRateLimitError) {
+            await PostService.releasePublishClaim(postId, workerId);
+            return NextResponse.json(
+              { error: 'LinkedIn\'s daily API limit is reached — the post was not published. Try again later.', retryAt: pubErr.retryAt },
+              { status: 429 },
+            );
+          }
+
+          const outcome = (await PostService.recordPublishFailure(postId, errMessage, isRetryablePublishError(pubErr))).data;
+
+          // Transient failure — the scheduled publisher tries again; no failure push yet
+          if (outcome?.willRetry) {
+            return NextResponse.json(
+              {
+                error: `Publish failed: ${errMessage} — retrying automatically (attempt ${outcome.retryCount} of ${getMaxPublishRetries()})`,
+                nextRetryAt: outcome.nextRetryAt,
+              },
+              { status: 503 },
+            );
+          }
+          if (!outcome) await PostService.markFailed(postId, errMessage);
 
           // Notify user of publish failure
           try {
@@ -645,6 +1264,65 @@ export async function PATCH(request: NextRequest) {
         }
       }
 
+      case 'edit-live':
+      case 'delete-live': {
+        // Change the post that's already on LinkedIn — Firestore follows
+        if (post.status !== 'published' || !post.linkedinPostId) {
+          return NextResponse.json({ error: 'Only published posts can be changed on LinkedIn' }, { status: 400 });
+        }
+        if (action === 'edit-live' && (typeof editedContent !== 'string' || !editedContent.trim())) {
+          return NextResponse.json({ error: 'editedContent required for edit-live action' }, { status: 400 });
+        }
+
+        const liveAccountResult = await LinkedInAccountService.getForPublishing(user.uid, post.linkedinAccountId);
+        const liveAccount = liveAccountResult.data;
+        if (!liveAccount) {
+          return NextResponse.json(
+            { error: 'LinkedIn not connected. Go to Settings to connect your account.' },
+            { status: 400 },
+          );
+        }
+        let liveAccessToken: string;
+        try {
+          liveAccessToken = await getFreshAccessToken(liveAccount);
+        } catch {
+          return NextResponse.json(
+            { error: 'LinkedIn token expired. Please reconnect in Settings.' },
+            { status: 400 },
+          );
+        }
+
+        const liveContent = post.editedContent ?? post.content;
+        const liveUrn = post.linkedinPostId;
+        const livePublisher = createPublisher().forMember(liveAccount.id);
+
+        try {
+          if (action === 'edit-live') await livePublisher.updatePost(liveAccessToken, liveUrn, editedContent);
+          else await livePublisher.deletePost(liveAccessToken, liveUrn);
+        } catch (liveErr) {
+          const errMessage = liveErr instanceof Error ? liveErr.message : 'Unknown LinkedIn error';
+          console.error(`[posts] ${action} failed for post ${postId}:`, liveErr);
+          return NextResponse.json({ error: errMessage }, { status: 502 });
+        }
+
+        // LinkedIn has already changed — say so if our copy couldn't follow
+        const recorded = action === 'edit-live'
+          ? await PostService.recordLiveEdit(postId, liveContent, editedContent)
+          : await PostService.markDeleted(postId, liveContent);
+        if (!recorded.success) {
+          console.error(`[posts] ${action} succeeded on LinkedIn but not saved for post ${postId}:`, recorded.error);
+          return NextResponse.json({
+            error: action === 'edit-live'
+              ? 'The post was updated on LinkedIn, but the app\'s copy could not be updated — refresh before editing again'
+              : 'The post was deleted from LinkedIn, but the app\'s copy could not be updated — it may still show as published',
+          }, { status: 500 });
+        }
+        return NextResponse.json({
+          success: true,
+          message: action === 'edit-live' ? 'Post updated on LinkedIn' : 'Post deleted from LinkedIn',
+        });
+      }
+
       default:
         return NextResponse.json(
           { error: `Unknown action: ${action}` },
@@ -9,7 +9,9 @@
  *
  * Body: { posts: Array<{ topic, notes?, scheduledFor, reviewDeadline,
  *         seriesId?, topicIndex?, mediaType?, templateId?, pageCount?,
- *         provider?, textModel? }> }
+ *         provider?, textModel?, carouselFormat?, documentTitle?,
+ *         linkedinAccountId?, authorUrn?, visibility?, disableReshare?,
+ *         crossPostNetworks? }> }
  *
  * Returns: { success: true, created: number, ids: string[] }
  */
@@ -17,6 +19,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/server';
 import { PostService } from '@/lib/linkedin/services/post.service';
+import { LinkedInAccountService } from '@/lib/linkedin/services/linkedin-account.service';
+import { ProfileService } from '@/lib/linkedin/services/profile.service';
+import { normalizeVisibility, getVisibilityError, resolveAudience } from '@/lib/linkedin/visibility';
+import { normalizeCrossPostNetworks, getCrossPostAudienceError, newCrossPostTargets } from '@/lib/linkedin/crosspost';
 import type { PostMediaType } from '@/lib/linkedin/types';
 
 export async function POST(request: NextRequest) {
@@ -43,6 +49,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Connected accounts + the Company Pages each may post as. Unknown
+    // accounts fall back to the default; unknown pages fall back to personal.
+    const defaultAccount = (await LinkedInAccountService.getForPublishing(user.uid)).data;
+    const accounts = (await LinkedInAccountService.getAll(user.uid)).data ?? [];
+    const profile = (await ProfileService.get(user.uid)).data;
+
     const ids: string[] = [];
 
     for (const raw of posts) {
@@ -55,13 +67,26 @@ export async function POST(request: NextRequest) {
       const reviewDeadline = p.reviewDeadline ? new Date(p.reviewDeadline as string) : null;
       if (!scheduledFor || !reviewDeadline) continue;
 
-      const mediaType = (['text', 'image', 'video', 'html'].includes(p.mediaType as string)
+      const mediaType = (['text', 'image', 'video', 'html', 'poll'].includes(p.mediaType as string)
         ? p.mediaType : 'text') as PostMediaType;
 
       const pageCount = typeof p.pageCount === 'number'
         ? Math.max(1, Math.min(9, Math.floor(p.pageCount)))
         : 1;
 
+      const account = accounts.find(a => a.id === p.linkedinAccountId);
+      const orgUrns = (account ?? defaultAccount)?.organizations.map(o => o.urn) ?? [];
+      const authorUrn = typeof p.authorUrn === 'string' && orgUrns.includes(p.authorUrn) ? p.authorUrn : undefined;
+
+      // Omitted = profile default at publish time; Company Pages can't go connections-only
+      const requested = normalizeVisibility(p.visibility) ?? undefined;
+      const visibility = requested && !getVisibilityError(requested, authorUrn) ? requested : undefined;
+
+      // Networks that aren't connected or can't take the audience are dropped
+      const { visibility: audience } = resolveAudience({ visibility, authorUrn }, profile);
+      const crossPostNetworks = normalizeCrossPostNetworks(p.crossPostNetworks)
+        .filter(n => profile?.crossPostConnections?.[n] && !getCrossPostAudienceError(n, audience));
+
       const result = await PostService.createScheduled({
         userId: user.uid,
         topic,
@@ -73,8 +98,18 @@ export async function POST(request: NextRequest) {
         mediaType,
         templateId: typeof p.templateId === 'string' ? p.templateId : undefined,
         pageCount,
+        carouselFormat: mediaType === 'html' && (p.carouselFormat === 'document' || p.carouselFormat === 'multi_image')
+          ? p.carouselFormat
+          : undefined,
+        documentTitle: typeof p.documentTitle === 'string' ? p.documentTitle.trim().slice(0, 200) || undefined : undefined,
         provider: typeof p.provider === 'string' ? p.provider : undefined,
         textModel: typeof p.textModel === 'string' ? p.textModel : undefined,
+        linkedinAccountId: account?.id,
+        authorUrn,
+        visibility,
+        disableReshare: typeof p.disableReshare === 'boolean' ? p.disableReshare : undefined,
+        // Rewritten by generate-all along with the draft
+        crossPosts: newCrossPostTargets(crossPostNetworks),
         pageInstructions: Array.isArray(p.pageInstructions) ? (p.pageInstructions as string[]).filter(s => typeof s === 'string' && s.trim()) : undefined,
       });
 
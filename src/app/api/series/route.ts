@@ -10,6 +10,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/server';
 import { SeriesService } from '@/lib/linkedin/services/series.service';
+import { isOrganizationUrn } from '@/lib/linkedin/linkedin-oauth';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // POST — Create series
@@ -23,7 +24,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { title, category, topicQueue, order, templateId } = body;
+    const { title, category, topicQueue, order, templateId, linkedinAccountId, authorUrn } = body;
 
     if (!title || !category || !topicQueue?.length) {
       return NextResponse.json(
@@ -38,6 +39,8 @@ export async function POST(request: NextRequest) {
       topicQueue,
       order,
       templateId: templateId || undefined,
+      linkedinAccountId: typeof linkedinAccountId === 'string' && linkedinAccountId ? linkedinAccountId : undefined,
+      authorUrn: isOrganizationUrn(authorUrn) ? authorUrn : undefined,
     });
 
     return NextResponse.json({ success: true, data: { seriesId: result.data } });
@@ -90,6 +93,16 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Series not found' }, { status: 404 });
     }
 
+    // Empty account / personal author clears the series default
+    if ('linkedinAccountId' in updates) {
+      updates.linkedinAccountId = typeof updates.linkedinAccountId === 'string' && updates.linkedinAccountId
+        ? updates.linkedinAccountId
+        : null;
+    }
+    if ('authorUrn' in updates) {
+      updates.authorUrn = isOrganizationUrn(updates.authorUrn) ? updates.authorUrn : null;
+    }
+
     await SeriesService.update(seriesId, updates);
     return NextResponse.json({ success: true, message: 'Series updated' });
   } catch (err) {
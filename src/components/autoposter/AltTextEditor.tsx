@@ -0,0 +1,51 @@
+'use client';
+
+/**
+ * Alt Text Editor — per-image descriptions for 'image' and 'html' posts
+ *
+ * One field per published image: a single field for image posts and
+ * single-page cards, one per slide for carousels. The AI writes a first
+ * draft at generation time; blank fields publish without alt text.
+ */
+
+import { Accessibility } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ALT_TEXT_MAX_LENGTH } from '@/lib/linkedin/alt-text';
+
+/** Editor state sized to the post's images — missing entries become '' */
+export function altTextsFor(altTexts: string[] | undefined, count: number): string[] {
+  return Array.from({ length: Math.max(count, 1) }, (_, i) => altTexts?.[i] ?? '');
+}
+
+export function AltTextEditor({
+  value, onChange, disabled,
+}: {
+  value: string[];
+  onChange: (v: string[]) => void;
+  disabled?: boolean;
+}) {
+  const multi = value.length > 1;
+
+  return (
+    <div className="space-y-1.5">
+      <Label className="flex items-center gap-1.5">
+        <Accessibility className="h-3.5 w-3.5" />Alt text <span className="text-xs text-muted-foreground">(read aloud by screen readers)</span>
+      </Label>
+      {value.map((text, i) => (
+        <div key={i} className="space-y-0.5">
+          {multi && <p className="text-[10px] text-muted-foreground">Slide {i + 1}</p>}
+          <Textarea
+            value={text}
+            onChange={(e) => onChange(value.map((t, j) => (j === i ? e.target.value : t)))}
+            maxLength={ALT_TEXT_MAX_LENGTH}
+            rows={2}
+            placeholder="Describe what the image shows"
+            className="text-sm resize-none"
+            disabled={disabled}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
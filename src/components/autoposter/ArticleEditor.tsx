@@ -0,0 +1,163 @@
+'use client';
+
+/**
+ * Article Editor — shared link card for 'article' posts
+ *
+ * ArticleEditor takes a URL and fills title / description / thumbnail from
+ * the page's OpenGraph tags (/api/posts/link-preview); every field stays
+ * editable. ArticlePreview renders the card roughly as LinkedIn shows it.
+ */
+
+import { useState } from 'react';
+import { Link2, Loader2, Wand2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ARTICLE_TITLE_MAX_LENGTH, getArticleError, isHttpUrl, normalizeArticle } from '@/lib/linkedin/article';
+import type { PostArticle } from '@/lib/linkedin/types';
+
+/** Blank article for new drafts */
+export function emptyArticle(): PostArticle {
+  return { source: '', title: '', description: '', thumbnailUrl: '' };
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+// ── Editor ───────────────────────────────────────────────────────────────────
+
+export function ArticleEditor({
+  value, onChange, disabled,
+}: {
+  value: PostArticle;
+  onChange: (v: PostArticle) => void;
+  disabled?: boolean;
+}) {
+  const [fetching, setFetching] = useState(false);
+  const [fetchError, setFetchError] = useState('');
+
+  const set = (patch: Partial<PostArticle>) => onChange({ ...value, ...patch });
+
+  const handleFetch = async () => {
+    setFetching(true);
+    setFetchError('');
+    try {
+      const res = await fetch(`/api/posts/link-preview?url=${encodeURIComponent(value.source.trim())}`);
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error ?? 'Could not read the page');
+      const preview = data.data as PostArticle;
+      onChange({
+        source: value.source.trim(),
+        title: preview.title,
+        description: preview.description ?? '',
+        thumbnailUrl: preview.thumbnailUrl ?? '',
+      });
+      if (!preview.title) setFetchError('The page has no title tag — enter one below.');
+    } catch (err) {
+      setFetchError(err instanceof Error ? err.message : 'Could not read the page');
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const busy = disabled || fetching;
+  const touched = !!(value.source.trim() && value.title.trim());
+  const error = touched ? getArticleError(normalizeArticle(value)) : null;
+  const preview = normalizeArticle(value);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="space-y-1.5">
+        <Label className="flex items-center gap-1.5"><Link2 className="h-3.5 w-3.5" />Link</Label>
+        <div className="flex gap-2">
+          <Input
+            value={value.source}
+            onChange={(e) => set({ source: e.target.value })}
+            placeholder="https://…"
+            className="h-9 text-sm"
+            disabled={busy}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="shrink-0"
+            onClick={handleFetch}
+            disabled={busy || !isHttpUrl(value.source.trim())}
+          >
+            {fetching ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Wand2 className="mr-1 h-3.5 w-3.5" />}
+            Fetch preview
+          </Button>
+        </div>
+        {fetchError && <p className="text-xs text-destructive">{fetchError}</p>}
+      </div>
+
+      <div className="space-y-1.5">
+        <Label>Title</Label>
+        <Input
+          value={value.title}
+          onChange={(e) => set({ title: e.target.value })}
+          maxLength={ARTICLE_TITLE_MAX_LENGTH}
+          placeholder="Shown in bold on the card"
+          className="h-9 text-sm"
+          disabled={busy}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label>Description <span className="text-xs text-muted-foreground">(optional)</span></Label>
+        <Textarea
+          value={value.description ?? ''}
+          onChange={(e) => set({ description: e.target.value })}
+          rows={2}
+          className="text-sm resize-none"
+          disabled={busy}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label>Thumbnail URL <span className="text-xs text-muted-foreground">(optional — uploaded to LinkedIn when publishing)</span></Label>
+        <Input
+          value={value.thumbnailUrl ?? ''}
+          onChange={(e) => set({ thumbnailUrl: e.target.value })}
+          placeholder="https://…/image.jpg"
+          className="h-9 text-sm"
+          disabled={busy}
+        />
+      </div>
+
+      {preview?.title && <ArticlePreview article={preview} />}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// ── Preview ──────────────────────────────────────────────────────────────────
+
+export function ArticlePreview({ article, className }: { article: PostArticle; className?: string }) {
+  return (
+    <a
+      href={article.source}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={cn('block rounded-lg border overflow-hidden hover:bg-secondary/30 transition-colors', className)}
+    >
+      {article.thumbnailUrl && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={article.thumbnailUrl} alt="" className="w-full max-h-48 object-cover border-b" />
+      )}
+      <div className="px-3 py-2 space-y-0.5">
+        <p className="text-sm font-semibold line-clamp-2">{article.title || article.source}</p>
+        {article.description && <p className="text-xs text-muted-foreground line-clamp-2">{article.description}</p>}
+        <p className="text-[10px] text-muted-foreground">{hostnameOf(article.source)}</p>
+      </div>
+    </a>
+  );
+}
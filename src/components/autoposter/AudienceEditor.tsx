@@ -0,0 +1,73 @@
+'use client';
+
+/**
+ * Audience Editor — who sees a post and whether it can be reshared
+ *
+ * Starts from the profile defaults; Company Page posts are always public,
+ * so "Connections only" is disabled for them. Rules come from
+ * `@/lib/linkedin/visibility` so the editor and the API agree.
+ */
+
+import { Users } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { POST_VISIBILITIES, POST_VISIBILITY_LABELS, getVisibilityError } from '@/lib/linkedin/visibility';
+import type { AutoposterProfile, PostVisibility } from '@/lib/linkedin/types';
+
+export interface Audience {
+  visibility: PostVisibility;
+  disableReshare: boolean;
+}
+
+/** The profile's audience defaults (null while the profile is loading) */
+export type AudienceDefaults = Pick<AutoposterProfile, 'defaultVisibility' | 'defaultDisableReshare'> | null;
+
+/** Short label for non-default audiences — null for public + resharable */
+export function audienceSummary(audience: Audience): string | null {
+  const parts = [
+    audience.visibility !== 'PUBLIC' && POST_VISIBILITY_LABELS[audience.visibility],
+    audience.disableReshare && 'reposts off',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+export function AudienceEditor({
+  value, onChange, authorUrn, disabled,
+}: {
+  value: Audience;
+  onChange: (v: Audience) => void;
+  /** Selected author — a Company Page URN forces PUBLIC */
+  authorUrn?: string | null;
+  disabled?: boolean;
+}) {
+  const error = getVisibilityError(value.visibility, authorUrn);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="space-y-1.5">
+        <Label className="flex items-center gap-1.5"><Users className="h-3.5 w-3.5" />Who can see this post</Label>
+        <Select value={value.visibility} onValueChange={(v) => onChange({ ...value, visibility: v as PostVisibility })} disabled={disabled}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {POST_VISIBILITIES.map(v => (
+              <SelectItem key={v} value={v} disabled={!!getVisibilityError(v, authorUrn)}>{POST_VISIBILITY_LABELS[v]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <Label htmlFor="disable-reshare" className="text-sm font-normal">Don&apos;t allow reposts</Label>
+        <Switch
+          id="disable-reshare"
+          checked={value.disableReshare}
+          onCheckedChange={(checked) => onChange({ ...value, disableReshare: checked })}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+/**
+ * Cross-post Editor — which other networks get the post, and their text
+ *
+ * One row per connected network (Mastodon, Bluesky, X). A selected
+ * network publishes its own text, or the LinkedIn text when left blank —
+ * the counter measures whichever will go out, the way that network counts.
+ * Copies already out are shown with their status and link, and can't be
+ * edited. Rules come from `@/lib/linkedin/crosspost` so the editor and the
+ * API agree.
+ */
+
+import Link from 'next/link';
+import { AlertCircle, CheckCircle2, ExternalLink, Loader2, Repeat2, RotateCcw, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import {
+  CROSS_POST_NETWORKS, CROSS_POST_NETWORK_LABELS, CROSS_POST_MAX_LENGTH,
+  crossPostLength, getCrossPostText, getCrossPostAudienceError, type CrossPostEdit,
+} from '@/lib/linkedin/crosspost';
+import type { CrossPostConnectionSummary, CrossPostTarget, Post, PostVisibility } from '@/lib/linkedin/types';
+
+/** Editor state from a post's stored targets */
+export function crossPostEditsOf(targets: CrossPostTarget[] | undefined): CrossPostEdit[] {
+  return (targets ?? []).map(t => ({ network: t.network, content: t.content }));
+}
+
+/** Short label for the post card — e.g. "Mastodon ✓ · X failed" */
+export function crossPostSummary(targets: CrossPostTarget[] | undefined): string | null {
+  if (!targets?.length) return null;
+  return targets.map(t => {
+    const label = CROSS_POST_NETWORK_LABELS[t.network];
+    if (t.status === 'published') return `${label} ✓`;
+    if (t.status === 'failed') return `${label} failed`;
+    return label;
+  }).join(' · ');
+}
+
+export function CrossPostEditor({
+  value, onChange, connections, post, visibility, targets, pickOnly, disabled, busyNetwork, onRewrite, onRetry,
+}: {
+  value: CrossPostEdit[];
+  onChange: (v: CrossPostEdit[]) => void;
+  /** Connected accounts — null while loading */
+  connections: CrossPostConnectionSummary[] | null;
+  /** The LinkedIn text (and link) a blank target publishes */
+  post: Pick<Post, 'content' | 'article'>;
+  /** Resolved LinkedIn visibility — connections-only rules out Bluesky and X */
+  visibility: PostVisibility;
+  /** Stored targets, for the status of copies already sent */
+  targets?: CrossPostTarget[];
+  /** Networks only — before there's any text to adapt */
+  pickOnly?: boolean;
+  disabled?: boolean;
+  /** Network with a rewrite in flight */
+  busyNetwork?: string | null;
+  /** Ask the AI for a fresh rewrite (networks already saved on the post) */
+  onRewrite?: (network: CrossPostEdit['network']) => void;
+  /** Send the copies still waiting or failed (published posts only) */
+  onRetry?: () => void;
+}) {
+  if (connections === null) return null;
+
+  const connected = CROSS_POST_NETWORKS.filter(n => connections.some(c => c.network === n) || targets?.some(t => t.network === n));
+  if (connected.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        <Repeat2 className="inline h-3.5 w-3.5 mr-1" />
+        <Link href="/settings" className="underline">Connect Mastodon, Bluesky or X</Link> to cross-post from here.
+      </p>
+    );
+  }
+
+  const toggle = (network: CrossPostEdit['network'], on: boolean) => {
+    onChange(on
+      ? CROSS_POST_NETWORKS.flatMap(n => n === network ? [{ network, content: null }] : value.filter(e => e.network === n))
+      : value.filter(e => e.network !== network));
+  };
+  const setContent = (network: CrossPostEdit['network'], content: string) => {
+    onChange(value.map(e => (e.network === network ? { ...e, content: content || null } : e)));
+  };
+  const retryable = onRetry && targets?.some(t => t.status === 'pending' || t.status === 'failed');
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center gap-1.5"><Repeat2 className="h-3.5 w-3.5" />Also post to</Label>
+        {retryable && (
+          <Button type="button" size="sm" variant="outline" className="h-7 text-xs" onClick={onRetry} disabled={disabled}>
+            <RotateCcw className="h-3 w-3 mr-1" />Send now
+          </Button>
+        )}
+      </div>
+      {connected.map(network => {
+        const label = CROSS_POST_NETWORK_LABELS[network];
+        const connection = connections.find(c => c.network === network);
+        const target = targets?.find(t => t.network === network);
+        const edit = value.find(e => e.network === network);
+
+        // Already out (or going out) — status only
+        if (target && (target.status === 'published' || target.status === 'publishing')) {
+          return (
+            <div key={network} className="flex items-center justify-between gap-2 text-sm">
+              <span>{label} <span className="text-xs text-muted-foreground">{connection?.handle}</span></span>
+              {target.status === 'published' ? (
+                <a href={target.url ?? undefined} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-xs text-green-600 hover:underline">
+                  <CheckCircle2 className="h-3.5 w-3.5" />Posted<ExternalLink className="h-3 w-3" />
+                </a>
+              ) : (
+                <span className="flex items-center gap-1 text-xs text-muted-foreground"><Loader2 className="h-3.5 w-3.5 animate-spin" />Posting…</span>
+              )}
+            </div>
+          );
+        }
+
+        const audienceError = getCrossPostAudienceError(network, visibility);
+        const text = edit ? getCrossPostText(edit, post) : '';
+        const length = crossPostLength(text, network);
+        const max = CROSS_POST_MAX_LENGTH[network];
+
+        return (
+          <div key={network} className="space-y-1.5">
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor={`crosspost-${network}`} className="text-sm font-normal">
+                {label} <span className="text-xs text-muted-foreground">{connection?.handle ?? 'not connected'}</span>
+              </Label>
+              <Switch
+                id={`crosspost-${network}`}
+                checked={!!edit}
+                onCheckedChange={(checked) => toggle(network, checked)}
+                disabled={disabled || !connection || (!edit && !!audienceError)}
+              />
+            </div>
+            {target?.status === 'failed' && target.error && (
+              <p className="flex items-start gap-1 text-xs text-destructive"><AlertCircle className="h-3.5 w-3.5 shrink-0 mt-px" />{target.error}</p>
+            )}
+            {edit && audienceError && <p className="text-xs text-destructive">{audienceError}</p>}
+            {edit && !pickOnly && (
+              <>
+                <Textarea
+                  value={edit.content ?? ''}
+                  onChange={(e) => setContent(network, e.target.value)}
+                  rows={3}
+                  placeholder={`Leave blank to post the LinkedIn text on ${label}`}
+                  className="text-sm resize-none"
+                  disabled={disabled}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <span className={cn('text-[10px]', length > max ? 'text-destructive font-medium' : 'text-muted-foreground')}>
+                    {length}/{max}{!edit.content && ' — LinkedIn text'}{length > max && ` — shorten it for ${label}`}
+                  </span>
+                  {onRewrite && target && (
+                    <Button
+                      type="button" size="sm" variant="ghost" className="h-6 text-xs"
+                      onClick={() => onRewrite(network)} disabled={disabled || !!busyNetwork}
+                    >
+                      {busyNetwork === network
+                        ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        : <Sparkles className="h-3 w-3 mr-1" />}
+                      Rewrite
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,11 +4,11 @@
  * Dashboard — Main hub for the LinkedIn Autoposter
  *
  * Shows:
- *   - Stats: total series, ideas, posts, published count
+ *   - Stats: total series, ideas, posts, published count, impressions
  *   - Active series overview
  *   - Recent ideas
  *   - Next post + upcoming posts
- *   - Recent published posts
+ *   - Recent published posts (with synced engagement metrics)
  *
  * Fetches /api/posts, /api/series, /api/ideas in parallel.
  */
@@ -42,10 +42,14 @@ import {
   Image as ImageIcon,
   Video,
   Code2,
+  BarChart3,
+  Link2,
   Sparkles,
   Eye,
+  TrendingUp,
 } from 'lucide-react';
 import Link from 'next/link';
+import { PostMetricsStrip, formatCount } from './PostMetrics';
 import type { Post, PostStatus, Series, Idea } from '@/lib/linkedin/types';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -74,7 +78,9 @@ const STATUS_CONFIG: Record<PostStatus, { label: string; variant: 'default' | 's
   scheduled: { label: 'Scheduled', variant: 'outline' },
   pending_review: { label: 'Pending', variant: 'outline' },
   approved: { label: 'Approved', variant: 'secondary' },
+  publishing: { label: 'Publishing', variant: 'secondary' },
   published: { label: 'Published', variant: 'default' },
+  deleted: { label: 'Deleted', variant: 'outline' },
   skipped: { label: 'Skipped', variant: 'secondary' },
   rejected: { label: 'Rejected', variant: 'destructive' },
   failed: { label: 'Failed', variant: 'destructive' },
@@ -85,6 +91,8 @@ const MEDIA_ICONS = {
   image: ImageIcon,
   video: Video,
   html: Code2,
+  poll: BarChart3,
+  article: Link2,
 };
 
 // ── Stat Card ────────────────────────────────────────────────────────────────
@@ -315,6 +323,9 @@ function PostRow({ post }: { post: Post }) {
         <p className="text-xs text-muted-foreground">
           {isPublished && post.publishedAt ? timeAgo(post.publishedAt) : formatDate(post.scheduledFor)}
         </p>
+        {isPublished && post.metrics && (
+          <PostMetricsStrip metrics={post.metrics} previous={post.previousMetrics} className="mt-0.5" />
+        )}
       </div>
       <Badge variant={statusConfig.variant} className="shrink-0 text-[10px]">
         {statusConfig.label}
@@ -362,6 +373,7 @@ export default function DashboardClient() {
   const activeSeries = seriesList.filter((s) => s.status === 'active');
   const unusedIdeas = ideas.filter((i) => !i.used);
   const nextPost = upcoming[0] ?? null;
+  const totalImpressions = published.reduce((sum, p) => sum + (p.metrics?.impressions ?? 0), 0);
 
   // Post action handler — includes HTML→PNG capture for approve/publish on HTML posts
   const handleAction = async (postId: string, action: string, content?: string) => {
@@ -588,11 +600,12 @@ export default function DashboardClient() {
       </div>
 
       {/* Stats Row */}
-      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-5">
         <StatCard label="Series" value={seriesList.length} icon={Layers} loading={loading} />
         <StatCard label="Ideas" value={unusedIdeas.length} icon={Lightbulb} loading={loading} />
         <StatCard label="Upcoming" value={upcoming.length} icon={Clock} loading={loading} />
         <StatCard label="Published" value={published.length} icon={Send} loading={loading} />
+        <StatCard label="Impressions" value={formatCount(totalImpressions)} icon={TrendingUp} loading={loading} />
       </div>
 
       {/* Next Scheduled Post — hero card */}
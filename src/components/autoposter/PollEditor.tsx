@@ -0,0 +1,180 @@
+'use client';
+
+/**
+ * Poll Editor — question / options / duration for 'poll' posts
+ *
+ * PollEditor edits the AI-proposed poll before publishing. PollPreview shows
+ * the poll as LinkedIn will, with vote bars once results have been synced.
+ * Limits come from `@/lib/linkedin/poll` so the editor and the API agree.
+ */
+
+import { BarChart3, Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import {
+  POLL_DURATIONS, POLL_DURATION_LABELS, POLL_QUESTION_MAX_LENGTH, POLL_OPTION_MAX_LENGTH,
+  POLL_MIN_OPTIONS, POLL_MAX_OPTIONS, getPollError, getPollEndsAt, normalizePoll,
+} from '@/lib/linkedin/poll';
+import type { PollDuration, PollResults, PostPoll } from '@/lib/linkedin/types';
+
+/** Blank poll for drafts where the AI couldn't propose one */
+export function emptyPoll(duration: PollDuration = 'THREE_DAYS'): PostPoll {
+  return { question: '', options: ['', ''], duration };
+}
+
+// ── Duration ─────────────────────────────────────────────────────────────────
+
+export function PollDurationSelect({
+  value, onChange, disabled,
+}: {
+  value: PollDuration;
+  onChange: (v: PollDuration) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <Label>Poll duration</Label>
+      <Select value={value} onValueChange={(v) => onChange(v as PollDuration)} disabled={disabled}>
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {POLL_DURATIONS.map(d => <SelectItem key={d} value={d}>{POLL_DURATION_LABELS[d]}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// ── Editor ───────────────────────────────────────────────────────────────────
+
+export function PollEditor({
+  value, onChange, disabled,
+}: {
+  value: PostPoll;
+  onChange: (v: PostPoll) => void;
+  disabled?: boolean;
+}) {
+  const setOption = (index: number, text: string) => {
+    onChange({ ...value, options: value.options.map((o, i) => (i === index ? text : o)) });
+  };
+
+  // Blank options are dropped on save, so only flag problems once something's typed
+  const touched = !!value.question.trim() || value.options.some(o => o.trim());
+  const error = touched ? getPollError(normalizePoll(value)) : null;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <Label className="flex items-center gap-1.5"><BarChart3 className="h-3.5 w-3.5" />Poll question</Label>
+          <span className="text-[10px] text-muted-foreground">{value.question.length}/{POLL_QUESTION_MAX_LENGTH}</span>
+        </div>
+        <Input
+          value={value.question}
+          onChange={(e) => onChange({ ...value, question: e.target.value })}
+          maxLength={POLL_QUESTION_MAX_LENGTH}
+          placeholder="What do you want to ask?"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label>Options</Label>
+        {value.options.map((option, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <Input
+              value={option}
+              onChange={(e) => setOption(i, e.target.value)}
+              maxLength={POLL_OPTION_MAX_LENGTH}
+              placeholder={`Option ${i + 1}`}
+              className="h-8 text-sm"
+              disabled={disabled}
+            />
+            <span className="w-10 shrink-0 text-right text-[10px] text-muted-foreground">
+              {option.length}/{POLL_OPTION_MAX_LENGTH}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              onClick={() => onChange({ ...value, options: value.options.filter((_, j) => j !== i) })}
+              disabled={disabled || value.options.length <= POLL_MIN_OPTIONS}
+              aria-label={`Remove option ${i + 1}`}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+        {value.options.length < POLL_MAX_OPTIONS && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => onChange({ ...value, options: [...value.options, ''] })}
+            disabled={disabled}
+          >
+            <Plus className="mr-1 h-3 w-3" />Add option
+          </Button>
+        )}
+      </div>
+
+      <PollDurationSelect
+        value={value.duration}
+        onChange={(duration) => onChange({ ...value, duration })}
+        disabled={disabled}
+      />
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// ── Preview / results ────────────────────────────────────────────────────────
+
+export function PollPreview({
+  poll, results, publishedAt, className,
+}: {
+  poll: PostPoll;
+  /** Synced vote counts — omitted before publishing */
+  results?: PollResults | null;
+  publishedAt?: Date | string;
+  className?: string;
+}) {
+  const endsAt = publishedAt ? getPollEndsAt(new Date(publishedAt), poll.duration) : null;
+  const ended = endsAt ? endsAt < new Date() : false;
+  const totalVotes = results?.options.reduce((sum, o) => sum + o.voteCount, 0) ?? 0;
+
+  return (
+    <div className={cn('rounded-lg border p-3 space-y-2', className)}>
+      <p className="text-sm font-medium">{poll.question}</p>
+      <div className="space-y-1.5">
+        {poll.options.map((option, i) => {
+          const votes = results?.options[i]?.voteCount ?? 0;
+          const pct = totalVotes > 0 ? Math.round((votes / totalVotes) * 100) : 0;
+          return (
+            <div key={i} className="relative overflow-hidden rounded-md border px-3 py-1.5 text-sm">
+              {results && <div className="absolute inset-y-0 left-0 bg-primary/10" style={{ width: `${pct}%` }} />}
+              <div className="relative flex items-center justify-between gap-2">
+                <span>{option}</span>
+                {results && <span className="text-xs font-medium text-muted-foreground">{pct}%</span>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        {results ? `${results.uniqueVoters} ${results.uniqueVoters === 1 ? 'vote' : 'votes'} · ` : ''}
+        {endsAt
+          ? `${ended ? 'Ended' : 'Ends'} ${endsAt.toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}`
+          : `Open for ${POLL_DURATION_LABELS[poll.duration]}`}
+        {endsAt && !results && ' · results sync every few hours'}
+      </p>
+    </div>
+  );
+}
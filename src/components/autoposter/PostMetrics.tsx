@@ -0,0 +1,117 @@
+'use client';
+
+/**
+ * Post Metrics — engagement counters + trend for published posts
+ *
+ * PostMetricsStrip shows the latest synced counters with the change since
+ * the previous sync. PostMetricsTrend loads the full snapshot history from
+ * /api/posts/metrics and charts impressions over time.
+ */
+
+import { useEffect, useState } from 'react';
+import { Eye, ThumbsUp, MessageSquare, Repeat2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { PostMetrics, PostMetricsSnapshot } from '@/lib/linkedin/types';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** 1234 → "1.2k" */
+export function formatCount(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1).replace(/\.0$/, '')}k`;
+  return String(n);
+}
+
+const METRIC_FIELDS: { key: keyof PostMetrics; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { key: 'impressions', label: 'Impressions', icon: Eye },
+  { key: 'reactions', label: 'Reactions', icon: ThumbsUp },
+  { key: 'comments', label: 'Comments', icon: MessageSquare },
+  { key: 'reshares', label: 'Reshares', icon: Repeat2 },
+];
+
+// ── Strip ────────────────────────────────────────────────────────────────────
+
+export function PostMetricsStrip({
+  metrics, previous, className,
+}: {
+  metrics: PostMetrics;
+  previous?: PostMetrics | null;
+  className?: string;
+}) {
+  return (
+    <div className={cn('flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground', className)}>
+      {METRIC_FIELDS.map(({ key, label, icon: Icon }) => {
+        const delta = previous ? metrics[key] - previous[key] : 0;
+        return (
+          <span key={key} className="inline-flex items-center gap-1" title={label}>
+            <Icon className="h-3 w-3" />
+            <span className="font-medium text-foreground">{formatCount(metrics[key])}</span>
+            {delta > 0 && <span className="text-[10px] text-emerald-600 dark:text-emerald-400">+{formatCount(delta)}</span>}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+// ── Trend ────────────────────────────────────────────────────────────────────
+
+/** Impressions sparkline from every synced snapshot of one post */
+export function PostMetricsTrend({ postId }: { postId: string }) {
+  const [snapshots, setSnapshots] = useState<PostMetricsSnapshot[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/posts/metrics?postId=${postId}`);
+        const data = await res.json();
+        if (cancelled) return;
+        if (data.success) setSnapshots(data.data ?? []);
+        else setError(data.error ?? 'Failed to load metrics');
+      } catch {
+        if (!cancelled) setError('Failed to load metrics');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [postId]);
+
+  if (error) return <p className="text-xs text-destructive">{error}</p>;
+  if (!snapshots) return <Skeleton className="h-16 w-full" />;
+  if (snapshots.length === 0) {
+    return <p className="text-xs text-muted-foreground">No metrics yet — they sync every few hours after publishing.</p>;
+  }
+
+  const latest = snapshots[snapshots.length - 1];
+  const width = 240;
+  const height = 48;
+  const max = Math.max(...snapshots.map(s => s.impressions), 1);
+  const points = snapshots.map((s, i) => {
+    const x = snapshots.length === 1 ? width : (i / (snapshots.length - 1)) * width;
+    const y = height - (s.impressions / max) * height;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-muted-foreground">Engagement</p>
+        <p className="text-[10px] text-muted-foreground">
+          Synced {new Date(latest.capturedAt).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+        </p>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-12 text-primary" preserveAspectRatio="none">
+        <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <PostMetricsStrip
+        metrics={latest}
+        previous={snapshots.length > 1 ? snapshots[0] : null}
+      />
+      {snapshots.length > 1 && (
+        <p className="text-[10px] text-muted-foreground">Changes shown since the first sync.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+/**
+ * Post Text Editor — post body textarea with @mention insertion + preview
+ *
+ * Mentions are stored as @[Name](urn:li:…) tokens in the post text and
+ * expanded by the little-text formatter at publish time. The preview uses
+ * the same parser, so what it highlights is what LinkedIn links.
+ */
+
+import { useRef, useState } from 'react';
+import { AtSign, Eye, Loader2, PenLine } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { parseLittleText, mentionToken } from '@/lib/linkedin/little-text';
+
+const MEMBER_URN_PATTERN = /^urn:li:(?:person|organization):[A-Za-z0-9_-]+$/;
+
+// ── Preview ──────────────────────────────────────────────────────────────────
+
+/** Renders post text the way LinkedIn will — mentions + hashtags as links */
+export function LittleTextPreview({ text, className }: { text: string; className?: string }) {
+  return (
+    <p className={cn('text-sm leading-relaxed whitespace-pre-line', className)}>
+      {parseLittleText(text).map((segment, i) => {
+        if (segment.type === 'mention') {
+          return <span key={i} className="font-semibold text-blue-600 dark:text-blue-400" title={segment.urn}>{segment.name}</span>;
+        }
+        if (segment.type === 'hashtag') {
+          return <span key={i} className="font-semibold text-blue-600 dark:text-blue-400">#{segment.tag}</span>;
+        }
+        return <span key={i}>{segment.text}</span>;
+      })}
+    </p>
+  );
+}
+
+// ── Editor ───────────────────────────────────────────────────────────────────
+
+export function PostTextEditor({
+  value, onChange, rows = 14, disabled, linkedinAccountId,
+}: {
+  value: string;
+  onChange: (v: string) => void;
+  rows?: number;
+  disabled?: boolean;
+  /** Account used to look up company pages ('' / undefined = default) */
+  linkedinAccountId?: string;
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [preview, setPreview] = useState(false);
+  const [mentionOpen, setMentionOpen] = useState(false);
+  const [mentionName, setMentionName] = useState('');
+  const [mentionTarget, setMentionTarget] = useState('');
+  const [resolving, setResolving] = useState(false);
+  const [mentionError, setMentionError] = useState('');
+
+  const closeMention = () => {
+    setMentionOpen(false);
+    setMentionName('');
+    setMentionTarget('');
+    setMentionError('');
+  };
+
+  /** Insert at the cursor (or the end if the textarea never had focus) */
+  const insertAtCursor = (token: string) => {
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    const before = value.slice(0, start);
+    const spacer = before && !/\s$/.test(before) ? ' ' : '';
+    onChange(`${before}${spacer}${token}${value.slice(end)}`);
+  };
+
+  const handleInsertMention = async () => {
+    const target = mentionTarget.trim();
+    setMentionError('');
+
+    // URN entered directly — person mentions always come this way
+    if (MEMBER_URN_PATTERN.test(target)) {
+      if (!mentionName.trim()) { setMentionError('Enter the name to show for this mention.'); return; }
+      insertAtCursor(mentionToken(mentionName, target));
+      closeMention();
+      return;
+    }
+
+    // Otherwise treat it as a company page URL / vanity name
+    setResolving(true);
+    try {
+      const params = new URLSearchParams({ q: target });
+      if (linkedinAccountId) params.set('accountId', linkedinAccountId);
+      const res = await fetch(`/api/linkedin/mentions?${params}`);
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error ?? 'Lookup failed');
+      insertAtCursor(mentionToken(mentionName.trim() || data.data.name, data.data.urn));
+      closeMention();
+    } catch (err) {
+      setMentionError(err instanceof Error ? err.message : 'Lookup failed');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => (mentionOpen ? closeMention() : setMentionOpen(true))}
+          disabled={disabled || preview}
+        >
+          <AtSign className="mr-1 h-3 w-3" />Mention
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setPreview(p => !p)}
+          disabled={disabled}
+        >
+          {preview ? <><PenLine className="mr-1 h-3 w-3" />Edit</> : <><Eye className="mr-1 h-3 w-3" />Preview</>}
+        </Button>
+      </div>
+
+      {mentionOpen && !preview && (
+        <div className="rounded-lg border bg-muted/30 p-3 space-y-2">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <Input
+              value={mentionName}
+              onChange={(e) => setMentionName(e.target.value)}
+              placeholder="Display name"
+              className="h-8 text-sm"
+              disabled={resolving}
+            />
+            <Input
+              value={mentionTarget}
+              onChange={(e) => setMentionTarget(e.target.value)}
+              placeholder="Company page URL or urn:li:person:…"
+              className="h-8 text-sm"
+              disabled={resolving}
+            />
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            Company pages are looked up by URL. LinkedIn doesn&apos;t allow searching people, so person mentions need their member URN.
+          </p>
+          {mentionError && <p className="text-xs text-destructive">{mentionError}</p>}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={closeMention} disabled={resolving}>
+              Cancel
+            </Button>
+            <Button type="button" size="sm" className="h-7 text-xs" onClick={handleInsertMention} disabled={resolving || !mentionTarget.trim()}>
+              {resolving && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}Insert
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {preview ? (
+        <div className="rounded-lg border bg-secondary/30 p-4">
+          <LittleTextPreview text={value} />
+        </div>
+      ) : (
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={rows}
+          className="font-mono text-sm resize-none"
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
@@ -7,7 +7,7 @@
  *   1. Post Now — AI generates content → user reviews → publish to LinkedIn instantly
  *   2. Schedule — AI generates content → saved for review → publishes at scheduled time
  *
- * Content type (text / image / video) determines what AI produces.
+ * Content type (text / image / video / html / poll / article) determines what AI produces.
  */
 
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
@@ -16,7 +16,7 @@ import {
   CheckCircle2, XCircle, RotateCcw, PenLine, Send, Clock,
   SkipForward, AlertCircle, Eye, FileText, Image as ImageIcon, Video, Code2,
   Sparkles, Zap, CalendarClock, Loader2, Settings2, ChevronDown, ChevronUp,
-  Trash2, Maximize2, ChevronLeft, ChevronRight,
+  Trash2, Maximize2, ChevronLeft, ChevronRight, Building2, MessageSquare, BarChart3, Link2, Users, Repeat2, ExternalLink,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
@@ -43,7 +43,21 @@ import {
   IMAGE_SIZES, VIDEO_RESOLUTIONS, VIDEO_DURATIONS,
 } from '@/components/ai-test/catalog';
 import type { TestProvider, TestCapability, ModelOption } from '@/components/ai-test/types';
-import type { Post, PostStatus, PostMediaType, Series, HtmlTemplate, AutoposterProfile, PostingSchedule } from '@/lib/linkedin/types';
+import { PostMetricsStrip, PostMetricsTrend } from './PostMetrics';
+import { PostTextEditor, LittleTextPreview } from './PostTextEditor';
+import { PollEditor, PollPreview, PollDurationSelect, emptyPoll } from './PollEditor';
+import { ArticleEditor, ArticlePreview, emptyArticle } from './ArticleEditor';
+import { VideoExtrasEditor, videoExtrasOf, type VideoExtras } from './VideoExtrasEditor';
+import { AltTextEditor, altTextsFor } from './AltTextEditor';
+import { AudienceEditor, audienceSummary, type Audience, type AudienceDefaults } from './AudienceEditor';
+import { CrossPostEditor, crossPostEditsOf, crossPostSummary } from './CrossPostEditor';
+import { getVisibilityError, resolveAudience } from '@/lib/linkedin/visibility';
+import { CROSS_POST_NETWORK_LABELS, type CrossPostEdit } from '@/lib/linkedin/crosspost';
+import { upcomingSlotTimes, type UpcomingSlot } from '@/lib/linkedin/schedule';
+import { DEFAULT_TIMEZONE, utcToZoned, weekdayOf } from '@/lib/linkedin/timezone';
+import { scoreAt, type PostingTimeScores } from '@/lib/linkedin/best-time';
+import { isBlackedOut } from '@/lib/linkedin/blackout';
+import type { Post, PostStatus, PostMediaType, CarouselFormat, PollDuration, PostPoll, PostArticle, Series, HtmlTemplate, AutoposterProfile, LinkedInOrganization, LinkedInAccountSummary, CrossPostConnectionSummary, CrossPostTarget } from '@/lib/linkedin/types';
 import html2canvas from 'html2canvas';
 import { removeSlideFromHtml } from '@/lib/html-gen/utils';
 
@@ -54,11 +68,13 @@ function formatDate(d: Date | string) {
   return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
 }
 
-function formatDateTime(d: Date | string) {
+/** In the browser's timezone unless `timeZone` says otherwise */
+function formatDateTime(d: Date | string, timeZone?: string) {
   const date = typeof d === 'string' ? new Date(d) : d;
   return date.toLocaleString('en-US', {
     weekday: 'short', month: 'short', day: 'numeric',
     hour: 'numeric', minute: '2-digit', hour12: true,
+    timeZone,
   });
 }
 
@@ -70,37 +86,39 @@ function toLocalDatetimeValue(d: Date | string) {
 
 // ── Compute upcoming posting slots from weekly schedule ─────────────────────
 
-const DAY_INDEX_MAP: Record<number, keyof PostingSchedule> = {
-  0: 'sunday', 1: 'monday', 2: 'tuesday', 3: 'wednesday',
-  4: 'thursday', 5: 'friday', 6: 'saturday',
-};
-
-function computeUpcomingSlots(schedule: PostingSchedule, maxSlots: number): Date[] {
-  const slots: Date[] = [];
-  const now = new Date();
-  const cursor = new Date(now);
-  cursor.setHours(0, 0, 0, 0);
-
+/**
+ * Next free slots in time order, in the profile's timezone — slots
+ * already booked, reserved for another series or on a vacation /
+ * blackout day are left out
+ */
+function computeUpcomingSlots(
+  profile: AutoposterProfile,
+  maxSlots: number,
+  seriesId: string | undefined,
+  bookedTimes: Set<number>,
+): UpcomingSlot[] {
   // Scan up to 8 weeks ahead
-  for (let d = 0; d < 56 && slots.length < maxSlots; d++) {
-    const dayKey = DAY_INDEX_MAP[cursor.getDay()];
-    const dayConfig = schedule[dayKey];
-    if (dayConfig.enabled) {
-      const [h, m] = dayConfig.postTime.split(':').map(Number);
-      const slotDate = new Date(cursor);
-      slotDate.setHours(h, m, 0, 0);
-      if (slotDate > now) slots.push(slotDate);
-    }
-    cursor.setDate(cursor.getDate() + 1);
-  }
-  return slots;
+  return upcomingSlotTimes(profile.postingSchedule, profile.timezone || DEFAULT_TIMEZONE, 56)
+    .filter(({ at, slot }) =>
+      !bookedTimes.has(at.getTime())
+      && (!slot.seriesId || slot.seriesId === seriesId)
+      && !isBlackedOut(profile, at))
+    .slice(0, maxSlots);
 }
 
+/** Statuses that hold a slot */
+const BOOKED_STATUSES: PostStatus[] = ['scheduled', 'pending_review', 'approved', 'publishing'];
+
+/** How many of the upcoming free slots to flag as best */
+const BEST_SLOT_COUNT = 3;
+
 const STATUS_CONFIG: Record<PostStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline'; icon: React.ComponentType<{ className?: string }> }> = {
   scheduled:      { label: 'Scheduled',    variant: 'outline', icon: CalendarClock },
   pending_review: { label: 'Needs Review', variant: 'default', icon: PenLine },
   approved:       { label: 'Approved',     variant: 'secondary', icon: CheckCircle2 },
+  publishing:     { label: 'Publishing…',  variant: 'secondary', icon: Loader2 },
   published:      { label: 'Published',    variant: 'secondary', icon: Send },
+  deleted:        { label: 'Deleted',      variant: 'outline', icon: Trash2 },
   rejected:       { label: 'Rejected',     variant: 'destructive', icon: XCircle },
   skipped:        { label: 'Skipped',      variant: 'outline', icon: SkipForward },
   failed:         { label: 'Failed',       variant: 'destructive', icon: AlertCircle },
@@ -111,6 +129,8 @@ const MEDIA_ICONS: Record<PostMediaType, React.ComponentType<{ className?: strin
   image: ImageIcon,
   video: Video,
   html: Code2,
+  poll: BarChart3,
+  article: Link2,
 };
 
 // ── CSS Variable Resolver ─────────────────────────────────────────────────────
@@ -698,24 +718,28 @@ async function captureHtmlPages(html: string, pageCount: number): Promise<string
 // ── Content Type Selector ────────────────────────────────────────────────────
 
 function ContentTypeSelector({
-  value, onChange, disabled,
+  value, onChange, disabled, exclude = [],
 }: {
   value: PostMediaType;
   onChange: (v: PostMediaType) => void;
   disabled?: boolean;
+  /** Types that make no sense in this flow (e.g. one link for a whole batch) */
+  exclude?: PostMediaType[];
 }) {
   const options: { value: PostMediaType; label: string; icon: React.ComponentType<{ className?: string }>; desc: string }[] = [
     { value: 'text',  label: 'Text',      icon: FileText,  desc: 'Text-only post' },
     { value: 'image', label: 'Image',     icon: ImageIcon, desc: 'AI generates an image' },
     { value: 'video', label: 'Video',     icon: Video,     desc: 'AI generates a short video' },
     { value: 'html',  label: 'HTML Card', icon: Code2,     desc: 'Template card image' },
+    { value: 'poll',  label: 'Poll',      icon: BarChart3, desc: 'AI proposes the options' },
+    { value: 'article', label: 'Article', icon: Link2,     desc: 'Share a link as a card' },
   ];
 
   return (
     <div className="space-y-1.5">
       <Label>Content Type</Label>
-      <div className="grid grid-cols-4 gap-2">
-        {options.map((opt) => {
+      <div className="grid grid-cols-3 gap-2">
+        {options.filter(opt => !exclude.includes(opt.value)).map((opt) => {
           const Icon = opt.icon;
           const active = value === opt.value;
           return (
@@ -743,6 +767,137 @@ function ContentTypeSelector({
   );
 }
 
+// ── Carousel Format Selector ─────────────────────────────────────────────────
+
+/** PDF document (native swipeable carousel) vs. multi-image grid for HTML posts */
+function CarouselFormatSelect({
+  value, onChange, disabled,
+}: {
+  value: CarouselFormat;
+  onChange: (v: CarouselFormat) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <Label>Publish as</Label>
+      <Select value={value} onValueChange={(v) => onChange(v as CarouselFormat)} disabled={disabled}>
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="document">Document carousel (swipeable PDF)</SelectItem>
+          <SelectItem value="multi_image">Multi-image post</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// ── First Comment ────────────────────────────────────────────────────────────
+
+/** Comment posted right after publishing — links + extra hashtags live here */
+function FirstCommentField({
+  value, onChange, disabled,
+}: {
+  value: string;
+  onChange: (v: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <Label>First comment <span className="text-xs text-muted-foreground">(optional — links, extra hashtags)</span></Label>
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={3}
+        placeholder="Posted as a comment right after the post goes live"
+        className="text-sm resize-none"
+        disabled={disabled}
+      />
+    </div>
+  );
+}
+
+// ── Account + Author Selectors ───────────────────────────────────────────────
+
+/** Company Pages of the picked account ('' = the default account) */
+function accountOrganizations(accounts: LinkedInAccountSummary[], accountId: string): LinkedInOrganization[] {
+  const account = accounts.find(a => a.id === accountId) ?? accounts.find(a => a.isDefault);
+  return account?.organizations ?? [];
+}
+
+/** Which connected LinkedIn account to publish with. Hidden with ≤ 1 account. */
+function AccountSelect({
+  value, onChange, accounts, disabled,
+}: {
+  /** '' = default account */
+  value: string;
+  onChange: (v: string) => void;
+  accounts: LinkedInAccountSummary[];
+  disabled?: boolean;
+}) {
+  if (accounts.length <= 1) return null;
+
+  return (
+    <div className="space-y-1.5">
+      <Label>LinkedIn account</Label>
+      <Select
+        value={value || '_default'}
+        onValueChange={(v) => onChange(v === '_default' ? '' : v)}
+        disabled={disabled}
+      >
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="_default">
+            Default ({accounts.find(a => a.isDefault)?.name ?? 'not set'})
+          </SelectItem>
+          {accounts.map(a => (
+            <SelectItem key={a.id} value={a.id}>
+              <span className="font-medium">{a.name}</span>
+              {a.email && <span className="text-[10px] text-muted-foreground ml-1.5">{a.email}</span>}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/** Personal profile vs. Company Page. Hidden when the member admins no pages. */
+function AuthorSelect({
+  value, onChange, organizations, disabled,
+}: {
+  /** '' = personal profile */
+  value: string;
+  onChange: (v: string) => void;
+  organizations: LinkedInOrganization[];
+  disabled?: boolean;
+}) {
+  if (organizations.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5">
+      <Label>Post as</Label>
+      <Select
+        value={value || '_personal'}
+        onValueChange={(v) => onChange(v === '_personal' ? '' : v)}
+        disabled={disabled}
+      >
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="_personal">My personal profile</SelectItem>
+          {organizations.map(o => (
+            <SelectItem key={o.urn} value={o.urn}>
+              <span className="flex items-center gap-1.5">
+                <Building2 className="h-3.5 w-3.5" />
+                {o.name}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
 // ── Shared form fields for topic + notes + content type + model control ───────
 
 interface GenerationFormData {
@@ -750,10 +905,19 @@ interface GenerationFormData {
   notes: string;
   seriesId: string;
   mediaType: PostMediaType;
+  // LinkedIn account — '' = default account
+  linkedinAccountId: string;
+  // Author — '' = personal profile, else "urn:li:organization:..."
+  authorUrn: string;
   // Template (for HTML content type)
   templateId: string;
-  // Page count (for HTML carousel)
+  // Page count + publish format (for HTML carousel)
   pageCount: string;
+  carouselFormat: CarouselFormat;
+  // Poll (question + options are proposed by the AI)
+  pollDuration: PollDuration;
+  // Article — the link the post shares
+  article: PostArticle;
   // Model control
   provider: TestProvider;
   textModel: string;
@@ -771,8 +935,8 @@ interface GenerationFormData {
 }
 
 const DEFAULT_FORM: GenerationFormData = {
-  topic: '', notes: '', seriesId: '', mediaType: 'html',
-  templateId: '', pageCount: '1',
+  topic: '', notes: '', seriesId: '', mediaType: 'html', linkedinAccountId: '', authorUrn: '',
+  templateId: '', pageCount: '1', carouselFormat: 'document', pollDuration: 'THREE_DAYS', article: emptyArticle(),
   provider: 'gemini',
   textModel: 'gemini-3.1-pro-preview',
   imageModel: getDefaultModel('gemini', 'image'),
@@ -782,19 +946,20 @@ const DEFAULT_FORM: GenerationFormData = {
   durationSeconds: '', videoResolution: '', negativePrompt: '',
 };
 
-/** Map PostMediaType → TestCapability. HTML uses the text model pipeline. */
+/** Map PostMediaType → TestCapability. HTML, polls and articles use the text model pipeline. */
 function toCapability(mt: PostMediaType): TestCapability {
-  if (mt === 'html') return 'text';
+  if (mt === 'html' || mt === 'poll' || mt === 'article') return 'text';
   return mt as TestCapability;
 }
 
 function GenerationFields({
-  form, setForm, seriesList, templates, disabled, showSeries = false,
+  form, setForm, seriesList, templates, accounts = [], disabled, showSeries = false,
 }: {
   form: GenerationFormData;
   setForm: React.Dispatch<React.SetStateAction<GenerationFormData>>;
   seriesList: Series[];
   templates: HtmlTemplate[];
+  accounts?: LinkedInAccountSummary[];
   disabled: boolean;
   showSeries?: boolean;
 }) {
@@ -819,7 +984,7 @@ function GenerationFields({
   const handleMediaTypeChange = (mt: PostMediaType) => {
     setForm(f => {
       const cap = toCapability(mt);
-      const isText = mt === 'text' || mt === 'html';
+      const isText = toCapability(mt) === 'text';
       const currentModel = isText ? f.textModel : mt === 'image' ? f.imageModel : f.videoModel;
       const models = getModels(f.provider, cap);
       const valid = models.some(m => m.id === currentModel);
@@ -832,8 +997,9 @@ function GenerationFields({
   };
 
   /** The model list that corresponds to the currently active content type */
-  const activeModels = (form.mediaType === 'text' || form.mediaType === 'html') ? textModels : form.mediaType === 'image' ? imageModels : videoModels;
-  const activeModelKey = (form.mediaType === 'text' || form.mediaType === 'html') ? 'textModel' : form.mediaType === 'image' ? 'imageModel' : 'videoModel';
+  const activeCapability = toCapability(form.mediaType);
+  const activeModels = activeCapability === 'text' ? textModels : activeCapability === 'image' ? imageModels : videoModels;
+  const activeModelKey = activeCapability === 'text' ? 'textModel' : activeCapability === 'image' ? 'imageModel' : 'videoModel';
   const activeModelValue = form[activeModelKey as keyof GenerationFormData] as string;
   const selectedModelInfo = activeModels.find(m => m.id === activeModelValue);
 
@@ -921,13 +1087,51 @@ function GenerationFields({
         </div>
       )}
 
+      {/* Publish format — shown when HTML is selected */}
+      {form.mediaType === 'html' && (
+        <CarouselFormatSelect
+          value={form.carouselFormat}
+          onChange={(v) => setForm(f => ({ ...f, carouselFormat: v }))}
+          disabled={disabled}
+        />
+      )}
+
+      {/* Shared link — shown when Article is selected */}
+      {form.mediaType === 'article' && (
+        <ArticleEditor
+          value={form.article}
+          onChange={(v) => setForm(f => ({ ...f, article: v }))}
+          disabled={disabled}
+        />
+      )}
+
+      {/* Poll duration — shown when Poll is selected */}
+      {form.mediaType === 'poll' && (
+        <PollDurationSelect
+          value={form.pollDuration}
+          onChange={(v) => setForm(f => ({ ...f, pollDuration: v }))}
+          disabled={disabled}
+        />
+      )}
+
       {/* Series */}
       {showSeries && seriesList.length > 0 && (
         <div className="space-y-1.5">
           <Label>Series <span className="text-xs text-muted-foreground">(optional)</span></Label>
           <Select
             value={form.seriesId}
-            onValueChange={(v) => setForm(f => ({ ...f, seriesId: v === 'none' ? '' : v }))}
+            onValueChange={(v) => setForm(f => {
+              const seriesId = v === 'none' ? '' : v;
+              // Series may default to another account / a Company Page author
+              const series = seriesList.find(s => s.id === seriesId);
+              if (!series?.linkedinAccountId && !series?.authorUrn) return { ...f, seriesId };
+              return {
+                ...f,
+                seriesId,
+                linkedinAccountId: series.linkedinAccountId ?? '',
+                authorUrn: series.authorUrn ?? '',
+              };
+            })}
             disabled={disabled}
           >
             <SelectTrigger><SelectValue placeholder="No series" /></SelectTrigger>
@@ -939,6 +1143,20 @@ function GenerationFields({
         </div>
       )}
 
+      {/* LinkedIn account + author (personal profile or Company Page) */}
+      <AccountSelect
+        value={form.linkedinAccountId}
+        onChange={(v) => setForm(f => ({ ...f, linkedinAccountId: v, authorUrn: '' }))}
+        accounts={accounts}
+        disabled={disabled}
+      />
+      <AuthorSelect
+        value={form.authorUrn}
+        onChange={(v) => setForm(f => ({ ...f, authorUrn: v }))}
+        organizations={accountOrganizations(accounts, form.linkedinAccountId)}
+        disabled={disabled}
+      />
+
       {/* Advanced — Model Control */}
       <button
         type="button"
@@ -1153,6 +1371,8 @@ function buildModelPayload(form: GenerationFormData) {
     provider: form.provider || undefined,
     templateId: form.templateId || undefined,
     pageCount: form.pageCount ? parseInt(form.pageCount) : 1,
+    carouselFormat: form.mediaType === 'html' ? form.carouselFormat : undefined,
+    pollDuration: form.mediaType === 'poll' ? form.pollDuration : undefined,
     textModel: form.textModel || undefined,
     imageModel: form.mediaType === 'image' ? (form.imageModel || undefined) : undefined,
     videoModel: form.mediaType === 'video' ? (form.videoModel || undefined) : undefined,
@@ -1170,10 +1390,13 @@ function buildModelPayload(form: GenerationFormData) {
 interface PostNowDialogProps {
   seriesList: Series[];
   templates: HtmlTemplate[];
+  accounts: LinkedInAccountSummary[];
+  audienceDefaults: AudienceDefaults;
+  crossPostConnections: CrossPostConnectionSummary[] | null;
   onDone: () => void;
 }
 
-function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
+function PostNowDialog({ seriesList, templates, accounts, audienceDefaults, crossPostConnections, onDone }: PostNowDialogProps) {
   const [open, setOpen] = useState(false);
   const [step, setStep] = useState<'input' | 'review'>('input');
   const [generating, setGenerating] = useState(false);
@@ -1186,6 +1409,14 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
   const [draft, setDraft] = useState<{ postId: string; content: string; summary: string; mediaUrl?: string; htmlContent?: string; pageCount?: number } | null>(null);
   const [editedContent, setEditedContent] = useState('');
   const [editing, setEditing] = useState(false);
+  const [firstComment, setFirstComment] = useState('');
+  const [poll, setPoll] = useState<PostPoll>(emptyPoll());
+  const [article, setArticle] = useState<PostArticle>(emptyArticle());
+  /** One entry per generated image / slide — empty when nothing visual was generated */
+  const [altTexts, setAltTexts] = useState<string[]>([]);
+  const [audience, setAudience] = useState<Audience>(() => resolveAudience({}, audienceDefaults));
+  const audienceError = getVisibilityError(audience.visibility, form.authorUrn);
+  const [crossPosts, setCrossPosts] = useState<CrossPostEdit[]>([]);
 
   const reset = () => {
     setStep('input');
@@ -1193,6 +1424,12 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
     setDraft(null);
     setEditedContent('');
     setEditing(false);
+    setFirstComment('');
+    setPoll(emptyPoll());
+    setArticle(emptyArticle());
+    setAltTexts([]);
+    setAudience(resolveAudience({}, audienceDefaults));
+    setCrossPosts([]);
     setError('');
   };
 
@@ -1201,6 +1438,8 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
   // Step 1: Generate AI content
   const handleGenerate = async () => {
     if (!form.topic.trim()) { setError('Topic is required.'); return; }
+    if (form.mediaType === 'article' && !form.article.source.trim()) { setError('Add the link to share.'); return; }
+    if (audienceError) { setError(audienceError); return; }
     setGenerating(true);
     setError('');
     try {
@@ -1213,6 +1452,12 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
           notes: form.notes.trim() || undefined,
           seriesId: form.seriesId || undefined,
           mediaType: form.mediaType,
+          linkedinAccountId: form.linkedinAccountId || null,
+          authorUrn: form.authorUrn || null,
+          visibility: audience.visibility,
+          disableReshare: audience.disableReshare,
+          crossPostNetworks: crossPosts.map(e => e.network),
+          article: form.mediaType === 'article' ? form.article : undefined,
           ...buildModelPayload(form),
         }),
       });
@@ -1227,6 +1472,12 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
         pageCount: data.data.pageCount,
       });
       setEditedContent(data.data.content);
+      setPoll(data.data.poll ?? emptyPoll(form.pollDuration));
+      if (data.data.article) setArticle({ ...emptyArticle(), ...data.data.article });
+      if (data.data.htmlContent) setAltTexts(altTextsFor(data.data.altTexts, data.data.pageCount ?? 1));
+      else if (form.mediaType === 'image' && data.data.media?.url) setAltTexts(altTextsFor(data.data.altTexts, 1));
+      setCrossPosts(crossPosts.map(e => ({ network: e.network, content: data.data.crossPosts?.[e.network] ?? null })));
+      if (data.data.mediaWarning && form.mediaType === 'poll') setError(data.data.mediaWarning);
       setStep('review');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Something went wrong.');
@@ -1267,6 +1518,13 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
           postId: draft.postId,
           action: 'publish',
           editedContent: contentToPublish !== draft.content ? contentToPublish : undefined,
+          firstComment: firstComment.trim() || undefined,
+          poll: form.mediaType === 'poll' ? poll : undefined,
+          article: form.mediaType === 'article' ? article : undefined,
+          altTexts: altTexts.length > 0 ? altTexts : undefined,
+          visibility: audience.visibility,
+          disableReshare: audience.disableReshare,
+          crossPosts,
           imageBase64,
           imageBase64Array,
         }),
@@ -1298,6 +1556,8 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
       if (!data.success) throw new Error(data.error ?? 'Regeneration failed');
       setDraft(d => d ? ({ ...d, content: data.data.content, htmlContent: data.data.htmlContent ?? d.htmlContent }) : d);
       setEditedContent(data.data.content);
+      if (data.data.poll) setPoll(data.data.poll);
+      if (data.data.crossPosts) setCrossPosts(crossPostEditsOf(data.data.crossPosts));
       setEditing(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Regeneration failed.');
@@ -1307,7 +1567,7 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
   };
 
   return (
-    <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) reset(); }}>
+    <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (v) setAudience(resolveAudience({}, audienceDefaults)); else reset(); }}>
       <DialogTrigger asChild>
         <Button size="sm">
           <Zap className="mr-1.5 h-4 w-4" />
@@ -1334,9 +1594,20 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
                 setForm={setForm}
                 seriesList={seriesList}
                 templates={templates}
+                accounts={accounts}
                 disabled={generating}
                 showSeries
               />
+              <AudienceEditor value={audience} onChange={setAudience} authorUrn={form.authorUrn} disabled={generating} />
+              <CrossPostEditor
+                value={crossPosts}
+                onChange={setCrossPosts}
+                connections={crossPostConnections}
+                post={{ content: '' }}
+                visibility={audience.visibility}
+                pickOnly
+                disabled={generating}
+              />
               {error && <p className="text-sm text-destructive">{error}</p>}
             </div>
             <DialogFooter className="flex-shrink-0">
@@ -1383,19 +1654,43 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
 
               {/* Content */}
               {editing ? (
-                <Textarea
+                <PostTextEditor
                   value={editedContent}
-                  onChange={(e) => setEditedContent(e.target.value)}
-                  rows={14}
-                  className="font-mono text-sm resize-none"
+                  onChange={setEditedContent}
                   disabled={busy}
+                  linkedinAccountId={form.linkedinAccountId}
                 />
               ) : (
                 <div className="rounded-lg border bg-secondary/30 p-4 max-h-[50vh] overflow-y-auto">
-                  <p className="text-sm leading-relaxed whitespace-pre-line">{editedContent}</p>
+                  <LittleTextPreview text={editedContent} />
                 </div>
               )}
 
+              {/* Poll — always editable; LinkedIn can't change it once live */}
+              {form.mediaType === 'poll' && (
+                <PollEditor value={poll} onChange={setPoll} disabled={busy} />
+              )}
+
+              {/* Link card — filled from OpenGraph, still editable */}
+              {form.mediaType === 'article' && (
+                <ArticleEditor value={article} onChange={setArticle} disabled={busy} />
+              )}
+
+              {altTexts.length > 0 && <AltTextEditor value={altTexts} onChange={setAltTexts} disabled={busy} />}
+
+              <FirstCommentField value={firstComment} onChange={setFirstComment} disabled={busy} />
+
+              <AudienceEditor value={audience} onChange={setAudience} authorUrn={form.authorUrn} disabled={busy} />
+
+              <CrossPostEditor
+                value={crossPosts}
+                onChange={setCrossPosts}
+                connections={crossPostConnections}
+                post={{ content: editedContent, article: form.mediaType === 'article' ? article : undefined }}
+                visibility={audience.visibility}
+                disabled={busy}
+              />
+
               {error && <p className="text-sm text-destructive">{error}</p>}
             </div>
             <DialogFooter className="flex-wrap gap-2 flex-shrink-0">
@@ -1419,7 +1714,7 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
                   </Button>
                 </>
               )}
-              <Button onClick={handlePublish} disabled={busy || !editedContent.trim()}>
+              <Button onClick={handlePublish} disabled={busy || !editedContent.trim() || !!audienceError}>
                 {publishing ? (
                   <><Loader2 className="mr-1.5 h-4 w-4 animate-spin" />Publishing…</>
                 ) : (
@@ -1440,23 +1735,40 @@ function PostNowDialog({ seriesList, templates, onDone }: PostNowDialogProps) {
 
 interface ScheduleDialogProps {
   seriesList: Series[];
+  /** Loaded posts — slots they hold aren't offered again */
+  posts: Post[];
   templates: HtmlTemplate[];
+  accounts: LinkedInAccountSummary[];
+  crossPostConnections: CrossPostConnectionSummary[] | null;
   onDone: () => void;
 }
 
-function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps) {
+function ScheduleDialog({ seriesList, posts, templates, accounts, crossPostConnections, onDone }: ScheduleDialogProps) {
   const [open, setOpen] = useState(false);
   const [profileLoading, setProfileLoading] = useState(false);
   const [profile, setProfile] = useState<AutoposterProfile | null>(null);
+  const [postingTimes, setPostingTimes] = useState<PostingTimeScores | null>(null);
   const [error, setError] = useState('');
 
   // Series selection
   const [selectedSeriesId, setSelectedSeriesId] = useState('');
 
+  // Account + author — '' = default account / personal profile; both follow the series
+  const [linkedinAccountId, setLinkedinAccountId] = useState('');
+  const [authorUrn, setAuthorUrn] = useState('');
+
+  // Visibility + resharing — starts from the profile defaults
+  const [audience, setAudience] = useState<Audience>(resolveAudience({}));
+  const audienceError = getVisibilityError(audience.visibility, authorUrn);
+
+  // Other networks — the AI rewrites for each when it writes the draft
+  const [crossPosts, setCrossPosts] = useState<CrossPostEdit[]>([]);
+
   // Content overrides
   const [mediaType, setMediaType] = useState<PostMediaType>('html');
   const [templateId, setTemplateId] = useState('');
   const [pageCount, setPageCount] = useState('1');
+  const [carouselFormat, setCarouselFormat] = useState<CarouselFormat>('document');
 
   // AI model overrides
   const [provider, setProvider] = useState<TestProvider>('gemini');
@@ -1483,8 +1795,24 @@ function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps)
 
   const upcomingSlots = useMemo(() => {
     if (!profile?.postingSchedule) return [];
-    return computeUpcomingSlots(profile.postingSchedule, 20);
-  }, [profile?.postingSchedule]);
+    const bookedTimes = new Set(
+      posts.filter(p => BOOKED_STATUSES.includes(p.status)).map(p => new Date(p.scheduledFor).getTime()),
+    );
+    return computeUpcomingSlots(profile, 20, selectedSeriesId, bookedTimes);
+  }, [profile, selectedSeriesId, posts]);
+
+  // The best-scoring free slots, by the user's own engagement history
+  const bestSlots = useMemo(() => {
+    if (!postingTimes) return [];
+    return upcomingSlots
+      .map(({ at, slot }) => {
+        const local = utcToZoned(at, postingTimes.timeZone);
+        return { at, slot, score: scoreAt(postingTimes, weekdayOf(local.date), local.time) };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, BEST_SLOT_COUNT);
+  }, [upcomingSlots, postingTimes]);
+  const bestSlotTimes = new Set(bestSlots.map(b => b.at.getTime()));
 
   const maxPosts = Math.min(remainingTopics.length, upcomingSlots.length);
 
@@ -1501,6 +1829,11 @@ function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps)
           const data = await res.json();
           if (data.success && data.data) {
             setProfile(data.data);
+            setAudience(resolveAudience({}, data.data));
+            fetch('/api/autoposter/best-times')
+              .then(r => r.json())
+              .then(times => { if (times.success) setPostingTimes(times.data); })
+              .catch(() => { /* optional — slots just aren't ranked */ });
             if (data.data.preferredMediaType) setMediaType(data.data.preferredMediaType);
             const p: TestProvider = data.data.preferredProvider || 'gemini';
             setProvider(p);
@@ -1523,6 +1856,12 @@ function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps)
     }
   }, [activeSeries, selectedSeriesId]);
 
+  // Follow the selected series' default account + author
+  useEffect(() => {
+    setLinkedinAccountId(selectedSeries?.linkedinAccountId ?? '');
+    setAuthorUrn(selectedSeries?.authorUrn ?? '');
+  }, [selectedSeries?.linkedinAccountId, selectedSeries?.authorUrn]);
+
   // Clamp post count
   useEffect(() => {
     if (maxPosts > 0 && postCount > maxPosts) setPostCount(maxPosts);
@@ -1539,22 +1878,30 @@ function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps)
       const posts = [];
       for (let i = 0; i < count; i++) {
         const topic = remainingTopics[i];
-        const slot = upcomingSlots[i];
-        const reviewDeadline = new Date(slot.getTime() - 60 * 60 * 1000); // 1 hr before
+        const { at, slot } = upcomingSlots[i];
+        const reviewDeadline = new Date(at.getTime() - 60 * 60 * 1000); // 1 hr before
+        // A slot's own media type wins over the one picked here
+        const postMediaType = slot.mediaType ?? mediaType;
         posts.push({
           topic: topic.title,
           notes: topic.notes || undefined,
           seriesId: selectedSeries.id,
           topicIndex: selectedSeries.currentIndex + i,
-          mediaType,
-          templateId: mediaType === 'html' ? (templateId || selectedSeries.templateId || undefined) : undefined,
-          pageCount: mediaType === 'html' ? (parseInt(pageCount) || 1) : 1,
+          mediaType: postMediaType,
+          templateId: postMediaType === 'html' ? (templateId || selectedSeries.templateId || undefined) : undefined,
+          pageCount: postMediaType === 'html' ? (parseInt(pageCount) || 1) : 1,
+          carouselFormat: postMediaType === 'html' ? carouselFormat : undefined,
           provider: provider || undefined,
           textModel: textModel || undefined,
-          pageInstructions: mediaType === 'html' && parseInt(pageCount) > 1 && pageStructureMode === 'custom' && pageInstructions.some(s => s.trim())
+          linkedinAccountId: linkedinAccountId || undefined,
+          authorUrn: authorUrn || undefined,
+          visibility: audience.visibility,
+          disableReshare: audience.disableReshare,
+          crossPostNetworks: crossPosts.map(e => e.network),
+          pageInstructions: postMediaType === 'html' && parseInt(pageCount) > 1 && pageStructureMode === 'custom' && pageInstructions.some(s => s.trim())
             ? pageInstructions.map(s => s.trim())
             : undefined,
-          scheduledFor: slot.toISOString(),
+          scheduledFor: at.toISOString(),
           reviewDeadline: reviewDeadline.toISOString(),
         });
       }
@@ -1588,6 +1935,7 @@ function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps)
     setMediaType(profile?.preferredMediaType || 'html');
     setTemplateId('');
     setPageCount('1');
+    setCarouselFormat('document');
     setPageStructureMode('ai');
     setPageInstructions([]);
     const p: TestProvider = profile?.preferredProvider || 'gemini';
@@ -1683,6 +2031,30 @@ function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps)
                 </Select>
               </div>
 
+              {/* Account + Author */}
+              <AccountSelect
+                value={linkedinAccountId}
+                onChange={(v) => { setLinkedinAccountId(v); setAuthorUrn(''); }}
+                accounts={accounts}
+                disabled={generating}
+              />
+              <AuthorSelect
+                value={authorUrn}
+                onChange={setAuthorUrn}
+                organizations={accountOrganizations(accounts, linkedinAccountId)}
+                disabled={generating}
+              />
+              <AudienceEditor value={audience} onChange={setAudience} authorUrn={authorUrn} disabled={generating} />
+              <CrossPostEditor
+                value={crossPosts}
+                onChange={setCrossPosts}
+                connections={crossPostConnections}
+                post={{ content: '' }}
+                visibility={audience.visibility}
+                pickOnly
+                disabled={generating}
+              />
+
               {noTopics ? (
                 <div className="text-center py-6">
                   <p className="text-sm font-medium">All topics exhausted</p>
@@ -1706,18 +2078,39 @@ function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps)
                         Topic → Posting Slot ({remainingTopics.length} topics, {upcomingSlots.length} slots available)
                       </Label>
                       <div className="rounded-lg border divide-y max-h-40 overflow-y-auto">
-                        {remainingTopics.slice(0, effectiveCount).map((t, i) => (
-                          <div key={i} className="flex items-center gap-2 px-3 py-2 text-sm">
-                            <span className="text-xs text-muted-foreground font-mono shrink-0 w-5 text-right">
-                              {i + 1}.
-                            </span>
-                            <span className="font-medium flex-1 min-w-0 truncate">{t.title}</span>
-                            <span className="text-xs text-muted-foreground shrink-0">
-                              → {formatDateTime(upcomingSlots[i])}
-                            </span>
-                          </div>
-                        ))}
+                        {remainingTopics.slice(0, effectiveCount).map((t, i) => {
+                          const { at, slot } = upcomingSlots[i];
+                          const SlotMediaIcon = slot.mediaType ? MEDIA_ICONS[slot.mediaType] : null;
+                          return (
+                            <div key={i} className="flex items-center gap-2 px-3 py-2 text-sm">
+                              <span className="text-xs text-muted-foreground font-mono shrink-0 w-5 text-right">
+                                {i + 1}.
+                              </span>
+                              <span className="font-medium flex-1 min-w-0 truncate">{t.title}</span>
+                              <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                                → {formatDateTime(at, profile?.timezone)}
+                                {bestSlotTimes.has(at.getTime()) && (
+                                  <span title="One of your best-performing times">
+                                    <Sparkles className="h-3 w-3 text-primary" />
+                                  </span>
+                                )}
+                                {SlotMediaIcon && (
+                                  <span title={`This slot posts as ${slot.mediaType}`}>
+                                    <SlotMediaIcon className="h-3 w-3" />
+                                  </span>
+                                )}
+                              </span>
+                            </div>
+                          );
+                        })}
                       </div>
+                      {bestSlots.length > 0 && (
+                        <p className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                          <Sparkles className="h-3 w-3 text-primary shrink-0" />
+                          Best free slots{postingTimes?.basedOnHistory ? '' : ' (general patterns until you have more history)'}:{' '}
+                          {bestSlots.map(b => formatDateTime(b.at, profile?.timezone)).join(' · ')}
+                        </p>
+                      )}
                     </div>
                   )}
 
@@ -1747,7 +2140,7 @@ function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps)
                   </div>
 
                   {/* Content Type */}
-                  <ContentTypeSelector value={mediaType} onChange={setMediaType} disabled={generating} />
+                  <ContentTypeSelector value={mediaType} onChange={setMediaType} disabled={generating} exclude={['article']} />
 
                   {/* Template (HTML only) */}
                   {mediaType === 'html' && templates.length > 0 && (
@@ -1796,6 +2189,11 @@ function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps)
                     </div>
                   )}
 
+                  {/* Publish format (HTML only) */}
+                  {mediaType === 'html' && (
+                    <CarouselFormatSelect value={carouselFormat} onChange={setCarouselFormat} disabled={generating} />
+                  )}
+
                   {/* Page Structure Toggle (HTML multi-page only) */}
                   {mediaType === 'html' && parseInt(pageCount) > 1 && (
                     <div className="space-y-3">
@@ -1913,7 +2311,7 @@ function ScheduleDialog({ seriesList, templates, onDone }: ScheduleDialogProps)
             <>
               <Button variant="outline" onClick={handleClose} disabled={generating}>Cancel</Button>
               {!noActiveSeries && !noSlots && !noTopics && !profileLoading && (
-                <Button onClick={handleSchedule} disabled={generating || maxPosts <= 0}>
+                <Button onClick={handleSchedule} disabled={generating || maxPosts <= 0 || !!audienceError}>
                   {generating ? (
                     <><Loader2 className="mr-1.5 h-4 w-4 animate-spin" />Scheduling…</>
                   ) : (
@@ -2077,13 +2475,26 @@ function DraftResultDialog({ draft, onClose, onRefresh }: DraftResultDialogProps
 
 interface PostPreviewDialogProps {
   post: Post;
+  audienceDefaults: AudienceDefaults;
+  crossPostConnections: CrossPostConnectionSummary[] | null;
   onAction: (postId: string, action: string, content?: string) => Promise<void>;
 }
 
-function PostPreviewDialog({ post, onAction }: PostPreviewDialogProps) {
+function PostPreviewDialog({ post, audienceDefaults, crossPostConnections, onAction }: PostPreviewDialogProps) {
   const [open, setOpen] = useState(false);
   const [editing, setEditing] = useState(false);
   const [draft, setDraft] = useState(post.editedContent ?? post.content);
+  const [commentDraft, setCommentDraft] = useState(post.firstComment ?? '');
+  const [pollDraft, setPollDraft] = useState<PostPoll>(post.poll ?? emptyPoll());
+  const [articleDraft, setArticleDraft] = useState<PostArticle>({ ...emptyArticle(), ...post.article });
+  const [videoDraft, setVideoDraft] = useState<VideoExtras>(videoExtrasOf(post));
+  const hasImages = (post.mediaType === 'image' && !!post.mediaUrl) || (post.mediaType === 'html' && !!post.htmlContent);
+  const altCount = post.mediaType === 'html' ? (post.pageCount ?? 1) : 1;
+  const [altDraft, setAltDraft] = useState<string[]>(altTextsFor(post.altTexts, altCount));
+  const savedAudience = resolveAudience(post, audienceDefaults);
+  const [audienceDraft, setAudienceDraft] = useState<Audience>(savedAudience);
+  const [crossPostDraft, setCrossPostDraft] = useState<CrossPostEdit[]>(crossPostEditsOf(post.crossPosts));
+  const [rewriting, setRewriting] = useState<string | null>(null);
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState('');
   const [confirmDelete, setConfirmDelete] = useState(false);
@@ -2091,6 +2502,7 @@ function PostPreviewDialog({ post, onAction }: PostPreviewDialogProps) {
   const displayContent = post.editedContent ?? post.content;
   const isPending = post.status === 'pending_review';
   const isApproved = post.status === 'approved';
+  const isPublished = post.status === 'published';
   const MediaIcon = MEDIA_ICONS[post.mediaType ?? 'text'];
 
   const handleDelete = async () => {
@@ -2136,16 +2548,43 @@ function PostPreviewDialog({ post, onAction }: PostPreviewDialogProps) {
         }
       }
 
+      // Changing captions / thumbnail means re-uploading the video — only send them when edited
+      const saved = videoExtrasOf(post);
+      const videoChanged = action === 'edit' && post.mediaType === 'video'
+        && (videoDraft.captions !== saved.captions || videoDraft.thumbnailUrl !== saved.thumbnailUrl);
+      const altChanged = action === 'edit' && hasImages
+        && altDraft.join('\n') !== altTextsFor(post.altTexts, altCount).join('\n');
+      // Untouched audiences keep following the profile defaults
+      const audienceChanged = action === 'edit' && !isPublished
+        && (audienceDraft.visibility !== savedAudience.visibility || audienceDraft.disableReshare !== savedAudience.disableReshare);
+      const crossPostsChanged = (action === 'edit' || action === 'publish')
+        && JSON.stringify(crossPostDraft) !== JSON.stringify(crossPostEditsOf(post.crossPosts));
+
       const res = await fetch('/api/posts', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ postId: post.id, action, editedContent: content, imageBase64, imageBase64Array }),
+        body: JSON.stringify({
+          postId: post.id,
+          action,
+          editedContent: content,
+          firstComment: action === 'edit' ? commentDraft : undefined,
+          videoCaptions: videoChanged ? videoDraft.captions : undefined,
+          videoThumbnailUrl: videoChanged ? videoDraft.thumbnailUrl : undefined,
+          altTexts: altChanged ? altDraft : undefined,
+          visibility: audienceChanged ? audienceDraft.visibility : undefined,
+          disableReshare: audienceChanged ? audienceDraft.disableReshare : undefined,
+          crossPosts: crossPostsChanged ? crossPostDraft : undefined,
+          poll: action === 'edit' && post.mediaType === 'poll' ? pollDraft : undefined,
+          article: action === 'edit' && post.mediaType === 'article' ? articleDraft : undefined,
+          imageBase64,
+          imageBase64Array,
+        }),
       });
       const data = await res.json();
       if (!data.success && data.error) setError(data.error);
       else {
         await onAction(post.id, action, content);
-        if (['approve', 'reject', 'publish'].includes(action)) setOpen(false);
+        if (['approve', 'reject', 'publish', 'delete-live'].includes(action)) setOpen(false);
       }
     } catch {
       setError('Action failed');
@@ -2154,6 +2593,29 @@ function PostPreviewDialog({ post, onAction }: PostPreviewDialogProps) {
     if (action === 'regenerate') setDraft(post.editedContent ?? post.content);
   };
 
+  // A fresh AI take on one network's copy — saved straight away, like regenerate
+  const rewriteCrossPost = async (network: CrossPostEdit['network']) => {
+    setRewriting(network);
+    setError('');
+    try {
+      const res = await fetch('/api/posts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ postId: post.id, action: 'rewrite-crosspost', network }),
+      });
+      const data = await res.json();
+      if (!data.success) setError(data.error ?? 'Rewrite failed');
+      else {
+        const rewritten = (data.data.crossPosts as CrossPostTarget[]).find(t => t.network === network);
+        setCrossPostDraft(prev => prev.map(e => (e.network === network ? { ...e, content: rewritten?.content ?? null } : e)));
+        await onAction(post.id, 'rewrite-crosspost');
+      }
+    } catch {
+      setError('Rewrite failed');
+    }
+    setRewriting(null);
+  };
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -2199,12 +2661,42 @@ function PostPreviewDialog({ post, onAction }: PostPreviewDialogProps) {
             />
           )}
 
+          {/* Engagement history for published posts */}
+          {post.status === 'published' && <PostMetricsTrend postId={post.id} />}
+
+          {/* Publish format for HTML posts that haven't gone out yet */}
+          {post.mediaType === 'html' && (isPending || isApproved) && (
+            <CarouselFormatSelect
+              value={post.carouselFormat ?? 'multi_image'}
+              onChange={async (v) => {
+                setBusy(true);
+                setError('');
+                try {
+                  const res = await fetch('/api/posts', {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ postId: post.id, action: 'set-carousel-format', carouselFormat: v }),
+                  });
+                  const data = await res.json();
+                  if (data.success) {
+                    post.carouselFormat = v;
+                    await onAction(post.id, 'set-carousel-format');
+                  } else {
+                    setError(data.error ?? 'Failed to update publish format');
+                  }
+                } catch { setError('Failed to update publish format'); }
+                setBusy(false);
+              }}
+              disabled={busy}
+            />
+          )}
+
           {/* Media preview (image when mediaUrl exists but no htmlContent, or video) */}
           {!post.htmlContent && post.mediaUrl && (
             <div className="rounded-lg border overflow-hidden">
               {(post.mediaType === 'image' || post.mediaType === 'html') ? (
                 // eslint-disable-next-line @next/next/no-img-element
-                <img src={post.mediaUrl} alt="Post media" className="w-full max-h-64 object-cover" />
+                <img src={post.mediaUrl} alt={post.altTexts?.[0] || 'Post media'} className="w-full max-h-64 object-cover" />
               ) : post.mediaType === 'video' ? (
                 <video src={post.mediaUrl} controls className="w-full max-h-64" />
               ) : null}
@@ -2212,10 +2704,125 @@ function PostPreviewDialog({ post, onAction }: PostPreviewDialogProps) {
           )}
 
           {editing ? (
-            <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={14} className="font-mono text-sm resize-none" disabled={busy} />
+            <>
+              <PostTextEditor
+                value={draft}
+                onChange={setDraft}
+                disabled={busy}
+                linkedinAccountId={post.linkedinAccountId}
+              />
+              {isPublished ? (
+                <p className="text-xs text-muted-foreground">Saving updates the live post on LinkedIn. Media and polls can&apos;t be changed after publishing.</p>
+              ) : (
+                <>
+                  {post.mediaType === 'poll' && <PollEditor value={pollDraft} onChange={setPollDraft} disabled={busy} />}
+                  {post.mediaType === 'article' && <ArticleEditor value={articleDraft} onChange={setArticleDraft} disabled={busy} />}
+                  {post.mediaType === 'video' && <VideoExtrasEditor value={videoDraft} onChange={setVideoDraft} disabled={busy} />}
+                  {hasImages && <AltTextEditor value={altDraft} onChange={setAltDraft} disabled={busy} />}
+                  <FirstCommentField value={commentDraft} onChange={setCommentDraft} disabled={busy} />
+                  <AudienceEditor value={audienceDraft} onChange={setAudienceDraft} authorUrn={post.authorUrn} disabled={busy} />
+                  <CrossPostEditor
+                    value={crossPostDraft}
+                    onChange={setCrossPostDraft}
+                    connections={crossPostConnections}
+                    post={{ content: draft, article: post.mediaType === 'article' ? articleDraft : post.article }}
+                    visibility={audienceDraft.visibility}
+                    targets={post.crossPosts}
+                    disabled={busy}
+                    busyNetwork={rewriting}
+                    onRewrite={rewriteCrossPost}
+                  />
+                </>
+              )}
+            </>
           ) : (
-            <div className="rounded-lg border bg-secondary/30 p-4">
-              <p className="text-sm leading-relaxed whitespace-pre-line">{displayContent}</p>
+            <>
+              <div className="rounded-lg border bg-secondary/30 p-4">
+                <LittleTextPreview text={displayContent} />
+              </div>
+              {post.mediaType === 'poll' && (post.poll ? (
+                <PollPreview
+                  poll={post.poll}
+                  results={post.pollResults}
+                  publishedAt={post.publishedAt}
+                />
+              ) : (isPending || isApproved) && (
+                <p className="text-xs text-destructive">This poll has no options yet — edit the post to add them before publishing.</p>
+              ))}
+              {post.mediaType === 'article' && post.article && <ArticlePreview article={post.article} />}
+              {post.mediaType === 'video' && (post.videoCaptions || post.videoThumbnailUrl) && (
+                <p className="text-xs text-muted-foreground">
+                  {[post.videoCaptions && 'Captions', post.videoThumbnailUrl && 'custom thumbnail'].filter(Boolean).join(' · ')} uploaded with the video
+                </p>
+              )}
+              {post.firstComment && (
+                <div className="rounded-lg border border-dashed p-3 space-y-1">
+                  <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+                    <MessageSquare className="h-3 w-3" />First comment
+                  </p>
+                  <p className="text-sm whitespace-pre-line">{post.firstComment}</p>
+                  {post.firstCommentError && (
+                    <p className="text-xs text-destructive">Comment not posted: {post.firstCommentError}</p>
+                  )}
+                </div>
+              )}
+              {audienceSummary(savedAudience) && (
+                <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <Users className="h-3 w-3" />{audienceSummary(savedAudience)}
+                </p>
+              )}
+              {crossPostSummary(post.crossPosts) && (
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <Repeat2 className="h-3 w-3" />{crossPostSummary(post.crossPosts)}
+                    </p>
+                    {isPublished && post.crossPosts?.some(t => t.status === 'pending' || t.status === 'failed') && (
+                      <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => act('retry-crosspost')} disabled={busy}>
+                        <RotateCcw className="h-3 w-3 mr-1" />Send now
+                      </Button>
+                    )}
+                  </div>
+                  {post.crossPosts?.filter(t => t.status === 'failed' && t.error).map(t => (
+                    <p key={t.network} className="text-xs text-destructive">
+                      {CROSS_POST_NETWORK_LABELS[t.network]}: {t.error}
+                    </p>
+                  ))}
+                  {post.crossPosts?.filter(t => t.status === 'published' && t.url).map(t => (
+                    <a key={t.network} href={t.url ?? undefined} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-xs text-primary hover:underline">
+                      View on {CROSS_POST_NETWORK_LABELS[t.network]}<ExternalLink className="h-3 w-3" />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+          {/* Changes made to the live LinkedIn post */}
+          {post.liveHistory && post.liveHistory.length > 0 && (
+            <div className="rounded-lg border p-3 space-y-1.5">
+              <p className="text-xs font-medium text-muted-foreground">LinkedIn change history</p>
+              {post.liveHistory.map((change, i) => (
+                <details key={i} className="text-xs">
+                  <summary className="cursor-pointer text-muted-foreground">
+                    {change.action === 'edit' ? 'Edited' : 'Deleted'} {formatDateTime(change.at)}
+                  </summary>
+                  <p className="mt-1 whitespace-pre-line rounded bg-secondary/30 p-2">
+                    <span className="font-medium">Before: </span>{change.previousContent}
+                  </p>
+                </details>
+              ))}
+            </div>
+          )}
+          {/* Failed publish attempts (transient ones were retried automatically) */}
+          {post.publishAttempts && post.publishAttempts.length > 0 && (
+            <div className="rounded-lg border p-3 space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Publish attempts</p>
+              {post.publishAttempts.map((attempt, i) => (
+                <p key={i} className="text-xs">
+                  <span className="text-muted-foreground">{formatDateTime(attempt.at)} · {attempt.retryable ? 'transient' : 'permanent'}: </span>
+                  <span className="break-words">{attempt.error}</span>
+                </p>
+              ))}
             </div>
           )}
           {error && <p className="text-sm text-destructive">{error}</p>}
@@ -2224,14 +2831,21 @@ function PostPreviewDialog({ post, onAction }: PostPreviewDialogProps) {
         <DialogFooter className="flex-wrap gap-2">
           {editing ? (
             <>
-              <Button variant="outline" onClick={() => { setEditing(false); setDraft(displayContent); }} disabled={busy}>Cancel</Button>
-              <Button onClick={async () => { await act('edit', draft); setEditing(false); }} disabled={busy || !draft.trim()}>Save Changes</Button>
+              <Button variant="outline" onClick={() => { setEditing(false); setDraft(displayContent); setCommentDraft(post.firstComment ?? ''); setPollDraft(post.poll ?? emptyPoll()); setArticleDraft({ ...emptyArticle(), ...post.article }); setVideoDraft(videoExtrasOf(post)); setAltDraft(altTextsFor(post.altTexts, altCount)); setAudienceDraft(savedAudience); setCrossPostDraft(crossPostEditsOf(post.crossPosts)); }} disabled={busy}>Cancel</Button>
+              <Button
+                onClick={async () => { await act(isPublished ? 'edit-live' : 'edit', draft); setEditing(false); }}
+                disabled={busy || !draft.trim()}
+              >
+                {isPublished ? 'Update on LinkedIn' : 'Save Changes'}
+              </Button>
             </>
           ) : (
             <>
-              <Button variant="outline" onClick={() => setEditing(true)} disabled={busy}>
-                <PenLine className="mr-1.5 h-3.5 w-3.5" />Edit
-              </Button>
+              {post.status !== 'deleted' && post.status !== 'publishing' && (
+                <Button variant="outline" onClick={() => { setAltDraft(altTextsFor(post.altTexts, altCount)); setAudienceDraft(savedAudience); setEditing(true); }} disabled={busy}>
+                  <PenLine className="mr-1.5 h-3.5 w-3.5" />{isPublished ? 'Edit on LinkedIn' : 'Edit'}
+                </Button>
+              )}
               {isPending && (
                 <>
                   <Button variant="outline" onClick={() => act('regenerate')} disabled={busy}>
@@ -2276,6 +2890,27 @@ function PostPreviewDialog({ post, onAction }: PostPreviewDialogProps) {
                   </div>
                 )
               )}
+              {isPublished && (
+                !confirmDelete ? (
+                  <Button
+                    variant="ghost"
+                    className="text-muted-foreground hover:text-destructive ml-auto"
+                    onClick={() => setConfirmDelete(true)}
+                    disabled={busy}
+                  >
+                    <Trash2 className="mr-1.5 h-3.5 w-3.5" />Delete from LinkedIn
+                  </Button>
+                ) : (
+                  <div className="flex items-center gap-2 ml-auto">
+                    <span className="text-xs text-muted-foreground">Remove the live post from LinkedIn?</span>
+                    <Button variant="outline" size="sm" onClick={() => setConfirmDelete(false)} disabled={busy}>Cancel</Button>
+                    <Button variant="destructive" size="sm" onClick={async () => { await act('delete-live'); setConfirmDelete(false); }} disabled={busy}>
+                      {busy ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <Trash2 className="mr-1.5 h-3.5 w-3.5" />}
+                      Delete
+                    </Button>
+                  </div>
+                )
+              )}
             </>
           )}
         </DialogFooter>
@@ -2290,10 +2925,12 @@ function PostPreviewDialog({ post, onAction }: PostPreviewDialogProps) {
 
 interface PostCardProps {
   post: Post;
+  audienceDefaults: AudienceDefaults;
+  crossPostConnections: CrossPostConnectionSummary[] | null;
   onAction: (postId: string, action: string, content?: string) => Promise<void>;
 }
 
-function PostCard({ post, onAction }: PostCardProps) {
+function PostCard({ post, audienceDefaults, crossPostConnections, onAction }: PostCardProps) {
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState('');
   const [confirmDelete, setConfirmDelete] = useState(false);
@@ -2305,6 +2942,8 @@ function PostCard({ post, onAction }: PostCardProps) {
   const isPending = post.status === 'pending_review';
   const isApproved = post.status === 'approved';
   const isScheduled = post.status === 'scheduled';
+  // Handed back while LinkedIn processes the video — not a failed attempt
+  const isVideoProcessing = !!post.videoUploadedAt && !!post.linkedinMediaAsset && !post.failureReason;
 
   const act = async (action: string) => {
     setBusy(true);
@@ -2399,6 +3038,11 @@ function PostCard({ post, onAction }: PostCardProps) {
                 {post.status === 'published' && post.publishedAt && ` · Published ${formatDate(post.publishedAt)}`}
               </p>
             )}
+            {crossPostSummary(post.crossPosts) && (
+              <p className="text-xs text-muted-foreground mt-0.5 flex items-center gap-1.5">
+                <Repeat2 className="h-3 w-3 shrink-0" />{crossPostSummary(post.crossPosts)}
+              </p>
+            )}
           </div>
           <div className="flex items-center gap-1 shrink-0">
             {post.status === 'failed' && post.failureReason && (
@@ -2406,7 +3050,7 @@ function PostCard({ post, onAction }: PostCardProps) {
                 <AlertCircle className="inline h-3 w-3 mr-0.5" />{post.failureReason}
               </span>
             )}
-            <PostPreviewDialog post={post} onAction={onAction} />
+            <PostPreviewDialog post={post} audienceDefaults={audienceDefaults} crossPostConnections={crossPostConnections} onAction={onAction} />
             {(isPending || isApproved || isScheduled) && (
               <Button
                 variant="ghost"
@@ -2430,20 +3074,53 @@ function PostCard({ post, onAction }: PostCardProps) {
             {post.mediaType === 'html' && (post.pageCount ?? 1) === 1 && <p>📄 HTML infographic card</p>}
             {post.mediaType === 'image' && <p>🖼 With AI-generated image</p>}
             {post.mediaType === 'text' && <p>📝 Text-only post</p>}
+            {post.mediaType === 'poll' && <p>📊 Poll — AI proposes the question and options</p>}
+            {post.mediaType === 'article' && post.article && <p>🔗 Sharing {post.article.title || post.article.source}</p>}
             <p className="text-[10px] italic">AI content will be generated automatically.</p>
           </div>
         ) : (
-          <p className="text-sm text-muted-foreground leading-relaxed line-clamp-3 whitespace-pre-line">
-            {displayContent}
+          <LittleTextPreview text={displayContent} className="text-muted-foreground line-clamp-3" />
+        )}
+
+        {!isScheduled && post.poll && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+            <BarChart3 className="h-3 w-3 shrink-0" />
+            <span className="truncate">{post.poll.question}</span>
+            {post.pollResults && <span className="shrink-0">· {post.pollResults.uniqueVoters} votes</span>}
+          </p>
+        )}
+
+        {!isScheduled && post.article && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+            <Link2 className="h-3 w-3 shrink-0" />
+            <span className="truncate">{post.article.title || post.article.source}</span>
           </p>
         )}
 
+        {post.status === 'published' && post.metrics && (
+          <PostMetricsStrip metrics={post.metrics} previous={post.previousMetrics} />
+        )}
+
         {post.status === 'failed' && post.failureReason && (
           <p className="text-xs text-destructive flex items-start gap-1.5">
             <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />{post.failureReason}
           </p>
         )}
 
+        {isApproved && post.nextRetryAt && isVideoProcessing && (
+          <p className="text-xs text-muted-foreground flex items-start gap-1.5">
+            <Loader2 className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            <span>LinkedIn is processing the video — publishing once it&apos;s ready (next check {formatDateTime(post.nextRetryAt)})</span>
+          </p>
+        )}
+
+        {isApproved && post.nextRetryAt && !isVideoProcessing && (
+          <p className="text-xs text-muted-foreground flex items-start gap-1.5" title={post.failureReason}>
+            <RotateCcw className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            <span>Retry {post.retryCount} at {formatDateTime(post.nextRetryAt)}{post.failureReason && ` — ${post.failureReason}`}</span>
+          </p>
+        )}
+
         {error && <p className="text-xs text-destructive">{error}</p>}
 
         <div className="flex flex-wrap gap-2">
@@ -2526,23 +3203,32 @@ export default function PostsClient() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [seriesList, setSeriesList] = useState<Series[]>([]);
   const [templates, setTemplates] = useState<HtmlTemplate[]>([]);
+  const [accounts, setAccounts] = useState<LinkedInAccountSummary[]>([]);
+  const [profile, setProfile] = useState<AutoposterProfile | null>(null);
+  const [crossPostConnections, setCrossPostConnections] = useState<CrossPostConnectionSummary[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [newDraft, setNewDraft] = useState<{ postId: string; content: string; summary: string; htmlContent?: string; mediaType?: PostMediaType; pageCount?: number } | null>(null);
 
   const fetchData = useCallback(async () => {
     if (!user) return;
     try {
-      const [postsRes, seriesRes, templatesRes] = await Promise.all([
+      const [postsRes, seriesRes, templatesRes, accountsRes, profileRes, crossPostRes] = await Promise.all([
         fetch('/api/posts?limit=100'),
         fetch('/api/series'),
         fetch('/api/templates'),
+        fetch('/api/linkedin/accounts'),
+        fetch('/api/autoposter/profile'),
+        fetch('/api/crosspost/accounts'),
       ]);
-      const [postsData, seriesData, templatesData] = await Promise.all([
-        postsRes.json(), seriesRes.json(), templatesRes.json(),
+      const [postsData, seriesData, templatesData, accountsData, profileData, crossPostData] = await Promise.all([
+        postsRes.json(), seriesRes.json(), templatesRes.json(), accountsRes.json(), profileRes.json(), crossPostRes.json(),
       ]);
       if (postsData.success) setPosts(postsData.data ?? []);
       if (seriesData.success) setSeriesList(seriesData.data ?? []);
       if (templatesData.success) setTemplates(templatesData.data ?? []);
+      if (accountsData.success) setAccounts(accountsData.data ?? []);
+      if (profileData.success) setProfile(profileData.data ?? null);
+      if (crossPostData.success) setCrossPostConnections(crossPostData.data ?? []);
     } catch {
       // silent
     } finally {
@@ -2560,8 +3246,9 @@ export default function PostsClient() {
   // Group posts
   const scheduled = posts.filter(p => p.status === 'scheduled');
   const pending  = posts.filter(p => p.status === 'pending_review');
-  const approved = posts.filter(p => p.status === 'approved');
-  const history  = posts.filter(p => ['published', 'rejected', 'skipped', 'failed'].includes(p.status));
+  // A post mid-publish stays with the approved queue until LinkedIn confirms it
+  const approved = posts.filter(p => p.status === 'approved' || p.status === 'publishing');
+  const history  = posts.filter(p => ['published', 'deleted', 'rejected', 'skipped', 'failed'].includes(p.status));
 
   return (
     <div className="space-y-6">
@@ -2574,8 +3261,8 @@ export default function PostsClient() {
           </p>
         </div>
         <div className="flex items-center gap-2">
-          <ScheduleDialog seriesList={seriesList} templates={templates} onDone={fetchData} />
-          <PostNowDialog seriesList={seriesList} templates={templates} onDone={fetchData} />
+          <ScheduleDialog seriesList={seriesList} posts={posts} templates={templates} accounts={accounts} crossPostConnections={crossPostConnections} onDone={fetchData} />
+          <PostNowDialog seriesList={seriesList} templates={templates} accounts={accounts} audienceDefaults={profile} crossPostConnections={crossPostConnections} onDone={fetchData} />
         </div>
       </div>
 
@@ -2627,7 +3314,7 @@ export default function PostsClient() {
                 </CardContent>
               </Card>
             ) : (
-              scheduled.map(post => <PostCard key={post.id} post={post} onAction={handleAction} />)
+              scheduled.map(post => <PostCard key={post.id} post={post} audienceDefaults={profile} crossPostConnections={crossPostConnections} onAction={handleAction} />)
             )}
           </TabsContent>
 
@@ -2645,7 +3332,7 @@ export default function PostsClient() {
                 </CardContent>
               </Card>
             ) : (
-              pending.map(post => <PostCard key={post.id} post={post} onAction={handleAction} />)
+              pending.map(post => <PostCard key={post.id} post={post} audienceDefaults={profile} crossPostConnections={crossPostConnections} onAction={handleAction} />)
             )}
           </TabsContent>
 
@@ -2663,7 +3350,7 @@ export default function PostsClient() {
                 </CardContent>
               </Card>
             ) : (
-              approved.map(post => <PostCard key={post.id} post={post} onAction={handleAction} />)
+              approved.map(post => <PostCard key={post.id} post={post} audienceDefaults={profile} crossPostConnections={crossPostConnections} onAction={handleAction} />)
             )}
           </TabsContent>
 
@@ -2681,7 +3368,7 @@ export default function PostsClient() {
                 </CardContent>
               </Card>
             ) : (
-              history.map(post => <PostCard key={post.id} post={post} onAction={handleAction} />)
+              history.map(post => <PostCard key={post.id} post={post} audienceDefaults={profile} crossPostConnections={crossPostConnections} onAction={handleAction} />)
             )}
           </TabsContent>
         </Tabs>
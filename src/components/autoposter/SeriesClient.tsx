@@ -51,7 +51,7 @@ import {
   X,
   Upload,
 } from 'lucide-react';
-import type { Series, SeriesStatus, SeriesTopic, HtmlTemplate } from '@/lib/linkedin/types';
+import type { Series, SeriesStatus, SeriesTopic, HtmlTemplate, LinkedInAccountSummary } from '@/lib/linkedin/types';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -233,6 +233,7 @@ function TopicInput({
 function SeriesDialog({
   series,
   templates,
+  accounts,
   open,
   onOpenChange,
   onSave,
@@ -240,9 +241,10 @@ function SeriesDialog({
 }: {
   series?: Series;
   templates: HtmlTemplate[];
+  accounts: LinkedInAccountSummary[];
   open: boolean;
   onOpenChange: (v: boolean) => void;
-  onSave: (data: { title: string; category: string; topicQueue: SeriesTopic[]; templateId?: string }) => Promise<void>;
+  onSave: (data: { title: string; category: string; topicQueue: SeriesTopic[]; templateId?: string; linkedinAccountId: string | null; authorUrn: string | null }) => Promise<void>;
   saving: boolean;
 }) {
   const isEdit = !!series;
@@ -250,6 +252,13 @@ function SeriesDialog({
   const [category, setCategory] = useState(series?.category ?? '');
   const [topics, setTopics] = useState<SeriesTopic[]>(series?.topicQueue ?? []);
   const [templateId, setTemplateId] = useState(series?.templateId ?? '');
+  const [linkedinAccountId, setLinkedinAccountId] = useState(series?.linkedinAccountId ?? '');
+  const [authorUrn, setAuthorUrn] = useState(series?.authorUrn ?? '');
+
+  // Company Pages of the picked account ('' = default account)
+  const organizations = (
+    accounts.find(a => a.id === linkedinAccountId) ?? accounts.find(a => a.isDefault)
+  )?.organizations ?? [];
 
   // Reset form when dialog opens with different series
   useEffect(() => {
@@ -257,6 +266,8 @@ function SeriesDialog({
     setCategory(series?.category ?? '');
     setTopics(series?.topicQueue ?? []);
     setTemplateId(series?.templateId ?? '');
+    setLinkedinAccountId(series?.linkedinAccountId ?? '');
+    setAuthorUrn(series?.authorUrn ?? '');
   }, [series, open]);
 
   const canSubmit = title.trim() && category.trim() && topics.length > 0 && !saving;
@@ -268,6 +279,8 @@ function SeriesDialog({
       category: category.trim(),
       topicQueue: topics,
       templateId: templateId || undefined,
+      linkedinAccountId: linkedinAccountId || null,
+      authorUrn: authorUrn || null,
     });
   };
 
@@ -318,6 +331,44 @@ function SeriesDialog({
             </div>
           )}
 
+          {/* Default LinkedIn account — only worth asking with 2+ connected */}
+          {accounts.length > 1 && (
+            <div className="space-y-2">
+              <Label>LinkedIn account <span className="text-xs text-muted-foreground">(default for this series)</span></Label>
+              <Select
+                value={linkedinAccountId || '_default'}
+                onValueChange={(v) => { setLinkedinAccountId(v === '_default' ? '' : v); setAuthorUrn(''); }}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="_default">Default account</SelectItem>
+                  {accounts.map(a => (
+                    <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Default author — personal profile or a Company Page */}
+          {organizations.length > 0 && (
+            <div className="space-y-2">
+              <Label>Post as <span className="text-xs text-muted-foreground">(default for this series)</span></Label>
+              <Select
+                value={authorUrn || '_personal'}
+                onValueChange={(v) => setAuthorUrn(v === '_personal' ? '' : v)}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="_personal">My personal profile</SelectItem>
+                  {organizations.map(o => (
+                    <SelectItem key={o.urn} value={o.urn}>{o.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label>Topics ({topics.length})</Label>
             <TopicInput topics={topics} onChange={setTopics} />
@@ -495,6 +546,7 @@ export default function SeriesClient() {
   const { user } = useAuth();
   const [seriesList, setSeriesList] = useState<Series[]>([]);
   const [templates, setTemplates] = useState<HtmlTemplate[]>([]);
+  const [accounts, setAccounts] = useState<LinkedInAccountSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -504,15 +556,17 @@ export default function SeriesClient() {
   const fetchSeries = useCallback(async () => {
     if (!user) return;
     try {
-      const [seriesRes, templatesRes] = await Promise.all([
+      const [seriesRes, templatesRes, accountsRes] = await Promise.all([
         fetch('/api/series'),
         fetch('/api/templates'),
+        fetch('/api/linkedin/accounts'),
       ]);
-      const [seriesData, templatesData] = await Promise.all([
-        seriesRes.json(), templatesRes.json(),
+      const [seriesData, templatesData, accountsData] = await Promise.all([
+        seriesRes.json(), templatesRes.json(), accountsRes.json(),
       ]);
       if (seriesData.success) setSeriesList(seriesData.data ?? []);
       if (templatesData.success) setTemplates(templatesData.data ?? []);
+      if (accountsData.success) setAccounts(accountsData.data ?? []);
     } catch {
       // Silent
     } finally {
@@ -526,7 +580,7 @@ export default function SeriesClient() {
   }, [fetchSeries]);
 
   // Create or Update
-  const handleSave = async (formData: { title: string; category: string; topicQueue: SeriesTopic[]; templateId?: string }) => {
+  const handleSave = async (formData: { title: string; category: string; topicQueue: SeriesTopic[]; templateId?: string; linkedinAccountId: string | null; authorUrn: string | null }) => {
     setSaving(true);
     try {
       if (editingSeries) {
@@ -667,6 +721,7 @@ export default function SeriesClient() {
         onSave={handleSave}
         saving={saving}
         templates={templates}
+        accounts={accounts}
       />
 
       {/* Delete Confirmation Dialog */}
@@ -1,11 +1,12 @@
 'use client';
 
 /**
- * Settings — Configure LinkedIn connection, posting schedule,
- * draft timing, AI model, persona, notifications, and test triggers.
+ * Settings — Configure LinkedIn connection, cross-post networks, posting
+ * schedule, draft timing, AI model, persona, notifications, and test triggers.
  */
 
 import { useEffect, useState, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -14,6 +15,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Progress } from '@/components/ui/progress';
 import {
   Select,
   SelectContent,
@@ -23,6 +25,7 @@ import {
 } from '@/components/ui/select';
 import {
   Linkedin,
+  Building2,
   Bell,
   Clock,
   Globe,
@@ -31,8 +34,27 @@ import {
   Unplug,
   Loader2,
   Bot,
+  Gauge,
+  AlertTriangle,
+  Users,
+  Repeat2,
+  Plus,
+  X,
+  Sparkles,
+  Palmtree,
 } from 'lucide-react';
-import type { AutoposterProfile, PostingDay, PostingSchedule } from '@/lib/linkedin/types';
+import { POST_VISIBILITIES, POST_VISIBILITY_LABELS } from '@/lib/linkedin/visibility';
+import { CROSS_POST_NETWORK_LABELS, normalizeCrossPostNetworks } from '@/lib/linkedin/crosspost';
+import {
+  AUTOPILOT_DEFAULT_DAYS, AUTOPILOT_MAX_DAYS, DEFAULT_POSTING_SCHEDULE, MAX_SLOTS_PER_DAY, SLOT_MEDIA_TYPES,
+} from '@/lib/linkedin/schedule';
+import { DEFAULT_TIMEZONE, addDays, zonedToday } from '@/lib/linkedin/timezone';
+import { MAX_BLACKOUTS } from '@/lib/linkedin/blackout';
+import {
+  METRICS_SETTLE_DAYS, MIN_HISTORY_POSTS, applyScheduleSuggestion, bestPostingTimes, suggestScheduleChanges,
+  type PostingScheduleSuggestion, type PostingTimeScores,
+} from '@/lib/linkedin/best-time';
+import type { AutoposterProfile, BlackoutRange, CrossPostConnectionSummary, CrossPostNetwork, LinkedInAccountSummary, LinkedInApiUsage, PostingDay, PostingSchedule, PostingSlot, PostMediaType, PostVisibility, Series } from '@/lib/linkedin/types';
 
 // ── Constants ────────────────────────────────────────────────────────────────
 
@@ -77,46 +99,245 @@ const MEDIA_TYPE_OPTIONS: { value: string; label: string; description: string }[
   { value: 'html', label: 'HTML Carousel', description: 'Infographic slides' },
 ];
 
-const DEFAULT_SCHEDULE: PostingSchedule = {
-  monday: { enabled: false, postTime: '10:00' },
-  tuesday: { enabled: true, postTime: '10:00' },
-  wednesday: { enabled: true, postTime: '10:00' },
-  thursday: { enabled: true, postTime: '10:00' },
-  friday: { enabled: false, postTime: '10:00' },
-  saturday: { enabled: false, postTime: '10:00' },
-  sunday: { enabled: false, postTime: '10:00' },
+const SLOT_MEDIA_TYPE_LABELS: Record<PostMediaType, string> = {
+  text: 'Text Only',
+  image: 'With Image',
+  video: 'Video',
+  html: 'HTML Carousel',
+  poll: 'Poll',
+  article: 'Article',
 };
 
 // ── Schedule Row ─────────────────────────────────────────────────────────────
 
+/** Next slot time for a day — an hour after its latest slot */
+function nextSlotTime(slots: PostingSlot[]): string {
+  const last = slots[slots.length - 1];
+  if (!last) return '10:00';
+  const hour = Math.min(Number(last.time.split(':')[0]) + 1, 23);
+  return `${String(hour).padStart(2, '0')}:${last.time.split(':')[1]}`;
+}
+
 function ScheduleRow({
   day,
   value,
+  seriesList,
   onChange,
 }: {
   day: { key: keyof PostingSchedule; label: string; short: string };
   value: PostingDay;
+  seriesList: Series[];
   onChange: (val: PostingDay) => void;
 }) {
+  const updateSlot = (index: number, patch: Partial<PostingSlot>) =>
+    onChange({ ...value, slots: value.slots.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+
   return (
-    <div className="flex items-center justify-between gap-3 py-2.5">
-      <div className="flex items-center gap-3 min-w-0">
-        <Switch
-          checked={value.enabled}
-          onCheckedChange={(checked) => onChange({ ...value, enabled: checked })}
-        />
-        <span className={`text-sm ${value.enabled ? 'font-medium' : 'text-muted-foreground'}`}>
-          <span className="hidden sm:inline">{day.label}</span>
-          <span className="sm:hidden">{day.short}</span>
-        </span>
+    <div className="py-2.5 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Switch
+            checked={value.enabled}
+            onCheckedChange={(checked) => onChange({ ...value, enabled: checked })}
+          />
+          <span className={`text-sm ${value.enabled ? 'font-medium' : 'text-muted-foreground'}`}>
+            <span className="hidden sm:inline">{day.label}</span>
+            <span className="sm:hidden">{day.short}</span>
+          </span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs touch-manipulation"
+          disabled={!value.enabled || value.slots.length >= MAX_SLOTS_PER_DAY}
+          onClick={() => onChange({ ...value, slots: [...value.slots, { time: nextSlotTime(value.slots) }] })}
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          Add slot
+        </Button>
       </div>
+      {value.slots.map((slot, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2 sm:pl-12">
+          <Input
+            type="time"
+            value={slot.time}
+            onChange={(e) => updateSlot(i, { time: e.target.value })}
+            disabled={!value.enabled}
+            className="w-32 text-sm touch-manipulation"
+          />
+          <Select
+            value={slot.mediaType ?? '_default'}
+            onValueChange={(v) => updateSlot(i, { mediaType: v === '_default' ? undefined : (v as PostMediaType) })}
+            disabled={!value.enabled}
+          >
+            <SelectTrigger className="w-36 h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="_default">Default format</SelectItem>
+              {SLOT_MEDIA_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{SLOT_MEDIA_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {seriesList.length > 0 && (
+            <Select
+              value={slot.seriesId ?? '_any'}
+              onValueChange={(v) => updateSlot(i, { seriesId: v === '_any' ? undefined : v })}
+              disabled={!value.enabled}
+            >
+              <SelectTrigger className="w-40 h-9 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="_any">Any series</SelectItem>
+                {seriesList.map((series) => (
+                  <SelectItem key={series.id} value={series.id}>{series.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {value.slots.length > 1 && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground touch-manipulation"
+              disabled={!value.enabled}
+              onClick={() => onChange({ ...value, slots: value.slots.filter((_, j) => j !== i) })}
+              aria-label="Remove slot"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ── Blackout Row ─────────────────────────────────────────────────────────────
+
+function BlackoutRow({
+  value,
+  onChange,
+  onRemove,
+}: {
+  value: BlackoutRange;
+  onChange: (val: BlackoutRange) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
       <Input
-        type="time"
-        value={value.postTime}
-        onChange={(e) => onChange({ ...value, postTime: e.target.value })}
-        disabled={!value.enabled}
-        className="w-32 text-sm touch-manipulation"
+        type="date"
+        value={value.start}
+        onChange={(e) => onChange({ ...value, start: e.target.value, end: value.end < e.target.value ? e.target.value : value.end })}
+        className="w-40 text-sm touch-manipulation"
+        aria-label="First day"
       />
+      <span className="text-xs text-muted-foreground">to</span>
+      <Input
+        type="date"
+        value={value.end}
+        min={value.start}
+        onChange={(e) => onChange({ ...value, end: e.target.value })}
+        className="w-40 text-sm touch-manipulation"
+        aria-label="Last day"
+      />
+      <Input
+        value={value.label ?? ''}
+        onChange={(e) => onChange({ ...value, label: e.target.value })}
+        placeholder="Label (optional)"
+        maxLength={60}
+        className="w-44 h-9 text-xs touch-manipulation"
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-muted-foreground touch-manipulation"
+        onClick={onRemove}
+        aria-label="Remove blackout"
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
+
+// ── Best-time suggestions ────────────────────────────────────────────────────
+
+/** Schedule changes the user's own engagement history points to */
+function BestTimeSuggestions({
+  schedule,
+  scores,
+  onApply,
+}: {
+  schedule: PostingSchedule;
+  scores: PostingTimeScores;
+  onApply: (suggestion: PostingScheduleSuggestion) => void;
+}) {
+  const suggestions = suggestScheduleChanges(schedule, scores);
+  const best = bestPostingTimes(scores, 3);
+  const dayLabel = (key: keyof PostingSchedule) => DAYS_OF_WEEK.find((d) => d.key === key)?.label ?? key;
+
+  return (
+    <div className="mb-4 rounded-lg border bg-muted/30 p-3 space-y-2">
+      <div className="flex items-center gap-1.5 text-sm font-medium">
+        <Sparkles className="h-3.5 w-3.5 text-primary" />
+        Best times to post
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        {scores.basedOnHistory
+          ? `Based on ${scores.sampleSize} published posts, in ${scores.timeZone}. `
+          : `Not enough history yet — general LinkedIn patterns until ${MIN_HISTORY_POSTS} posts have ${METRICS_SETTLE_DAYS} days of metrics. `}
+        Top hours: {best.map((b) => `${dayLabel(b.day).slice(0, 3)} ${String(b.hour).padStart(2, '0')}:00`).join(', ')}
+      </p>
+      {suggestions.length > 0 ? (
+        <div className="divide-y">
+          {suggestions.map((s) => (
+            <div key={`${s.day}-${s.fromTime ?? 'add'}`} className="flex items-center justify-between gap-3 py-1.5">
+              <span className="text-xs">
+                <span className="font-medium">{dayLabel(s.day)}</span>
+                {s.fromTime ? ` — move ${s.fromTime} to ${s.toTime}` : ` — add ${s.toTime}`}
+                <span className="text-muted-foreground"> (+{Math.round(s.gain * 100)}%)</span>
+              </span>
+              <Button variant="outline" size="sm" className="h-7 text-xs touch-manipulation" onClick={() => onApply(s)}>
+                Apply
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Your schedule already uses your best hours.</p>
+      )}
+    </div>
+  );
+}
+
+// ── API Usage ────────────────────────────────────────────────────────────────
+
+/** Today's LinkedIn API calls against the member's daily budget (resets midnight UTC) */
+function ApiUsageBar({ usage }: { usage: LinkedInApiUsage }) {
+  const percent = Math.min(100, Math.round((usage.calls / usage.budget) * 100));
+  const limitedUntil = usage.limitedUntil ? new Date(usage.limitedUntil) : null;
+  const exhausted = !!limitedUntil || usage.calls >= usage.budget;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><Gauge className="h-3 w-3" />LinkedIn API today</span>
+        <span className={exhausted ? 'text-destructive' : undefined}>
+          {usage.calls.toLocaleString()} / {usage.budget.toLocaleString()} calls
+        </span>
+      </div>
+      <Progress value={percent} className="h-1.5" />
+      {exhausted && (
+        <p className="text-xs text-destructive">
+          {limitedUntil
+            ? `Rate limited by LinkedIn until ${limitedUntil.toLocaleString()}`
+            : 'Daily budget used up'} — scheduled posts wait for the next run.
+        </p>
+      )}
     </div>
   );
 }
@@ -156,13 +377,21 @@ function SettingsSection({
 
 export default function SettingsClient() {
   const { user } = useAuth();
-  const [profile, setProfile] = useState<AutoposterProfile | null>(null);
+  const [accounts, setAccounts] = useState<LinkedInAccountSummary[]>([]);
+  const [reconnectIds, setReconnectIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState<string | null>(null); // section being saved
 
   // Form state
-  const [schedule, setSchedule] = useState<PostingSchedule>(DEFAULT_SCHEDULE);
-  const [timezone, setTimezone] = useState('Asia/Kolkata');
+  const [schedule, setSchedule] = useState<PostingSchedule>(DEFAULT_POSTING_SCHEDULE);
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  const [postingTimes, setPostingTimes] = useState<PostingTimeScores | null>(null);
+  const [autopilotEnabled, setAutopilotEnabled] = useState(false);
+  const [autopilotDays, setAutopilotDays] = useState(String(AUTOPILOT_DEFAULT_DAYS));
+  const [vacationMode, setVacationMode] = useState(false);
+  const [vacationUntil, setVacationUntil] = useState('');
+  const [blackouts, setBlackouts] = useState<BlackoutRange[]>([]);
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
   const [draftHour, setDraftHour] = useState('21');
   const [reviewHour, setReviewHour] = useState('3');
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
@@ -172,6 +401,17 @@ export default function SettingsClient() {
   const [preferredTextModel, setPreferredTextModel] = useState('');
   const [preferredMediaType, setPreferredMediaType] = useState('text');
 
+  // Audience defaults
+  const [defaultVisibility, setDefaultVisibility] = useState<PostVisibility>('PUBLIC');
+  const [defaultDisableReshare, setDefaultDisableReshare] = useState(false);
+
+  // Cross-post networks (the Mastodon / X callbacks land back here)
+  const searchParams = useSearchParams();
+  const [crossPostConnections, setCrossPostConnections] = useState<CrossPostConnectionSummary[]>([]);
+  const [mastodonInstance, setMastodonInstance] = useState('');
+  const [blueskyHandle, setBlueskyHandle] = useState('');
+  const [blueskyPassword, setBlueskyPassword] = useState('');
+  const [crossPostError, setCrossPostError] = useState('');
 
 
   const fetchProfile = useCallback(async () => {
@@ -181,15 +421,34 @@ export default function SettingsClient() {
       const data = await res.json();
       if (data.success && data.data) {
         const p = data.data as AutoposterProfile;
-        setProfile(p);
-        setSchedule(p.postingSchedule ?? DEFAULT_SCHEDULE);
-        setTimezone(p.timezone ?? 'Asia/Kolkata');
+        setSchedule(p.postingSchedule ?? DEFAULT_POSTING_SCHEDULE);
+        setTimezone(p.timezone ?? DEFAULT_TIMEZONE);
         setDraftHour(String(p.draftGenerationHour ?? 21));
         setReviewHour(String(p.reviewDeadlineHour ?? 3));
         setNotificationsEnabled(!!p.fcmToken);
+        setReconnectIds(p.linkedinReconnectAccountIds ?? []);
         setPreferredProvider(p.preferredProvider ?? '_default');
         setPreferredTextModel(p.preferredTextModel ?? '');
         setPreferredMediaType(p.preferredMediaType ?? 'text');
+        setDefaultVisibility(p.defaultVisibility ?? 'PUBLIC');
+        setDefaultDisableReshare(!!p.defaultDisableReshare);
+        setAutopilotEnabled(!!p.autopilotEnabled);
+        setAutopilotDays(String(p.autopilotDays ?? AUTOPILOT_DEFAULT_DAYS));
+        setVacationMode(!!p.vacationMode);
+        setVacationUntil(p.vacationUntil ?? '');
+        setBlackouts(p.blackouts ?? []);
+
+        const accountsRes = await fetch('/api/linkedin/accounts');
+        const accountsData = await accountsRes.json();
+        if (accountsData.success) setAccounts(accountsData.data ?? []);
+
+        const crossPostRes = await fetch('/api/crosspost/accounts');
+        const crossPostData = await crossPostRes.json();
+        if (crossPostData.success) setCrossPostConnections(crossPostData.data ?? []);
+
+        const seriesRes = await fetch('/api/series');
+        const seriesData = await seriesRes.json();
+        if (seriesData.success) setSeriesList(seriesData.data ?? []);
       } else {
         // Create profile if it doesn't exist
         await fetch('/api/autoposter/profile', { method: 'POST' });
@@ -206,6 +465,20 @@ export default function SettingsClient() {
     fetchProfile();
   }, [fetchProfile]);
 
+  // Scored in the zone picked under Draft Timing, saved or not
+  useEffect(() => {
+    if (!user || loading) return;
+    (async () => {
+      try {
+        const res = await fetch(`/api/autoposter/best-times?timezone=${encodeURIComponent(timezone)}`);
+        const data = await res.json();
+        if (data.success) setPostingTimes(data.data);
+      } catch {
+        // Silent — suggestions are optional
+      }
+    })();
+  }, [user, loading, timezone]);
+
 
 
   // Generic save handler
@@ -226,7 +499,18 @@ export default function SettingsClient() {
   };
 
   // Save handlers
-  const saveSchedule = () => saveField('schedule', { postingSchedule: schedule });
+  const saveSchedule = () =>
+    saveField('schedule', {
+      postingSchedule: schedule,
+      autopilotEnabled,
+      autopilotDays: Number(autopilotDays),
+    });
+  const saveTimeOff = () =>
+    saveField('timeoff', {
+      vacationMode,
+      vacationUntil: vacationUntil || null,
+      blackouts,
+    });
   const saveTiming = () =>
     saveField('timing', {
       draftGenerationHour: Number(draftHour),
@@ -239,6 +523,7 @@ export default function SettingsClient() {
       preferredTextModel: preferredTextModel.trim() || null,
       preferredMediaType,
     });
+  const saveAudience = () => saveField('audience', { defaultVisibility, defaultDisableReshare });
 
   const enableNotifications = async () => {
     setSaving('notifications');
@@ -262,13 +547,25 @@ export default function SettingsClient() {
     window.location.href = '/api/linkedin/auth';
   };
 
-  const disconnectLinkedIn = async () => {
+  const disconnectLinkedIn = async (accountId: string) => {
     setSaving('linkedin');
     try {
-      await fetch('/api/autoposter/profile', {
+      await fetch(`/api/linkedin/accounts?id=${encodeURIComponent(accountId)}`, { method: 'DELETE' });
+      fetchProfile();
+    } catch {
+      // TODO: toast
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const makeDefaultAccount = async (accountId: string) => {
+    setSaving('linkedin');
+    try {
+      await fetch('/api/linkedin/accounts', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ linkedinConnected: false }),
+        body: JSON.stringify({ accountId }),
       });
       fetchProfile();
     } catch {
@@ -278,6 +575,55 @@ export default function SettingsClient() {
     }
   };
 
+  const connectMastodon = () => {
+    window.location.href = `/api/crosspost/mastodon/auth?instance=${encodeURIComponent(mastodonInstance.trim())}`;
+  };
+
+  const connectX = () => {
+    window.location.href = '/api/crosspost/x/auth';
+  };
+
+  const connectBluesky = async () => {
+    setSaving('crosspost');
+    setCrossPostError('');
+    try {
+      const res = await fetch('/api/crosspost/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ network: 'bluesky', identifier: blueskyHandle.trim(), appPassword: blueskyPassword.trim() }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setCrossPostError(data.error ?? 'Could not connect Bluesky');
+      } else {
+        setBlueskyHandle('');
+        setBlueskyPassword('');
+        fetchProfile();
+      }
+    } catch {
+      setCrossPostError('Could not connect Bluesky');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const disconnectCrossPost = async (network: CrossPostNetwork) => {
+    setSaving('crosspost');
+    try {
+      await fetch(`/api/crosspost/accounts?network=${network}`, { method: 'DELETE' });
+      fetchProfile();
+    } catch {
+      // TODO: toast
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const crossPostResult = searchParams.get('crosspost');
+  const [crossPostResultNetwork] = normalizeCrossPostNetworks([searchParams.get('network')]);
+  const crossPostResultLabel = crossPostResultNetwork ? CROSS_POST_NETWORK_LABELS[crossPostResultNetwork] : 'The network';
+  const connectedNetworks = new Set(crossPostConnections.map(c => c.network));
+
 
 
   if (loading) {
@@ -316,31 +662,91 @@ export default function SettingsClient() {
       <SettingsSection
         icon={Linkedin}
         title="LinkedIn Account"
-        description="Connect your account to enable auto-posting."
+        description="Connect one or more accounts to enable auto-posting."
       >
-        {profile?.linkedinConnected ? (
-          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-            <div className="flex items-center gap-2 min-w-0">
-              <Badge variant="default" className="text-xs shrink-0">
-                <Check className="mr-1 h-3 w-3" />
-                Connected
-              </Badge>
-              {profile.linkedinMemberUrn && (
-                <span className="text-xs text-muted-foreground truncate">
-                  {profile.linkedinMemberUrn}
-                </span>
-              )}
+        {accounts.length > 0 ? (
+          <div className="space-y-3">
+            {accounts.map(account => (
+              <div key={account.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant={account.isDefault ? 'default' : 'secondary'} className="text-xs shrink-0">
+                      <Check className="mr-1 h-3 w-3" />
+                      {account.isDefault ? 'Default' : 'Connected'}
+                    </Badge>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{account.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {account.email ?? account.memberUrn}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {!account.isDefault && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => makeDefaultAccount(account.id)}
+                        disabled={saving === 'linkedin'}
+                        className="flex-1 sm:flex-none touch-manipulation"
+                      >
+                        Make default
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => disconnectLinkedIn(account.id)}
+                      disabled={saving === 'linkedin'}
+                      className="flex-1 sm:flex-none touch-manipulation"
+                    >
+                      <Unplug className="mr-1.5 h-3.5 w-3.5" />
+                      Disconnect
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Token expires soon and couldn't be refreshed (refresh-tokens cron) */}
+                {reconnectIds.includes(account.id) && (
+                  <div className="flex flex-col gap-2 rounded-md bg-destructive/10 p-2 sm:flex-row sm:items-center sm:justify-between">
+                    <p className="flex items-center gap-1.5 text-xs text-destructive">
+                      <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                      {account.tokenExpiry
+                        ? `Connection expires ${new Date(account.tokenExpiry).toLocaleDateString()} and can't be renewed automatically.`
+                        : 'Connection can\'t be renewed automatically.'}
+                    </p>
+                    <Button size="sm" variant="outline" onClick={connectLinkedIn} className="h-7 text-xs touch-manipulation">
+                      <Linkedin className="mr-1 h-3 w-3" />
+                      Reconnect
+                    </Button>
+                  </div>
+                )}
+
+                {account.apiUsage && <ApiUsageBar usage={account.apiUsage} />}
+
+                {/* Company Pages this account can post as */}
+                {account.organizations.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {account.organizations.map(o => (
+                      <Badge key={o.urn} variant="outline" className="text-xs">
+                        <Building2 className="mr-1 h-3 w-3" />
+                        {o.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <div className="space-y-1">
+              <Button size="sm" variant="outline" onClick={connectLinkedIn} className="w-full sm:w-auto touch-manipulation">
+                <Linkedin className="mr-1.5 h-3.5 w-3.5" />
+                Connect another account
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Sign out of LinkedIn in this browser first, or LinkedIn will reconnect the same account.
+              </p>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={disconnectLinkedIn}
-              disabled={saving === 'linkedin'}
-              className="w-full sm:w-auto touch-manipulation"
-            >
-              <Unplug className="mr-1.5 h-3.5 w-3.5" />
-              Disconnect
-            </Button>
           </div>
         ) : (
           <Button size="sm" onClick={connectLinkedIn} className="w-full sm:w-auto touch-manipulation">
@@ -350,6 +756,108 @@ export default function SettingsClient() {
         )}
       </SettingsSection>
 
+      {/* ── Other Networks ────────────────────────────────────────────────── */}
+      <SettingsSection
+        icon={Repeat2}
+        title="Other Networks"
+        description="Cross-post to Mastodon, Bluesky and X when a post goes live on LinkedIn."
+      >
+        <div className="space-y-4">
+          {crossPostResult === 'connected' && (
+            <p className="text-xs text-green-600">{crossPostResultLabel} connected.</p>
+          )}
+          {crossPostResult === 'error' && (
+            <p className="text-xs text-destructive">
+              {crossPostResultLabel} couldn&apos;t be connected ({searchParams.get('reason') ?? 'unknown error'}). Try again.
+            </p>
+          )}
+
+          {crossPostConnections.map(connection => (
+            <div key={connection.network} className="flex flex-col gap-3 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between">
+              <div className="flex items-center gap-2 min-w-0">
+                <Badge variant="secondary" className="text-xs shrink-0">
+                  <Check className="mr-1 h-3 w-3" />
+                  {CROSS_POST_NETWORK_LABELS[connection.network]}
+                </Badge>
+                <p className="text-sm font-medium truncate">{connection.handle}</p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => disconnectCrossPost(connection.network)}
+                disabled={saving === 'crosspost'}
+                className="touch-manipulation"
+              >
+                <Unplug className="mr-1.5 h-3.5 w-3.5" />
+                Disconnect
+              </Button>
+            </div>
+          ))}
+
+          {!connectedNetworks.has('mastodon') && (
+            <div className="space-y-2">
+              <Label className="text-xs">Mastodon server</Label>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="e.g. mastodon.social"
+                  value={mastodonInstance}
+                  onChange={(e) => setMastodonInstance(e.target.value)}
+                  className="text-sm"
+                />
+                <Button size="sm" variant="outline" onClick={connectMastodon} disabled={!mastodonInstance.trim()} className="shrink-0 touch-manipulation">
+                  Connect
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {!connectedNetworks.has('bluesky') && (
+            <div className="space-y-2">
+              <Label className="text-xs">Bluesky</Label>
+              <div className="grid gap-2 grid-cols-1 sm:grid-cols-[1fr_1fr_auto]">
+                <Input
+                  placeholder="you.bsky.social"
+                  value={blueskyHandle}
+                  onChange={(e) => setBlueskyHandle(e.target.value)}
+                  className="text-sm"
+                />
+                <Input
+                  type="password"
+                  placeholder="App password"
+                  value={blueskyPassword}
+                  onChange={(e) => setBlueskyPassword(e.target.value)}
+                  className="text-sm"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={connectBluesky}
+                  disabled={saving === 'crosspost' || !blueskyHandle.trim() || !blueskyPassword.trim()}
+                  className="touch-manipulation"
+                >
+                  {saving === 'crosspost' && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+                  Connect
+                </Button>
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                Create an app password under Settings → Privacy and security in Bluesky — never your account password.
+              </p>
+            </div>
+          )}
+
+          {!connectedNetworks.has('x') && (
+            <Button size="sm" variant="outline" onClick={connectX} className="w-full sm:w-auto touch-manipulation">
+              Connect X
+            </Button>
+          )}
+
+          {crossPostError && <p className="text-xs text-destructive">{crossPostError}</p>}
+          {connectedNetworks.size > 0 && (
+            <p className="text-xs text-muted-foreground">Pick networks per post when you create or edit it.</p>
+          )}
+        </div>
+      </SettingsSection>
+
       {/* ── AI Model & Media ──────────────────────────────────────────────── */}
       <SettingsSection
         icon={Bot}
@@ -425,24 +933,110 @@ export default function SettingsClient() {
         </div>
       </SettingsSection>
 
+      {/* ── Audience ───────────────────────────────────────────────────────── */}
+      <SettingsSection
+        icon={Users}
+        title="Audience"
+        description="Who sees new posts and whether they can be reposted. Each post can override this."
+      >
+        <div className="space-y-4">
+          <div className="grid gap-4 grid-cols-1 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label className="text-xs">Default Visibility</Label>
+              <Select value={defaultVisibility} onValueChange={(v) => setDefaultVisibility(v as PostVisibility)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {POST_VISIBILITIES.map((v) => (
+                    <SelectItem key={v} value={v}>{POST_VISIBILITY_LABELS[v]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[10px] text-muted-foreground">
+                Company Page posts are always public
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between gap-3 sm:pt-6">
+              <Label htmlFor="default-disable-reshare" className="text-sm font-normal">Don&apos;t allow reposts</Label>
+              <Switch
+                id="default-disable-reshare"
+                checked={defaultDisableReshare}
+                onCheckedChange={setDefaultDisableReshare}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={saveAudience} disabled={saving === 'audience'} className="w-full sm:w-auto touch-manipulation">
+              {saving === 'audience' ? (
+                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Check className="mr-1.5 h-3.5 w-3.5" />
+              )}
+              Save Audience
+            </Button>
+          </div>
+        </div>
+      </SettingsSection>
+
       {/* ── Posting Schedule ──────────────────────────────────────────────── */}
       <SettingsSection
         icon={Calendar}
         title="Posting Schedule"
-        description="Choose which days and times your posts go live."
+        description={`Choose which days and times your posts go live — up to ${MAX_SLOTS_PER_DAY} slots a day, each optionally tied to a format or series.`}
       >
+        {postingTimes && (
+          <BestTimeSuggestions
+            schedule={schedule}
+            scores={postingTimes}
+            onApply={(suggestion) => setSchedule((prev) => applyScheduleSuggestion(prev, suggestion))}
+          />
+        )}
         <div className="space-y-1 divide-y">
           {DAYS_OF_WEEK.map((day) => (
             <ScheduleRow
               key={day.key}
               day={day}
               value={schedule[day.key]}
+              seriesList={seriesList}
               onChange={(val) =>
                 setSchedule((prev) => ({ ...prev, [day.key]: val }))
               }
             />
           ))}
         </div>
+        <div className="mt-4 rounded-lg border p-3 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <Label htmlFor="autopilot-enabled" className="text-sm">Autopilot</Label>
+              <p className="text-[10px] text-muted-foreground">
+                Book free slots automatically from your idea bank, then your active series
+              </p>
+            </div>
+            <Switch
+              id="autopilot-enabled"
+              checked={autopilotEnabled}
+              onCheckedChange={setAutopilotEnabled}
+            />
+          </div>
+          {autopilotEnabled && (
+            <div className="flex items-center justify-between gap-3">
+              <Label className="text-xs font-normal">Fill slots up to</Label>
+              <Select value={autopilotDays} onValueChange={setAutopilotDays}>
+                <SelectTrigger className="w-32 h-9 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: AUTOPILOT_MAX_DAYS }, (_, i) => String(i + 1)).map((d) => (
+                    <SelectItem key={d} value={d}>{d === '1' ? '1 day' : `${d} days`} ahead</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
         <div className="flex justify-end mt-4">
           <Button size="sm" onClick={saveSchedule} disabled={saving === 'schedule'} className="w-full sm:w-auto touch-manipulation">
             {saving === 'schedule' ? (
@@ -455,6 +1049,86 @@ export default function SettingsClient() {
         </div>
       </SettingsSection>
 
+      {/* ── Time Off ──────────────────────────────────────────────────────── */}
+      <SettingsSection
+        icon={Palmtree}
+        title="Time Off"
+        description="Nothing is drafted or published on these days. Posts already booked move to your next free slot, and you're notified about approved ones."
+      >
+        <div className="space-y-4">
+          <div className="rounded-lg border p-3 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <Label htmlFor="vacation-mode" className="text-sm">Vacation mode</Label>
+                <p className="text-[10px] text-muted-foreground">
+                  Pause posting from today{vacationUntil ? ` through ${vacationUntil}` : ' until you switch it off'}
+                </p>
+              </div>
+              <Switch
+                id="vacation-mode"
+                checked={vacationMode}
+                onCheckedChange={setVacationMode}
+              />
+            </div>
+            {vacationMode && (
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="vacation-until" className="text-xs font-normal">Last day off</Label>
+                <Input
+                  id="vacation-until"
+                  type="date"
+                  value={vacationUntil}
+                  min={zonedToday(timezone)}
+                  onChange={(e) => setVacationUntil(e.target.value)}
+                  className="w-40 text-sm touch-manipulation"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <Label className="text-xs">Blackout dates</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs touch-manipulation"
+                disabled={blackouts.length >= MAX_BLACKOUTS}
+                onClick={() => {
+                  const start = addDays(zonedToday(timezone), 1);
+                  setBlackouts((prev) => [...prev, { start, end: start }]);
+                }}
+              >
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                Add dates
+              </Button>
+            </div>
+            {blackouts.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No blackout dates — holidays, conferences, launches.</p>
+            ) : (
+              blackouts.map((range, i) => (
+                <BlackoutRow
+                  key={i}
+                  value={range}
+                  onChange={(val) => setBlackouts((prev) => prev.map((r, j) => (j === i ? val : r)))}
+                  onRemove={() => setBlackouts((prev) => prev.filter((_, j) => j !== i))}
+                />
+              ))
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={saveTimeOff} disabled={saving === 'timeoff'} className="w-full sm:w-auto touch-manipulation">
+              {saving === 'timeoff' ? (
+                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Check className="mr-1.5 h-3.5 w-3.5" />
+              )}
+              Save Time Off
+            </Button>
+          </div>
+        </div>
+      </SettingsSection>
+
       {/* ── Draft Timing ──────────────────────────────────────────────────── */}
       <SettingsSection
         icon={Clock}
@@ -0,0 +1,99 @@
+'use client';
+
+/**
+ * Video Extras Editor — SRT captions and custom thumbnail for 'video' posts
+ *
+ * Both are uploaded alongside the video when it's published, so they can
+ * only be changed before that. Validation comes from `@/lib/linkedin/video`
+ * so the editor and the API agree.
+ */
+
+import { useRef } from 'react';
+import { Captions, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { getCaptionsError, getVideoThumbnailError, normalizeCaptions } from '@/lib/linkedin/video';
+
+export interface VideoExtras {
+  captions: string;
+  thumbnailUrl: string;
+}
+
+/** Editor state for a post's current captions / thumbnail */
+export function videoExtrasOf(post: { videoCaptions?: string; videoThumbnailUrl?: string }): VideoExtras {
+  return { captions: post.videoCaptions ?? '', thumbnailUrl: post.videoThumbnailUrl ?? '' };
+}
+
+export function VideoExtrasEditor({
+  value, onChange, disabled,
+}: {
+  value: VideoExtras;
+  onChange: (v: VideoExtras) => void;
+  disabled?: boolean;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    onChange({ ...value, captions: await file.text() });
+  };
+
+  const error = getCaptionsError(normalizeCaptions(value.captions))
+    ?? getVideoThumbnailError(value.thumbnailUrl.trim());
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <Label className="flex items-center gap-1.5">
+            <Captions className="h-3.5 w-3.5" />Captions <span className="text-xs text-muted-foreground">(optional, .srt)</span>
+          </Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => fileRef.current?.click()}
+            disabled={disabled}
+          >
+            <Upload className="mr-1 h-3 w-3" />Load file
+          </Button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".srt,application/x-subrip,text/plain"
+            className="hidden"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+        </div>
+        <Textarea
+          value={value.captions}
+          onChange={(e) => onChange({ ...value, captions: e.target.value })}
+          rows={4}
+          placeholder={'1\n00:00:00,000 --> 00:00:03,000\nFirst line of captions'}
+          className="font-mono text-xs resize-y"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label>Thumbnail URL <span className="text-xs text-muted-foreground">(optional — LinkedIn picks a frame otherwise)</span></Label>
+        <Input
+          value={value.thumbnailUrl}
+          onChange={(e) => onChange({ ...value, thumbnailUrl: e.target.value })}
+          placeholder="https://…/cover.jpg"
+          className="h-9 text-sm"
+          disabled={disabled}
+        />
+        {value.thumbnailUrl.trim() && !getVideoThumbnailError(value.thumbnailUrl.trim()) && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={value.thumbnailUrl.trim()} alt="" className="max-h-32 rounded-md border object-cover" />
+        )}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -3,4 +3,4 @@
  */
 export { generateHtmlCard } from './html-generator';
 export type { HtmlGenOptions } from './html-generator';
-export { PAGE_BREAK, splitHtmlPages, joinHtmlPages, getPageHeight } from './utils';
+export { PAGE_BREAK, splitHtmlPages, joinHtmlPages, getPageHeight, getSlideTexts } from './utils';
@@ -131,3 +131,55 @@ export function removeSlideFromHtml(
 
   return null;
 }
+
+/** Visible text of an HTML fragment — styles, scripts and tags stripped, whitespace collapsed */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Visible text of each slide in a (possibly multi-page) HTML document,
+ * e.g. for writing per-slide alt text.
+ *
+ * Slides are the top-level div/section wrappers of the body, as laid out by
+ * the generator (or PAGE_BREAK-joined pages). If they can't be identified, the whole document's text is
+ * returned for every slide so callers still get `pageCount` entries.
+ */
+export function getSlideTexts(html: string, pageCount: number): string[] {
+  const bodyOf = (doc: string) => doc.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? doc;
+  // Older posts store one document per page
+  if (html.includes(PAGE_BREAK)) return splitHtmlPages(html).map(page => htmlToText(bodyOf(page)));
+
+  const body = bodyOf(html);
+  if (pageCount <= 1) return [htmlToText(body)];
+
+  const sections: string[] = [];
+  const tagRe = /<(\/?)(?:div|section)\b[^>]*>/gi;
+  let m: RegExpExecArray | null;
+  let depth = 0;
+  let startPos = -1;
+  while ((m = tagRe.exec(body)) !== null) {
+    if (m[1] === '') {
+      if (depth === 0) startPos = m.index;
+      depth++;
+    } else if (depth > 0) {
+      depth--;
+      if (depth === 0 && startPos >= 0) {
+        sections.push(body.slice(startPos, m.index + m[0].length));
+        startPos = -1;
+      }
+    }
+  }
+
+  if (sections.length >= pageCount) return sections.slice(0, pageCount).map(htmlToText);
+  const whole = htmlToText(body);
+  return Array.from({ length: pageCount }, () => whole);
+}
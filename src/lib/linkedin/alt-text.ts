@@ -0,0 +1,28 @@
+/**
+ * Image alt text rules
+ *
+ * One entry per published image: index 0 for a single image, one per slide
+ * for HTML carousels. Shared by the API routes and the preview dialog.
+ *
+ * Safe on client and server.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/posts-api#multiimage
+ */
+
+/** LinkedIn's limit — screen readers do best well under it (~250 characters) */
+export const ALT_TEXT_MAX_LENGTH = 4086;
+
+/**
+ * Coerce untrusted input (request body, AI output) into alt texts.
+ * Non-strings become '', every entry is trimmed and clipped to the limit.
+ * With `count`, the list is padded / truncated to exactly that many entries.
+ * Returns null when the input isn't an array or every entry is blank.
+ */
+export function normalizeAltTexts(input: unknown, count?: number): string[] | null {
+  if (!Array.isArray(input)) return null;
+  const texts = input.map(v => (typeof v === 'string' ? v.trim().slice(0, ALT_TEXT_MAX_LENGTH) : ''));
+  const sized = count === undefined
+    ? texts
+    : Array.from({ length: count }, (_, i) => texts[i] ?? '');
+  return sized.some(Boolean) ? sized : null;
+}
@@ -0,0 +1,63 @@
+/**
+ * Article link rules
+ *
+ * Shared by the API routes and the article editor so a link that looks
+ * fine in the form is one LinkedIn will render as a card.
+ *
+ * Safe on client and server.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/posts-api#article
+ */
+
+import type { PostArticle } from './types';
+
+export const ARTICLE_TITLE_MAX_LENGTH = 400;
+export const ARTICLE_DESCRIPTION_MAX_LENGTH = 4086;
+
+/** True for absolute http(s) URLs */
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Coerce untrusted input (request body, Firestore) into a PostArticle.
+ * Trims every field and drops empty optional ones; returns null when there's
+ * no source URL at all. Use `getArticleError` before publishing.
+ */
+export function normalizeArticle(input: unknown): PostArticle | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = input as Record<string, unknown>;
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim() : '');
+
+  const source = text(raw.source);
+  if (!source) return null;
+
+  const description = text(raw.description);
+  const thumbnailUrl = text(raw.thumbnailUrl);
+  return {
+    source,
+    title: text(raw.title),
+    ...(description && { description }),
+    ...(thumbnailUrl && { thumbnailUrl }),
+  };
+}
+
+/** Why LinkedIn would reject this article, or null if it's publishable */
+export function getArticleError(article: PostArticle | null | undefined): string | null {
+  if (!article) return 'Article posts need a link';
+  if (!isHttpUrl(article.source)) return 'Article link must be an http(s) URL';
+  if (!article.title) return 'Article title is required';
+  if (article.title.length > ARTICLE_TITLE_MAX_LENGTH) {
+    return `Article title must be ${ARTICLE_TITLE_MAX_LENGTH} characters or fewer`;
+  }
+  if ((article.description?.length ?? 0) > ARTICLE_DESCRIPTION_MAX_LENGTH) {
+    return `Article description must be ${ARTICLE_DESCRIPTION_MAX_LENGTH} characters or fewer`;
+  }
+  if (article.thumbnailUrl && !isHttpUrl(article.thumbnailUrl)) return 'Thumbnail must be an http(s) image URL';
+  return null;
+}
@@ -0,0 +1,236 @@
+/**
+ * Best time to post — scores each weekday/hour in the user's timezone
+ * from how their own published posts performed there
+ *
+ * A post counts once its metrics have had METRICS_SETTLE_DAYS to settle.
+ * Each post is compared with the user's own baseline — impressions
+ * against their median, engagement rate (reactions + comments + reshares
+ * per impression) against their mean — so one viral post doesn't decide
+ * everything. An hour's score blends its posts with a prior: a general
+ * "business hours, midweek" curve, weighted like PRIOR_WEIGHT posts. With
+ * little or no history the prior wins, and the scores say so.
+ *
+ * Scores are relative: 1.0 is an average slot for this user.
+ *
+ * Safe on client and server.
+ */
+
+import { MAX_SLOTS_PER_DAY, POSTING_DAYS, normalizePostingSchedule } from './schedule';
+import { utcToZoned, weekdayOf } from './timezone';
+import type { PostingSchedule, PostMetrics } from './types';
+
+/** Days after publishing before a post's metrics are trusted */
+export const METRICS_SETTLE_DAYS = 3;
+
+/** How many posts' worth of weight the default curve carries in every hour */
+const PRIOR_WEIGHT = 3;
+
+/** Fewer scored posts than this and the scores are the default curve only */
+export const MIN_HISTORY_POSTS = 5;
+
+/** A suggested move has to beat the current slot by at least this much */
+const MIN_SUGGESTION_GAIN = 0.1;
+
+/** A published post's time and latest counters */
+export interface PostingTimeSample {
+  publishedAt: Date;
+  metrics: PostMetrics;
+}
+
+export interface PostingTimeScore {
+  day: keyof PostingSchedule;
+  /** 0–23, local to the scored timezone */
+  hour: number;
+  /** Published posts that landed in this hour */
+  posts: number;
+  /** 0 without posts */
+  avgImpressions: number;
+  /** Engagements per impression, 0 without posts */
+  engagementRate: number;
+  /** Relative to the user's average slot — higher is better */
+  score: number;
+}
+
+export interface PostingTimeScores {
+  timeZone: string;
+  /** Posts the scores are based on */
+  sampleSize: number;
+  /** False while there's too little history — scores are the default curve */
+  basedOnHistory: boolean;
+  /** Every weekday × hour, Monday 00:00 first */
+  scores: PostingTimeScore[];
+}
+
+/** A change to the weekly schedule — move a slot, or add one when `fromTime` is unset */
+export interface PostingScheduleSuggestion {
+  day: keyof PostingSchedule;
+  fromTime?: string;
+  toTime: string;
+  /** Score improvement, e.g. 0.25 = 25% better than the slot it replaces */
+  gain: number;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** General LinkedIn wisdom: midweek business mornings, quiet nights and weekends */
+function defaultScore(day: keyof PostingSchedule, hour: number): number {
+  if (hour < 6 || hour >= 22) return 0.6;
+  const weekend = day === 'saturday' || day === 'sunday';
+  const midweek = day === 'tuesday' || day === 'wednesday' || day === 'thursday';
+  let score = weekend ? 0.8 : 1;
+  if (hour >= 7 && hour <= 10) score += weekend ? 0.05 : 0.15;
+  else if (hour >= 12 && hour <= 13) score += 0.05;
+  else if (hour >= 19) score -= 0.1;
+  if (midweek) score += 0.05;
+  return score;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function engagementRate(m: PostMetrics): number {
+  return m.impressions > 0 ? (m.reactions + m.comments + m.reshares) / m.impressions : 0;
+}
+
+function slotKey(day: keyof PostingSchedule, hour: number): string {
+  return `${day}:${hour}`;
+}
+
+function hourOf(time: string): number {
+  return Number(time.split(':')[0]);
+}
+
+// ── Scoring ──────────────────────────────────────────────────────────────────
+
+/** Score every weekday/hour in `timeZone` from the user's published posts */
+export function scorePostingTimes(
+  samples: PostingTimeSample[],
+  timeZone: string,
+  now: Date = new Date(),
+): PostingTimeScores {
+  const settledBefore = now.getTime() - METRICS_SETTLE_DAYS * 24 * 60 * 60 * 1000;
+  const usable = samples.filter(s => s.metrics.impressions > 0 && s.publishedAt.getTime() <= settledBefore);
+  const basedOnHistory = usable.length >= MIN_HISTORY_POSTS;
+
+  const baselineImpressions = usable.length ? median(usable.map(s => s.metrics.impressions)) : 0;
+  const baselineRate = usable.length ? usable.reduce((n, s) => n + engagementRate(s.metrics), 0) / usable.length : 0;
+
+  const buckets = new Map<string, { impressions: number; rate: number; relative: number; posts: number }>();
+  if (basedOnHistory) {
+    for (const sample of usable) {
+      const local = utcToZoned(sample.publishedAt, timeZone);
+      const key = slotKey(weekdayOf(local.date), hourOf(local.time));
+      const rate = engagementRate(sample.metrics);
+      // Half reach, half engagement — each relative to the user's own baseline
+      const relative = 0.5 * (sample.metrics.impressions / (baselineImpressions || 1))
+        + 0.5 * (baselineRate > 0 ? rate / baselineRate : 1);
+      const bucket = buckets.get(key) ?? { impressions: 0, rate: 0, relative: 0, posts: 0 };
+      bucket.impressions += sample.metrics.impressions;
+      bucket.rate += rate;
+      bucket.relative += relative;
+      bucket.posts++;
+      buckets.set(key, bucket);
+    }
+  }
+
+  const scores: PostingTimeScore[] = [];
+  for (const day of POSTING_DAYS) {
+    for (let hour = 0; hour < 24; hour++) {
+      const bucket = buckets.get(slotKey(day, hour));
+      const posts = bucket?.posts ?? 0;
+      scores.push({
+        day,
+        hour,
+        posts,
+        avgImpressions: posts ? Math.round(bucket!.impressions / posts) : 0,
+        engagementRate: posts ? bucket!.rate / posts : 0,
+        score: ((bucket?.relative ?? 0) + PRIOR_WEIGHT * defaultScore(day, hour)) / (posts + PRIOR_WEIGHT),
+      });
+    }
+  }
+
+  return { timeZone, sampleSize: usable.length, basedOnHistory, scores };
+}
+
+/** Score of the hour `time` ("HH:mm") falls in on `day` */
+export function scoreAt(scores: PostingTimeScores, day: keyof PostingSchedule, time: string): number {
+  return scores.scores.find(s => s.day === day && s.hour === hourOf(time))?.score ?? 0;
+}
+
+/** The `count` best weekday/hours, best first */
+export function bestPostingTimes(scores: PostingTimeScores, count: number): PostingTimeScore[] {
+  return [...scores.scores].sort((a, b) => b.score - a.score).slice(0, count);
+}
+
+// ── Schedule suggestions ─────────────────────────────────────────────────────
+
+/**
+ * Up to `max` changes that would move the schedule onto better hours,
+ * biggest gain first: a slot moved to the best free hour on its day, or a
+ * slot added on an off day that beats the average slot in use.
+ */
+export function suggestScheduleChanges(
+  schedule: PostingSchedule,
+  scores: PostingTimeScores,
+  max = 3,
+): PostingScheduleSuggestion[] {
+  const suggestions: PostingScheduleSuggestion[] = [];
+  const bestFreeHour = (day: keyof PostingSchedule, taken: number[]) =>
+    scores.scores
+      .filter(s => s.day === day && !taken.includes(s.hour))
+      .sort((a, b) => b.score - a.score)[0];
+
+  const enabledScores: number[] = [];
+  for (const day of POSTING_DAYS) {
+    const { enabled, slots } = schedule[day];
+    if (!enabled) continue;
+    const taken = slots.map(s => hourOf(s.time));
+    for (const slot of slots) {
+      const current = scoreAt(scores, day, slot.time);
+      enabledScores.push(current);
+      const best = bestFreeHour(day, taken);
+      if (!best) continue;
+      const gain = best.score / current - 1;
+      if (gain >= MIN_SUGGESTION_GAIN) {
+        suggestions.push({ day, fromTime: slot.time, toTime: `${String(best.hour).padStart(2, '0')}:00`, gain });
+      }
+    }
+  }
+
+  const average = enabledScores.length ? enabledScores.reduce((a, b) => a + b, 0) / enabledScores.length : 1;
+  for (const day of POSTING_DAYS) {
+    const { enabled, slots } = schedule[day];
+    if (enabled && slots.length > 0) continue;
+    const best = bestFreeHour(day, []);
+    if (!best) continue;
+    const gain = best.score / average - 1;
+    if (gain >= MIN_SUGGESTION_GAIN) {
+      suggestions.push({ day, toTime: `${String(best.hour).padStart(2, '0')}:00`, gain });
+    }
+  }
+
+  // One suggestion per day — the biggest gain
+  const byDay = new Map<keyof PostingSchedule, PostingScheduleSuggestion>();
+  for (const s of suggestions) {
+    const existing = byDay.get(s.day);
+    if (!existing || s.gain > existing.gain) byDay.set(s.day, s);
+  }
+  return [...byDay.values()].sort((a, b) => b.gain - a.gain).slice(0, max);
+}
+
+/** The schedule with a suggestion applied — the day is switched on if it was off */
+export function applyScheduleSuggestion(
+  schedule: PostingSchedule,
+  suggestion: PostingScheduleSuggestion,
+): PostingSchedule {
+  const day = schedule[suggestion.day];
+  const slots = suggestion.fromTime
+    ? day.slots.map(s => (s.time === suggestion.fromTime ? { ...s, time: suggestion.toTime } : s))
+    : day.enabled
+      ? [...day.slots, { time: suggestion.toTime }].slice(0, MAX_SLOTS_PER_DAY)
+      : [{ time: suggestion.toTime }];
+  return normalizePostingSchedule({ ...schedule, [suggestion.day]: { enabled: true, slots } });
+}
@@ -0,0 +1,108 @@
+/**
+ * Blackout rescheduling
+ *
+ * Moves a booked post off a vacation / blackout day onto the next free
+ * slot (see `nextFreeSlot`). The move only lands if the post is still in
+ * the status it was read in, so a user approving or editing it meanwhile
+ * wins. Approved posts were already signed off for a specific time, so the
+ * user is told where theirs went.
+ *
+ * Saving time off moves every booked post it covers at once
+ * (`rescheduleBlackedOutPosts`); the crons catch any that slip through.
+ */
+
+import 'server-only';
+import { blackoutAt, isBlackedOut, nextFreeSlot } from './blackout';
+import { PostService } from './services/post.service';
+import { sendPushNotification } from './services/push.service';
+import { DEFAULT_TIMEZONE, utcToZoned, zonedWeekdayName } from './timezone';
+import type { AutoposterProfile, PostStatus } from './types';
+
+/** Review closes at least this long before a moved post goes out */
+const REVIEW_LEAD_MS = 60 * 60 * 1000;
+
+export interface BlackoutMove {
+  postId: string;
+  userId: string;
+  topic: string;
+  status: PostStatus;
+  scheduledFor: Date;
+  reviewDeadline?: Date | null;
+}
+
+/**
+ * Move a blacked-out post to the next free slot after `now` (or its own
+ * time, if later). `bookedTimes` holds the user's other booked times and
+ * gets the new one. Returns the new time, or null if it wasn't moved.
+ */
+export async function moveOutOfBlackout(
+  profile: AutoposterProfile,
+  post: BlackoutMove,
+  bookedTimes: Set<number>,
+  now: Date = new Date(),
+): Promise<Date | null> {
+  const from = post.scheduledFor > now ? post.scheduledFor : now;
+  const to = nextFreeSlot(profile, from, bookedTimes);
+  if (!to) return null;
+
+  // Keep a later review deadline's lead time; never past the new slot
+  const lead = post.reviewDeadline
+    ? Math.max(REVIEW_LEAD_MS, post.scheduledFor.getTime() - post.reviewDeadline.getTime())
+    : REVIEW_LEAD_MS;
+  const reviewDeadline = new Date(Math.max(now.getTime(), to.getTime() - lead));
+
+  const moved = await PostService.reschedule(post.postId, post.status, to, reviewDeadline);
+  if (!moved.success) throw new Error(moved.error ?? 'Could not reschedule post');
+  if (!moved.data) return null;
+
+  bookedTimes.delete(post.scheduledFor.getTime());
+  bookedTimes.add(to.getTime());
+
+  if (post.status === 'approved') {
+    const timezone = profile.timezone || DEFAULT_TIMEZONE;
+    const local = utcToZoned(to, timezone);
+    const reason = (blackoutAt(profile, post.scheduledFor) ?? blackoutAt(profile, from))?.label ?? 'your time off';
+    const sent = await sendPushNotification(post.userId, {
+      type: 'post_rescheduled',
+      title: '📅 Post Rescheduled',
+      body: `"${post.topic}" fell on ${reason} — it now goes out ${zonedWeekdayName(to, timezone)} ${local.date} at ${local.time}.`,
+      postId: post.postId,
+      clickAction: '/posts',
+    });
+    if (!sent) console.warn(`[blackout] Reschedule notification NOT sent for post ${post.postId} (user ${post.userId})`);
+  }
+  return to;
+}
+
+/**
+ * Move every booked post of the user's that falls on a vacation / blackout
+ * day, earliest first. Returns how many moved and how many had nowhere to go.
+ */
+export async function rescheduleBlackedOutPosts(
+  userId: string,
+  profile: AutoposterProfile,
+  now: Date = new Date(),
+): Promise<{ moved: number; stuck: number }> {
+  const booked = await PostService.getBooked(userId);
+  if (!booked.success) throw new Error(booked.error ?? 'Could not load booked posts');
+
+  const posts = booked.data ?? [];
+  const bookedTimes = new Set(posts.map(p => p.scheduledFor.getTime()));
+  let moved = 0;
+  let stuck = 0;
+  for (const post of posts) {
+    // Already being published — too late to move
+    if (post.status === 'publishing' || !isBlackedOut(profile, post.scheduledFor)) continue;
+    const to = await moveOutOfBlackout(profile, {
+      postId: post.id,
+      userId,
+      topic: post.topic,
+      status: post.status,
+      scheduledFor: post.scheduledFor,
+      reviewDeadline: post.reviewDeadline,
+    }, bookedTimes, now);
+    if (to) moved++;
+    else stuck++;
+  }
+  return { moved, stuck };
+}
@@ -0,0 +1,54 @@
+/**
+ * Tests for the vacation / blackout checks the publish cron relies on —
+ * in particular a post booked before a blackout whose retry only comes
+ * due once the blackout has started.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isBlackedOut, isDueInBlackout } from './blackout';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const holidays = {
+  timezone: 'Europe/London',
+  blackouts: [{ start: '2024-12-24', end: '2024-12-26', label: 'Christmas' }],
+};
+
+describe('blackout', () => {
+  describe('isDueInBlackout', () => {
+    it('holds a retry that becomes due during a blackout', () => {
+      const scheduledFor = new Date('2024-12-23T10:00:00Z');
+      const retryDue = new Date(scheduledFor.getTime() + 23 * HOUR_MS);
+
+      assert.equal(isBlackedOut(holidays, scheduledFor), false);
+      assert.equal(isDueInBlackout(holidays, scheduledFor, retryDue), true);
+    });
+
+    it('holds a post booked on a blackout day, even once the blackout is over', () => {
+      assert.equal(isDueInBlackout(holidays, new Date('2024-12-25T09:00:00Z'), new Date('2024-12-25T09:00:00Z')), true);
+      assert.equal(isDueInBlackout(holidays, new Date('2024-12-25T09:00:00Z'), new Date('2024-12-27T09:00:00Z')), true);
+    });
+
+    it('lets a post out when neither its day nor today is off', () => {
+      assert.equal(isDueInBlackout(holidays, new Date('2024-12-23T10:00:00Z'), new Date('2024-12-23T12:00:00Z')), false);
+      assert.equal(isDueInBlackout(holidays, new Date('2024-12-23T10:00:00Z'), new Date('2024-12-27T00:00:00Z')), false);
+    });
+
+    it('reads both days in the profile\'s timezone', () => {
+      const scheduledFor = new Date('2024-12-23T10:00:00Z');
+      // 23:30 UTC on the 23rd is already the 24th in Kolkata, still the 23rd in New York
+      const now = new Date('2024-12-23T23:30:00Z');
+
+      assert.equal(isDueInBlackout({ ...holidays, timezone: 'Asia/Kolkata' }, scheduledFor, now), true);
+      assert.equal(isDueInBlackout({ ...holidays, timezone: 'America/New_York' }, scheduledFor, now), false);
+    });
+
+    it('holds a retry that comes due after a vacation starts', () => {
+      const vacation = { timezone: 'Europe/London', vacationMode: true, vacationUntil: '2024-08-10' };
+      // Vacation mode is switched on — any day up to vacationUntil is off
+      assert.equal(isDueInBlackout(vacation, new Date('2024-08-01T10:00:00Z'), new Date('2024-08-02T10:00:00Z')), true);
+      assert.equal(isDueInBlackout({ ...vacation, vacationMode: false }, new Date('2024-08-01T10:00:00Z'), new Date('2024-08-02T10:00:00Z')), false);
+    });
+  });
+});
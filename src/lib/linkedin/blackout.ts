@@ -0,0 +1,121 @@
+/**
+ * Vacation mode and blackout dates
+ *
+ * Time off is set in whole calendar days in the user's timezone. A profile
+ * can be on vacation — `vacationMode` on, optionally until `vacationUntil`
+ * (inclusive) — and hold up to MAX_BLACKOUTS date ranges ("Diwali",
+ * "Conference week"). Nothing is drafted, booked or published on those
+ * days; posts already booked into them move to the next free slot.
+ *
+ * Safe on client and server.
+ */
+
+import { upcomingSlotTimes } from './schedule';
+import { DEFAULT_TIMEZONE, addDays, utcToZoned, zonedToUtc } from './timezone';
+import type { AutoposterProfile, BlackoutRange } from './types';
+
+export const MAX_BLACKOUTS = 20;
+
+const MAX_LABEL_LENGTH = 60;
+
+/** How far ahead a post can be moved before giving up on the schedule */
+const RESCHEDULE_HORIZON_DAYS = 90;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type TimeOffProfile = Pick<AutoposterProfile, 'timezone' | 'vacationMode' | 'vacationUntil' | 'blackouts'>;
+
+function isValidDate(input: unknown): input is string {
+  return typeof input === 'string'
+    && DATE_PATTERN.test(input)
+    && new Date(`${input}T00:00:00Z`).toISOString().startsWith(input);
+}
+
+// ── Normalising ──────────────────────────────────────────────────────────────
+
+/** Coerce untrusted input into a vacation end date — null if unset or invalid */
+export function normalizeVacationUntil(input: unknown): string | null {
+  return isValidDate(input) ? input : null;
+}
+
+/**
+ * Coerce untrusted input into blackout ranges: valid dates only, start on
+ * or before end, earliest first, one per start date, at most MAX_BLACKOUTS.
+ */
+export function normalizeBlackouts(input: unknown): BlackoutRange[] {
+  if (!Array.isArray(input)) return [];
+
+  const ranges: BlackoutRange[] = [];
+  for (const candidate of input) {
+    if (!candidate || typeof candidate !== 'object') continue;
+    const raw = candidate as Record<string, unknown>;
+    if (!isValidDate(raw.start)) continue;
+    const end = isValidDate(raw.end) ? raw.end : raw.start;
+    const [start, last] = raw.start <= end ? [raw.start, end] : [end, raw.start];
+
+    const range: BlackoutRange = { start, end: last };
+    const label = typeof raw.label === 'string' ? raw.label.trim().slice(0, MAX_LABEL_LENGTH) : '';
+    if (label) range.label = label;
+    if (!ranges.some(r => r.start === range.start)) ranges.push(range);
+  }
+  ranges.sort((a, b) => a.start.localeCompare(b.start));
+  return ranges.slice(0, MAX_BLACKOUTS);
+}
+
+// ── Checks ───────────────────────────────────────────────────────────────────
+
+/** True if `date` ("YYYY-MM-DD") is a vacation or blackout day */
+export function isBlackoutDate(profile: TimeOffProfile, date: string): boolean {
+  if (profile.vacationMode && (!profile.vacationUntil || date <= profile.vacationUntil)) return true;
+  return (profile.blackouts ?? []).some(r => date >= r.start && date <= r.end);
+}
+
+/** True if the instant `at` falls on a vacation or blackout day in the profile's timezone */
+export function isBlackedOut(profile: TimeOffProfile, at: Date): boolean {
+  return isBlackoutDate(profile, utcToZoned(at, profile.timezone || DEFAULT_TIMEZONE).date);
+}
+
+/**
+ * True if a post booked for `scheduledFor` shouldn't go out `now` — its own
+ * day is off, or it's running late (an automatic retry, a missed run) into
+ * a day that is.
+ */
+export function isDueInBlackout(profile: TimeOffProfile, scheduledFor: Date, now: Date): boolean {
+  return isBlackedOut(profile, scheduledFor) || isBlackedOut(profile, now);
+}
+
+/** The blackout range covering `at`, if any — vacation days aren't a range */
+export function blackoutAt(profile: TimeOffProfile, at: Date): BlackoutRange | undefined {
+  const date = utcToZoned(at, profile.timezone || DEFAULT_TIMEZONE).date;
+  return (profile.blackouts ?? []).find(r => date >= r.start && date <= r.end);
+}
+
+// ── Rescheduling ─────────────────────────────────────────────────────────────
+
+/**
+ * Where a post booked at `at` should move to: the next slot in the posting
+ * schedule that isn't blacked out or in `bookedTimes`. With no such slot in
+ * the next RESCHEDULE_HORIZON_DAYS — say the schedule is all switched off —
+ * the same local time on the first day off ends. Null if there's nowhere
+ * to go, e.g. an open-ended vacation.
+ */
+export function nextFreeSlot(
+  profile: TimeOffProfile & Pick<AutoposterProfile, 'postingSchedule'>,
+  at: Date,
+  bookedTimes: Set<number> = new Set(),
+): Date | null {
+  const timeZone = profile.timezone || DEFAULT_TIMEZONE;
+
+  const free = upcomingSlotTimes(profile.postingSchedule, timeZone, RESCHEDULE_HORIZON_DAYS, at)
+    .find(s => !bookedTimes.has(s.at.getTime()) && !isBlackedOut(profile, s.at));
+  if (free) return free.at;
+
+  const local = utcToZoned(at, timeZone);
+  for (let d = 1; d <= RESCHEDULE_HORIZON_DAYS; d++) {
+    const date = addDays(local.date, d);
+    if (isBlackoutDate(profile, date)) continue;
+    const candidate = zonedToUtc(date, local.time, timeZone);
+    if (!bookedTimes.has(candidate.getTime())) return candidate;
+  }
+  return null;
+}
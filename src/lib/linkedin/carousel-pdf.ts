@@ -0,0 +1,43 @@
+/**
+ * Carousel PDF — assemble captured HTML slides into a LinkedIn document
+ *
+ * LinkedIn only renders the native swipeable carousel for *document* posts,
+ * so HTML slides (PNG captures from `captureHtmlPages` or the stored
+ * `imageUrls`) are stitched into a PDF with one page per slide. Each page is
+ * sized to its image so nothing is letterboxed or rescaled.
+ */
+
+import 'server-only';
+import { PDFDocument } from 'pdf-lib';
+
+/** PNG files start with \x89PNG; everything else we accept is JPEG */
+function isPng(data: Buffer): boolean {
+  return data.length > 4
+    && data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47;
+}
+
+/**
+ * Build a PDF with one page per slide image.
+ *
+ * @param slides - Slide images in order (PNG or JPEG)
+ * @param title  - Stored as the PDF title metadata
+ * @returns The PDF as a Buffer, ready for `uploadDocumentToLinkedIn`
+ */
+export async function buildCarouselPdf(slides: Buffer[], title?: string): Promise<Buffer> {
+  if (slides.length === 0) {
+    throw new Error('Cannot build a carousel PDF without slides');
+  }
+
+  const pdf = await PDFDocument.create();
+  if (title) pdf.setTitle(title);
+
+  for (const slide of slides) {
+    const image = isPng(slide)
+      ? await pdf.embedPng(slide)
+      : await pdf.embedJpg(slide);
+    const page = pdf.addPage([image.width, image.height]);
+    page.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height });
+  }
+
+  return Buffer.from(await pdf.save());
+}
@@ -22,11 +22,35 @@ export const SERIES_COLLECTION = `${ENV_PREFIX}_series`;
 /** Posts — AI drafts through to published artefacts */
 export const POSTS_COLLECTION = `${ENV_PREFIX}_posts`;
 
+/** Post metrics — engagement snapshots of published posts (time series) */
+export const POST_METRICS_COLLECTION = `${ENV_PREFIX}_post_metrics`;
+
 /** Ideas — user's manual idea bank */
 export const IDEAS_COLLECTION = `${ENV_PREFIX}_ideas`;
 
 /** Autoposter profiles — LinkedIn tokens, schedule, persona */
 export const PROFILES_COLLECTION = `${ENV_PREFIX}_autoposter_profiles`;
 
+/** Connected LinkedIn accounts — sub-collection of each profile doc */
+export const LINKEDIN_ACCOUNTS_SUBCOLLECTION = 'linkedin_accounts';
+
+/** Per-user data keys that encrypt OAuth tokens, wrapped by a master key */
+export const TOKEN_KEYS_COLLECTION = `${ENV_PREFIX}_token_keys`;
+
+/** LinkedIn connect / disconnect events — append-only audit trail */
+export const CONNECTION_AUDIT_COLLECTION = `${ENV_PREFIX}_connection_audit`;
+
+/** LinkedIn API call budgets — daily counter shards per member and for the app (TTL on `expireAt`), plus `member_<sub>` 429 back-offs */
+export const LINKEDIN_RATE_LIMITS_COLLECTION = `${ENV_PREFIX}_linkedin_rate_limits`;
+
+/** Posts "published" by the fake publisher backend (PUBLISHER_BACKEND=fake) */
+export const FAKE_PUBLISHED_POSTS_COLLECTION = `${ENV_PREFIX}_fake_published_posts`;
+
+/** Cross-posts "published" by the fake backend — Mastodon, Bluesky and X */
+export const FAKE_CROSS_POSTS_COLLECTION = `${ENV_PREFIX}_fake_cross_posts`;
+
+/** OAuth apps registered on Mastodon instances — one doc per instance host */
+export const MASTODON_APPS_COLLECTION = `${ENV_PREFIX}_mastodon_apps`;
+
 /** HTML templates — reusable visual styles for AI HTML generation */
 export const TEMPLATES_COLLECTION = `${ENV_PREFIX}_html_templates`;
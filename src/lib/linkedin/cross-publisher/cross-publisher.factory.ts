@@ -0,0 +1,40 @@
+/**
+ * Cross-Publisher - Factory
+ *
+ * Picks the implementation for a network. Follows PUBLISHER_BACKEND, so
+ * the fake LinkedIn backend brings fake Mastodon, Bluesky and X with it.
+ * This is the ONLY place that imports concrete cross-publishers.
+ */
+
+import 'server-only';
+import { getFakePublisherStore, getPublisherBackend, type PublisherBackend } from '../publisher';
+import type { CrossPostNetwork } from '../types';
+import type { ICrossPublisher } from './cross-publisher.interface';
+import { MastodonPublisher } from './publishers/mastodon.publisher';
+import { BlueskyPublisher } from './publishers/bluesky.publisher';
+import { XPublisher } from './publishers/x.publisher';
+import { FakeCrossPublisher } from './publishers/fake.publisher';
+
+/** Registry of real cross-publisher constructors keyed by network */
+const CROSS_PUBLISHER_REGISTRY: Record<CrossPostNetwork, () => ICrossPublisher> = {
+  mastodon: () => new MastodonPublisher(),
+  bluesky: () => new BlueskyPublisher(),
+  x: () => new XPublisher(),
+};
+
+/**
+ * Create the publisher for `network` on `backend` (default: this environment's).
+ *
+ * @example
+ * ```ts
+ * const publisher = createCrossPublisher('bluesky');
+ * const { url } = await publisher.publish(connection, { text, visibility: 'PUBLIC', idempotencyKey });
+ * ```
+ */
+export function createCrossPublisher(
+  network: CrossPostNetwork,
+  backend: PublisherBackend = getPublisherBackend(),
+): ICrossPublisher {
+  if (backend === 'fake') return new FakeCrossPublisher(network, getFakePublisherStore());
+  return CROSS_PUBLISHER_REGISTRY[network]();
+}
@@ -0,0 +1,43 @@
+/**
+ * Cross-Publisher - Abstract Interface
+ *
+ * What fan-out needs from Mastodon, Bluesky and X: keep the connection's
+ * token usable and publish a text post. Media stays on LinkedIn — article
+ * links travel inside the text.
+ *
+ * Callers get an implementation from `createCrossPublisher(network)` and
+ * never call a network directly.
+ */
+
+import type { CrossPostConnection, CrossPostNetwork, PostVisibility } from '../types';
+
+export interface CrossPostOptions {
+  text: string;
+  /** LinkedIn visibility — Mastodon posts 'CONNECTIONS' as followers-only */
+  visibility: PostVisibility;
+  /** Same for every attempt at one target — networks that support it de-duplicate */
+  idempotencyKey: string;
+}
+
+export interface CrossPostResult {
+  /** Mastodon status id, Bluesky at:// URI, or tweet id */
+  remoteId: string;
+  /** Public link to the post */
+  url: string;
+}
+
+export interface ICrossPublisher {
+  readonly network: CrossPostNetwork;
+
+  /** Human label (e.g. "Mastodon", "Fake X") */
+  readonly name: string;
+
+  /**
+   * Refresh the connection's token if it's about to expire. Returns the
+   * updated connection (the caller stores it) or null when nothing changed.
+   */
+  refreshConnection(connection: CrossPostConnection): Promise<CrossPostConnection | null>;
+
+  /** Publish a text post */
+  publish(connection: CrossPostConnection, options: CrossPostOptions): Promise<CrossPostResult>;
+}
@@ -0,0 +1,30 @@
+/**
+ * Cross-Publisher - Barrel Export
+ *
+ * Single import point for Mastodon, Bluesky and X publishing (server-only).
+ *
+ * Usage:
+ * ```ts
+ * import { createCrossPublisher } from '@/lib/linkedin/cross-publisher';
+ *
+ * const publisher = createCrossPublisher('mastodon');
+ * const { url } = await publisher.publish(connection, { text, visibility, idempotencyKey });
+ * ```
+ */
+
+// Interface
+export type { ICrossPublisher, CrossPostOptions, CrossPostResult } from './cross-publisher.interface';
+
+// Factory
+export { createCrossPublisher } from './cross-publisher.factory';
+
+// Connecting accounts
+export {
+  normalizeMastodonInstance, getMastodonApp, getMastodonAuthUrl, exchangeMastodonCode, getMastodonConnection,
+} from './publishers/mastodon.publisher';
+export { getBlueskyConnection } from './publishers/bluesky.publisher';
+export { getXAuthUrl, exchangeXCode, getXConnection } from './publishers/x.publisher';
+
+// Fake backend inspection (memory store)
+export { getFakeCrossPosts } from './publishers/fake.publisher';
+export type { FakeCrossPost } from './publishers/fake.publisher';
@@ -0,0 +1,126 @@
+/**
+ * Cross-Publisher - Bluesky Implementation
+ *
+ * Bluesky has no third-party OAuth we can rely on yet, so users connect
+ * with an app password (Settings → Privacy and security → App passwords).
+ * The password is stored as the connection's `accessToken` and a fresh
+ * session is opened for every publish — sessions are short-lived and
+ * there's nothing to refresh.
+ *
+ * Links and hashtags only become clickable when sent as facets, which
+ * address the text by UTF-8 byte offset.
+ *
+ * @see https://docs.bsky.app/docs/advanced-guides/posts
+ */
+
+import 'server-only';
+import type { CrossPostConnection, CrossPostNetwork } from '../../types';
+import type { CrossPostOptions, CrossPostResult, ICrossPublisher } from '../cross-publisher.interface';
+
+export const DEFAULT_BLUESKY_SERVER = 'https://bsky.social';
+
+interface BlueskySession {
+  did: string;
+  handle: string;
+  accessJwt: string;
+}
+
+interface BlueskyFacet {
+  index: { byteStart: number; byteEnd: number };
+  features: ({ $type: 'app.bsky.richtext.facet#link'; uri: string } | { $type: 'app.bsky.richtext.facet#tag'; tag: string })[];
+}
+
+async function createSession(serverUrl: string, identifier: string, appPassword: string): Promise<BlueskySession> {
+  const res = await fetch(`${serverUrl}/xrpc/com.atproto.server.createSession`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ identifier, password: appPassword }),
+  });
+  if (!res.ok) {
+    throw new Error(`Bluesky sign-in failed (${res.status}): ${await res.text()}`);
+  }
+  return res.json();
+}
+
+/** Link and hashtag facets for `text` */
+function buildFacets(text: string): BlueskyFacet[] {
+  const encoder = new TextEncoder();
+  const byteOffset = (charIndex: number) => encoder.encode(text.slice(0, charIndex)).length;
+  const facets: BlueskyFacet[] = [];
+
+  for (const match of text.matchAll(/https?:\/\/[^\s]+/g)) {
+    const uri = match[0].replace(/[.,;:!?)]+$/, '');
+    const start = match.index!;
+    facets.push({
+      index: { byteStart: byteOffset(start), byteEnd: byteOffset(start + uri.length) },
+      features: [{ $type: 'app.bsky.richtext.facet#link', uri }],
+    });
+  }
+  for (const match of text.matchAll(/(^|\s)#([\p{L}\p{N}_]+)/gu)) {
+    const start = match.index! + match[1].length;
+    facets.push({
+      index: { byteStart: byteOffset(start), byteEnd: byteOffset(start + 1 + match[2].length) },
+      features: [{ $type: 'app.bsky.richtext.facet#tag', tag: match[2] }],
+    });
+  }
+  return facets;
+}
+
+/**
+ * Check an app password and describe the account as a connection ready
+ * to store. `identifier` is a handle ("me.bsky.social") or email.
+ */
+export async function getBlueskyConnection(
+  identifier: string,
+  appPassword: string,
+  serverUrl: string = DEFAULT_BLUESKY_SERVER,
+): Promise<CrossPostConnection> {
+  const session = await createSession(serverUrl, identifier, appPassword);
+  return {
+    network: 'bluesky',
+    handle: `@${session.handle}`,
+    accountId: session.did,
+    serverUrl,
+    accessToken: appPassword,
+    connectedAt: new Date(),
+  };
+}
+
+export class BlueskyPublisher implements ICrossPublisher {
+  readonly network: CrossPostNetwork = 'bluesky';
+  readonly name = 'Bluesky';
+
+  async refreshConnection() {
+    return null;
+  }
+
+  async publish(connection: CrossPostConnection, options: CrossPostOptions): Promise<CrossPostResult> {
+    const serverUrl = connection.serverUrl ?? DEFAULT_BLUESKY_SERVER;
+    const session = await createSession(serverUrl, connection.accountId, connection.accessToken);
+
+    const facets = buildFacets(options.text);
+    const res = await fetch(`${serverUrl}/xrpc/com.atproto.repo.createRecord`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session.accessJwt}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        repo: session.did,
+        collection: 'app.bsky.feed.post',
+        record: {
+          $type: 'app.bsky.feed.post',
+          text: options.text,
+          createdAt: new Date().toISOString(),
+          ...(facets.length > 0 && { facets }),
+        },
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(`Bluesky post failed (${res.status}): ${await res.text()}`);
+    }
+    const { uri } = await res.json() as { uri: string };
+    const rkey = uri.split('/').pop();
+    return { remoteId: uri, url: `https://bsky.app/profile/${session.did}/post/${rkey}` };
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Cross-Publisher - Fake Implementation
+ *
+ * Selected alongside the fake LinkedIn publisher (PUBLISHER_BACKEND=fake)
+ * so cross-post fan-out runs end to end without real accounts. Uses the
+ * same FAKE_PUBLISHER_STORE:
+ *
+ *   - `firestore` store → `fake_cross_posts` collection (the default)
+ *   - `memory` store    → this process only; read back with `getFakeCrossPosts()`
+ *
+ * Enforces each network's length limit like the real API would, and
+ * honours idempotency keys on every network.
+ */
+
+import 'server-only';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { FAKE_CROSS_POSTS_COLLECTION } from '../../collections';
+import { CROSS_POST_NETWORK_LABELS, getCrossPostError } from '../../crosspost';
+import type { FakePublisherStore } from '../../publisher';
+import type { CrossPostConnection, CrossPostNetwork, PostVisibility } from '../../types';
+import type { CrossPostOptions, CrossPostResult, ICrossPublisher } from '../cross-publisher.interface';
+
+/** A post the fake backend "cross-posted" */
+export interface FakeCrossPost {
+  id: string;
+  network: CrossPostNetwork;
+  handle: string;
+  text: string;
+  visibility: PostVisibility;
+  idempotencyKey: string;
+  publishedAt: Date;
+}
+
+const memoryPosts = new Map<string, FakeCrossPost>();
+
+/** Cross-posts published to the in-memory store, newest first */
+export function getFakeCrossPosts(): FakeCrossPost[] {
+  return [...memoryPosts.values()].reverse();
+}
+
+export class FakeCrossPublisher implements ICrossPublisher {
+  readonly name: string;
+
+  constructor(
+    readonly network: CrossPostNetwork,
+    private readonly store: FakePublisherStore = 'firestore',
+  ) {
+    this.name = `Fake ${CROSS_POST_NETWORK_LABELS[network]}`;
+  }
+
+  async refreshConnection() {
+    return null;
+  }
+
+  async publish(connection: CrossPostConnection, options: CrossPostOptions): Promise<CrossPostResult> {
+    const error = getCrossPostError(options.text, this.network);
+    if (error) throw new Error(`Fake ${this.network} post failed (422): ${error}`);
+
+    // The key is the doc id, so a retry lands on the post it already made
+    const id = `fake-${this.network}-${options.idempotencyKey.replace(/[^\w-]/g, '_')}`;
+    const post = {
+      id,
+      network: this.network,
+      handle: connection.handle,
+      text: options.text,
+      visibility: options.visibility,
+      idempotencyKey: options.idempotencyKey,
+    };
+
+    if (this.store === 'memory') {
+      if (!memoryPosts.has(id)) memoryPosts.set(id, { ...post, publishedAt: new Date() });
+    } else {
+      const ref = getAdminDb().collection(FAKE_CROSS_POSTS_COLLECTION).doc(id);
+      await getAdminDb().runTransaction(async (tx) => {
+        if (!(await tx.get(ref)).exists) tx.set(ref, { ...post, publishedAt: FieldValue.serverTimestamp() });
+      });
+    }
+    console.log(`[FakeCrossPublisher] Published ${id} as ${connection.handle}`);
+    return { remoteId: id, url: `https://example.com/fake/${this.network}/${id}` };
+  }
+}
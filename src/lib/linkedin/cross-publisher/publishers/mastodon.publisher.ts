@@ -0,0 +1,177 @@
+/**
+ * Cross-Publisher - Mastodon Implementation
+ *
+ * Every instance is its own server, so the app registers itself with an
+ * instance the first time someone connects from it (cached in
+ * `mastodon_apps`) and then runs a normal OAuth 2.0 code flow.
+ *
+ * Tokens never expire. Statuses are created with an `Idempotency-Key`,
+ * which Mastodon honours for an hour.
+ *
+ * The instance is whatever server the user typed, so every call goes
+ * through the guarded fetcher — public addresses only.
+ *
+ * Env vars:
+ *   NEXT_PUBLIC_APP_URL   callback is {app}/api/crosspost/mastodon/callback
+ *
+ * @see https://docs.joinmastodon.org/client/token/
+ */
+
+import 'server-only';
+import { isIP } from 'net';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { MASTODON_APPS_COLLECTION } from '../../collections';
+import { fetchPublicUrl, type PublicFetchOptions } from '../../safe-fetch';
+import type { CrossPostConnection, CrossPostNetwork } from '../../types';
+import type { CrossPostOptions, CrossPostResult, ICrossPublisher } from '../cross-publisher.interface';
+
+const SCOPES = 'read:accounts write:statuses';
+
+/** Mastodon API responses are small JSON documents */
+const MAX_RESPONSE_BYTES = 1024 * 1024;
+
+/** OAuth client the app registered on one instance */
+export interface MastodonApp {
+  clientId: string;
+  clientSecret: string;
+}
+
+function getRedirectUri(): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl) throw new Error('NEXT_PUBLIC_APP_URL environment variable is not set');
+  return `${appUrl.replace(/\/$/, '')}/api/crosspost/mastodon/callback`;
+}
+
+/**
+ * "mastodon.social", "@me@mastodon.social" or a full URL → "https://mastodon.social".
+ * Throws on anything that isn't a host name — IP addresses included, in any
+ * spelling URL parsing accepts ("127.1", "0x7f.0.0.1").
+ */
+export function normalizeMastodonInstance(input: string): string {
+  const host = input.trim().replace(/^@?[^@\s]*@/, '').replace(/^https?:\/\//, '').replace(/\/.*$/, '').toLowerCase();
+  let hostname = '';
+  try {
+    hostname = new URL(`https://${host}`).hostname;
+  } catch {
+    // Not a host name — rejected below
+  }
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) || !hostname || isIP(hostname)) {
+    throw new Error(`"${input}" is not a Mastodon server`);
+  }
+  return `https://${hostname}`;
+}
+
+/** Call the instance's API and parse the JSON reply — throws with the body on a non-2xx */
+async function mastodonRequest<T>(
+  what: string,
+  url: string,
+  options: Omit<PublicFetchOptions, 'maxBytes'>,
+): Promise<T> {
+  const res = await fetchPublicUrl(url, { ...options, maxBytes: MAX_RESPONSE_BYTES });
+  const text = res.body.toString('utf8');
+  if (!res.ok) throw new Error(`Mastodon ${what} failed (${res.status}): ${text}`);
+  return JSON.parse(text) as T;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// OAUTH FLOW
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** This app's OAuth client on `instanceUrl` — registered on first use */
+export async function getMastodonApp(instanceUrl: string): Promise<MastodonApp> {
+  const ref = getAdminDb().collection(MASTODON_APPS_COLLECTION).doc(new URL(instanceUrl).host);
+  const snap = await ref.get();
+  if (snap.exists) return snap.data() as MastodonApp;
+
+  const data = await mastodonRequest<{ client_id: string; client_secret: string }>('app registration', `${instanceUrl}/api/v1/apps`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_name: 'LinkedIn Autoposter',
+      redirect_uris: getRedirectUri(),
+      scopes: SCOPES,
+      website: process.env.NEXT_PUBLIC_APP_URL ?? '',
+    }).toString(),
+  });
+  const app: MastodonApp = { clientId: data.client_id, clientSecret: data.client_secret };
+  await ref.set({ ...app, createdAt: FieldValue.serverTimestamp() });
+  return app;
+}
+
+/** Consent page on `instanceUrl` — `state` is verified in the callback */
+export function getMastodonAuthUrl(instanceUrl: string, app: MastodonApp, state: string): string {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: app.clientId,
+    redirect_uri: getRedirectUri(),
+    scope: SCOPES,
+    state,
+  });
+  return `${instanceUrl}/oauth/authorize?${params.toString()}`;
+}
+
+/** Exchange the callback `code` for an access token */
+export async function exchangeMastodonCode(instanceUrl: string, app: MastodonApp, code: string): Promise<string> {
+  const data = await mastodonRequest<{ access_token: string }>('token exchange', `${instanceUrl}/oauth/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      client_id: app.clientId,
+      client_secret: app.clientSecret,
+      redirect_uri: getRedirectUri(),
+      scope: SCOPES,
+    }).toString(),
+  });
+  return data.access_token;
+}
+
+/** The account a token belongs to, as a connection ready to store */
+export async function getMastodonConnection(instanceUrl: string, accessToken: string): Promise<CrossPostConnection> {
+  const account = await mastodonRequest<{ id: string | number; username: string }>(
+    'verify credentials',
+    `${instanceUrl}/api/v1/accounts/verify_credentials`,
+    { headers: { Authorization: `Bearer ${accessToken}` } },
+  );
+  return {
+    network: 'mastodon',
+    handle: `@${account.username}@${new URL(instanceUrl).host}`,
+    accountId: String(account.id),
+    serverUrl: instanceUrl,
+    accessToken,
+    connectedAt: new Date(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PUBLISHER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class MastodonPublisher implements ICrossPublisher {
+  readonly network: CrossPostNetwork = 'mastodon';
+  readonly name = 'Mastodon';
+
+  async refreshConnection() {
+    return null;
+  }
+
+  async publish(connection: CrossPostConnection, options: CrossPostOptions): Promise<CrossPostResult> {
+    if (!connection.serverUrl) throw new Error('Mastodon connection has no server — reconnect it in Settings');
+
+    const status = await mastodonRequest<{ id: string | number; url: string }>('post', `${connection.serverUrl}/api/v1/statuses`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${connection.accessToken}`,
+        'Content-Type': 'application/json',
+        'Idempotency-Key': options.idempotencyKey,
+      },
+      body: JSON.stringify({
+        status: options.text,
+        visibility: options.visibility === 'CONNECTIONS' ? 'private' : 'public',
+      }),
+    });
+    return { remoteId: String(status.id), url: status.url };
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Cross-Publisher - X Implementation
+ *
+ * OAuth 2.0 authorization code flow with PKCE, as a confidential client.
+ * Access tokens last two hours; `offline.access` gets a refresh token,
+ * which X rotates on every refresh — the caller must store the new one.
+ *
+ * Required env vars (server-only):
+ *   X_CLIENT_ID
+ *   X_CLIENT_SECRET
+ *   X_REDIRECT_URI   e.g. https://yourapp.com/api/crosspost/x/callback
+ *
+ * @see https://docs.x.com/resources/fundamentals/authentication/oauth-2-0/authorization-code
+ */
+
+import 'server-only';
+import type { CrossPostConnection, CrossPostNetwork } from '../../types';
+import type { CrossPostOptions, CrossPostResult, ICrossPublisher } from '../cross-publisher.interface';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const X_AUTH_URL = 'https://x.com/i/oauth2/authorize';
+const X_TOKEN_URL = 'https://api.x.com/2/oauth2/token';
+const X_ME_URL = 'https://api.x.com/2/users/me';
+const X_TWEETS_URL = 'https://api.x.com/2/tweets';
+
+const SCOPES = ['tweet.read', 'tweet.write', 'users.read', 'offline.access'];
+
+/** Refresh tokens this close to expiry before publishing */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+function getClientId(): string {
+  const id = process.env.X_CLIENT_ID;
+  if (!id) throw new Error('X_CLIENT_ID environment variable is not set');
+  return id;
+}
+
+function getClientSecret(): string {
+  const secret = process.env.X_CLIENT_SECRET;
+  if (!secret) throw new Error('X_CLIENT_SECRET environment variable is not set');
+  return secret;
+}
+
+function getRedirectUri(): string {
+  const uri = process.env.X_REDIRECT_URI;
+  if (!uri) throw new Error('X_REDIRECT_URI environment variable is not set');
+  return uri;
+}
+
+export interface XTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresIn: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// OAUTH FLOW
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Consent page URL.
+ *
+ * @param state          CSRF state — verified in the callback
+ * @param codeChallenge  base64url SHA-256 of the PKCE verifier
+ */
+export function getXAuthUrl(state: string, codeChallenge: string): string {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: getClientId(),
+    redirect_uri: getRedirectUri(),
+    scope: SCOPES.join(' '),
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+  return `${X_AUTH_URL}?${params.toString()}`;
+}
+
+async function requestTokens(body: Record<string, string>, what: string): Promise<XTokens> {
+  const basic = Buffer.from(`${getClientId()}:${getClientSecret()}`).toString('base64');
+  const res = await fetch(X_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${basic}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(body),
+  });
+  if (!res.ok) {
+    throw new Error(`X ${what} failed (${res.status}): ${await res.text()}`);
+  }
+  const data = await res.json();
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresIn: data.expires_in,
+  };
+}
+
+/** Exchange the callback `code` (plus the PKCE verifier) for tokens */
+export function exchangeXCode(code: string, codeVerifier: string): Promise<XTokens> {
+  return requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri(),
+    code_verifier: codeVerifier,
+  }, 'token exchange');
+}
+
+/** Exchange a refresh token for new tokens — the old refresh token stops working */
+export function refreshXToken(refreshToken: string): Promise<XTokens> {
+  return requestTokens({ grant_type: 'refresh_token', refresh_token: refreshToken }, 'token refresh');
+}
+
+/** The account `tokens` belong to, as a connection ready to store */
+export async function getXConnection(tokens: XTokens): Promise<CrossPostConnection> {
+  const res = await fetch(X_ME_URL, {
+    headers: { Authorization: `Bearer ${tokens.accessToken}` },
+  });
+  if (!res.ok) {
+    throw new Error(`X user lookup failed (${res.status}): ${await res.text()}`);
+  }
+  const { data } = await res.json();
+  return {
+    network: 'x',
+    handle: `@${data.username}`,
+    accountId: data.id,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    tokenExpiry: new Date(Date.now() + tokens.expiresIn * 1000),
+    connectedAt: new Date(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PUBLISHER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class XPublisher implements ICrossPublisher {
+  readonly network: CrossPostNetwork = 'x';
+  readonly name = 'X';
+
+  async refreshConnection(connection: CrossPostConnection) {
+    if (!connection.tokenExpiry || connection.tokenExpiry.getTime() - Date.now() > REFRESH_MARGIN_MS) {
+      return null;
+    }
+    if (!connection.refreshToken) {
+      throw new Error('X access has expired — reconnect X in Settings');
+    }
+    const tokens = await refreshXToken(connection.refreshToken);
+    return {
+      ...connection,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken ?? connection.refreshToken,
+      tokenExpiry: new Date(Date.now() + tokens.expiresIn * 1000),
+    };
+  }
+
+  async publish(connection: CrossPostConnection, options: CrossPostOptions): Promise<CrossPostResult> {
+    const res = await fetch(X_TWEETS_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${connection.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ text: options.text }),
+    });
+    if (!res.ok) {
+      throw new Error(`X post failed (${res.status}): ${await res.text()}`);
+    }
+    const { data } = await res.json();
+    return {
+      remoteId: data.id,
+      url: `https://x.com/${connection.handle.replace(/^@/, '')}/status/${data.id}`,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Cross-post fan-out
+ *
+ * Once a post is live on LinkedIn, every cross-post target still waiting
+ * (or that failed last time) is published to its network. Each target is
+ * claimed on its own, so one network failing never blocks the others and
+ * a retry only touches what didn't go out.
+ *
+ * A target stuck in 'publishing' past its lease may already be live, so
+ * it is marked failed for the user to check and retry — never re-sent
+ * automatically.
+ */
+
+import 'server-only';
+import { createCrossPublisher } from './cross-publisher';
+import {
+  CROSS_POST_NETWORK_LABELS, getCrossPostAudienceError, getCrossPostError, getCrossPostText,
+} from './crosspost';
+import { PostService } from './services/post.service';
+import { ProfileService } from './services/profile.service';
+import { sendPushNotification } from './services/push.service';
+import type { AutoposterProfile, CrossPostNetwork, CrossPostTarget, Post, PostVisibility } from './types';
+
+export interface CrossPostOutcome {
+  network: CrossPostNetwork;
+  status: 'published' | 'failed';
+  url?: string;
+  error?: string;
+}
+
+async function publishTarget(
+  post: Post,
+  target: CrossPostTarget,
+  profile: AutoposterProfile | null,
+  visibility: PostVisibility,
+): Promise<CrossPostOutcome | null> {
+  const { network } = target;
+  const label = CROSS_POST_NETWORK_LABELS[network];
+
+  if (target.status === 'publishing') {
+    if (target.leaseExpiresAt && new Date(target.leaseExpiresAt) > new Date()) return null;
+    const error = `Interrupted while publishing — check ${label} before retrying`;
+    await PostService.finishCrossPost(post.id, network, { error });
+    return { network, status: 'failed', error };
+  }
+
+  const claimed = await PostService.claimCrossPost(post.id, network);
+  if (!claimed.success || !claimed.data) return null;
+
+  const fail = async (error: string): Promise<CrossPostOutcome> => {
+    await PostService.finishCrossPost(post.id, network, { error });
+    return { network, status: 'failed', error };
+  };
+
+  let connection = profile?.crossPostConnections?.[network];
+  if (!connection) return fail(`${label} isn't connected — connect it in Settings`);
+
+  const text = getCrossPostText(target, post);
+  const invalid = getCrossPostAudienceError(network, visibility) ?? getCrossPostError(text, network);
+  if (invalid) return fail(invalid);
+
+  try {
+    const publisher = createCrossPublisher(network);
+    const refreshed = await publisher.refreshConnection(connection);
+    if (refreshed) {
+      connection = refreshed;
+      const saved = await ProfileService.setCrossPostConnection(post.userId, refreshed);
+      if (!saved.success) console.error(`[crosspost] Could not store refreshed ${network} token for user ${post.userId}:`, saved.error);
+    }
+
+    const result = await publisher.publish(connection, { text, visibility, idempotencyKey: `${post.id}:${network}` });
+    await PostService.finishCrossPost(post.id, network, result);
+    console.log(`[crosspost] Post ${post.id} → ${label}: ${result.url}`);
+    return { network, status: 'published', url: result.url };
+  } catch (err) {
+    console.error(`[crosspost] Post ${post.id} → ${label} failed:`, err);
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * Publish every unpublished cross-post target of a post that's live on
+ * LinkedIn. Failures are stored on the target and pushed to the user.
+ * Returns what happened to each target it touched.
+ */
+export async function publishCrossPosts(
+  post: Post,
+  profile: AutoposterProfile | null,
+  visibility: PostVisibility,
+): Promise<CrossPostOutcome[]> {
+  const targets = (post.crossPosts ?? []).filter(t => t.status !== 'published');
+  const outcomes: CrossPostOutcome[] = [];
+  for (const target of targets) {
+    const outcome = await publishTarget(post, target, profile, visibility);
+    if (outcome) outcomes.push(outcome);
+  }
+
+  const failed = outcomes.filter(o => o.status === 'failed');
+  if (failed.length > 0) {
+    const sent = await sendPushNotification(post.userId, {
+      type: 'cross_post_failed',
+      title: '⚠️ Cross-post failed',
+      body: `"${post.topic}" is live on LinkedIn, but not on ${failed.map(o => CROSS_POST_NETWORK_LABELS[o.network]).join(', ')}: ${failed[0].error?.slice(0, 100)}`,
+      postId: post.id,
+      clickAction: '/posts',
+    });
+    if (!sent) console.warn(`[crosspost] Failure notification NOT sent for post ${post.id} (user ${post.userId})`);
+  }
+  return outcomes;
+}
@@ -0,0 +1,145 @@
+/**
+ * Cross-posting rules — Mastodon, Bluesky and X
+ *
+ * Each network counts length its own way and rejects over-long posts, so
+ * the API routes, the AI rewriter and the cross-post editor all measure
+ * with the same functions before anything is sent.
+ *
+ * Safe on client and server.
+ */
+
+import { parseLittleText } from './little-text';
+import type { CrossPostNetwork, CrossPostTarget, Post, PostVisibility } from './types';
+
+// ── Networks ─────────────────────────────────────────────────────────────────
+
+export const CROSS_POST_NETWORKS: CrossPostNetwork[] = ['mastodon', 'bluesky', 'x'];
+
+export const CROSS_POST_NETWORK_LABELS: Record<CrossPostNetwork, string> = {
+  mastodon: 'Mastodon',
+  bluesky: 'Bluesky',
+  x: 'X',
+};
+
+/** Default limits — Mastodon instances may allow more, never less */
+export const CROSS_POST_MAX_LENGTH: Record<CrossPostNetwork, number> = {
+  mastodon: 500,
+  bluesky: 300,
+  x: 280,
+};
+
+/** Mastodon and X count every link as 23 characters, whatever its length */
+const SHORTENED_URL_LENGTH = 23;
+
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+
+// ── Parsing / validation ─────────────────────────────────────────────────────
+
+/** One network's entry in an edit — null content = publish the LinkedIn text */
+export interface CrossPostEdit {
+  network: CrossPostNetwork;
+  content: string | null;
+}
+
+/** Coerce untrusted input into a de-duplicated list of networks */
+export function normalizeCrossPostNetworks(input: unknown): CrossPostNetwork[] {
+  if (!Array.isArray(input)) return [];
+  return CROSS_POST_NETWORKS.filter(n => input.includes(n));
+}
+
+/**
+ * Coerce untrusted `[{ network, content }]` into edits — one per network,
+ * blank content treated as null. Null if it isn't an array.
+ */
+export function normalizeCrossPostEdits(input: unknown): CrossPostEdit[] | null {
+  if (!Array.isArray(input)) return null;
+  const edits = new Map<CrossPostNetwork, string | null>();
+  for (const item of input) {
+    const network = normalizeCrossPostNetworks([item?.network])[0];
+    if (!network) continue;
+    edits.set(network, typeof item.content === 'string' && item.content.trim() ? item.content.trim() : null);
+  }
+  return CROSS_POST_NETWORKS.filter(n => edits.has(n)).map(network => ({ network, content: edits.get(network)! }));
+}
+
+/**
+ * Length of `text` as `network` counts it: graphemes on Bluesky,
+ * code points with links shortened on Mastodon and X. (X weighs some
+ * CJK characters and emoji double — close enough for a warning.)
+ */
+export function crossPostLength(text: string, network: CrossPostNetwork): number {
+  if (network === 'bluesky') {
+    return [...new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text)].length;
+  }
+  const urls = text.match(URL_PATTERN) ?? [];
+  const withoutUrls = text.replace(URL_PATTERN, '');
+  return [...withoutUrls].length + urls.length * SHORTENED_URL_LENGTH;
+}
+
+/** Why `text` can't be posted to `network`, or null when it can */
+export function getCrossPostError(text: string | null | undefined, network: CrossPostNetwork): string | null {
+  const label = CROSS_POST_NETWORK_LABELS[network];
+  if (!text?.trim()) return `The ${label} version is empty`;
+  const length = crossPostLength(text, network);
+  const max = CROSS_POST_MAX_LENGTH[network];
+  if (length > max) return `The ${label} version is ${length} characters — ${label} allows ${max}`;
+  return null;
+}
+
+/**
+ * Why a post with `visibility` can't go to `network`, or null when it can.
+ * Connections-only posts may only go to Mastodon (as followers-only).
+ */
+export function getCrossPostAudienceError(network: CrossPostNetwork, visibility: PostVisibility): string | null {
+  if (visibility === 'CONNECTIONS' && network !== 'mastodon') {
+    return `${CROSS_POST_NETWORK_LABELS[network]} posts are always public — only Mastodon can take a connections-only post`;
+  }
+  return null;
+}
+
+// ── Text ─────────────────────────────────────────────────────────────────────
+
+/** LinkedIn post text as plain text — mention tokens become the names they show */
+export function toCrossPostText(content: string): string {
+  return parseLittleText(content)
+    .map(s => (s.type === 'mention' ? s.name : s.type === 'hashtag' ? `#${s.tag}` : s.text))
+    .join('');
+}
+
+/**
+ * What a target publishes: its own rewrite, else the plain LinkedIn text.
+ * An article's link card doesn't travel, so its URL is appended when the
+ * text doesn't already carry it.
+ */
+export function getCrossPostText(
+  target: Pick<CrossPostTarget, 'content'>,
+  post: Pick<Post, 'content' | 'editedContent' | 'article'>,
+): string {
+  const text = target.content ?? toCrossPostText(post.editedContent ?? post.content);
+  const link = post.article?.source;
+  return link && !text.includes(link) ? `${text.trimEnd()}\n\n${link}` : text;
+}
+
+/** Fresh 'pending' targets for `networks`, with rewrites where there are some */
+export function newCrossPostTargets(
+  networks: CrossPostNetwork[],
+  contents?: Partial<Record<CrossPostNetwork, string>>,
+): CrossPostTarget[] {
+  return networks.map(network => ({ network, content: contents?.[network] ?? null, status: 'pending' }));
+}
+
+/**
+ * Apply an edit to a post's targets. Networks not in `edits` are dropped,
+ * new ones start 'pending'. Targets already published or being published
+ * are never touched — they stay even if the edit leaves them out.
+ */
+export function mergeCrossPostTargets(existing: CrossPostTarget[] | undefined, edits: CrossPostEdit[]): CrossPostTarget[] {
+  const locked = (existing ?? []).filter(t => t.status === 'published' || t.status === 'publishing');
+  const merged = [...locked];
+  for (const edit of edits) {
+    if (locked.some(t => t.network === edit.network)) continue;
+    const current = existing?.find(t => t.network === edit.network);
+    merged.push(current ? { ...current, content: edit.content } : { network: edit.network, content: edit.content, status: 'pending' });
+  }
+  return CROSS_POST_NETWORKS.flatMap(n => merged.filter(t => t.network === n));
+}
@@ -148,8 +148,8 @@
         });
 
         // Calculate times
-        const postTime = profile.postingSchedule[dayKey].postTime; // "10:00"
-        const [h, m] = postTime.split(':').map(Number);
+        const slot = profile.postingSchedule[dayKey].slots[0]; // earliest slot, { time: "10:00" }
+        const [h, m] = slot.time.split(':').map(Number);
         const scheduledFor = new Date(tomorrow);
         scheduledFor.setHours(h, m, 0, 0);
 
@@ -244,6 +244,9 @@
   │   scheduledFor <= now                                 │
   │                                                       │
   │ For each:                                             │
+  │   0. Claim it (status → "publishing" + lease) in a    │
+  │      transaction — skip if another worker has it;     │
+  │      store an idempotency key before createPost()     │
   │   1. Fetch the user's LinkedIn access token           │
   │   2. If token expired → try refresh                   │
   │   3. Call LinkedIn API → createPost()                 │
@@ -15,11 +15,26 @@ export type {
   Post,
   PostStatus,
   PostMediaType,
+  CarouselFormat,
+  PostLiveChange,
+  PostMetrics,
+  PostMetricsSnapshot,
+  PostPoll,
+  PollDuration,
+  PollResults,
+  PostArticle,
+  PostVisibility,
+  PublishAttempt,
+  CrossPostNetwork,
+  CrossPostStatus,
+  CrossPostTarget,
   // Ideas
   Idea,
   // Profile
   AutoposterProfile,
+  PostingSlot,
   PostingDay,
+  BlackoutRange,
   PostingSchedule,
   // AI
   PostGenerationContext,
@@ -27,6 +42,12 @@ export type {
   LinkedInCreatePostPayload,
   LinkedInUploadResponse,
   LinkedInProfile,
+  LinkedInOrganization,
+  LinkedInAccount,
+  LinkedInAccountSummary,
+  LinkedInApiUsage,
+  CrossPostConnection,
+  CrossPostConnectionSummary,
   // Notifications
   NotificationType,
   NotificationPayload,
@@ -39,10 +60,121 @@ export type {
 export {
   SERIES_COLLECTION,
   POSTS_COLLECTION,
+  POST_METRICS_COLLECTION,
   IDEAS_COLLECTION,
   PROFILES_COLLECTION,
+  LINKEDIN_ACCOUNTS_SUBCOLLECTION,
 } from './collections';
 
+// ── Little text formatter (client + server) ─────────────────────────────────
+export {
+  formatLittleText,
+  parseLittleText,
+  escapeLittleText,
+  mentionToken,
+  type LittleTextSegment,
+} from './little-text';
+
+// ── Polls (client + server) ──────────────────────────────────────────────────
+export {
+  POLL_DURATIONS,
+  POLL_DURATION_LABELS,
+  normalizePoll,
+  getPollError,
+  getPollEndsAt,
+} from './poll';
+
+// ── Article links (client + server) ──────────────────────────────────────────
+export { normalizeArticle, getArticleError } from './article';
+
+// ── Image alt text (client + server) ─────────────────────────────────────────
+export { ALT_TEXT_MAX_LENGTH, normalizeAltTexts } from './alt-text';
+
+// ── Video captions / thumbnails (client + server) ────────────────────────────
+export { normalizeCaptions, getCaptionsError, getVideoThumbnailError } from './video';
+
+// ── Visibility / resharing (client + server) ─────────────────────────────────
+export {
+  POST_VISIBILITIES,
+  POST_VISIBILITY_LABELS,
+  normalizeVisibility,
+  getVisibilityError,
+  resolveAudience,
+} from './visibility';
+
+// ── Posting schedule (client + server) ───────────────────────────────────────
+export {
+  POSTING_DAYS,
+  MAX_SLOTS_PER_DAY,
+  AUTOPILOT_DEFAULT_DAYS,
+  AUTOPILOT_MAX_DAYS,
+  SLOT_MEDIA_TYPES,
+  DEFAULT_POSTING_SCHEDULE,
+  normalizePostingSlot,
+  normalizePostingDay,
+  normalizePostingSchedule,
+  normalizeAutopilotDays,
+  upcomingSlotTimes,
+  type UpcomingSlot,
+} from './schedule';
+
+// ── Best time to post (client + server) ─────────────────────────────────────
+export {
+  METRICS_SETTLE_DAYS,
+  MIN_HISTORY_POSTS,
+  scorePostingTimes,
+  scoreAt,
+  bestPostingTimes,
+  suggestScheduleChanges,
+  applyScheduleSuggestion,
+  type PostingTimeSample,
+  type PostingTimeScore,
+  type PostingTimeScores,
+  type PostingScheduleSuggestion,
+} from './best-time';
+
+// ── Vacation & blackouts (client + server) ───────────────────────────────────
+export {
+  MAX_BLACKOUTS,
+  normalizeBlackouts,
+  normalizeVacationUntil,
+  isBlackoutDate,
+  isBlackedOut,
+  blackoutAt,
+  nextFreeSlot,
+} from './blackout';
+
+// ── Timezones (client + server) ──────────────────────────────────────────────
+export {
+  DEFAULT_TIMEZONE,
+  isValidTimeZone,
+  zoneOffsetMinutes,
+  utcToZoned,
+  zonedToUtc,
+  zonedToday,
+  addDays,
+  weekdayOf,
+  zonedWeekdayName,
+  type ZonedDateTime,
+} from './timezone';
+
+// ── Cross-posting (client + server) ──────────────────────────────────────────
+export {
+  CROSS_POST_NETWORKS,
+  CROSS_POST_NETWORK_LABELS,
+  CROSS_POST_MAX_LENGTH,
+  normalizeCrossPostNetworks,
+  crossPostLength,
+  getCrossPostError,
+  getCrossPostAudienceError,
+  toCrossPostText,
+  getCrossPostText,
+  newCrossPostTargets,
+  normalizeCrossPostEdits,
+  mergeCrossPostTargets,
+} from './crosspost';
+export type { CrossPostEdit } from './crosspost';
+
 // ── Notifications (client-side) ──────────────────────────────────────────────
 export {
   requestNotificationPermission,
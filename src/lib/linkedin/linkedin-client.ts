@@ -0,0 +1,91 @@
+/**
+ * LinkedIn API client — rate-limit aware fetch for api.linkedin.com
+ *
+ * Every REST call in `linkedin-oauth.ts` goes through `linkedinFetch`, which
+ * counts it against the member's and the app's daily budgets
+ * (LinkedInRateLimitService) and turns a 429 into a LinkedInRateLimitError
+ * carrying when to try again (Retry-After, else LinkedIn's midnight-UTC reset).
+ *
+ * Calls are attributed to a member by the caller: whatever runs inside
+ * `runAsLinkedInMember(memberId, ...)` counts against that member's budget.
+ * Calls outside one (e.g. during OAuth connect) count for the app only.
+ */
+
+import 'server-only';
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  LinkedInRateLimitService,
+  nextUtcMidnight,
+  type LinkedInRateLimitBlock,
+} from './services/linkedin-rate-limit.service';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ERRORS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** LinkedIn refused (429) or would refuse the call — nothing was done, try again at `retryAt` */
+export class LinkedInRateLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly scope: LinkedInRateLimitBlock['scope'],
+    public readonly retryAt: Date,
+  ) {
+    super(message);
+    this.name = 'LinkedInRateLimitError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// MEMBER ATTRIBUTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const currentMember = new AsyncLocalStorage<string>();
+
+/** Run `fn` with every LinkedIn call in it counted against `memberId`'s budget */
+export function runAsLinkedInMember<T>(memberId: string, fn: () => Promise<T>): Promise<T> {
+  return currentMember.run(memberId, fn);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// FETCH
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parse a Retry-After header — delay in seconds or an HTTP date.
+ * Returns null if missing or unreadable.
+ */
+export function parseRetryAfter(header: string | null, now = new Date()): Date | null {
+  const value = header?.trim();
+  if (!value) return null;
+  if (/^\d+$/.test(value)) return new Date(now.getTime() + Number(value) * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : new Date(date);
+}
+
+function rateLimitMessage(scope: LinkedInRateLimitBlock['scope'], retryAt: Date): string {
+  const who = scope === 'member' ? 'this LinkedIn account' : 'the app';
+  return `LinkedIn rate limit reached for ${who} (429) — calls resume after ${retryAt.toISOString()}`;
+}
+
+/**
+ * `fetch` for api.linkedin.com. Throws LinkedInRateLimitError without
+ * calling LinkedIn while a budget is used up, or when LinkedIn answers 429.
+ * Budget tracking is best effort — if Firestore is unavailable the call
+ * still goes out.
+ */
+export async function linkedinFetch(url: string, init?: RequestInit): Promise<Response> {
+  const memberId = currentMember.getStore() ?? null;
+
+  const reservation = await LinkedInRateLimitService.reserveCall(memberId);
+  const block = reservation.data;
+  if (block) throw new LinkedInRateLimitError(rateLimitMessage(block.scope, block.retryAt), block.scope, block.retryAt);
+
+  const res = await fetch(url, init);
+  if (res.status !== 429) return res;
+
+  // LinkedIn's daily limits reset at midnight UTC and their 429s rarely say when
+  const retryAt = parseRetryAfter(res.headers.get('Retry-After')) ?? nextUtcMidnight();
+  // A 429 we can't pin on a member fails this call only — it's no reason to stop the whole app
+  if (memberId) await LinkedInRateLimitService.markLimited(memberId, retryAt);
+  throw new LinkedInRateLimitError(rateLimitMessage('member', retryAt), 'member', retryAt);
+}
@@ -4,15 +4,22 @@
  * Handles the full OAuth flow to connect a user's LinkedIn account.
  * Uses the "Sign In with LinkedIn using OpenID Connect" product +
  * the "Share on LinkedIn" / "w_member_social" scope for post creation.
+ * Company Page posting additionally needs the "Community Management API"
+ * product for `w_organization_social` + `rw_organization_admin`.
  *
  * Required env vars (server-only — never expose to client):
  *   LINKEDIN_CLIENT_ID
  *   LINKEDIN_CLIENT_SECRET
  *   LINKEDIN_REDIRECT_URI   e.g. https://yourapp.com/api/linkedin/callback
  *
+ * REST calls go through `linkedinFetch` (./linkedin-client), which tracks
+ * the daily rate-limit budgets and throws LinkedInRateLimitError on a 429.
+ *
  * @see https://learn.microsoft.com/en-us/linkedin/shared/authentication/authorization-code-flow
  */
 
+import { linkedinFetch } from './linkedin-client';
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // CONFIG
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -23,9 +30,24 @@ const LINKEDIN_USERINFO_URL = 'https://api.linkedin.com/v2/userinfo';
 const LINKEDIN_POSTS_URL = 'https://api.linkedin.com/rest/posts';
 const LINKEDIN_IMAGES_URL = 'https://api.linkedin.com/rest/images';
 const LINKEDIN_VIDEOS_URL = 'https://api.linkedin.com/rest/videos';
+const LINKEDIN_DOCUMENTS_URL = 'https://api.linkedin.com/rest/documents';
+const LINKEDIN_SOCIAL_ACTIONS_URL = 'https://api.linkedin.com/rest/socialActions';
+const LINKEDIN_MEMBER_POST_ANALYTICS_URL = 'https://api.linkedin.com/rest/memberCreatorPostAnalytics';
+const LINKEDIN_ORG_SHARE_STATS_URL = 'https://api.linkedin.com/rest/organizationalEntityShareStatistics';
+const LINKEDIN_ORG_ACLS_URL = 'https://api.linkedin.com/rest/organizationAcls';
+const LINKEDIN_ORGANIZATIONS_URL = 'https://api.linkedin.com/rest/organizations';
 
-/** Scopes required for posting + reading basic profile */
-const SCOPES = ['openid', 'profile', 'email', 'w_member_social'];
+/**
+ * Scopes required for posting + reading basic profile.
+ * `w_organization_social` lets us post as a Company Page and
+ * `rw_organization_admin` lets us list the pages the member administers
+ * and read their post statistics; `r_member_postAnalytics` covers
+ * personal posts.
+ */
+const SCOPES = [
+  'openid', 'profile', 'email', 'w_member_social',
+  'w_organization_social', 'rw_organization_admin', 'r_member_postAnalytics',
+];
 
 function getClientId(): string {
   const id = process.env.LINKEDIN_CLIENT_ID;
@@ -53,10 +75,12 @@ function getRedirectUri(): string {
  * Build the URL the browser should redirect to in order to start the
  * LinkedIn OAuth consent flow.
  *
- * @param state  CSRF state parameter — generate a random string, store it
- *               in the session/cookie, and verify it in the callback.
+ * @param state          CSRF state parameter — see `createOAuthState`;
+ *                       verified in the callback.
+ * @param codeChallenge  base64url SHA-256 of the PKCE verifier — the same
+ *                       verifier must then go to `exchangeCodeForTokens`
  */
-export function getLinkedInAuthUrl(state: string): string {
+export function getLinkedInAuthUrl(state: string, codeChallenge?: string): string {
   const params = new URLSearchParams({
     response_type: 'code',
     client_id: getClientId(),
@@ -64,6 +88,10 @@ export function getLinkedInAuthUrl(state: string): string {
     scope: SCOPES.join(' '),
     state,
   });
+  if (codeChallenge) {
+    params.set('code_challenge', codeChallenge);
+    params.set('code_challenge_method', 'S256');
+  }
   return `${LINKEDIN_AUTH_URL}?${params.toString()}`;
 }
 
@@ -77,19 +105,23 @@ export interface LinkedInTokens {
 
 /**
  * Exchange the authorization `code` from the callback URL for access +
- * refresh tokens.
+ * refresh tokens. Pass the PKCE verifier if the flow started with a
+ * challenge.
  */
-export async function exchangeCodeForTokens(code: string): Promise<LinkedInTokens> {
+export async function exchangeCodeForTokens(code: string, codeVerifier?: string): Promise<LinkedInTokens> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    client_id: getClientId(),
+    client_secret: getClientSecret(),
+    redirect_uri: getRedirectUri(),
+  });
+  if (codeVerifier) body.set('code_verifier', codeVerifier);
+
   const res = await fetch(LINKEDIN_TOKEN_URL, {
     method: 'POST',
     headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: new URLSearchParams({
-      grant_type: 'authorization_code',
-      code,
-      client_id: getClientId(),
-      client_secret: getClientSecret(),
-      redirect_uri: getRedirectUri(),
-    }),
+    body,
   });
 
   if (!res.ok) {
@@ -146,7 +178,7 @@ import type { LinkedInProfile } from './types';
  * Uses the OpenID Connect `userinfo` endpoint.
  */
 export async function getLinkedInProfile(accessToken: string): Promise<LinkedInProfile> {
-  const res = await fetch(LINKEDIN_USERINFO_URL, {
+  const res = await linkedinFetch(LINKEDIN_USERINFO_URL, {
     headers: { Authorization: `Bearer ${accessToken}` },
   });
 
@@ -158,37 +190,174 @@ export async function getLinkedInProfile(accessToken: string): Promise<LinkedInP
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// CREATE POST (text, image, or video)
+// ORGANIZATIONS (Company Pages)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { LinkedInAccount, LinkedInOrganization } from './types';
+
+const ORGANIZATION_URN_PREFIX = 'urn:li:organization:';
+
+/** True for "urn:li:organization:123" — the only non-member author we support */
+export function isOrganizationUrn(urn: string | null | undefined): urn is string {
+  return !!urn && /^urn:li:organization:\d+$/.test(urn);
+}
+
+/**
+ * List the Company Pages the authenticated member can post as.
+ * Only APPROVED ADMINISTRATOR roles are returned — other roles
+ * (e.g. ANALYST) cannot create posts.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/organizations/organization-access-control-by-role
+ */
+export async function getAdministeredOrganizations(accessToken: string): Promise<LinkedInOrganization[]> {
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    'X-Restli-Protocol-Version': '2.0.0',
+    'LinkedIn-Version': '202601',
+  };
+
+  const aclRes = await linkedinFetch(
+    `${LINKEDIN_ORG_ACLS_URL}?q=roleAssignee&role=ADMINISTRATOR&state=APPROVED`,
+    { headers },
+  );
+
+  if (!aclRes.ok) {
+    const text = await aclRes.text();
+    throw new Error(`LinkedIn organization ACL fetch failed (${aclRes.status}): ${text}`);
+  }
+
+  const aclData = await aclRes.json() as {
+    elements?: Array<{ organization: string }>;
+  };
+
+  const urns = [...new Set((aclData.elements ?? []).map(e => e.organization))]
+    .filter(isOrganizationUrn);
+
+  const organizations: LinkedInOrganization[] = [];
+  for (const urn of urns) {
+    const id = urn.slice(ORGANIZATION_URN_PREFIX.length);
+    const orgRes = await linkedinFetch(`${LINKEDIN_ORGANIZATIONS_URL}/${id}`, { headers });
+
+    if (!orgRes.ok) {
+      // Still usable as an author — just without a friendly name
+      organizations.push({ urn, name: `Organization ${id}` });
+      continue;
+    }
+
+    const org = await orgRes.json() as { localizedName?: string; vanityName?: string };
+    organizations.push({
+      urn,
+      name: org.localizedName ?? `Organization ${id}`,
+      vanityName: org.vanityName,
+    });
+  }
+
+  return organizations;
+}
+
+/**
+ * Look up a Company Page by its vanity name (linkedin.com/company/<vanity>)
+ * so it can be @mentioned. Returns null when no page matches.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/organizations/organization-lookup-api
+ */
+export async function findOrganizationByVanityName(
+  accessToken: string,
+  vanityName: string,
+): Promise<LinkedInOrganization | null> {
+  const res = await linkedinFetch(
+    `${LINKEDIN_ORGANIZATIONS_URL}?q=vanityName&vanityName=${encodeURIComponent(vanityName)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'X-Restli-Protocol-Version': '2.0.0',
+        'LinkedIn-Version': '202601',
+      },
+    },
+  );
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`LinkedIn organization lookup failed (${res.status}): ${text}`);
+  }
+
+  const data = await res.json() as {
+    elements?: Array<{ id: number; localizedName?: string; vanityName?: string }>;
+  };
+  const org = data.elements?.[0];
+  if (!org) return null;
+
+  return {
+    urn: `${ORGANIZATION_URN_PREFIX}${org.id}`,
+    name: org.localizedName ?? vanityName,
+    vanityName: org.vanityName ?? vanityName,
+  };
+}
+
+/**
+ * Pick the author URN to publish as.
+ *
+ * Falls back to the account's personal profile when no author is requested.
+ * An organization author must be one of the pages the member administers —
+ * otherwise we'd upload all the media only for LinkedIn to reject the post.
+ */
+export function resolveAuthorUrn(
+  account: Pick<LinkedInAccount, 'memberUrn' | 'organizations'>,
+  requestedUrn?: string | null,
+): string {
+  if (!requestedUrn || requestedUrn === account.memberUrn) {
+    return account.memberUrn;
+  }
+  const administered = account.organizations.some(o => o.urn === requestedUrn);
+  if (!isOrganizationUrn(requestedUrn) || !administered) {
+    throw new Error(`You are not an administrator of ${requestedUrn} — reconnect LinkedIn or pick another author`);
+  }
+  return requestedUrn;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CREATE POST (text, image, video, document, poll, or article)
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import type { LinkedInCreatePostPayload, PostMediaType } from './types';
+import type { LinkedInCreatePostPayload, PostArticle, PostMediaType, PostPoll, PostVisibility } from './types';
+import { formatLittleText } from './little-text';
 
-interface CreatePostOptions {
+export interface CreatePostOptions {
   accessToken: string;
-  authorUrn: string;          // "urn:li:person:abc123"
+  authorUrn: string;          // "urn:li:person:abc123" or "urn:li:organization:123"
   text: string;
-  visibility?: 'PUBLIC' | 'CONNECTIONS';
+  visibility?: PostVisibility;
+  /** Stop other members resharing the post */
+  disableReshare?: boolean;
   /** Type of media to attach */
   mediaType?: PostMediaType;
   /** LinkedIn media asset URN (single image/video) */
   mediaAssetUrn?: string;
   /** LinkedIn media asset URNs (multi-image carousel) */
   mediaAssetUrns?: string[];
-  /** Alt text for the media */
-  mediaAltText?: string;
+  /** Alt text per image — [0] for single media, one per `mediaAssetUrns` entry */
+  mediaAltTexts?: string[];
+  /** LinkedIn document URN (PDF carousel) — takes precedence over images */
+  documentUrn?: string;
+  /** Title shown above a document carousel (required by LinkedIn) */
+  documentTitle?: string;
+  /** Poll for 'poll' posts — validate with `getPollError` first */
+  poll?: PostPoll;
+  /** Link card for 'article' posts — validate with `getArticleError` first */
+  article?: PostArticle;
+  /** LinkedIn image URN of the article thumbnail (from `uploadImageToLinkedIn`) */
+  articleThumbnailUrn?: string;
 }
 
 /**
- * Publish a post to LinkedIn via the Posts API (v2).
- * Supports text-only, image, and video posts.
- *
- * @returns The `x-restli-id` header value — the LinkedIn post URN.
- * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/posts-api
+ * The Posts API body for `opts` — shared with the fake publisher so it
+ * stores exactly what LinkedIn would have received.
  */
-export async function createLinkedInPost(opts: CreatePostOptions): Promise<string> {
+export function buildLinkedInPostPayload(opts: CreatePostOptions): LinkedInCreatePostPayload {
   const payload: LinkedInCreatePostPayload = {
     author: opts.authorUrn,
-    commentary: opts.text,
+    // Escapes reserved characters, expands @mention + #hashtag tokens
+    commentary: formatLittleText(opts.text),
     visibility: opts.visibility ?? 'PUBLIC',
     distribution: {
       feedDistribution: 'MAIN_FEED',
@@ -196,17 +365,44 @@ export async function createLinkedInPost(opts: CreatePostOptions): Promise<strin
       thirdPartyDistributionChannels: [],
     },
     lifecycleState: 'PUBLISHED',
-    isReshareDisabledByAuthor: false,
+    isReshareDisabledByAuthor: opts.disableReshare ?? false,
   };
 
   // Attach media if provided
-  if (opts.mediaAssetUrns && opts.mediaAssetUrns.length > 1 && (opts.mediaType === 'image' || opts.mediaType === 'html')) {
+  if (opts.mediaType === 'poll' && opts.poll) {
+    // Poll post — the question is separate from the commentary and never escaped
+    payload.content = {
+      poll: {
+        question: opts.poll.question,
+        options: opts.poll.options.map(text => ({ text })),
+        settings: { duration: opts.poll.duration },
+      },
+    };
+  } else if (opts.mediaType === 'article' && opts.article) {
+    // Article post — LinkedIn doesn't scrape the link, the card shows exactly this
+    payload.content = {
+      article: {
+        source: opts.article.source,
+        title: opts.article.title,
+        description: opts.article.description,
+        thumbnail: opts.articleThumbnailUrn,
+      },
+    };
+  } else if (opts.documentUrn) {
+    // Document post — LinkedIn renders it as a native swipeable carousel
+    payload.content = {
+      media: {
+        id: opts.documentUrn,
+        title: opts.documentTitle ?? 'Carousel',
+      },
+    };
+  } else if (opts.mediaAssetUrns && opts.mediaAssetUrns.length > 1 && (opts.mediaType === 'image' || opts.mediaType === 'html')) {
     // Multi-image carousel post
     payload.content = {
       multiImage: {
-        images: opts.mediaAssetUrns.map(urn => ({
+        images: opts.mediaAssetUrns.map((urn, i) => ({
           id: urn,
-          altText: opts.mediaAltText,
+          altText: opts.mediaAltTexts?.[i] || undefined,
         })),
       },
     };
@@ -214,12 +410,27 @@ export async function createLinkedInPost(opts: CreatePostOptions): Promise<strin
     payload.content = {
       media: {
         id: opts.mediaAssetUrn,
-        altText: opts.mediaAltText,
+        // LinkedIn only shows alt text on images
+        altText: opts.mediaType === 'video' ? undefined : (opts.mediaAltTexts?.[0] || undefined),
       },
     };
   }
 
-  const res = await fetch(LINKEDIN_POSTS_URL, {
+  return payload;
+}
+
+/**
+ * Publish a post to LinkedIn via the Posts API (v2).
+ * Supports text-only, image, multi-image, video, document (PDF), poll, and
+ * article (link card) posts.
+ *
+ * @returns The `x-restli-id` header value — the LinkedIn post URN.
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/posts-api
+ */
+export async function createLinkedInPost(opts: CreatePostOptions): Promise<string> {
+  const payload = buildLinkedInPostPayload(opts);
+
+  const res = await linkedinFetch(LINKEDIN_POSTS_URL, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${opts.accessToken}`,
@@ -244,11 +455,276 @@ export async function createLinkedInPost(opts: CreatePostOptions): Promise<strin
   return postId;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// POLL RESULTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { PollResults } from './types';
+
+/**
+ * Read the current vote counts of a published poll post.
+ * Returns null if the post has no poll (e.g. it was published as text).
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/poll-post-api
+ */
+export async function getLinkedInPollResults(
+  accessToken: string,
+  postUrn: string,
+): Promise<PollResults | null> {
+  const res = await linkedinFetch(`${LINKEDIN_POSTS_URL}/${encodeURIComponent(postUrn)}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'X-Restli-Protocol-Version': '2.0.0',
+      'LinkedIn-Version': '202601',
+    },
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`LinkedIn get post failed (${res.status}): ${text}`);
+  }
+
+  const data = await res.json() as {
+    content?: {
+      poll?: {
+        options?: { text?: string; voteCount?: number }[];
+        uniqueVotersCount?: number;
+      };
+    };
+  };
+  const poll = data.content?.poll;
+  if (!poll) return null;
+
+  return {
+    options: (poll.options ?? []).map(o => ({ text: o.text ?? '', voteCount: o.voteCount ?? 0 })),
+    uniqueVoters: poll.uniqueVotersCount ?? 0,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// EDIT / DELETE LIVE POSTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Replace the text of a published post.
+ * Only `commentary` can be changed — media and visibility are fixed once live.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/posts-api#update-posts
+ */
+export async function updateLinkedInPost(
+  accessToken: string,
+  postUrn: string,
+  text: string,
+): Promise<void> {
+  const res = await linkedinFetch(`${LINKEDIN_POSTS_URL}/${encodeURIComponent(postUrn)}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'X-Restli-Protocol-Version': '2.0.0',
+      'X-RestLi-Method': 'PARTIAL_UPDATE',
+      'LinkedIn-Version': '202601',
+    },
+    body: JSON.stringify({
+      patch: { $set: { commentary: formatLittleText(text) } },
+    }),
+  });
+
+  if (!res.ok) {
+    const errText = await res.text();
+    throw new Error(`LinkedIn update post failed (${res.status}): ${errText}`);
+  }
+}
+
+/**
+ * Delete a published post. A post that's already gone (404) counts as
+ * deleted so the Firestore copy can still be brought in sync.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/posts-api#delete-posts
+ */
+export async function deleteLinkedInPost(accessToken: string, postUrn: string): Promise<void> {
+  const res = await linkedinFetch(`${LINKEDIN_POSTS_URL}/${encodeURIComponent(postUrn)}`, {
+    method: 'DELETE',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'X-Restli-Protocol-Version': '2.0.0',
+      'X-RestLi-Method': 'DELETE',
+      'LinkedIn-Version': '202601',
+    },
+  });
+
+  if (!res.ok && res.status !== 404) {
+    const errText = await res.text();
+    throw new Error(`LinkedIn delete post failed (${res.status}): ${errText}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMMENTS (first comment after publishing)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Comment on a published post.
+ *
+ * Used for the "first comment" — links and extra hashtags that would hurt
+ * reach in the post body itself.
+ *
+ * @param accessToken - LinkedIn OAuth access token
+ * @param actorUrn    - Who comments: the post author (person or organization)
+ * @param postUrn     - The URN returned by `createLinkedInPost`
+ * @param text        - Comment text
+ * @returns The comment URN
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/comments-api
+ */
+export async function createLinkedInComment(
+  accessToken: string,
+  actorUrn: string,
+  postUrn: string,
+  text: string,
+): Promise<string> {
+  const res = await linkedinFetch(`${LINKEDIN_SOCIAL_ACTIONS_URL}/${encodeURIComponent(postUrn)}/comments`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'X-Restli-Protocol-Version': '2.0.0',
+      'LinkedIn-Version': '202601',
+    },
+    body: JSON.stringify({
+      actor: actorUrn,
+      object: postUrn,
+      message: { text },
+    }),
+  });
+
+  if (!res.ok) {
+    const errText = await res.text();
+    throw new Error(`LinkedIn create comment failed (${res.status}): ${errText}`);
+  }
+
+  const headerId = res.headers.get('x-restli-id');
+  if (headerId) return headerId;
+
+  const data = await res.json().catch(() => null) as { $URN?: string; id?: string } | null;
+  const commentUrn = data?.$URN ?? data?.id;
+  if (!commentUrn) {
+    throw new Error('LinkedIn did not return a comment ID');
+  }
+  return commentUrn;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST ANALYTICS (engagement metrics sync)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { PostMetrics } from './types';
+
+type MemberPostMetricType = 'IMPRESSION' | 'REACTION' | 'COMMENT' | 'RESHARE';
+
+/** "(share:urn%3Ali%3Ashare%3A123)" — the Rest.li entity union for a post URN */
+function postEntityParam(postUrn: string): string {
+  const kind = postUrn.startsWith('urn:li:ugcPost:') ? 'ugcPost' : 'share';
+  return `(${kind}:${encodeURIComponent(postUrn)})`;
+}
+
+/** Lifetime total of one metric for a personal post */
+async function getMemberPostMetric(
+  accessToken: string,
+  postUrn: string,
+  queryType: MemberPostMetricType,
+): Promise<number> {
+  const res = await linkedinFetch(
+    `${LINKEDIN_MEMBER_POST_ANALYTICS_URL}?q=entity&entity=${postEntityParam(postUrn)}&queryType=${queryType}&aggregation=TOTAL`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'X-Restli-Protocol-Version': '2.0.0',
+        'LinkedIn-Version': '202601',
+      },
+    },
+  );
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`LinkedIn post analytics failed (${res.status}): ${text}`);
+  }
+
+  const data = await res.json() as { elements?: { count?: number }[] };
+  return data.elements?.[0]?.count ?? 0;
+}
+
+/**
+ * Fetch lifetime impressions, reactions, comments and reshares for a post.
+ *
+ * Company Page posts use organizationalEntityShareStatistics; personal
+ * posts use memberCreatorPostAnalytics (one call per metric).
+ *
+ * @param accessToken - LinkedIn OAuth access token of the connected account
+ * @param postUrn     - The URN returned by `createLinkedInPost`
+ * @param authorUrn   - Who published it (person or organization)
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/members/post-statistics
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/organizations/share-statistics
+ */
+export async function getLinkedInPostMetrics(
+  accessToken: string,
+  postUrn: string,
+  authorUrn: string,
+): Promise<PostMetrics> {
+  if (isOrganizationUrn(authorUrn)) {
+    const listParam = postUrn.startsWith('urn:li:ugcPost:') ? 'ugcPosts' : 'shares';
+    const res = await linkedinFetch(
+      `${LINKEDIN_ORG_SHARE_STATS_URL}?q=organizationalEntity`
+        + `&organizationalEntity=${encodeURIComponent(authorUrn)}`
+        + `&${listParam}=List(${encodeURIComponent(postUrn)})`,
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'X-Restli-Protocol-Version': '2.0.0',
+          'LinkedIn-Version': '202601',
+        },
+      },
+    );
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`LinkedIn share statistics failed (${res.status}): ${text}`);
+    }
+
+    const data = await res.json() as {
+      elements?: {
+        totalShareStatistics?: {
+          impressionCount?: number;
+          likeCount?: number;
+          commentCount?: number;
+          shareCount?: number;
+        };
+      }[];
+    };
+    const stats = data.elements?.[0]?.totalShareStatistics ?? {};
+    return {
+      impressions: stats.impressionCount ?? 0,
+      reactions: stats.likeCount ?? 0,
+      comments: stats.commentCount ?? 0,
+      reshares: stats.shareCount ?? 0,
+    };
+  }
+
+  const [impressions, reactions, comments, reshares] = await Promise.all([
+    getMemberPostMetric(accessToken, postUrn, 'IMPRESSION'),
+    getMemberPostMetric(accessToken, postUrn, 'REACTION'),
+    getMemberPostMetric(accessToken, postUrn, 'COMMENT'),
+    getMemberPostMetric(accessToken, postUrn, 'RESHARE'),
+  ]);
+  return { impressions, reactions, comments, reshares };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // IMAGE UPLOAD
 // ═══════════════════════════════════════════════════════════════════════════════
 
-interface ImageUploadResult {
+export interface ImageUploadResult {
   /** The image asset URN to use in the post payload */
   imageUrn: string;
 }
@@ -262,7 +738,7 @@ interface ImageUploadResult {
  * 3. Use the image URN in the post's `content.media.id`
  *
  * @param accessToken - LinkedIn OAuth access token
- * @param authorUrn   - "urn:li:person:abc123"
+ * @param authorUrn   - "urn:li:person:abc123" or "urn:li:organization:123" (image owner)
  * @param imageData   - Image as Buffer (binary)
  * @param mimeType    - e.g. 'image/png', 'image/jpeg'
  * @returns The image URN for use in post creation
@@ -275,7 +751,7 @@ export async function uploadImageToLinkedIn(
   imageData: Buffer,
 ): Promise<ImageUploadResult> {
   // Step 1: Initialize upload
-  const initRes = await fetch(`${LINKEDIN_IMAGES_URL}?action=initializeUpload`, {
+  const initRes = await linkedinFetch(`${LINKEDIN_IMAGES_URL}?action=initializeUpload`, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${accessToken}`,
@@ -319,28 +795,138 @@ export async function uploadImageToLinkedIn(
   return { imageUrn };
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// DOCUMENT UPLOAD (PDF carousels)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface DocumentUploadResult {
+  /** The document URN to use in the post's `content.media.id` */
+  documentUrn: string;
+}
+
+/**
+ * Upload a PDF to LinkedIn and get the document URN.
+ *
+ * LinkedIn's document upload flow:
+ * 1. Initialize upload → get uploadUrl + document URN
+ * 2. PUT the binary PDF to the uploadUrl
+ * 3. Use the document URN in the post's `content.media.id` (with a title)
+ *
+ * @param accessToken  - LinkedIn OAuth access token
+ * @param authorUrn    - "urn:li:person:abc123" or "urn:li:organization:123" (document owner)
+ * @param documentData - PDF as Buffer (max 100 MB / 300 pages)
+ * @returns The document URN for use in post creation
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/documents-api
+ */
+export async function uploadDocumentToLinkedIn(
+  accessToken: string,
+  authorUrn: string,
+  documentData: Buffer,
+): Promise<DocumentUploadResult> {
+  // Step 1: Initialize upload
+  const initRes = await linkedinFetch(`${LINKEDIN_DOCUMENTS_URL}?action=initializeUpload`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'X-Restli-Protocol-Version': '2.0.0',
+      'LinkedIn-Version': '202601',
+    },
+    body: JSON.stringify({
+      initializeUploadRequest: {
+        owner: authorUrn,
+      },
+    }),
+  });
+
+  if (!initRes.ok) {
+    const text = await initRes.text();
+    throw new Error(`LinkedIn document upload init failed (${initRes.status}): ${text}`);
+  }
+
+  const initData = await initRes.json() as {
+    value: { uploadUrl: string; document: string };
+  };
+
+  const { uploadUrl, document: documentUrn } = initData.value;
+
+  // Step 2: Upload the binary PDF
+  const uploadRes = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/octet-stream',
+    },
+    body: new Uint8Array(documentData),
+  });
+
+  if (!uploadRes.ok) {
+    const text = await uploadRes.text();
+    throw new Error(`LinkedIn document binary upload failed (${uploadRes.status}): ${text}`);
+  }
+
+  return { documentUrn };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // VIDEO UPLOAD
 // ═══════════════════════════════════════════════════════════════════════════════
 
-interface VideoUploadResult {
+export interface VideoUploadResult {
   /** The video asset URN to use in the post payload */
   videoUrn: string;
 }
 
+export interface VideoUploadOptions {
+  /** SubRip (.srt) captions shown on the video */
+  captionsSrt?: string;
+  /** Custom cover image (JPG / PNG) instead of LinkedIn's auto-picked frame */
+  thumbnail?: Buffer;
+}
+
+/** Processing states of an uploaded video (GET /rest/videos/{urn}) */
+export type LinkedInVideoStatus = 'WAITING_UPLOAD' | 'PROCESSING' | 'AVAILABLE' | 'PROCESSING_FAILED';
+
+/** PUT a caption file or thumbnail to its one-shot upload URL */
+async function putVideoAttachment(
+  accessToken: string,
+  uploadUrl: string,
+  data: Uint8Array<ArrayBuffer>,
+  what: 'captions' | 'thumbnail',
+): Promise<void> {
+  const res = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/octet-stream',
+    },
+    body: data,
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`LinkedIn video ${what} upload failed (${res.status}): ${text}`);
+  }
+}
+
 /**
  * Upload a video to LinkedIn and get the asset URN.
  *
- * LinkedIn's video upload flow (v2):
- * 1. Initialize upload → get uploadUrl(s) + video URN
- * 2. PUT the binary video to each uploadUrl (single part for < 200MB)
- * 3. Finalize the upload
- * 4. Use the video URN in the post's `content.media.id`
+ * LinkedIn's video upload flow:
+ * 1. Initialize upload → get uploadToken, one upload instruction per 4 MB part,
+ *    and caption / thumbnail upload URLs when requested
+ * 2. PUT each byte range to its uploadUrl, collecting the ETag LinkedIn returns
+ * 3. Upload the captions / thumbnail
+ * 4. Finalize with the uploadToken and the ETags in part order
+ *
+ * LinkedIn then processes the video; a post referencing it is rejected
+ * until `getLinkedInVideoStatus` reports AVAILABLE (see video-processing.ts).
  *
  * @param accessToken - LinkedIn OAuth access token
- * @param authorUrn   - "urn:li:person:abc123"
- * @param videoData   - Video as Buffer (binary)
- * @param mimeType    - e.g. 'video/mp4'
+ * @param authorUrn   - "urn:li:person:abc123" or "urn:li:organization:123" (video owner)
+ * @param videoData   - Video as Buffer (MP4, 75 KB – 500 MB)
+ * @param options     - Optional SRT captions and custom thumbnail
  * @returns The video URN for use in post creation
  *
  * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/videos-api
@@ -349,9 +935,13 @@ export async function uploadVideoToLinkedIn(
   accessToken: string,
   authorUrn: string,
   videoData: Buffer,
+  options: VideoUploadOptions = {},
 ): Promise<VideoUploadResult> {
+  const captions = options.captionsSrt?.trim();
+  const { thumbnail } = options;
+
   // Step 1: Initialize upload
-  const initRes = await fetch(`${LINKEDIN_VIDEOS_URL}?action=initializeUpload`, {
+  const initRes = await linkedinFetch(`${LINKEDIN_VIDEOS_URL}?action=initializeUpload`, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${accessToken}`,
@@ -363,8 +953,8 @@ export async function uploadVideoToLinkedIn(
       initializeUploadRequest: {
         owner: authorUrn,
         fileSizeBytes: videoData.length,
-        uploadCaptions: false,
-        uploadThumbnail: false,
+        uploadCaptions: !!captions,
+        uploadThumbnail: !!thumbnail,
       },
     }),
   });
@@ -377,15 +967,18 @@ export async function uploadVideoToLinkedIn(
   const initData = await initRes.json() as {
     value: {
       uploadInstructions: Array<{ uploadUrl: string; firstByte: number; lastByte: number }>;
+      uploadToken: string;
       video: string;
+      captionsUploadUrl?: string;
+      thumbnailUploadUrl?: string;
     };
   };
 
-  const { uploadInstructions, video: videoUrn } = initData.value;
+  const { uploadInstructions, uploadToken, video: videoUrn, captionsUploadUrl, thumbnailUploadUrl } = initData.value;
 
-  // Step 2: Upload the binary video (single part — works for files < 200MB)
-  // For larger files, you'd need to split into chunks per uploadInstructions
-  for (const instruction of uploadInstructions) {
+  // Step 2: Upload each part — finalize needs every part's ETag, in order
+  const uploadedPartIds: string[] = [];
+  for (const [index, instruction] of uploadInstructions.entries()) {
     const chunk = new Uint8Array(videoData.subarray(instruction.firstByte, instruction.lastByte + 1));
     const uploadRes = await fetch(instruction.uploadUrl, {
       method: 'PUT',
@@ -399,12 +992,30 @@ export async function uploadVideoToLinkedIn(
 
     if (!uploadRes.ok) {
       const text = await uploadRes.text();
-      throw new Error(`LinkedIn video chunk upload failed (${uploadRes.status}): ${text}`);
+      throw new Error(
+        `LinkedIn video chunk upload failed (${uploadRes.status}) at part ${index + 1}/${uploadInstructions.length}: ${text}`,
+      );
+    }
+
+    const etag = uploadRes.headers.get('etag');
+    if (!etag) {
+      throw new Error(`LinkedIn video chunk upload returned no ETag for part ${index + 1}/${uploadInstructions.length}`);
     }
+    uploadedPartIds.push(etag);
+  }
+
+  // Step 3: Captions / thumbnail — LinkedIn only returns the URLs we asked for
+  if (captions) {
+    if (!captionsUploadUrl) throw new Error('LinkedIn video upload init returned no captions upload URL');
+    await putVideoAttachment(accessToken, captionsUploadUrl, new TextEncoder().encode(captions), 'captions');
+  }
+  if (thumbnail) {
+    if (!thumbnailUploadUrl) throw new Error('LinkedIn video upload init returned no thumbnail upload URL');
+    await putVideoAttachment(accessToken, thumbnailUploadUrl, new Uint8Array(thumbnail), 'thumbnail');
   }
 
-  // Step 3: Finalize the upload
-  const finalizeRes = await fetch(`${LINKEDIN_VIDEOS_URL}?action=finalizeUpload`, {
+  // Step 4: Finalize the upload
+  const finalizeRes = await linkedinFetch(`${LINKEDIN_VIDEOS_URL}?action=finalizeUpload`, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${accessToken}`,
@@ -415,8 +1026,8 @@ export async function uploadVideoToLinkedIn(
     body: JSON.stringify({
       finalizeUploadRequest: {
         video: videoUrn,
-        uploadToken: '',
-        uploadedPartIds: [],
+        uploadToken,
+        uploadedPartIds,
       },
     }),
   });
@@ -429,6 +1040,32 @@ export async function uploadVideoToLinkedIn(
   return { videoUrn };
 }
 
+/**
+ * Fetch the processing status of an uploaded video.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/videos-api#get-a-video
+ */
+export async function getLinkedInVideoStatus(
+  accessToken: string,
+  videoUrn: string,
+): Promise<{ status: LinkedInVideoStatus; failureReason?: string }> {
+  const res = await linkedinFetch(`${LINKEDIN_VIDEOS_URL}/${encodeURIComponent(videoUrn)}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'X-Restli-Protocol-Version': '2.0.0',
+      'LinkedIn-Version': '202601',
+    },
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`LinkedIn video status failed (${res.status}): ${text}`);
+  }
+
+  const data = await res.json() as { status: LinkedInVideoStatus; processingFailureReason?: string };
+  return { status: data.status, failureReason: data.processingFailureReason };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // DOWNLOAD MEDIA (helper to fetch AI-generated media as Buffer)
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,132 @@
+/**
+ * Tests for the little-text formatter — escaping, the mention and hashtag
+ * templates, and parsing post text back into what the editor and cross-posts
+ * show.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toCrossPostText } from './crosspost';
+import { escapeLittleText, formatLittleText, mentionToken, parseLittleText, type LittleTextSegment } from './little-text';
+
+const RESERVED = '|{}@[]()<>#\\*_~';
+
+/** Segments back to the editor text they came from */
+function unparse(segments: LittleTextSegment[]): string {
+  return segments
+    .map(s => (s.type === 'mention' ? mentionToken(s.name, s.urn) : s.type === 'hashtag' ? `#${s.tag}` : s.text))
+    .join('');
+}
+
+/** Undo escapeLittleText */
+function unescape(commentary: string): string {
+  return commentary.replace(/\\(.)/g, '$1');
+}
+
+describe('little-text', () => {
+  describe('escapeLittleText', () => {
+    it('escapes every reserved character', () => {
+      for (const ch of RESERVED) {
+        assert.equal(escapeLittleText(ch), `\\${ch}`, ch);
+        assert.equal(escapeLittleText(`a${ch}b`), `a\\${ch}b`, ch);
+      }
+      assert.equal(escapeLittleText(RESERVED), [...RESERVED].map(ch => `\\${ch}`).join(''));
+    });
+
+    it('leaves everything else alone', () => {
+      const plain = 'Plain text, with punctuation: ! ? . , ; \' " - + = / % & $ ^ ` — and émoji 🚀\nnew line';
+      assert.equal(escapeLittleText(plain), plain);
+    });
+
+    it('escapes text a model commonly writes', () => {
+      assert.equal(escapeLittleText('(see below) snake_case a*b ~approx'), '\\(see below\\) snake\\_case a\\*b \\~approx');
+    });
+  });
+
+  describe('formatLittleText', () => {
+    it('turns mention tokens into mention templates', () => {
+      assert.equal(formatLittleText('Thanks @[Jane Doe](urn:li:person:abc123)!'), 'Thanks @[Jane Doe](urn:li:person:abc123)!');
+      assert.equal(formatLittleText('@[Acme](urn:li:organization:123) is hiring'), '@[Acme](urn:li:organization:123) is hiring');
+    });
+
+    it('escapes reserved characters in a mention\'s name', () => {
+      assert.equal(formatLittleText('@[Jane_Doe (PhD)](urn:li:person:abc)'), '@[Jane\\_Doe \\(PhD\\)](urn:li:person:abc)');
+    });
+
+    it('escapes a mention-like token with an unknown URN', () => {
+      assert.equal(formatLittleText('@[Jane](urn:li:group:1)'), '\\@\\[Jane\\]\\(urn:li:group:1\\)');
+    });
+
+    it('turns hashtags into hashtag templates', () => {
+      assert.equal(formatLittleText('#AI'), '{hashtag|\\#|AI}');
+      assert.equal(formatLittleText('Ship it #DevOps #CI_CD'), 'Ship it {hashtag|\\#|DevOps} {hashtag|\\#|CI_CD}');
+      assert.equal(formatLittleText('(#OpenSource)'), '\\({hashtag|\\#|OpenSource}\\)');
+      assert.equal(formatLittleText('#café'), '{hashtag|\\#|café}');
+    });
+
+    it('escapes a # that isn\'t a hashtag', () => {
+      assert.equal(formatLittleText('issue#42 and C# and # alone'), 'issue\\#42 and C\\# and \\# alone');
+    });
+
+    it('escapes everything around mentions and hashtags', () => {
+      assert.equal(
+        formatLittleText('Met @[Jane](urn:li:person:j1) at <Expo> — #events {day 1}'),
+        'Met @[Jane](urn:li:person:j1) at \\<Expo\\> — {hashtag|\\#|events} \\{day 1\\}',
+      );
+    });
+
+    it('sends plain text through unchanged once unescaped', () => {
+      const text = `Everything reserved: ${RESERVED} and a_b*c (done)`;
+      assert.equal(unescape(formatLittleText(text)), text);
+    });
+  });
+
+  describe('parseLittleText', () => {
+    it('splits text, mentions and hashtags', () => {
+      assert.deepEqual(parseLittleText('Hi @[Jane Doe](urn:li:person:abc) — #Launch day'), [
+        { type: 'text', text: 'Hi ' },
+        { type: 'mention', name: 'Jane Doe', urn: 'urn:li:person:abc' },
+        { type: 'text', text: ' — ' },
+        { type: 'hashtag', tag: 'Launch' },
+        { type: 'text', text: ' day' },
+      ]);
+    });
+
+    it('returns no segments for empty text', () => {
+      assert.deepEqual(parseLittleText(''), []);
+    });
+
+    it('round-trips back to the editor text', () => {
+      const texts = [
+        'Plain text only',
+        '@[Jane Doe](urn:li:person:abc123) and @[Acme](urn:li:organization:123)',
+        '#One #Two\n\n#Three',
+        'Thanks @[Jane](urn:li:person:j_1)! (#grateful) {snake_case} a*b',
+        'Not a mention: @[Jane](urn:li:group:1), not a tag: C#',
+      ];
+      for (const text of texts) assert.equal(unparse(parseLittleText(text)), text, text);
+    });
+  });
+
+  describe('toCrossPostText', () => {
+    it('shows mentions as names and keeps hashtags and text', () => {
+      assert.equal(
+        toCrossPostText('Thanks @[Jane Doe](urn:li:person:abc) and @[Acme](urn:li:organization:1) — #Launch (v2_final)'),
+        'Thanks Jane Doe and Acme — #Launch (v2_final)',
+      );
+    });
+
+    it('leaves text without tokens as it is', () => {
+      const text = `No tokens, just ${RESERVED}\nand a #tag`;
+      assert.equal(toCrossPostText(text), text);
+    });
+  });
+
+  describe('mentionToken', () => {
+    it('builds a token parseLittleText reads back', () => {
+      const token = mentionToken('Jane [Eng]\nDoe', 'urn:li:person:abc');
+      assert.equal(token, '@[Jane  Eng  Doe](urn:li:person:abc)');
+      assert.deepEqual(parseLittleText(token), [{ type: 'mention', name: 'Jane  Eng  Doe', urn: 'urn:li:person:abc' }]);
+    });
+  });
+});
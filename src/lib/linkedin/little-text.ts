@@ -0,0 +1,93 @@
+/**
+ * LinkedIn "little text" formatter
+ *
+ * The Posts API `commentary` field is not plain text: it reserves
+ * | { } @ [ ] ( ) < > # \ * _ ~ for mentions, hashtags and other templates.
+ * Unescaped, AI output like "(see below)" or "snake_case" gets mangled or
+ * rejected. This module turns the plain text we store into safe commentary:
+ *
+ *   @[Jane Doe](urn:li:person:abc123)   → person mention
+ *   @[Acme](urn:li:organization:123)    → Company Page mention
+ *   #Hashtag                            → {hashtag|\#|Hashtag}
+ *   anything else                       → backslash-escaped
+ *
+ * Safe on client and server — the post editor uses `parseLittleText` for
+ * its preview so it renders exactly what `formatLittleText` will send.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/little-text-format
+ */
+
+// ── Tokens ───────────────────────────────────────────────────────────────────
+
+/** Characters LinkedIn treats as syntax in `commentary` */
+const RESERVED_CHARS = /[|{}@[\]()<>#\\*_~]/g;
+
+/** Mention token as written in the editor: @[Display Name](urn:li:person:abc) */
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\((urn:li:(?:person|organization):[A-Za-z0-9_-]+)\)/g;
+
+/** "#Tag" at the start of the text or after whitespace / opening punctuation */
+const HASHTAG_PATTERN = /(^|[\s([{"'])#([\p{L}\p{N}_]+)/gu;
+
+export type LittleTextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; name: string; urn: string }
+  | { type: 'hashtag'; tag: string };
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+/** Split mention-free text into text and hashtag segments */
+function parseHashtags(text: string): LittleTextSegment[] {
+  const segments: LittleTextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const start = match.index! + match[1].length;
+    if (start > last) segments.push({ type: 'text', text: text.slice(last, start) });
+    segments.push({ type: 'hashtag', tag: match[2] });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ type: 'text', text: text.slice(last) });
+  return segments;
+}
+
+/**
+ * Split post text into plain text, mention and hashtag segments.
+ * Used by both the formatter and the editor preview.
+ */
+export function parseLittleText(text: string): LittleTextSegment[] {
+  const segments: LittleTextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    if (match.index! > last) segments.push(...parseHashtags(text.slice(last, match.index)));
+    segments.push({ type: 'mention', name: match[1].trim(), urn: match[2] });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push(...parseHashtags(text.slice(last)));
+  return segments;
+}
+
+// ── Formatting ───────────────────────────────────────────────────────────────
+
+/** Backslash-escape every reserved character */
+export function escapeLittleText(text: string): string {
+  return text.replace(RESERVED_CHARS, (ch) => `\\${ch}`);
+}
+
+/** Convert stored post text into LinkedIn `commentary` */
+export function formatLittleText(text: string): string {
+  return parseLittleText(text).map((segment) => {
+    switch (segment.type) {
+      case 'mention':
+        return `@[${escapeLittleText(segment.name)}](${segment.urn})`;
+      case 'hashtag':
+        return `{hashtag|\\#|${segment.tag}}`;
+      default:
+        return escapeLittleText(segment.text);
+    }
+  }).join('');
+}
+
+/** Build the editor token for a mention — the inverse of `parseLittleText` */
+export function mentionToken(name: string, urn: string): string {
+  // Brackets would end the token early; LinkedIn matches on the URN anyway
+  return `@[${name.replace(/[[\]\n]/g, ' ').trim()}](${urn})`;
+}
@@ -0,0 +1,132 @@
+/**
+ * Tests for the OAuth `state` and PKCE helpers — a state only verifies
+ * untampered, unexpired and for the user who started the flow.
+ */
+
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash, createHmac } from 'crypto';
+import { OAUTH_STATE_TTL_SECONDS, createOAuthState, createPkcePair, verifyOAuthState } from './oauth-state';
+
+const SECRET = 'test-secret-0123456789abcdef0123456789abcdef';
+
+/** A state signed with `secret` around an arbitrary payload */
+function signed(payload: unknown, secret = SECRET): string {
+  const encoded = Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${createHmac('sha256', secret).update(encoded).digest('base64url')}`;
+}
+
+function payloadOf(state: string): { uid: string; nonce: string; exp: number } {
+  return JSON.parse(Buffer.from(state.split('.')[0], 'base64url').toString('utf8'));
+}
+
+describe('oauth-state', () => {
+  let previousSecret: string | undefined;
+
+  beforeEach(() => {
+    previousSecret = process.env.OAUTH_STATE_SECRET;
+    process.env.OAUTH_STATE_SECRET = SECRET;
+  });
+
+  afterEach(() => {
+    if (previousSecret === undefined) delete process.env.OAUTH_STATE_SECRET;
+    else process.env.OAUTH_STATE_SECRET = previousSecret;
+    mock.timers.reset();
+  });
+
+  describe('signing', () => {
+    it('verifies a state for the user who started the flow', () => {
+      assert.equal(verifyOAuthState(createOAuthState('uid-1'), 'uid-1'), null);
+    });
+
+    it('carries the uid, a fresh nonce and an expiry TTL seconds out', () => {
+      const before = Math.floor(Date.now() / 1000);
+      const first = payloadOf(createOAuthState('uid-1'));
+      const second = payloadOf(createOAuthState('uid-1'));
+
+      assert.equal(first.uid, 'uid-1');
+      assert.notEqual(first.nonce, second.nonce);
+      assert.ok(first.exp >= before + OAUTH_STATE_TTL_SECONDS && first.exp <= before + OAUTH_STATE_TTL_SECONDS + 1);
+    });
+
+    it('refuses a state whose payload was changed', () => {
+      const state = createOAuthState('uid-1');
+      const forged = `${Buffer.from(JSON.stringify({ ...payloadOf(state), uid: 'uid-2' })).toString('base64url')}.${state.split('.')[1]}`;
+      assert.equal(verifyOAuthState(forged, 'uid-2'), 'state_invalid');
+    });
+
+    it('refuses a state whose signature was changed', () => {
+      const [encoded, signature] = createOAuthState('uid-1').split('.');
+      const flipped = `${signature.slice(0, -1)}${signature.endsWith('A') ? 'B' : 'A'}`;
+      assert.equal(verifyOAuthState(`${encoded}.${flipped}`, 'uid-1'), 'state_invalid');
+      assert.equal(verifyOAuthState(`${encoded}.${signature.slice(1)}`, 'uid-1'), 'state_invalid');
+    });
+
+    it('refuses a state signed with another secret', () => {
+      const state = signed({ uid: 'uid-1', nonce: 'n', exp: Math.floor(Date.now() / 1000) + 60 }, 'some-other-secret');
+      assert.equal(verifyOAuthState(state, 'uid-1'), 'state_invalid');
+    });
+
+    it('refuses malformed states', () => {
+      for (const state of ['', '.', 'no-signature', '.signature-only', 'a.b.c']) {
+        assert.equal(verifyOAuthState(state, 'uid-1'), 'state_invalid', JSON.stringify(state));
+      }
+      // Correctly signed, but not JSON
+      assert.equal(verifyOAuthState(signed('not json'), 'uid-1'), 'state_invalid');
+    });
+
+    it('needs OAUTH_STATE_SECRET', () => {
+      delete process.env.OAUTH_STATE_SECRET;
+      assert.throws(() => createOAuthState('uid-1'), /OAUTH_STATE_SECRET/);
+    });
+  });
+
+  describe('expiry', () => {
+    it('accepts a state until the TTL runs out, then reports it expired', () => {
+      mock.timers.enable({ apis: ['Date'], now: Date.UTC(2024, 5, 1, 12, 0, 0) });
+      const state = createOAuthState('uid-1');
+
+      mock.timers.tick((OAUTH_STATE_TTL_SECONDS - 1) * 1000);
+      assert.equal(verifyOAuthState(state, 'uid-1'), null);
+
+      mock.timers.tick(2 * 1000);
+      assert.equal(verifyOAuthState(state, 'uid-1'), 'state_expired');
+    });
+
+    it('reports a state without a numeric expiry as expired', () => {
+      assert.equal(verifyOAuthState(signed({ uid: 'uid-1', nonce: 'n' }), 'uid-1'), 'state_expired');
+      assert.equal(verifyOAuthState(signed({ uid: 'uid-1', nonce: 'n', exp: 'never' }), 'uid-1'), 'state_expired');
+    });
+
+    it('checks expiry before the user', () => {
+      const expired = signed({ uid: 'uid-1', nonce: 'n', exp: Math.floor(Date.now() / 1000) - 1 });
+      assert.equal(verifyOAuthState(expired, 'uid-2'), 'state_expired');
+    });
+  });
+
+  describe('user', () => {
+    it('refuses a state started by another user', () => {
+      assert.equal(verifyOAuthState(createOAuthState('uid-1'), 'uid-2'), 'state_user_mismatch');
+      assert.equal(verifyOAuthState(createOAuthState('uid-1'), ''), 'state_user_mismatch');
+    });
+  });
+
+  describe('createPkcePair', () => {
+    it('pairs a verifier with its S256 challenge', () => {
+      const { verifier, challenge } = createPkcePair();
+      assert.equal(challenge, createHash('sha256').update(verifier).digest('base64url'));
+    });
+
+    it('makes an RFC 7636 verifier, different every time', () => {
+      const verifiers = new Set(Array.from({ length: 20 }, () => createPkcePair().verifier));
+      assert.equal(verifiers.size, 20);
+      for (const verifier of verifiers) {
+        assert.match(verifier, /^[A-Za-z0-9_-]{43,128}$/);
+      }
+    });
+
+    it('uses unpadded base64url for the challenge', () => {
+      assert.match(createPkcePair().challenge, /^[A-Za-z0-9_-]{43}$/);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * OAuth `state` and PKCE for the LinkedIn connect flow
+ *
+ * `state` is a short-lived token signed with HMAC-SHA256 that carries the
+ * Firebase uid which started the flow and a random nonce. The callback
+ * only accepts it back for the same signed-in user, so a link that
+ * completes someone else's consent can't attach their LinkedIn account
+ * to the wrong app user.
+ *
+ * Required env var (server-only):
+ *   OAUTH_STATE_SECRET   at least 32 random bytes — e.g. openssl rand -hex 32
+ */
+
+import 'server-only';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/** How long the user has to finish the consent screen — matches the cookies */
+export const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+function getSecret(): string {
+  const secret = process.env.OAUTH_STATE_SECRET;
+  if (!secret) throw new Error('OAUTH_STATE_SECRET environment variable is not set');
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+interface OAuthStatePayload {
+  uid: string;
+  nonce: string;
+  /** Expiry, epoch seconds */
+  exp: number;
+}
+
+/** Why a returned `state` was refused — also the callback's error reason */
+export type OAuthStateError = 'state_invalid' | 'state_expired' | 'state_user_mismatch';
+
+/** Signed `state` for a connect flow started by `uid` */
+export function createOAuthState(uid: string): string {
+  const payload: OAuthStatePayload = {
+    uid,
+    nonce: randomBytes(16).toString('base64url'),
+    exp: Math.floor(Date.now() / 1000) + OAUTH_STATE_TTL_SECONDS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/** Check a returned `state` — null if it's genuine, unexpired and belongs to `uid` */
+export function verifyOAuthState(state: string, uid: string): OAuthStateError | null {
+  const [encoded, signature] = state.split('.');
+  if (!encoded || !signature) return 'state_invalid';
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return 'state_invalid';
+
+  let payload: OAuthStatePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return 'state_invalid';
+  }
+  if (typeof payload.exp !== 'number' || payload.exp < Date.now() / 1000) return 'state_expired';
+  if (payload.uid !== uid) return 'state_user_mismatch';
+  return null;
+}
+
+/** PKCE pair — the verifier stays server-side, the S256 challenge goes to LinkedIn (or X) */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
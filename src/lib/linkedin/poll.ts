@@ -0,0 +1,88 @@
+/**
+ * LinkedIn poll rules
+ *
+ * LinkedIn rejects polls outside these limits with an opaque 422, so the
+ * API routes, the AI generator and the poll editor all check against the
+ * same constants before anything is sent.
+ *
+ * Safe on client and server.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/poll-post-api
+ */
+
+import type { PollDuration, PostPoll } from './types';
+
+// ── Limits ───────────────────────────────────────────────────────────────────
+
+export const POLL_QUESTION_MAX_LENGTH = 140;
+export const POLL_OPTION_MAX_LENGTH = 30;
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 4;
+
+export const POLL_DURATIONS: PollDuration[] = ['ONE_DAY', 'THREE_DAYS', 'SEVEN_DAYS', 'FOURTEEN_DAYS'];
+
+export const POLL_DURATION_LABELS: Record<PollDuration, string> = {
+  ONE_DAY: '1 day',
+  THREE_DAYS: '3 days',
+  SEVEN_DAYS: '1 week',
+  FOURTEEN_DAYS: '2 weeks',
+};
+
+const POLL_DURATION_DAYS: Record<PollDuration, number> = {
+  ONE_DAY: 1,
+  THREE_DAYS: 3,
+  SEVEN_DAYS: 7,
+  FOURTEEN_DAYS: 14,
+};
+
+const DEFAULT_POLL_DURATION: PollDuration = 'THREE_DAYS';
+
+// ── Parsing / validation ─────────────────────────────────────────────────────
+
+/**
+ * Coerce untrusted input (request body, AI JSON) into a PostPoll.
+ * Trims text and drops blank options but never truncates — use
+ * `getPollError` to decide whether the result can be published.
+ * Returns null when the input isn't poll-shaped at all.
+ */
+export function normalizePoll(input: unknown): PostPoll | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = input as { question?: unknown; options?: unknown; duration?: unknown };
+
+  const question = typeof raw.question === 'string' ? raw.question.trim() : '';
+  const options = Array.isArray(raw.options)
+    ? raw.options
+      .map(o => (typeof o === 'string' ? o : (o as { text?: unknown } | null)?.text))
+      .filter((o): o is string => typeof o === 'string')
+      .map(o => o.trim())
+      .filter(Boolean)
+    : [];
+  const duration = POLL_DURATIONS.includes(raw.duration as PollDuration)
+    ? raw.duration as PollDuration
+    : DEFAULT_POLL_DURATION;
+
+  return { question, options, duration };
+}
+
+/** Why LinkedIn would reject this poll, or null if it's publishable */
+export function getPollError(poll: PostPoll | null | undefined): string | null {
+  if (!poll) return 'Poll posts need a question and options';
+  if (!poll.question) return 'Poll question is required';
+  if (poll.question.length > POLL_QUESTION_MAX_LENGTH) {
+    return `Poll question must be ${POLL_QUESTION_MAX_LENGTH} characters or fewer`;
+  }
+  if (poll.options.length < POLL_MIN_OPTIONS || poll.options.length > POLL_MAX_OPTIONS) {
+    return `Polls need ${POLL_MIN_OPTIONS}–${POLL_MAX_OPTIONS} options`;
+  }
+  const tooLong = poll.options.find(o => o.length > POLL_OPTION_MAX_LENGTH);
+  if (tooLong) return `Poll option "${tooLong}" is longer than ${POLL_OPTION_MAX_LENGTH} characters`;
+  if (new Set(poll.options.map(o => o.toLowerCase())).size !== poll.options.length) {
+    return 'Poll options must be different from each other';
+  }
+  return null;
+}
+
+/** When voting closes for a poll published at `publishedAt` */
+export function getPollEndsAt(publishedAt: Date, duration: PollDuration): Date {
+  return new Date(new Date(publishedAt).getTime() + POLL_DURATION_DAYS[duration] * 24 * 60 * 60 * 1000);
+}
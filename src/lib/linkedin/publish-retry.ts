@@ -0,0 +1,62 @@
+/**
+ * Publish retry policy
+ *
+ * Decides whether a failed publish is worth retrying and when. Transient
+ * problems (LinkedIn 5xx / 429, network errors, timeouts, a media host
+ * hiccup) are retried with exponential backoff; anything the next attempt
+ * would hit again (auth, validation, a 4xx from LinkedIn) fails right away.
+ *
+ * Errors across the LinkedIn helpers are plain `Error`s with the HTTP status
+ * in the message — "LinkedIn create post failed (503): …" — so that's what
+ * gets classified.
+ */
+
+import 'server-only';
+
+/** First retry waits this long; each further one doubles it */
+const BASE_DELAY_MS = 5 * 60_000;
+/** Backoff ceiling — a post shouldn't sit for days waiting on retries */
+const MAX_DELAY_MS = 6 * 60 * 60_000;
+const DEFAULT_MAX_RETRIES = 3;
+
+/** 4xx statuses that usually clear up on their own (every 5xx does too) */
+const RETRYABLE_4XX = new Set([408, 425, 429]);
+
+/** Node / undici network failures */
+const NETWORK_ERROR_PATTERN = /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|network/i;
+
+/** Automatic retries before a post is marked failed — `PUBLISH_MAX_RETRIES` env, default 3 */
+export function getMaxPublishRetries(): number {
+  const configured = Number.parseInt(process.env.PUBLISH_MAX_RETRIES ?? '', 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_MAX_RETRIES;
+}
+
+/** True if another attempt later has a real chance of succeeding */
+export function isRetryablePublishError(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  if (err.name === 'TimeoutError' || err.name === 'AbortError') return true;
+
+  // "(503)" — the status the LinkedIn / download helpers put in their messages
+  const status = err.message.match(/\((\d{3})\)/)?.[1];
+  if (status) {
+    const code = Number(status);
+    return code >= 500 || RETRYABLE_4XX.has(code);
+  }
+
+  // A video LinkedIn hasn't finished processing yet
+  if (/^LinkedIn video still \w+ after/.test(err.message)) return true;
+
+  const cause = (err as Error & { cause?: unknown }).cause;
+  const causeMessage = cause instanceof Error ? cause.message : '';
+  return NETWORK_ERROR_PATTERN.test(err.message) || NETWORK_ERROR_PATTERN.test(causeMessage);
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): 5 min, 10, 20, 40… capped
+ * at 6 h, with ±20% jitter so a LinkedIn outage doesn't get a thundering herd.
+ */
+export function getPublishRetryDelayMs(attempt: number): number {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), MAX_DELAY_MS);
+  const jitter = delay * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(delay + jitter);
+}
@@ -0,0 +1,23 @@
+/**
+ * Publisher - Barrel Export
+ *
+ * Single import point for publishing backends (server-only).
+ *
+ * Usage:
+ * ```ts
+ * import { createPublisher } from '@/lib/linkedin/publisher';
+ *
+ * const publisher = createPublisher();
+ * const postUrn = await publisher.createPost({ accessToken, authorUrn, text });
+ * ```
+ */
+
+// Interface
+export type { IPublisher, PublisherBackend } from './publisher.interface';
+
+// Factory
+export { createPublisher, getPublisherBackend, getFakePublisherStore } from './publisher.factory';
+
+// Fake backend inspection (memory store)
+export { getFakePublishedPosts } from './publishers/fake.publisher';
+export type { FakePublishedPost, FakePublisherStore } from './publishers/fake.publisher';
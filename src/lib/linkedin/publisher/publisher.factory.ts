@@ -0,0 +1,51 @@
+/**
+ * Publisher - Factory
+ *
+ * Picks the publishing backend for this environment. This is the ONLY
+ * place that imports concrete publishers.
+ *
+ * Env vars:
+ *   PUBLISHER_BACKEND     'linkedin' (default) | 'fake'
+ *   FAKE_PUBLISHER_STORE  'firestore' (default) | 'memory' — fake backend only
+ */
+
+import 'server-only';
+import type { IPublisher, PublisherBackend } from './publisher.interface';
+import { LinkedInPublisher } from './publishers/linkedin.publisher';
+import { FakePublisher, type FakePublisherStore } from './publishers/fake.publisher';
+
+/** Registry of publisher constructors keyed by backend */
+const PUBLISHER_REGISTRY: Record<PublisherBackend, () => IPublisher> = {
+  linkedin: () => new LinkedInPublisher(),
+  fake: () => new FakePublisher(getFakePublisherStore()),
+};
+
+/** Where the fake backend keeps what it "publishes" */
+export function getFakePublisherStore(): FakePublisherStore {
+  return process.env.FAKE_PUBLISHER_STORE === 'memory' ? 'memory' : 'firestore';
+}
+
+/** Backend selected by `PUBLISHER_BACKEND` — LinkedIn unless set otherwise */
+export function getPublisherBackend(): PublisherBackend {
+  const configured = process.env.PUBLISHER_BACKEND?.trim().toLowerCase();
+  if (!configured) return 'linkedin';
+  if (configured in PUBLISHER_REGISTRY) return configured as PublisherBackend;
+  throw new Error(
+    `Unknown PUBLISHER_BACKEND "${configured}". ` +
+    `Supported backends: ${Object.keys(PUBLISHER_REGISTRY).join(', ')}`,
+  );
+}
+
+/**
+ * Create the publisher for `backend` (default: this environment's).
+ *
+ * @example
+ * ```ts
+ * const publisher = createPublisher();
+ * const { imageUrn } = await publisher.uploadImage(accessToken, authorUrn, buf);
+ * const postUrn = await publisher.createPost({ accessToken, authorUrn, text, mediaType: 'image', mediaAssetUrn: imageUrn });
+ * ```
+ */
+export function createPublisher(backend: PublisherBackend = getPublisherBackend()): IPublisher {
+  return PUBLISHER_REGISTRY[backend]();
+}
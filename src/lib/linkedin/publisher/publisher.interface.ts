@@ -0,0 +1,96 @@
+/**
+ * Publisher - Abstract Interface
+ *
+ * Everything the app needs from LinkedIn: connecting an account, creating
+ * posts and first comments, uploading media, managing posts once they're
+ * live (edits, deletes, metrics, poll results) and refreshing tokens.
+ * Routes get an implementation from `createPublisher()` and never call a
+ * backend directly.
+ */
+
+import type {
+  CreatePostOptions,
+  DocumentUploadResult,
+  ImageUploadResult,
+  LinkedInTokens,
+  LinkedInVideoStatus,
+  VideoUploadOptions,
+  VideoUploadResult,
+} from '../linkedin-oauth';
+import type { LinkedInOrganization, LinkedInProfile, PollResults, PostMetrics } from '../types';
+
+/**
+ * Which implementation publishes:
+ * - `linkedin` — the real LinkedIn REST API
+ * - `fake`     — stores posts in Firestore (or memory) so the pipeline runs without LinkedIn
+ */
+export type PublisherBackend = 'linkedin' | 'fake';
+
+export interface IPublisher {
+  /** Human label for this publisher (e.g. "LinkedIn", "Fake LinkedIn") */
+  readonly name: string;
+
+  /** Backend key */
+  readonly backend: PublisherBackend;
+
+  /** This backend with its calls counted against `memberId`'s LinkedIn rate-limit budget */
+  forMember(memberId: string): IPublisher;
+
+  // ── Posts ────────────────────────────────────────────────────────────────
+
+  /** Publish a post — returns its URN */
+  createPost(options: CreatePostOptions): Promise<string>;
+
+  /** Comment on a published post as `actorUrn` — returns the comment URN */
+  createComment(accessToken: string, actorUrn: string, postUrn: string, text: string): Promise<string>;
+
+  /** Replace a live post's text */
+  updatePost(accessToken: string, postUrn: string, text: string): Promise<void>;
+
+  /** Delete a live post — one that's already gone counts as deleted */
+  deletePost(accessToken: string, postUrn: string): Promise<void>;
+
+  /** Current impressions, reactions, comments and reshares of a live post */
+  getPostMetrics(accessToken: string, postUrn: string, authorUrn: string): Promise<PostMetrics>;
+
+  /** Vote counts of a live poll post — null if it has no poll */
+  getPollResults(accessToken: string, postUrn: string): Promise<PollResults | null>;
+
+  // ── Media ────────────────────────────────────────────────────────────────
+
+  uploadImage(accessToken: string, authorUrn: string, data: Buffer): Promise<ImageUploadResult>;
+
+  /** Returns once uploaded — the video can't be posted until getVideoStatus says AVAILABLE */
+  uploadVideo(accessToken: string, authorUrn: string, data: Buffer, options?: VideoUploadOptions): Promise<VideoUploadResult>;
+
+  /** Where LinkedIn is with processing an uploaded video */
+  getVideoStatus(accessToken: string, videoUrn: string): Promise<{ status: LinkedInVideoStatus; failureReason?: string }>;
+
+  /** PDF for document carousels */
+  uploadDocument(accessToken: string, authorUrn: string, data: Buffer): Promise<DocumentUploadResult>;
+
+  // ── Auth ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Where to send the browser to connect an account. May be relative to
+   * this app — the fake backend sends it straight back to the callback.
+   */
+  getAuthUrl(state: string, codeChallenge: string): string;
+
+  /** Exchange the callback's authorization code (+ PKCE verifier) for tokens */
+  exchangeCode(code: string, codeVerifier: string): Promise<LinkedInTokens>;
+
+  /** Exchange a refresh token for new tokens */
+  refreshToken(refreshToken: string): Promise<LinkedInTokens>;
+
+  /** The member an access token belongs to */
+  getProfile(accessToken: string): Promise<LinkedInProfile>;
+
+  // ── Organizations ────────────────────────────────────────────────────────
+
+  /** Company Pages the member can post as */
+  getOrganizations(accessToken: string): Promise<LinkedInOrganization[]>;
+
+  /** Company Page by vanity name, for @mentions — null if there's none */
+  findOrganization(accessToken: string, vanityName: string): Promise<LinkedInOrganization | null>;
+}
@@ -0,0 +1,218 @@
+/**
+ * Publisher - Fake Implementation
+ *
+ * Lets the whole pipeline (connect → draft → approve → publish-all → first
+ * comment → live edits and metrics) run without LinkedIn. Posts are stored
+ * as the exact Posts API payload LinkedIn would have received, under fake
+ * URNs:
+ *
+ *   - `firestore` store → `fake_published_posts` collection (survives restarts,
+ *     shared across server instances — the default)
+ *   - `memory` store    → this process only; read back with `getFakePublishedPosts()`
+ *
+ * Connecting skips the consent page: the browser goes straight back to
+ * the callback with a fake code, which signs in a fake member who
+ * administers one fake Company Page. Uploads only check there's something
+ * to upload, videos are ready at once, metrics count only comments and
+ * tokens never expire.
+ */
+
+import 'server-only';
+import { randomUUID } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { FAKE_PUBLISHED_POSTS_COLLECTION } from '../../collections';
+import {
+  buildLinkedInPostPayload, type CreatePostOptions, type LinkedInTokens, type LinkedInVideoStatus,
+} from '../../linkedin-oauth';
+import { formatLittleText } from '../../little-text';
+import type { IPublisher, PublisherBackend } from '../publisher.interface';
+import type {
+  LinkedInCreatePostPayload, LinkedInOrganization, LinkedInProfile, PollResults, PostMetrics,
+} from '../../types';
+
+export type FakePublisherStore = 'firestore' | 'memory';
+
+/** A post the fake backend "published" */
+export interface FakePublishedPost {
+  urn: string;
+  payload: LinkedInCreatePostPayload;
+  comments: { urn: string; actorUrn: string; text: string; at: Date }[];
+  publishedAt: Date;
+}
+
+/** Same lifetime LinkedIn gives real access tokens */
+const FAKE_TOKEN_EXPIRES_IN = 60 * 24 * 60 * 60;
+
+const FAKE_CODE_PREFIX = 'fake-code-';
+const FAKE_CALLBACK_PATH = '/api/linkedin/callback';
+
+/** The Company Page every fake member administers */
+const FAKE_ORGANIZATION: LinkedInOrganization = {
+  urn: 'urn:li:organization:1000000',
+  name: 'Fake Company Page',
+  vanityName: 'fake-company',
+};
+
+const memoryPosts = new Map<string, FakePublishedPost>();
+
+/** Posts published to the in-memory store, newest first */
+export function getFakePublishedPosts(): FakePublishedPost[] {
+  return [...memoryPosts.values()].reverse();
+}
+
+function fakeUrn(kind: string): string {
+  return `urn:li:${kind}:fake-${randomUUID()}`;
+}
+
+function assertUpload(data: Buffer, what: string) {
+  if (!data.length) throw new Error(`Fake ${what} upload failed (400): empty file`);
+}
+
+export class FakePublisher implements IPublisher {
+  readonly name = 'Fake LinkedIn';
+  readonly backend: PublisherBackend = 'fake';
+
+  constructor(private readonly store: FakePublisherStore = 'firestore') {}
+
+  /** Nothing is rate limited */
+  forMember() {
+    return this;
+  }
+
+  // ── Posts ────────────────────────────────────────────────────────────────
+
+  async createPost(options: CreatePostOptions) {
+    // Firestore rejects undefined fields — LinkedIn never sees them either
+    const payload = JSON.parse(JSON.stringify(buildLinkedInPostPayload(options))) as LinkedInCreatePostPayload;
+    if (!payload.commentary.trim() && !payload.content) {
+      throw new Error('Fake create post failed (422): a post needs text or media');
+    }
+
+    const urn = fakeUrn('share');
+    if (this.store === 'memory') {
+      memoryPosts.set(urn, { urn, payload, comments: [], publishedAt: new Date() });
+    } else {
+      await getAdminDb().collection(FAKE_PUBLISHED_POSTS_COLLECTION).doc(urn).set({
+        urn,
+        payload,
+        comments: [],
+        publishedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    console.log(`[FakePublisher] Published ${urn} as ${payload.author}`);
+    return urn;
+  }
+
+  async createComment(_accessToken: string, actorUrn: string, postUrn: string, text: string) {
+    // serverTimestamp() isn't allowed inside arrays
+    const comment = { urn: fakeUrn('comment'), actorUrn, text, at: new Date() };
+
+    if (this.store === 'memory') {
+      const post = memoryPosts.get(postUrn);
+      if (!post) throw new Error(`Fake create comment failed (404): no post ${postUrn}`);
+      post.comments.push(comment);
+    } else {
+      const ref = getAdminDb().collection(FAKE_PUBLISHED_POSTS_COLLECTION).doc(postUrn);
+      if (!(await ref.get()).exists) throw new Error(`Fake create comment failed (404): no post ${postUrn}`);
+      await ref.update({ comments: FieldValue.arrayUnion(comment) });
+    }
+    return comment.urn;
+  }
+
+  async updatePost(_accessToken: string, postUrn: string, text: string) {
+    const commentary = formatLittleText(text);
+    if (this.store === 'memory') {
+      const post = memoryPosts.get(postUrn);
+      if (!post) throw new Error(`Fake update post failed (404): no post ${postUrn}`);
+      post.payload.commentary = commentary;
+    } else {
+      const ref = getAdminDb().collection(FAKE_PUBLISHED_POSTS_COLLECTION).doc(postUrn);
+      if (!(await ref.get()).exists) throw new Error(`Fake update post failed (404): no post ${postUrn}`);
+      await ref.update({ 'payload.commentary': commentary });
+    }
+  }
+
+  async deletePost(_accessToken: string, postUrn: string) {
+    if (this.store === 'memory') {
+      memoryPosts.delete(postUrn);
+    } else {
+      await getAdminDb().collection(FAKE_PUBLISHED_POSTS_COLLECTION).doc(postUrn).delete();
+    }
+  }
+
+  async getPostMetrics(_accessToken: string, postUrn: string): Promise<PostMetrics> {
+    const post = await this.findPost(postUrn);
+    if (!post) throw new Error(`Fake post statistics failed (404): no post ${postUrn}`);
+    return { impressions: 0, reactions: 0, comments: post.comments.length, reshares: 0 };
+  }
+
+  async getPollResults(_accessToken: string, postUrn: string): Promise<PollResults | null> {
+    const post = await this.findPost(postUrn);
+    if (!post) throw new Error(`Fake get post failed (404): no post ${postUrn}`);
+    const poll = post.payload.content?.poll;
+    if (!poll) return null;
+    return { options: poll.options.map(o => ({ text: o.text, voteCount: 0 })), uniqueVoters: 0 };
+  }
+
+  private async findPost(postUrn: string): Promise<FakePublishedPost | null> {
+    if (this.store === 'memory') return memoryPosts.get(postUrn) ?? null;
+    const snap = await getAdminDb().collection(FAKE_PUBLISHED_POSTS_COLLECTION).doc(postUrn).get();
+    return snap.exists ? (snap.data() as FakePublishedPost) : null;
+  }
+
+  // ── Media ────────────────────────────────────────────────────────────────
+
+  async uploadImage(_accessToken: string, _authorUrn: string, data: Buffer) {
+    assertUpload(data, 'image');
+    return { imageUrn: fakeUrn('image') };
+  }
+
+  async uploadVideo(_accessToken: string, _authorUrn: string, data: Buffer) {
+    assertUpload(data, 'video');
+    return { videoUrn: fakeUrn('video') };
+  }
+
+  async getVideoStatus(): Promise<{ status: LinkedInVideoStatus }> {
+    return { status: 'AVAILABLE' };
+  }
+
+  async uploadDocument(_accessToken: string, _authorUrn: string, data: Buffer) {
+    assertUpload(data, 'document');
+    return { documentUrn: fakeUrn('document') };
+  }
+
+  // ── Auth ─────────────────────────────────────────────────────────────────
+
+  getAuthUrl(state: string) {
+    const params = new URLSearchParams({ code: `${FAKE_CODE_PREFIX}${randomUUID()}`, state });
+    return `${FAKE_CALLBACK_PATH}?${params.toString()}`;
+  }
+
+  async exchangeCode(code: string): Promise<LinkedInTokens> {
+    if (!code.startsWith(FAKE_CODE_PREFIX)) throw new Error('Fake token exchange failed (400): unknown authorization code');
+    return {
+      accessToken: `fake-${randomUUID()}`,
+      expiresIn: FAKE_TOKEN_EXPIRES_IN,
+      refreshToken: `fake-refresh-${randomUUID()}`,
+    };
+  }
+
+  async refreshToken(refreshToken: string): Promise<LinkedInTokens> {
+    return { accessToken: `fake-${randomUUID()}`, expiresIn: FAKE_TOKEN_EXPIRES_IN, refreshToken };
+  }
+
+  async getProfile(): Promise<LinkedInProfile> {
+    return { sub: 'fake-member', name: 'Fake LinkedIn Member', email: 'fake-member@example.com' };
+  }
+
+  // ── Organizations ────────────────────────────────────────────────────────
+
+  async getOrganizations(): Promise<LinkedInOrganization[]> {
+    return [FAKE_ORGANIZATION];
+  }
+
+  async findOrganization(_accessToken: string, vanityName: string): Promise<LinkedInOrganization | null> {
+    return vanityName === FAKE_ORGANIZATION.vanityName ? FAKE_ORGANIZATION : null;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Publisher - LinkedIn Implementation
+ *
+ * Thin wrapper over the REST helpers in `linkedin-oauth.ts` — uploads,
+ * post creation and rate-limit tracking all live there. A publisher from
+ * `forMember` runs each call as that member (`runAsLinkedInMember`).
+ */
+
+import type { IPublisher, PublisherBackend } from '../publisher.interface';
+import { runAsLinkedInMember } from '../../linkedin-client';
+import {
+  createLinkedInComment,
+  createLinkedInPost,
+  deleteLinkedInPost,
+  exchangeCodeForTokens,
+  findOrganizationByVanityName,
+  getAdministeredOrganizations,
+  getLinkedInAuthUrl,
+  getLinkedInPollResults,
+  getLinkedInPostMetrics,
+  getLinkedInProfile,
+  getLinkedInVideoStatus,
+  refreshAccessToken,
+  updateLinkedInPost,
+  uploadDocumentToLinkedIn,
+  uploadImageToLinkedIn,
+  uploadVideoToLinkedIn,
+  type CreatePostOptions,
+  type VideoUploadOptions,
+} from '../../linkedin-oauth';
+
+export class LinkedInPublisher implements IPublisher {
+  readonly name = 'LinkedIn';
+  readonly backend: PublisherBackend = 'linkedin';
+
+  constructor(private readonly memberId: string | null = null) {}
+
+  forMember(memberId: string) {
+    return new LinkedInPublisher(memberId);
+  }
+
+  private asMember<T>(call: () => Promise<T>): Promise<T> {
+    return this.memberId ? runAsLinkedInMember(this.memberId, call) : call();
+  }
+
+  createPost(options: CreatePostOptions) {
+    return this.asMember(() => createLinkedInPost(options));
+  }
+
+  createComment(accessToken: string, actorUrn: string, postUrn: string, text: string) {
+    return this.asMember(() => createLinkedInComment(accessToken, actorUrn, postUrn, text));
+  }
+
+  updatePost(accessToken: string, postUrn: string, text: string) {
+    return this.asMember(() => updateLinkedInPost(accessToken, postUrn, text));
+  }
+
+  deletePost(accessToken: string, postUrn: string) {
+    return this.asMember(() => deleteLinkedInPost(accessToken, postUrn));
+  }
+
+  getPostMetrics(accessToken: string, postUrn: string, authorUrn: string) {
+    return this.asMember(() => getLinkedInPostMetrics(accessToken, postUrn, authorUrn));
+  }
+
+  getPollResults(accessToken: string, postUrn: string) {
+    return this.asMember(() => getLinkedInPollResults(accessToken, postUrn));
+  }
+
+  uploadImage(accessToken: string, authorUrn: string, data: Buffer) {
+    return this.asMember(() => uploadImageToLinkedIn(accessToken, authorUrn, data));
+  }
+
+  uploadVideo(accessToken: string, authorUrn: string, data: Buffer, options?: VideoUploadOptions) {
+    return this.asMember(() => uploadVideoToLinkedIn(accessToken, authorUrn, data, options));
+  }
+
+  getVideoStatus(accessToken: string, videoUrn: string) {
+    return this.asMember(() => getLinkedInVideoStatus(accessToken, videoUrn));
+  }
+
+  uploadDocument(accessToken: string, authorUrn: string, data: Buffer) {
+    return this.asMember(() => uploadDocumentToLinkedIn(accessToken, authorUrn, data));
+  }
+
+  getAuthUrl(state: string, codeChallenge: string) {
+    return getLinkedInAuthUrl(state, codeChallenge);
+  }
+
+  exchangeCode(code: string, codeVerifier: string) {
+    return exchangeCodeForTokens(code, codeVerifier);
+  }
+
+  refreshToken(refreshToken: string) {
+    return refreshAccessToken(refreshToken);
+  }
+
+  getProfile(accessToken: string) {
+    return this.asMember(() => getLinkedInProfile(accessToken));
+  }
+
+  getOrganizations(accessToken: string) {
+    return this.asMember(() => getAdministeredOrganizations(accessToken));
+  }
+
+  findOrganization(accessToken: string, vanityName: string) {
+    return this.asMember(() => findOrganizationByVanityName(accessToken, vanityName));
+  }
+}
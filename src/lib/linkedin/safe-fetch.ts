@@ -0,0 +1,219 @@
+/**
+ * Guarded fetch for user-supplied URLs
+ *
+ * Link previews, article thumbnails and video thumbnails are downloaded by
+ * our server from URLs the user typed, and Mastodon calls go to whichever
+ * server the user named, so every request here:
+ *   - only speaks http(s)
+ *   - connects only to public addresses — the check runs on the address
+ *     the socket actually connects to, so a DNS name pointing at a private
+ *     IP (or re-pointed after a first lookup) is refused too
+ *   - follows redirects itself, re-checking every hop (GET only — a
+ *     redirected POST comes back as the 3xx response)
+ *   - stops reading after a byte cap and gives up after a timeout
+ */
+
+import 'server-only';
+import { lookup as dnsLookup, type LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 5;
+
+/** Article and video thumbnails — far more than any real thumbnail needs */
+export const MAX_THUMBNAIL_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Loopback, private, link-local, CGNAT, multicast, reserved — never fetched.
+ * IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the
+ * IPv4 ranges.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64],
+  ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** The URL points somewhere our server must not fetch from */
+export class UnsafeUrlError extends Error {
+  constructor(message = 'That address is not publicly reachable') {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+export interface PublicFetchOptions {
+  /** Defaults to GET */
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  /** Request body, sent as-is — set the Content-Type in `headers` */
+  body?: string;
+  /** Most bytes of body to read */
+  maxBytes: number;
+  /** Past `maxBytes`: true keeps what was read, false fails the download */
+  truncate?: boolean;
+  /** Across all redirects */
+  timeoutMs?: number;
+}
+
+export interface PublicFetchResponse {
+  /** The final URL, after redirects */
+  url: string;
+  status: number;
+  ok: boolean;
+  contentType: string;
+  body: Buffer;
+}
+
+// ── Address checks ───────────────────────────────────────────────────────────
+
+/** True for an IP address that isn't on the public internet */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/** Resolves like dns.lookup, but fails if any address for the host is private */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+    if (err) return callback(err, '', 0);
+    if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address))) {
+      return callback(new UnsafeUrlError(), '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/** Parse and pre-check a URL — IP literals never reach the lookup, so they're checked here */
+function toPublicUrl(value: string | URL): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new UnsafeUrlError('Enter a full http(s) URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new UnsafeUrlError('Enter a full http(s) URL');
+  if (url.username || url.password) throw new UnsafeUrlError();
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (host.toLowerCase() === 'localhost' || (isIP(host) && isPrivateAddress(host))) throw new UnsafeUrlError();
+  return url;
+}
+
+// ── Requests ─────────────────────────────────────────────────────────────────
+
+function tooLarge(maxBytes: number): Error {
+  return new Error(`Download is larger than ${Math.ceil(maxBytes / 1024)} KB`);
+}
+
+/** One request, no redirects followed */
+function requestOnce(
+  url: URL,
+  options: PublicFetchOptions,
+  signal: AbortSignal,
+): Promise<{ status: number; location?: string; contentType: string; body: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.request(url, {
+      method: options.method ?? 'GET',
+      headers: options.body === undefined
+        ? options.headers
+        : { ...options.headers, 'Content-Length': String(Buffer.byteLength(options.body)) },
+      lookup: publicOnlyLookup,
+      signal,
+    }, (res) => {
+      const status = res.statusCode ?? 0;
+      const location = res.headers.location;
+      const contentType = res.headers['content-type'] ?? '';
+
+      if (status >= 300 && status < 400 && location) {
+        res.resume();
+        return resolve({ status, location, contentType, body: Buffer.alloc(0) });
+      }
+
+      const declared = Number(res.headers['content-length']);
+      if (!options.truncate && declared > options.maxBytes) {
+        res.destroy();
+        return reject(tooLarge(options.maxBytes));
+      }
+
+      const chunks: Buffer[] = [];
+      let bytes = 0;
+      res.on('data', (chunk: Buffer) => {
+        if (bytes + chunk.byteLength > options.maxBytes) {
+          if (!options.truncate) {
+            res.destroy();
+            return reject(tooLarge(options.maxBytes));
+          }
+          chunks.push(chunk.subarray(0, options.maxBytes - bytes));
+          res.destroy();
+          return resolve({ status, contentType, body: Buffer.concat(chunks) });
+        }
+        bytes += chunk.byteLength;
+        chunks.push(chunk);
+      });
+      res.on('end', () => resolve({ status, contentType, body: Buffer.concat(chunks) }));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+/**
+ * Request a user-supplied URL from the server — public addresses only,
+ * redirects re-checked hop by hop, body capped at `maxBytes`.
+ *
+ * @throws UnsafeUrlError for a private / non-http(s) URL or redirect target,
+ *   the timeout's TimeoutError, or a network error
+ */
+export async function fetchPublicUrl(value: string, options: PublicFetchOptions): Promise<PublicFetchResponse> {
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let url = toPublicUrl(value);
+
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const res = await requestOnce(url, options, signal);
+      if (res.location && (options.method ?? 'GET') === 'GET') {
+        url = toPublicUrl(new URL(res.location, url));
+        continue;
+      }
+      return {
+        url: url.toString(),
+        status: res.status,
+        ok: res.status >= 200 && res.status < 300,
+        contentType: res.contentType,
+        body: res.body,
+      };
+    }
+  } catch (err) {
+    // Surface the timeout itself, not the AbortError it causes
+    if (signal.aborted) throw signal.reason;
+    throw err;
+  }
+  throw new Error('Too many redirects');
+}
+
+/**
+ * Download media from a user-supplied URL — same guards as fetchPublicUrl.
+ * Fails if the file is bigger than `maxBytes`.
+ */
+export async function downloadPublicMedia(url: string, maxBytes: number): Promise<Buffer> {
+  const res = await fetchPublicUrl(url, { maxBytes });
+  if (!res.ok) throw new Error(`Failed to download media from ${url} (${res.status})`);
+  return res.body;
+}
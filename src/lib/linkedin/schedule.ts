@@ -0,0 +1,130 @@
+/**
+ * Weekly posting schedule rules
+ *
+ * Each weekday holds up to MAX_SLOTS_PER_DAY posting slots — say a
+ * morning and an evening post — each with its own time and, optionally,
+ * a media type or series for the posts booked into it.
+ *
+ * Profiles saved before slots existed have a single `postTime` per day;
+ * `normalizePostingSchedule` reads both shapes, and the migrate-schedules
+ * endpoint rewrites the old one.
+ *
+ * Safe on client and server.
+ */
+
+import { addDays, weekdayOf, zonedToday, zonedToUtc } from './timezone';
+import type { PostingDay, PostingSchedule, PostingSlot, PostMediaType } from './types';
+
+/** Weekdays in display order */
+export const POSTING_DAYS: (keyof PostingSchedule)[] = [
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+];
+
+export const MAX_SLOTS_PER_DAY = 4;
+
+/** How far ahead autopilot books slots unless the profile says otherwise */
+export const AUTOPILOT_DEFAULT_DAYS = 7;
+export const AUTOPILOT_MAX_DAYS = 14;
+
+/** Media types a slot can default to — the ones a scheduled post can be booked as */
+export const SLOT_MEDIA_TYPES: PostMediaType[] = ['text', 'image', 'video', 'html', 'poll'];
+
+export const DEFAULT_POSTING_SCHEDULE: PostingSchedule = {
+  monday: { enabled: false, slots: [{ time: '10:00' }] },
+  tuesday: { enabled: true, slots: [{ time: '10:00' }] },
+  wednesday: { enabled: true, slots: [{ time: '09:00' }] },
+  thursday: { enabled: true, slots: [{ time: '10:00' }] },
+  friday: { enabled: false, slots: [{ time: '10:00' }] },
+  saturday: { enabled: false, slots: [{ time: '10:00' }] },
+  sunday: { enabled: false, slots: [{ time: '10:00' }] },
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Coerce untrusted input into a slot — null without a valid "HH:mm" time */
+export function normalizePostingSlot(input: unknown): PostingSlot | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.time !== 'string' || !TIME_PATTERN.test(raw.time)) return null;
+
+  const slot: PostingSlot = { time: raw.time };
+  if (SLOT_MEDIA_TYPES.includes(raw.mediaType as PostMediaType)) slot.mediaType = raw.mediaType as PostMediaType;
+  if (typeof raw.seriesId === 'string' && raw.seriesId) slot.seriesId = raw.seriesId;
+  return slot;
+}
+
+/**
+ * Coerce untrusted input into a day: valid slots only, earliest first,
+ * one per time, at most MAX_SLOTS_PER_DAY. A legacy `{ postTime }` day
+ * becomes a single slot.
+ */
+export function normalizePostingDay(input: unknown): PostingDay {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const rawSlots = Array.isArray(raw.slots) ? raw.slots : [{ time: raw.postTime }];
+
+  const slots: PostingSlot[] = [];
+  for (const candidate of rawSlots) {
+    const slot = normalizePostingSlot(candidate);
+    if (slot && !slots.some(s => s.time === slot.time)) slots.push(slot);
+  }
+  slots.sort((a, b) => a.time.localeCompare(b.time));
+
+  return { enabled: raw.enabled === true, slots: slots.slice(0, MAX_SLOTS_PER_DAY) };
+}
+
+/** Coerce untrusted input (either shape) into a full weekly schedule — missing days are off */
+export function normalizePostingSchedule(input: unknown): PostingSchedule {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    POSTING_DAYS.map(day => [day, normalizePostingDay(raw[day])]),
+  ) as unknown as PostingSchedule;
+}
+
+/** True if a stored schedule still has the single-`postTime` shape */
+export function isLegacyPostingSchedule(input: unknown): boolean {
+  if (!input || typeof input !== 'object') return false;
+  return Object.values(input as Record<string, unknown>).some(
+    day => !!day && typeof day === 'object' && !Array.isArray((day as Record<string, unknown>).slots),
+  );
+}
+
+/** Valid autopilot look-ahead in days — falls back to AUTOPILOT_DEFAULT_DAYS */
+export function normalizeAutopilotDays(input: unknown): number {
+  if (typeof input !== 'number' || !Number.isFinite(input)) return AUTOPILOT_DEFAULT_DAYS;
+  return Math.max(1, Math.min(AUTOPILOT_MAX_DAYS, Math.floor(input)));
+}
+
+// ── Slot times ───────────────────────────────────────────────────────────────
+
+/** A posting slot on a specific date */
+export interface UpcomingSlot {
+  at: Date;
+  slot: PostingSlot;
+}
+
+/**
+ * Every enabled slot from `from` through the next `days` calendar days in
+ * `timeZone`, earliest first. Slots that already passed are left out, as
+ * is a slot a DST gap moves onto another slot's time.
+ */
+export function upcomingSlotTimes(
+  schedule: PostingSchedule,
+  timeZone: string,
+  days: number,
+  from: Date = new Date(),
+): UpcomingSlot[] {
+  const today = zonedToday(timeZone, from);
+
+  const result: UpcomingSlot[] = [];
+  for (let d = 0; d < days; d++) {
+    const date = addDays(today, d);
+    const day = schedule[weekdayOf(date)];
+    if (!day?.enabled) continue;
+
+    for (const slot of day.slots) {
+      const at = zonedToUtc(date, slot.time, timeZone);
+      if (at > from && !result.some(r => r.at.getTime() === at.getTime())) result.push({ at, slot });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,45 @@
+/**
+ * Connection Audit Service — who connected or disconnected which LinkedIn
+ * account, when, and from where
+ *
+ * Append-only: events are never updated or deleted by the app. Writing an
+ * event never blocks the flow it describes — callers log a failure and
+ * carry on.
+ */
+
+import 'server-only';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { NextRequest } from 'next/server';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { firebaseVoidHandler } from '@/lib/firebase/handler';
+import { CONNECTION_AUDIT_COLLECTION } from '../collections';
+import type { ConnectionAuditAction, ConnectionAuditEvent } from '../types';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Client IP + user agent of the request behind an event */
+export function auditRequestInfo(request: NextRequest): Pick<ConnectionAuditEvent, 'ip' | 'userAgent'> {
+  return {
+    ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || undefined,
+    userAgent: request.headers.get('user-agent')?.slice(0, 300) || undefined,
+  };
+}
+
+// ── Service ──────────────────────────────────────────────────────────────────
+
+export const ConnectionAuditService = {
+  /** Append an event */
+  record(userId: string, action: ConnectionAuditAction, details: Pick<ConnectionAuditEvent, 'accountId' | 'reason' | 'ip' | 'userAgent'> = {}) {
+    return firebaseVoidHandler(async () => {
+      await getAdminDb().collection(CONNECTION_AUDIT_COLLECTION).add({
+        userId,
+        action,
+        accountId: details.accountId ?? null,
+        reason: details.reason ?? null,
+        ip: details.ip ?? null,
+        userAgent: details.userAgent ?? null,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }, 'ConnectionAuditService.record');
+  },
+};
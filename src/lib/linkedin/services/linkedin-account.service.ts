@@ -0,0 +1,285 @@
+/**
+ * LinkedIn Account Service — connected LinkedIn accounts per app user
+ *
+ * Accounts live in the `linkedin_accounts` sub-collection of the user's
+ * autoposter profile. Each holds its own OAuth tokens, expiry, display
+ * info and administered Company Pages. The profile keeps a
+ * `defaultLinkedinAccountId` used when a post or series doesn't pick one.
+ *
+ * Tokens are encrypted at rest (see token-crypto) — every method here
+ * takes and returns them in plaintext.
+ */
+
+import 'server-only';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { firebaseHandler, firebaseVoidHandler } from '@/lib/firebase/handler';
+import { PROFILES_COLLECTION, LINKEDIN_ACCOUNTS_SUBCOLLECTION } from '../collections';
+import { decryptToken, encryptToken, isEncryptedToken } from '../token-crypto';
+import type { LinkedInAccount, LinkedInAccountSummary, LinkedInOrganization } from '../types';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function accountsRef(userId: string) {
+  return getAdminDb()
+    .collection(PROFILES_COLLECTION)
+    .doc(userId)
+    .collection(LINKEDIN_ACCOUNTS_SUBCOLLECTION);
+}
+
+/** New tokens end any "reconnect needed" state for the account */
+async function clearReconnectFlag(userId: string, accountId: string) {
+  const ref = getAdminDb().collection(PROFILES_COLLECTION).doc(userId);
+  const snap = await ref.get();
+  const flagged = (snap.data()?.linkedinReconnectAccountIds as string[] | undefined) ?? [];
+  if (!flagged.includes(accountId)) return;
+  await ref.update({
+    linkedinReconnectAccountIds: FieldValue.arrayRemove(accountId),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+async function toAccount(userId: string, id: string, data: FirebaseFirestore.DocumentData): Promise<LinkedInAccount> {
+  const accessToken = data.accessToken ? await decryptToken(userId, data.accessToken) : data.accessToken;
+  const refreshToken = data.refreshToken ? await decryptToken(userId, data.refreshToken) : data.refreshToken;
+  return {
+    ...data,
+    id,
+    accessToken,
+    refreshToken,
+    organizations: data.organizations ?? [],
+    tokenExpiry: (data.tokenExpiry as Timestamp)?.toDate?.() ?? undefined,
+    tokenExpiryWarnedAt: (data.tokenExpiryWarnedAt as Timestamp)?.toDate?.() ?? undefined,
+    createdAt: (data.createdAt as Timestamp)?.toDate?.() ?? new Date(),
+    updatedAt: (data.updatedAt as Timestamp)?.toDate?.() ?? new Date(),
+  } as LinkedInAccount;
+}
+
+/** Strip OAuth tokens before an account leaves the server */
+export function toAccountSummary(account: LinkedInAccount, defaultAccountId?: string): LinkedInAccountSummary {
+  return {
+    id: account.id,
+    userId: account.userId,
+    memberUrn: account.memberUrn,
+    name: account.name,
+    email: account.email,
+    pictureUrl: account.pictureUrl,
+    tokenExpiry: account.tokenExpiry,
+    organizations: account.organizations,
+    createdAt: account.createdAt,
+    updatedAt: account.updatedAt,
+    isDefault: account.id === defaultAccountId,
+  };
+}
+
+// ── Service ──────────────────────────────────────────────────────────────────
+
+export const LinkedInAccountService = {
+  /**
+   * Create or refresh a connected account after OAuth.
+   * Doc ID = LinkedIn member `sub`, so reconnecting updates in place.
+   */
+  upsert(userId: string, data: {
+    accountId: string;
+    memberUrn: string;
+    name: string;
+    email?: string;
+    pictureUrl?: string;
+    accessToken: string;
+    refreshToken?: string;
+    expiresIn: number;
+  }) {
+    return firebaseHandler(async () => {
+      const ref = accountsRef(userId).doc(data.accountId);
+      const existing = await ref.get();
+      await ref.set({
+        userId,
+        memberUrn: data.memberUrn,
+        name: data.name,
+        email: data.email ?? null,
+        pictureUrl: data.pictureUrl ?? null,
+        accessToken: await encryptToken(userId, data.accessToken),
+        refreshToken: data.refreshToken ? await encryptToken(userId, data.refreshToken) : null,
+        tokenExpiry: new Date(Date.now() + data.expiresIn * 1000),
+        tokenExpiryWarnedAt: null,
+        ...(existing.exists ? {} : { organizations: [], createdAt: FieldValue.serverTimestamp() }),
+        updatedAt: FieldValue.serverTimestamp(),
+      }, { merge: true });
+      await clearReconnectFlag(userId, data.accountId);
+      return data.accountId;
+    }, 'LinkedInAccountService.upsert');
+  },
+
+  /** Get a single connected account (with tokens) */
+  getById(userId: string, accountId: string) {
+    return firebaseHandler(async () => {
+      const snap = await accountsRef(userId).doc(accountId).get();
+      if (!snap.exists) return null;
+      return toAccount(userId, snap.id, snap.data()!);
+    }, 'LinkedInAccountService.getById');
+  },
+
+  /** All connected accounts for a user, oldest first */
+  getAll(userId: string) {
+    return firebaseHandler(async () => {
+      const snap = await accountsRef(userId).orderBy('createdAt', 'asc').get();
+      return Promise.all(snap.docs.map(d => toAccount(userId, d.id, d.data())));
+    }, 'LinkedInAccountService.getAll');
+  },
+
+  /**
+   * Resolve the account a post should publish with.
+   *
+   * An explicit `accountId` never falls back — publishing to a different
+   * account than the one the user picked would be worse than failing.
+   * Without one we use the profile default; profiles connected before
+   * multi-account support are migrated into the sub-collection here.
+   */
+  getForPublishing(userId: string, accountId?: string | null) {
+    return firebaseHandler(async () => {
+      if (accountId) {
+        const snap = await accountsRef(userId).doc(accountId).get();
+        return snap.exists ? toAccount(userId, snap.id, snap.data()!) : null;
+      }
+
+      const db = getAdminDb();
+      const profileRef = db.collection(PROFILES_COLLECTION).doc(userId);
+      const profileSnap = await profileRef.get();
+      const profile = profileSnap.data();
+      if (!profile) return null;
+
+      if (profile.defaultLinkedinAccountId) {
+        const snap = await accountsRef(userId).doc(profile.defaultLinkedinAccountId).get();
+        if (snap.exists) return toAccount(userId, snap.id, snap.data()!);
+      }
+
+      // Legacy single-account profile → move tokens into linkedin_accounts
+      if (!profile.linkedinAccessToken || !profile.linkedinMemberUrn) return null;
+
+      const legacyId = (profile.linkedinMemberUrn as string).split(':').pop()!;
+      await accountsRef(userId).doc(legacyId).set({
+        userId,
+        memberUrn: profile.linkedinMemberUrn,
+        name: 'LinkedIn account',
+        email: null,
+        pictureUrl: null,
+        accessToken: await encryptToken(userId, profile.linkedinAccessToken),
+        refreshToken: profile.linkedinRefreshToken ? await encryptToken(userId, profile.linkedinRefreshToken) : null,
+        tokenExpiry: profile.linkedinTokenExpiry ?? null,
+        organizations: profile.linkedinOrganizations ?? [],
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      await profileRef.update({
+        defaultLinkedinAccountId: legacyId,
+        linkedinAccessToken: null,
+        linkedinRefreshToken: null,
+        linkedinTokenExpiry: null,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      const migrated = await accountsRef(userId).doc(legacyId).get();
+      return toAccount(userId, migrated.id, migrated.data()!);
+    }, 'LinkedInAccountService.getForPublishing');
+  },
+
+  /** Store refreshed OAuth tokens for one account */
+  setTokens(userId: string, accountId: string, tokens: {
+    accessToken: string;
+    refreshToken?: string;
+    expiresIn: number;
+  }) {
+    return firebaseVoidHandler(async () => {
+      await accountsRef(userId).doc(accountId).update({
+        accessToken: await encryptToken(userId, tokens.accessToken),
+        refreshToken: tokens.refreshToken ? await encryptToken(userId, tokens.refreshToken) : null,
+        tokenExpiry: new Date(Date.now() + tokens.expiresIn * 1000),
+        tokenExpiryWarnedAt: null,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      await clearReconnectFlag(userId, accountId);
+    }, 'LinkedInAccountService.setTokens');
+  },
+
+  /**
+   * The account's token is about to expire and can't be refreshed:
+   * remember that the user was warned and flag the profile so Settings
+   * asks for a reconnect.
+   */
+  markTokenExpiring(userId: string, accountId: string) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      const batch = db.batch();
+      batch.update(accountsRef(userId).doc(accountId), {
+        tokenExpiryWarnedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      batch.update(db.collection(PROFILES_COLLECTION).doc(userId), {
+        linkedinReconnectAccountIds: FieldValue.arrayUnion(accountId),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      await batch.commit();
+    }, 'LinkedInAccountService.markTokenExpiring');
+  },
+
+  /** Flag the profile so Settings asks for a reconnect of this account */
+  flagForReconnect(userId: string, accountId: string) {
+    return firebaseVoidHandler(async () => {
+      await getAdminDb().collection(PROFILES_COLLECTION).doc(userId).update({
+        linkedinReconnectAccountIds: FieldValue.arrayUnion(accountId),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'LinkedInAccountService.flagForReconnect');
+  },
+
+  /** Cache the Company Pages the member administers (author picker options) */
+  setOrganizations(userId: string, accountId: string, organizations: LinkedInOrganization[]) {
+    return firebaseVoidHandler(async () => {
+      await accountsRef(userId).doc(accountId).update({
+        organizations: organizations.map(o => ({
+          urn: o.urn,
+          name: o.name,
+          vanityName: o.vanityName ?? null,
+        })),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'LinkedInAccountService.setOrganizations');
+  },
+
+  /**
+   * Encrypt any tokens still stored in plaintext (written before
+   * encryption at rest). Returns how many fields were encrypted.
+   */
+  encryptStoredTokens(userId: string) {
+    return firebaseHandler(async () => {
+      const db = getAdminDb();
+      const snap = await accountsRef(userId).get();
+      let encrypted = 0;
+      for (const doc of snap.docs) {
+        // In a transaction so a token refreshed meanwhile isn't overwritten
+        encrypted += await db.runTransaction(async (tx) => {
+          const current = await tx.get(doc.ref);
+          const updates: Record<string, string> = {};
+          for (const field of ['accessToken', 'refreshToken'] as const) {
+            const value = current.get(field);
+            if (typeof value === 'string' && value && !isEncryptedToken(value)) {
+              updates[field] = await encryptToken(userId, value);
+            }
+          }
+          if (Object.keys(updates).length > 0) tx.update(doc.ref, updates);
+          return Object.keys(updates).length;
+        });
+      }
+      return encrypted;
+    }, 'LinkedInAccountService.encryptStoredTokens');
+  },
+
+  /** Disconnect one account (tokens are deleted with the doc) */
+  remove(userId: string, accountId: string) {
+    return firebaseVoidHandler(async () => {
+      await accountsRef(userId).doc(accountId).delete();
+      await clearReconnectFlag(userId, accountId);
+    }, 'LinkedInAccountService.remove');
+  },
+};
@@ -0,0 +1,234 @@
+/**
+ * LinkedIn Rate Limit Service — daily API call budgets
+ *
+ * LinkedIn caps calls per member and per app each day and answers 429 once
+ * either is used up. Every call made through `linkedinFetch` is counted
+ * here against both budgets, and a 429 blocks further calls until its
+ * Retry-After, so publishing stops before LinkedIn starts refusing it.
+ *
+ * Counters are sharded so no single doc takes a write per call: a call
+ * increments one random shard of the app's counter (`app_<day>_<n>`) and of
+ * the member's (`member_<sub>_<day>_<n>`), outside any transaction. Budget
+ * checks read the shard totals at most every USAGE_CACHE_MS per server
+ * instance, so a budget can overshoot by what other instances called in
+ * that window — the budgets sit well under LinkedIn's limits to allow for
+ * it. 429 back-offs live on `member_<sub>`.
+ *
+ * Only today's shards are ever read. Each carries an `expireAt` two days
+ * out, and a Firestore TTL policy on that field (firestore.indexes.json)
+ * deletes old days' shards.
+ */
+
+import 'server-only';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { firebaseHandler, firebaseVoidHandler } from '@/lib/firebase/handler';
+import { LINKEDIN_RATE_LIMITS_COLLECTION } from '../collections';
+import type { LinkedInApiUsage } from '../types';
+
+// ── Budgets ──────────────────────────────────────────────────────────────────
+
+/** Kept under LinkedIn's own limits so a busy day never reaches a 429 */
+const DEFAULT_MEMBER_DAILY_CALLS = 500;
+const DEFAULT_APP_DAILY_CALLS = 100_000;
+
+const APP_DOC_ID = 'app';
+
+/** Shards per counter — the app's takes every call, a member's a burst of them */
+const APP_COUNTER_SHARDS = 10;
+const MEMBER_COUNTER_SHARDS = 3;
+
+/** How long an instance trusts the counts it last read */
+const USAGE_CACHE_MS = 15_000;
+
+/** Members whose counts one instance keeps cached */
+const MAX_CACHED_COUNTS = 1_000;
+
+/** Days a counter shard is kept after its own — TTL deletes it after that */
+const SHARD_RETENTION_DAYS = 2;
+
+function budgetFromEnv(name: string, fallback: number): number {
+  const configured = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+/** Calls one member may make per UTC day — `LINKEDIN_MEMBER_DAILY_CALLS` env, default 500 */
+export function getMemberDailyBudget(): number {
+  return budgetFromEnv('LINKEDIN_MEMBER_DAILY_CALLS', DEFAULT_MEMBER_DAILY_CALLS);
+}
+
+/** Calls the whole app may make per UTC day — `LINKEDIN_APP_DAILY_CALLS` env, default 100,000 */
+export function getAppDailyBudget(): number {
+  return budgetFromEnv('LINKEDIN_APP_DAILY_CALLS', DEFAULT_APP_DAILY_CALLS);
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** When LinkedIn's daily counters reset */
+export function nextUtcMidnight(from = new Date()): Date {
+  const midnight = new Date(from);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight;
+}
+
+function memberDocId(memberId: string): string {
+  return `member_${memberId}`;
+}
+
+function shardDocId(scopeId: string, day: string, shard: number): string {
+  return `${scopeId}_${day}_${shard}`;
+}
+
+/** When a shard for `day` may be deleted */
+function shardExpiry(day: string): Date {
+  const expireAt = new Date(`${day}T00:00:00Z`);
+  expireAt.setUTCDate(expireAt.getUTCDate() + SHARD_RETENTION_DAYS);
+  return expireAt;
+}
+
+/** Today's calls across a counter's shards, plus any 429 back-off */
+interface CallCounts {
+  day: string;
+  calls: number;
+  limitedUntil: Date | null;
+  readAt: number;
+}
+
+/** Last counts read per counter (`app`, `member_<sub>`) on this instance */
+const countsCache = new Map<string, CallCounts>();
+
+function cacheCounts(scopeId: string, counts: CallCounts): void {
+  countsCache.delete(scopeId);
+  countsCache.set(scopeId, counts);
+  // Oldest first — drop whatever hasn't been read the longest
+  if (countsCache.size > MAX_CACHED_COUNTS) countsCache.delete(countsCache.keys().next().value!);
+}
+
+/** Sum the counter's shards for today, or reuse a read younger than `maxAgeMs` */
+async function readCounts(scopeId: string, shards: number, now: Date, maxAgeMs: number): Promise<CallCounts> {
+  const day = utcDay(now);
+  const cached = countsCache.get(scopeId);
+  if (cached && cached.day === day && now.getTime() - cached.readAt < maxAgeMs) return cached;
+
+  const db = getAdminDb();
+  const col = db.collection(LINKEDIN_RATE_LIMITS_COLLECTION);
+  const shardRefs = Array.from({ length: shards }, (_, n) => col.doc(shardDocId(scopeId, day, n)));
+  const [blockSnap, ...shardSnaps] = await db.getAll(col.doc(scopeId), ...shardRefs);
+
+  const counts: CallCounts = {
+    day,
+    calls: shardSnaps.reduce((sum, snap) => sum + ((snap.get('calls') as number | undefined) ?? 0), 0),
+    limitedUntil: (blockSnap.get('limitedUntil') as Timestamp | null | undefined)?.toDate?.() ?? null,
+    readAt: now.getTime(),
+  };
+  cacheCounts(scopeId, counts);
+  return counts;
+}
+
+/** Add one call to a random shard of the counter (and to the cached total) */
+function countCall(
+  batch: FirebaseFirestore.WriteBatch,
+  scopeId: string,
+  shards: number,
+  counts: CallCounts,
+  memberId: string | null,
+): void {
+  counts.calls += 1;
+  const ref = getAdminDb()
+    .collection(LINKEDIN_RATE_LIMITS_COLLECTION)
+    .doc(shardDocId(scopeId, counts.day, Math.floor(Math.random() * shards)));
+  batch.set(ref, {
+    ...(memberId ? { memberId } : {}),
+    day: counts.day,
+    calls: FieldValue.increment(1),
+    expireAt: shardExpiry(counts.day),
+    updatedAt: FieldValue.serverTimestamp(),
+  }, { merge: true });
+}
+
+function toUsage(counts: CallCounts, budget: number, now: Date): LinkedInApiUsage {
+  return {
+    day: counts.day,
+    calls: counts.calls,
+    budget,
+    limitedUntil: counts.limitedUntil && counts.limitedUntil > now ? counts.limitedUntil : null,
+  };
+}
+
+/** Which budget is blocking calls and until when — `member` when both are */
+export type LinkedInRateLimitBlock = { scope: 'member' | 'app'; retryAt: Date };
+
+function blockOf(usage: LinkedInApiUsage, scope: LinkedInRateLimitBlock['scope'], now: Date): LinkedInRateLimitBlock | null {
+  if (usage.limitedUntil) return { scope, retryAt: usage.limitedUntil };
+  if (usage.calls >= usage.budget) return { scope, retryAt: nextUtcMidnight(now) };
+  return null;
+}
+
+async function currentBlock(memberId: string | null, now: Date): Promise<{
+  block: LinkedInRateLimitBlock | null;
+  app: CallCounts;
+  member: CallCounts | null;
+}> {
+  const [app, member] = await Promise.all([
+    readCounts(APP_DOC_ID, APP_COUNTER_SHARDS, now, USAGE_CACHE_MS),
+    memberId ? readCounts(memberDocId(memberId), MEMBER_COUNTER_SHARDS, now, USAGE_CACHE_MS) : null,
+  ]);
+  const block = (member && blockOf(toUsage(member, getMemberDailyBudget(), now), 'member', now))
+    ?? blockOf(toUsage(app, getAppDailyBudget(), now), 'app', now);
+  return { block, app, member };
+}
+
+// ── Service ──────────────────────────────────────────────────────────────────
+
+export const LinkedInRateLimitService = {
+  /** Today's usage for one member */
+  getUsage(memberId: string) {
+    return firebaseHandler(async () => {
+      const now = new Date();
+      const counts = await readCounts(memberDocId(memberId), MEMBER_COUNTER_SHARDS, now, 0);
+      return toUsage(counts, getMemberDailyBudget(), now);
+    }, 'LinkedInRateLimitService.getUsage');
+  },
+
+  /** Null if `memberId` (and the app) can still call LinkedIn today */
+  getBlock(memberId: string) {
+    return firebaseHandler(async () => (await currentBlock(memberId, new Date())).block, 'LinkedInRateLimitService.getBlock');
+  },
+
+  /**
+   * Count one call against the app's budget and, when known, the member's.
+   * Nothing is counted and the block is returned while either budget is
+   * used up or a 429 back-off is running.
+   */
+  reserveCall(memberId: string | null) {
+    return firebaseHandler(async (): Promise<LinkedInRateLimitBlock | null> => {
+      const { block, app, member } = await currentBlock(memberId, new Date());
+      if (block) return block;
+
+      const batch = getAdminDb().batch();
+      countCall(batch, APP_DOC_ID, APP_COUNTER_SHARDS, app, null);
+      if (memberId && member) countCall(batch, memberDocId(memberId), MEMBER_COUNTER_SHARDS, member, memberId);
+      await batch.commit();
+      return null;
+    }, 'LinkedInRateLimitService.reserveCall');
+  },
+
+  /** Record a 429 for a member — their calls wait until `retryAt` */
+  markLimited(memberId: string, retryAt: Date) {
+    return firebaseVoidHandler(async () => {
+      const scopeId = memberDocId(memberId);
+      await getAdminDb().collection(LINKEDIN_RATE_LIMITS_COLLECTION).doc(scopeId).set({
+        memberId,
+        limitedUntil: retryAt,
+        updatedAt: FieldValue.serverTimestamp(),
+      }, { merge: true });
+      const cached = countsCache.get(scopeId);
+      if (cached) cached.limitedUntil = retryAt;
+    }, 'LinkedInRateLimitService.markLimited');
+  },
+};
@@ -2,7 +2,7 @@
  * AI Post Generation Service
  *
  * Uses the AI adapter layer + PromptService to generate LinkedIn post
- * drafts with optional image or video media.
+ * drafts with optional image, video, HTML card or poll.
  *
  * Supports user-controlled model selection: provider, per-capability model,
  * temperature, max tokens, and media config overrides.
@@ -14,10 +14,13 @@ import { createAIAdapter } from '@/lib/ai';
 import { getAIConfig } from '@/lib/firebase/config/environments';
 import { AI_CONFIGS } from '@/lib/firebase/config/environments';
 import { uploadMediaToStorage } from '@/lib/firebase/services/media-storage.service';
-import { generateHtmlCard } from '@/lib/html-gen';
+import { generateHtmlCard, getSlideTexts } from '@/lib/html-gen';
 import { PromptService } from './prompt.service';
-import type { PostGenerationContext, PostMediaType } from '../types';
-import type { AIProviderConfig, AIProvider } from '@/lib/ai';
+import { normalizePoll, getPollError } from '../poll';
+import { normalizeAltTexts } from '../alt-text';
+import { toCrossPostText } from '../crosspost';
+import type { CrossPostNetwork, PostArticle, PostGenerationContext, PostMediaType, PostPoll } from '../types';
+import type { AIProviderConfig, AIProvider, IAIAdapter } from '@/lib/ai';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -43,7 +46,13 @@ export interface GeneratedPost {
   mediaType: PostMediaType;
   /** AI-generated HTML infographic — only for mediaType 'html' */
   htmlContent?: string;
-  /** Non-fatal error from media generation — post was saved as text-only */
+  /** AI-proposed poll — only for mediaType 'poll' */
+  poll?: PostPoll;
+  /** Alt text per image — [0] for an image post, one per slide for html */
+  altTexts?: string[];
+  /** Rewrite per cross-post network — networks whose rewrite failed are missing */
+  crossPosts?: Partial<Record<CrossPostNetwork, string>>;
+  /** Non-fatal error from media generation — post was saved as text-only (or without poll options) */
   mediaGenerationError?: string;
 }
 
@@ -55,7 +64,9 @@ export interface GeneratedPost {
  * Build an AIProviderConfig with user overrides applied.
  * Falls back to env defaults for anything not specified.
  */
-function buildAdapterConfig(ctx: PostGenerationContext): AIProviderConfig {
+function buildAdapterConfig(
+  ctx: Pick<PostGenerationContext, 'provider' | 'textModel' | 'imageModel' | 'videoModel'>,
+): AIProviderConfig {
   const provider: AIProvider = ctx.provider ?? getAIConfig().provider;
   const baseConfig = AI_CONFIGS[provider] ?? getAIConfig();
 
@@ -70,6 +81,54 @@ function buildAdapterConfig(ctx: PostGenerationContext): AIProviderConfig {
   };
 }
 
+/**
+ * Rewrite the LinkedIn text for each cross-post network. Non-fatal — a
+ * network without a rewrite publishes the plain LinkedIn text. Over-long
+ * rewrites are kept; the editor and fan-out flag them.
+ */
+async function generateCrossPosts(
+  adapter: IAIAdapter,
+  content: string,
+  networks: CrossPostNetwork[],
+  article?: PostArticle,
+): Promise<Partial<Record<CrossPostNetwork, string>> | undefined> {
+  const crossPosts: Partial<Record<CrossPostNetwork, string>> = {};
+  const plain = toCrossPostText(content);
+  for (const network of networks) {
+    try {
+      const result = await retryOnTransient(
+        () => adapter.generateText({
+          prompt: PromptService.buildCrossPostUserPrompt(plain, article?.source),
+          systemInstruction: PromptService.getCrossPostInstruction(network),
+          temperature: 0.6,
+          maxTokens: 400,
+        }),
+        `${network} rewrite`,
+      );
+      const text = result.text.trim();
+      if (text) crossPosts[network] = text;
+    } catch (rewriteErr) {
+      console.warn(`[post-generator] ${network} rewrite failed (continuing with the LinkedIn text):`, rewriteErr);
+    }
+  }
+  return Object.keys(crossPosts).length > 0 ? crossPosts : undefined;
+}
+
+/**
+ * Rewrite an existing post's text for `networks` — used when targets are
+ * added to a post after it was generated.
+ */
+export async function generateCrossPostDrafts(
+  context: Pick<PostGenerationContext, 'provider' | 'textModel' | 'imageModel' | 'videoModel'>,
+  content: string,
+  networks: CrossPostNetwork[],
+  article?: PostArticle,
+): Promise<Partial<Record<CrossPostNetwork, string>> | undefined> {
+  if (networks.length === 0) return undefined;
+  const adapter = createAIAdapter(buildAdapterConfig(context));
+  return generateCrossPosts(adapter, content, networks, article);
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // GENERATION
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -104,6 +163,34 @@ async function retryOnTransient<T>(fn: () => Promise<T>, label: string): Promise
   throw lastError;
 }
 
+/**
+ * Write one alt text per image from a description of each (the image
+ * prompt, or a slide's text). Non-fatal — the post still publishes without.
+ */
+async function generateAltTexts(
+  adapter: IAIAdapter,
+  topic: string,
+  descriptions: string[],
+): Promise<string[] | undefined> {
+  try {
+    const result = await retryOnTransient(
+      () => adapter.generateText({
+        prompt: PromptService.buildAltTextUserPrompt(topic, descriptions),
+        systemInstruction: PromptService.getAltTextInstruction(),
+        temperature: 0.3,
+        maxTokens: 150 * descriptions.length,
+      }),
+      'alt text generation',
+    );
+    // Models sometimes wrap JSON in ```json fences despite the instruction
+    const json = result.text.match(/\[[\s\S]*\]/)?.[0];
+    return (json ? normalizeAltTexts(JSON.parse(json), descriptions.length) : null) ?? undefined;
+  } catch (altErr) {
+    console.warn('[post-generator] Alt text generation failed (continuing without):', altErr);
+    return undefined;
+  }
+}
+
 export async function generatePostDraft(context: PostGenerationContext): Promise<GeneratedPost> {
   const config = buildAdapterConfig(context);
   const adapter = createAIAdapter(config);
@@ -144,8 +231,36 @@ export async function generatePostDraft(context: PostGenerationContext): Promise
   let media: GeneratedMedia | undefined;
   let mediaGenerationError: string | undefined;
   let htmlContent: string | undefined;
+  let poll: PostPoll | undefined;
+  let altTexts: string[] | undefined;
 
-  if (mediaType === 'html') {
+  if (mediaType === 'poll') {
+    try {
+      const pollResult = await retryOnTransient(
+        () => adapter.generateText({
+          prompt: PromptService.buildPollUserPrompt(context.topic, content),
+          systemInstruction: PromptService.getPollInstruction(),
+          temperature: 0.7,
+          maxTokens: 300,
+        }),
+        'poll generation',
+      );
+
+      // Models sometimes wrap JSON in ```json fences despite the instruction
+      const json = pollResult.text.match(/\{[\s\S]*\}/)?.[0];
+      const proposed = json ? normalizePoll({ ...JSON.parse(json), duration: context.pollDuration }) : null;
+      if (!proposed) throw new Error('AI did not return a poll');
+
+      // Keep an over-long suggestion — the user can fix it before publishing
+      poll = proposed;
+      const pollError = getPollError(proposed);
+      if (pollError) mediaGenerationError = `Poll needs editing: ${pollError}`;
+    } catch (pollErr) {
+      const rawMsg = pollErr instanceof Error ? pollErr.message : String(pollErr);
+      mediaGenerationError = rawMsg.replace(/^\[\w+\]\s*/, '');
+      console.error('[post-generator] Poll generation failed (continuing without options):', mediaGenerationError);
+    }
+  } else if (mediaType === 'html') {
     try {
       // AI generates a self-contained HTML infographic
       htmlContent = await generateHtmlCard({
@@ -157,6 +272,7 @@ export async function generatePostDraft(context: PostGenerationContext): Promise
         pageCount: context.pageCount,
         pageInstructions: context.pageInstructions,
       });
+      altTexts = await generateAltTexts(adapter, context.topic, getSlideTexts(htmlContent, context.pageCount ?? 1));
     } catch (htmlErr) {
       const rawMsg = htmlErr instanceof Error ? htmlErr.message : String(htmlErr);
       // Strip [provider] prefix for cleaner user-facing warning
@@ -209,6 +325,7 @@ export async function generatePostDraft(context: PostGenerationContext): Promise
           mediaUrl = '';
         }
         media = { url: mediaUrl, mimeType: img.mimeType, prompt: imagePrompt };
+        altTexts = await generateAltTexts(adapter, context.topic, [imagePrompt]);
       }
     } catch (imgErr) {
       mediaGenerationError = imgErr instanceof Error ? imgErr.message : String(imgErr);
@@ -258,7 +375,12 @@ export async function generatePostDraft(context: PostGenerationContext): Promise
     }
   }
 
-  return { content, summary, media, mediaType, htmlContent, mediaGenerationError };
+  // 4. Rewrite for the other networks the post goes to
+  const crossPosts = context.crossPostNetworks?.length
+    ? await generateCrossPosts(adapter, content, context.crossPostNetworks, context.article)
+    : undefined;
+
+  return { content, summary, media, mediaType, htmlContent, poll, altTexts, crossPosts, mediaGenerationError };
 }
 
 /**
@@ -0,0 +1,93 @@
+/**
+ * Post Metrics Service — engagement time series for published posts
+ *
+ * Every metrics sync appends a snapshot to `post_metrics` and rolls the
+ * post's denormalised `metrics` → `previousMetrics`, so lists can show the
+ * latest counters and a trend without reading the history.
+ */
+
+import 'server-only';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { firebaseHandler, firebaseVoidHandler } from '@/lib/firebase/handler';
+import { POSTS_COLLECTION, POST_METRICS_COLLECTION } from '../collections';
+import type { PostMetrics, PostMetricsSnapshot } from '../types';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function toSnapshot(id: string, data: FirebaseFirestore.DocumentData): PostMetricsSnapshot {
+  return {
+    ...data,
+    id,
+    capturedAt: (data.capturedAt as Timestamp)?.toDate?.() ?? new Date(),
+  } as PostMetricsSnapshot;
+}
+
+// ── Service ──────────────────────────────────────────────────────────────────
+
+export const PostMetricsService = {
+  /**
+   * Store a snapshot and update the post's latest counters.
+   * `previous` is the post's current `metrics` (undefined on the first sync).
+   */
+  record(post: {
+    postId: string;
+    userId: string;
+    linkedinPostId: string;
+    previous?: PostMetrics | null;
+  }, metrics: PostMetrics) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      const counters = {
+        impressions: metrics.impressions,
+        reactions: metrics.reactions,
+        comments: metrics.comments,
+        reshares: metrics.reshares,
+      };
+
+      const batch = db.batch();
+      batch.set(db.collection(POST_METRICS_COLLECTION).doc(), {
+        postId: post.postId,
+        userId: post.userId,
+        linkedinPostId: post.linkedinPostId,
+        ...counters,
+        capturedAt: FieldValue.serverTimestamp(),
+      });
+      batch.update(db.collection(POSTS_COLLECTION).doc(post.postId), {
+        metrics: counters,
+        previousMetrics: post.previous ?? null,
+        metricsSyncedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      await batch.commit();
+    }, 'PostMetricsService.record');
+  },
+
+  /** Snapshots for one post, oldest first (for trend charts) */
+  getByPost(postId: string, maxResults = 90) {
+    return firebaseHandler(async () => {
+      const db = getAdminDb();
+      const snap = await db.collection(POST_METRICS_COLLECTION)
+        .where('postId', '==', postId)
+        .orderBy('capturedAt', 'desc')
+        .limit(maxResults)
+        .get();
+      return snap.docs.map(d => toSnapshot(d.id, d.data())).reverse();
+    }, 'PostMetricsService.getByPost');
+  },
+
+  /** Drop a post's history (called when the post itself is deleted) */
+  deleteByPost(postId: string) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      const snap = await db.collection(POST_METRICS_COLLECTION)
+        .where('postId', '==', postId)
+        .get();
+      if (snap.empty) return;
+      const batch = db.batch();
+      snap.docs.forEach(d => batch.delete(d.ref));
+      await batch.commit();
+    }, 'PostMetricsService.deleteByPost');
+  },
+};
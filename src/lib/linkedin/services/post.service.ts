@@ -1,17 +1,23 @@
 /**
  * Post Service — CRUD + lifecycle management for LinkedIn posts
  *
- * Manages the full lifecycle: pending_review → approved → published.
+ * Manages the full lifecycle: pending_review → approved → publishing → published.
  * Also handles skip, reject, fail, and retry flows.
+ *
+ * Publishing is exactly-once: a worker (cron run or "Post Now" request)
+ * claims the post in a transaction, records an idempotency key right before
+ * calling LinkedIn, and only the claim holder may post it.
  */
 
 import 'server-only';
+import { randomUUID } from 'crypto';
 import { FieldValue } from 'firebase-admin/firestore';
 import type { Timestamp } from 'firebase-admin/firestore';
 import { getAdminDb } from '@/lib/firebase/admin';
 import { firebaseHandler, firebaseVoidHandler } from '@/lib/firebase/handler';
 import { POSTS_COLLECTION } from '../collections';
-import type { Post, PostStatus, PostMediaType } from '../types';
+import { getMaxPublishRetries, getPublishRetryDelayMs } from '../publish-retry';
+import type { Post, PostStatus, PostMediaType, CarouselFormat, PostPoll, PollResults, PostArticle, PostVisibility, CrossPostNetwork, CrossPostTarget } from '../types';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -19,20 +25,69 @@ function toPost(id: string, data: FirebaseFirestore.DocumentData): Post {
   return {
     ...data,
     id,
+    liveHistory: (data.liveHistory as FirebaseFirestore.DocumentData[] | undefined)?.map(h => ({
+      ...h,
+      at: (h.at as Timestamp)?.toDate?.() ?? new Date(),
+    })),
+    crossPosts: (data.crossPosts as FirebaseFirestore.DocumentData[] | null | undefined)?.map(t => ({
+      ...t,
+      leaseExpiresAt: (t.leaseExpiresAt as Timestamp | null)?.toDate?.() ?? null,
+      publishedAt: (t.publishedAt as Timestamp | null)?.toDate?.() ?? null,
+    })) ?? undefined,
+    deletedAt: (data.deletedAt as Timestamp)?.toDate?.() ?? undefined,
     scheduledFor: (data.scheduledFor as Timestamp)?.toDate?.() ?? new Date(),
     reviewDeadline: (data.reviewDeadline as Timestamp)?.toDate?.() ?? new Date(),
     publishedAt: (data.publishedAt as Timestamp)?.toDate?.() ?? undefined,
+    publishLeaseExpiresAt: (data.publishLeaseExpiresAt as Timestamp)?.toDate?.() ?? undefined,
+    nextRetryAt: (data.nextRetryAt as Timestamp)?.toDate?.() ?? undefined,
+    videoUploadedAt: (data.videoUploadedAt as Timestamp)?.toDate?.() ?? undefined,
+    publishAttempts: (data.publishAttempts as FirebaseFirestore.DocumentData[] | undefined)?.map(a => ({
+      ...a,
+      at: (a.at as Timestamp)?.toDate?.() ?? new Date(),
+    })),
+    metricsSyncedAt: (data.metricsSyncedAt as Timestamp)?.toDate?.() ?? undefined,
     createdAt: (data.createdAt as Timestamp)?.toDate?.() ?? new Date(),
     updatedAt: (data.updatedAt as Timestamp)?.toDate?.() ?? new Date(),
   } as Post;
 }
 
+/** How long a publishing claim lasts — well past the 300s route limit */
+const PUBLISH_LEASE_MS = 10 * 60_000;
+
+/** Lease fields cleared once a claim ends (published / failed / recovered) */
+const CLEARED_LEASE = {
+  publishWorkerId: null,
+  publishLeaseExpiresAt: null,
+  publishClaimedFrom: null,
+};
+
+function leaseExpired(data: FirebaseFirestore.DocumentData): boolean {
+  return ((data.publishLeaseExpiresAt as Timestamp | null)?.toMillis() ?? 0) < Date.now();
+}
+
+/** Read-modify-write one cross-post target (targets live in an array) */
+function updateCrossPost(
+  targets: CrossPostTarget[],
+  network: CrossPostNetwork,
+  changes: Partial<CrossPostTarget>,
+): CrossPostTarget[] {
+  return targets.map(t => (t.network === network ? { ...t, ...changes } : t));
+}
+
+/** Result of `claimForPublishing` — `reason` is user-facing */
+export type PublishClaim = { claimed: true } | { claimed: false; reason: string };
+
+/** Result of `recordPublishFailure` */
+export type PublishFailureOutcome =
+  | { willRetry: true; nextRetryAt: Date; retryCount: number }
+  | { willRetry: false; retryCount: number };
+
 // ── Service ──────────────────────────────────────────────────────────────────
 
 export const PostService = {
   /**
    * Create a new post (called by the draft-generation function).
-   * Supports text-only, image, and video posts.
+   * Supports text-only, image, video, HTML, poll and article posts.
    * Returns the new post ID.
    */
   create(data: {
@@ -52,6 +107,16 @@ export const PostService = {
     linkedinMediaAsset?: string;
     htmlContent?: string;
     pageCount?: number;
+    carouselFormat?: CarouselFormat;
+    documentTitle?: string;
+    altTexts?: string[];
+    poll?: PostPoll;
+    article?: PostArticle;
+    linkedinAccountId?: string;
+    authorUrn?: string;
+    visibility?: PostVisibility;
+    disableReshare?: boolean;
+    crossPosts?: CrossPostTarget[];
   }) {
     return firebaseHandler(async () => {
       const db = getAdminDb();
@@ -74,6 +139,16 @@ export const PostService = {
         linkedinMediaAsset: data.linkedinMediaAsset ?? null,
         htmlContent: data.htmlContent ?? null,
         pageCount: data.pageCount ?? 1,
+        carouselFormat: data.carouselFormat ?? null,
+        documentTitle: data.documentTitle ?? null,
+        altTexts: data.altTexts ?? null,
+        poll: data.poll ?? null,
+        article: data.article ?? null,
+        linkedinAccountId: data.linkedinAccountId ?? null,
+        authorUrn: data.authorUrn ?? null,
+        visibility: data.visibility ?? null,
+        disableReshare: data.disableReshare ?? null,
+        crossPosts: data.crossPosts?.length ? data.crossPosts : null,
         editedContent: null,
         status: 'pending_review' as PostStatus,
         publishedAt: null,
@@ -90,8 +165,12 @@ export const PostService = {
   /**
    * Create a scheduled placeholder post (no AI content yet).
    * The Firebase function will generate the draft at the configured draftGenerationHour.
+   *
+   * With `postId` the doc is created under that ID and fails if it already
+   * exists — autopilot uses this so a slot is never filled twice.
    */
   createScheduled(data: {
+    postId?: string;
     userId: string;
     topic: string;
     notes?: string;
@@ -105,10 +184,20 @@ export const PostService = {
     provider?: string;
     textModel?: string;
     pageInstructions?: string[];
+    carouselFormat?: CarouselFormat;
+    documentTitle?: string;
+    linkedinAccountId?: string;
+    authorUrn?: string;
+    visibility?: PostVisibility;
+    disableReshare?: boolean;
+    crossPosts?: CrossPostTarget[];
   }) {
     return firebaseHandler(async () => {
       const db = getAdminDb();
-      const ref = await db.collection(POSTS_COLLECTION).add({
+      const ref = data.postId
+        ? db.collection(POSTS_COLLECTION).doc(data.postId)
+        : db.collection(POSTS_COLLECTION).doc();
+      await ref.create({
         userId: data.userId,
         topic: data.topic,
         notes: data.notes ?? null,
@@ -125,6 +214,13 @@ export const PostService = {
         provider: data.provider ?? null,
         textModel: data.textModel ?? null,
         pageInstructions: data.pageInstructions ?? null,
+        carouselFormat: data.carouselFormat ?? null,
+        documentTitle: data.documentTitle ?? null,
+        linkedinAccountId: data.linkedinAccountId ?? null,
+        authorUrn: data.authorUrn ?? null,
+        visibility: data.visibility ?? null,
+        disableReshare: data.disableReshare ?? null,
+        crossPosts: data.crossPosts?.length ? data.crossPosts : null,
         mediaUrl: null,
         mediaMimeType: null,
         mediaPrompt: null,
@@ -193,6 +289,19 @@ export const PostService = {
     }, 'PostService.getUpcoming');
   },
 
+  /** Get every post still on its way out — booked, in review, approved or publishing */
+  getBooked(userId: string) {
+    return firebaseHandler(async () => {
+      const db = getAdminDb();
+      const snap = await db.collection(POSTS_COLLECTION)
+        .where('userId', '==', userId)
+        .where('status', 'in', ['scheduled', 'pending_review', 'approved', 'publishing'])
+        .orderBy('scheduledFor', 'asc')
+        .get();
+      return snap.docs.map(d => toPost(d.id, d.data()));
+    }, 'PostService.getBooked');
+  },
+
   /** Get the most recent published post for a series (for AI continuity) */
   getLastPublishedInSeries(userId: string, seriesId: string) {
     return firebaseHandler(async () => {
@@ -211,18 +320,29 @@ export const PostService = {
 
   // ── Status transitions ───────────────────────────────────────────────────
 
-  /** User approves the draft — optionally with edits */
+  /**
+   * User approves the draft — optionally with edits. Only from review or
+   * scheduled; returns false (and changes nothing) from any other status.
+   */
   approve(postId: string, editedContent?: string) {
-    return firebaseVoidHandler(async () => {
+    return firebaseHandler(async () => {
       const db = getAdminDb();
-      const updates: Record<string, unknown> = {
-        status: 'approved',
-        updatedAt: FieldValue.serverTimestamp(),
-      };
-      if (editedContent !== undefined) {
-        updates.editedContent = editedContent;
-      }
-      await db.collection(POSTS_COLLECTION).doc(postId).update(updates);
+      const ref = db.collection(POSTS_COLLECTION).doc(postId);
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const status = snap.data()?.status as PostStatus | undefined;
+        if (status !== 'pending_review' && status !== 'scheduled') return false;
+        const updates: Record<string, unknown> = {
+          ...CLEARED_LEASE,
+          status: 'approved',
+          updatedAt: FieldValue.serverTimestamp(),
+        };
+        if (editedContent !== undefined) {
+          updates.editedContent = editedContent;
+        }
+        tx.update(ref, updates);
+        return true;
+      });
     }, 'PostService.approve');
   },
 
@@ -248,12 +368,201 @@ export const PostService = {
     }, 'PostService.skip');
   },
 
-  /** Mark post as published with the LinkedIn post ID */
+  /**
+   * Move a post to a new time, if it's still in `from` — used when it falls
+   * on a vacation / blackout day. Returns whether it moved.
+   */
+  reschedule(postId: string, from: PostStatus, scheduledFor: Date, reviewDeadline: Date) {
+    return firebaseHandler(async () => {
+      const db = getAdminDb();
+      const ref = db.collection(POSTS_COLLECTION).doc(postId);
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        if (snap.data()?.status !== from) return false;
+        tx.update(ref, {
+          scheduledFor,
+          reviewDeadline,
+          nextRetryAt: null,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return true;
+      });
+    }, 'PostService.reschedule');
+  },
+
+  // ── Publishing claim ─────────────────────────────────────────────────────
+
+  /**
+   * Claim a post for publishing: moves it to 'publishing' with a lease held
+   * by `workerId`. Only one worker can hold the claim at a time.
+   *
+   * A stale claim (lease expired) is taken over only if it never reached
+   * LinkedIn — see `recoverStalePublishing` for the rest.
+   *
+   * @param from - statuses this caller may publish from (cron: approved only)
+   */
+  claimForPublishing(postId: string, workerId: string, from: PostStatus[]) {
+    return firebaseHandler(async (): Promise<PublishClaim> => {
+      const db = getAdminDb();
+      const ref = db.collection(POSTS_COLLECTION).doc(postId);
+      return db.runTransaction(async (tx): Promise<PublishClaim> => {
+        const snap = await tx.get(ref);
+        if (!snap.exists) return { claimed: false, reason: 'Post not found' };
+        const data = snap.data()!;
+        const status = data.status as PostStatus;
+
+        if (status === 'publishing') {
+          if (!leaseExpired(data) || data.publishIdempotencyKey) {
+            return { claimed: false, reason: 'This post is already being published' };
+          }
+        } else if (!from.includes(status)) {
+          return {
+            claimed: false,
+            reason: status === 'published' ? 'This post is already on LinkedIn' : `A ${status.replace('_', ' ')} post can't be published`,
+          };
+        }
+
+        tx.update(ref, {
+          status: 'publishing',
+          publishWorkerId: workerId,
+          publishLeaseExpiresAt: new Date(Date.now() + PUBLISH_LEASE_MS),
+          publishClaimedFrom: status === 'publishing' ? (data.publishClaimedFrom ?? 'approved') : status,
+          publishIdempotencyKey: null,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return { claimed: true };
+      });
+    }, 'PostService.claimForPublishing');
+  },
+
+  /**
+   * Record the idempotency key right before calling LinkedIn's create-post.
+   * Returns null if `workerId` no longer holds a live claim — the caller
+   * must not post then.
+   */
+  beginPublishAttempt(postId: string, workerId: string) {
+    return firebaseHandler(async (): Promise<string | null> => {
+      const db = getAdminDb();
+      const ref = db.collection(POSTS_COLLECTION).doc(postId);
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const data = snap.data();
+        if (!data || data.status !== 'publishing' || data.publishWorkerId !== workerId || leaseExpired(data)) {
+          return null;
+        }
+        const key = `${postId}:${randomUUID()}`;
+        tx.update(ref, {
+          publishIdempotencyKey: key,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return key;
+      });
+    }, 'PostService.beginPublishAttempt');
+  },
+
+  /**
+   * Resolve claims whose worker died (lease expired):
+   * - never reached LinkedIn → back to the status it was claimed from
+   * - idempotency key set → 'failed'; the post may be live, so a human
+   *   checks LinkedIn before retrying rather than risk a duplicate
+   *
+   * @returns number of posts recovered
+   */
+  recoverStalePublishing() {
+    return firebaseHandler(async () => {
+      const db = getAdminDb();
+      const snap = await db.collection(POSTS_COLLECTION).where('status', '==', 'publishing').get();
+      let recovered = 0;
+
+      for (const doc of snap.docs) {
+        if (!leaseExpired(doc.data())) continue;
+        const didRecover = await db.runTransaction(async (tx) => {
+          const fresh = await tx.get(doc.ref);
+          const data = fresh.data();
+          if (!data || data.status !== 'publishing' || !leaseExpired(data)) return false;
+
+          if (data.publishIdempotencyKey) {
+            tx.update(doc.ref, {
+              ...CLEARED_LEASE,
+              status: 'failed',
+              failureReason: 'Publishing was interrupted after contacting LinkedIn — check your LinkedIn feed before retrying so the post isn\'t duplicated',
+              retryCount: ((data.retryCount as number) ?? 0) + 1,
+              updatedAt: FieldValue.serverTimestamp(),
+            });
+          } else {
+            tx.update(doc.ref, {
+              ...CLEARED_LEASE,
+              status: (data.publishClaimedFrom as PostStatus | null) ?? 'approved',
+              updatedAt: FieldValue.serverTimestamp(),
+            });
+          }
+          return true;
+        });
+        if (didRecover) recovered++;
+      }
+
+      return recovered;
+    }, 'PostService.recoverStalePublishing');
+  },
+
+  /**
+   * Hand a claim back untouched — LinkedIn refused the work before anything
+   * went live (rate limit), so the post returns to the status it was claimed
+   * from without using up a retry. No-op if `workerId` lost the claim.
+   */
+  releasePublishClaim(postId: string, workerId: string) {
+    return firebaseHandler(async () => {
+      const db = getAdminDb();
+      const ref = db.collection(POSTS_COLLECTION).doc(postId);
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const data = snap.data();
+        if (!data || data.status !== 'publishing' || data.publishWorkerId !== workerId) return false;
+        tx.update(ref, {
+          ...CLEARED_LEASE,
+          publishIdempotencyKey: null,
+          status: (data.publishClaimedFrom as PostStatus | null) ?? 'approved',
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return true;
+      });
+    }, 'PostService.releasePublishClaim');
+  },
+
+  /**
+   * Hand a claimed post to publish-all while LinkedIn processes its video:
+   * 'approved' (Post Now from review counts as approval), due again at
+   * `checkAt`. Not a failure — the retry count is untouched.
+   */
+  deferForVideoProcessing(postId: string, workerId: string, checkAt: Date) {
+    return firebaseHandler(async () => {
+      const db = getAdminDb();
+      const ref = db.collection(POSTS_COLLECTION).doc(postId);
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const data = snap.data();
+        if (!data || data.status !== 'publishing' || data.publishWorkerId !== workerId) return false;
+        tx.update(ref, {
+          ...CLEARED_LEASE,
+          publishIdempotencyKey: null,
+          status: 'approved',
+          nextRetryAt: checkAt,
+          failureReason: null,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return true;
+      });
+    }, 'PostService.deferForVideoProcessing');
+  },
+
+  /** Mark post as published with the LinkedIn post ID (ends the claim, keeps its key) */
   markPublished(postId: string, linkedinPostId: string) {
     return firebaseVoidHandler(async () => {
       const db = getAdminDb();
       await db.collection(POSTS_COLLECTION).doc(postId).update({
+        ...CLEARED_LEASE,
         status: 'published',
+        nextRetryAt: null,
         linkedinPostId,
         publishedAt: FieldValue.serverTimestamp(),
         updatedAt: FieldValue.serverTimestamp(),
@@ -261,6 +570,34 @@ export const PostService = {
     }, 'PostService.markPublished');
   },
 
+  // ── Live post changes (after publishing) ─────────────────────────────────
+
+  /** Sync an edit made to the live LinkedIn post and log it */
+  recordLiveEdit(postId: string, previousContent: string, content: string) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        editedContent: content,
+        // serverTimestamp() isn't allowed inside arrays
+        liveHistory: FieldValue.arrayUnion({ action: 'edit', previousContent, content, at: new Date() }),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.recordLiveEdit');
+  },
+
+  /** Mark a post as deleted from LinkedIn — the Firestore copy is kept */
+  markDeleted(postId: string, previousContent: string) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        status: 'deleted',
+        deletedAt: FieldValue.serverTimestamp(),
+        liveHistory: FieldValue.arrayUnion({ action: 'delete', previousContent, at: new Date() }),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.markDeleted');
+  },
+
   /** Cache the LinkedIn media asset URN after uploading media at publish time */
   setLinkedinMediaAsset(postId: string, urn: string) {
     return firebaseVoidHandler(async () => {
@@ -272,6 +609,18 @@ export const PostService = {
     }, 'PostService.setLinkedinMediaAsset');
   },
 
+  /** Cache an uploaded video's URN and upload time — null drops it so the next attempt re-uploads */
+  setVideoAsset(postId: string, videoUrn: string | null) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        linkedinMediaAsset: videoUrn,
+        videoUploadedAt: videoUrn ? FieldValue.serverTimestamp() : null,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.setVideoAsset');
+  },
+
   /** Set media URL + MIME type (used when client converts HTML → PNG at publish time) */
   setMediaUrl(postId: string, mediaUrl: string, mimeType: string) {
     return firebaseVoidHandler(async () => {
@@ -298,6 +647,201 @@ export const PostService = {
     }, 'PostService.setImageUrls');
   },
 
+  /** Choose how a multi-page HTML post is published (PDF document vs multi-image) */
+  setCarouselFormat(postId: string, carouselFormat: CarouselFormat, documentTitle?: string) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        carouselFormat,
+        documentTitle: documentTitle ?? null,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.setCarouselFormat');
+  },
+
+  /** Replace the question / options / duration of a 'poll' post before it's published */
+  setPoll(postId: string, poll: PostPoll) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        poll,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.setPoll');
+  },
+
+  /**
+   * Replace the shared link of an 'article' post before it's published.
+   * Drops the cached thumbnail URN — the thumbnail may have changed.
+   */
+  setArticle(postId: string, article: PostArticle) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        article,
+        linkedinMediaAsset: null,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.setArticle');
+  },
+
+  /** Set or clear (null) the per-image alt texts */
+  setAltTexts(postId: string, altTexts: string[] | null) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        altTexts,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.setAltTexts');
+  },
+
+  /**
+   * Set or clear (null) the captions / thumbnail of a 'video' post.
+   * Drops the cached video URN — both are baked in at upload time.
+   */
+  setVideoExtras(postId: string, extras: { videoCaptions?: string | null; videoThumbnailUrl?: string | null }) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        ...(extras.videoCaptions !== undefined && { videoCaptions: extras.videoCaptions }),
+        ...(extras.videoThumbnailUrl !== undefined && { videoThumbnailUrl: extras.videoThumbnailUrl }),
+        linkedinMediaAsset: null,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.setVideoExtras');
+  },
+
+  /**
+   * Set the post's audience — null clears a setting back to the profile
+   * default; undefined leaves it alone.
+   */
+  setAudience(postId: string, audience: { visibility?: PostVisibility | null; disableReshare?: boolean | null }) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        ...(audience.visibility !== undefined && { visibility: audience.visibility }),
+        ...(audience.disableReshare !== undefined && { disableReshare: audience.disableReshare }),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.setAudience');
+  },
+
+  // ── Cross-posting ────────────────────────────────────────────────────────
+
+  /** Replace the cross-post targets (null = none) */
+  setCrossPosts(postId: string, crossPosts: CrossPostTarget[] | null) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        crossPosts: crossPosts?.length ? crossPosts : null,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.setCrossPosts');
+  },
+
+  /**
+   * Claim one cross-post target: 'pending' / 'failed' → 'publishing' with a
+   * lease. Returns false if it's already published or another worker has it.
+   */
+  claimCrossPost(postId: string, network: CrossPostNetwork) {
+    return firebaseHandler(async (): Promise<boolean> => {
+      const db = getAdminDb();
+      const ref = db.collection(POSTS_COLLECTION).doc(postId);
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const targets = (snap.data()?.crossPosts ?? []) as CrossPostTarget[];
+        const target = targets.find(t => t.network === network);
+        if (!target || (target.status !== 'pending' && target.status !== 'failed')) return false;
+
+        tx.update(ref, {
+          crossPosts: updateCrossPost(targets, network, {
+            status: 'publishing',
+            error: null,
+            leaseExpiresAt: new Date(Date.now() + PUBLISH_LEASE_MS),
+          }),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return true;
+      });
+    }, 'PostService.claimCrossPost');
+  },
+
+  /**
+   * End a cross-post claim: published with the network's id + link, or
+   * failed with a reason. Failed targets can be retried from the post.
+   */
+  finishCrossPost(
+    postId: string,
+    network: CrossPostNetwork,
+    result: { remoteId: string; url: string } | { error: string },
+  ) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      const ref = db.collection(POSTS_COLLECTION).doc(postId);
+      await db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const targets = (snap.data()?.crossPosts ?? []) as CrossPostTarget[];
+        // serverTimestamp() isn't allowed inside arrays
+        const changes: Partial<CrossPostTarget> = 'error' in result
+          ? { status: 'failed', error: result.error, leaseExpiresAt: null }
+          : { status: 'published', remoteId: result.remoteId, url: result.url, error: null, leaseExpiresAt: null, publishedAt: new Date() };
+        tx.update(ref, {
+          crossPosts: updateCrossPost(targets, network, changes),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      });
+    }, 'PostService.finishCrossPost');
+  },
+
+  /** Store the latest vote counts of a published poll */
+  setPollResults(postId: string, pollResults: PollResults) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        pollResults,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.setPollResults');
+  },
+
+  /** Set or clear (null) the comment posted right after publishing */
+  setFirstComment(postId: string, firstComment: string | null) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        firstComment,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.setFirstComment');
+  },
+
+  /** Record the first comment's URN once LinkedIn accepted it */
+  markFirstCommentPosted(postId: string, commentUrn: string) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        firstCommentUrn: commentUrn,
+        firstCommentError: null,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.markFirstCommentPosted');
+  },
+
+  /**
+   * Record a first-comment failure. Status stays 'published' — the post is
+   * live, only the follow-up comment is missing.
+   */
+  markFirstCommentFailed(postId: string, reason: string) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(POSTS_COLLECTION).doc(postId).update({
+        firstCommentError: reason,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'PostService.markFirstCommentFailed');
+  },
+
   /** Update HTML content and page count (used when removing slides) */
   updateHtml(postId: string, htmlContent: string, pageCount: number) {
     return firebaseVoidHandler(async () => {
@@ -319,6 +863,9 @@ export const PostService = {
       const snap = await db.collection(POSTS_COLLECTION).doc(postId).get();
       const retryCount = snap.exists ? ((snap.data()!.retryCount as number) ?? 0) : 0;
       await db.collection(POSTS_COLLECTION).doc(postId).update({
+        ...CLEARED_LEASE,
+        // LinkedIn rejected the post (or was never called) — nothing is live
+        publishIdempotencyKey: null,
         status: 'failed',
         failureReason: reason,
         retryCount: retryCount + 1,
@@ -327,14 +874,63 @@ export const PostService = {
     }, 'PostService.markFailed');
   },
 
-  /** Retry a failed post — resets status to approved */
+  /**
+   * End a claim after a failed publish attempt. Retryable failures go back
+   * to 'approved' with a backed-off `nextRetryAt` until the retry budget
+   * (`PUBLISH_MAX_RETRIES`) is spent; everything else is marked failed.
+   * Each attempt's error is appended to `publishAttempts`.
+   */
+  recordPublishFailure(postId: string, reason: string, retryable: boolean) {
+    return firebaseHandler(async (): Promise<PublishFailureOutcome> => {
+      const db = getAdminDb();
+      const ref = db.collection(POSTS_COLLECTION).doc(postId);
+      return db.runTransaction(async (tx): Promise<PublishFailureOutcome> => {
+        const snap = await tx.get(ref);
+        const retryCount = (snap.data()?.retryCount as number | undefined) ?? 0;
+        // serverTimestamp() isn't allowed inside arrays
+        const attempt = { at: new Date(), error: reason, retryable };
+        const base = {
+          ...CLEARED_LEASE,
+          // LinkedIn rejected the post (or was never called) — nothing is live
+          publishIdempotencyKey: null,
+          failureReason: reason,
+          publishAttempts: FieldValue.arrayUnion(attempt),
+          updatedAt: FieldValue.serverTimestamp(),
+        };
+
+        if (retryable && retryCount < getMaxPublishRetries()) {
+          const nextRetryAt = new Date(Date.now() + getPublishRetryDelayMs(retryCount + 1));
+          tx.update(ref, { ...base, status: 'approved', retryCount: retryCount + 1, nextRetryAt });
+          return { willRetry: true, nextRetryAt, retryCount: retryCount + 1 };
+        }
+
+        tx.update(ref, { ...base, status: 'failed', nextRetryAt: null });
+        return { willRetry: false, retryCount };
+      });
+    }, 'PostService.recordPublishFailure');
+  },
+
+  /**
+   * Retry a failed post — resets status to approved with a fresh retry
+   * budget. Only from 'failed'; returns false from any other status, so a
+   * published post is never queued again.
+   */
   retry(postId: string) {
-    return firebaseVoidHandler(async () => {
+    return firebaseHandler(async () => {
       const db = getAdminDb();
-      await db.collection(POSTS_COLLECTION).doc(postId).update({
-        status: 'approved',
-        failureReason: null,
-        updatedAt: FieldValue.serverTimestamp(),
+      const ref = db.collection(POSTS_COLLECTION).doc(postId);
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        if (snap.data()?.status !== 'failed') return false;
+        tx.update(ref, {
+          ...CLEARED_LEASE,
+          status: 'approved',
+          failureReason: null,
+          retryCount: 0,
+          nextRetryAt: null,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return true;
       });
     }, 'PostService.retry');
   },
@@ -3,9 +3,13 @@
  *
  * Each Firebase auth user has one autoposter profile that stores:
  * - LinkedIn OAuth tokens
+ * - Mastodon / Bluesky / X connections for cross-posting
  * - FCM token for push notifications
  * - Posting schedule (which days, what times)
  * - AI persona (writing style description)
+ *
+ * Tokens are encrypted at rest (see token-crypto) — callers only ever see
+ * them in plaintext.
  */
 
 import 'server-only';
@@ -14,31 +18,78 @@ import type { Timestamp } from 'firebase-admin/firestore';
 import { getAdminDb } from '@/lib/firebase/admin';
 import { firebaseHandler, firebaseVoidHandler } from '@/lib/firebase/handler';
 import { PROFILES_COLLECTION } from '../collections';
-import type { AutoposterProfile, PostingSchedule } from '../types';
-
-// ── Defaults ─────────────────────────────────────────────────────────────────
-
-const DEFAULT_SCHEDULE: PostingSchedule = {
-  monday: { enabled: false, postTime: '10:00' },
-  tuesday: { enabled: true, postTime: '10:00' },
-  wednesday: { enabled: true, postTime: '09:00' },
-  thursday: { enabled: true, postTime: '10:00' },
-  friday: { enabled: false, postTime: '10:00' },
-  saturday: { enabled: false, postTime: '10:00' },
-  sunday: { enabled: false, postTime: '10:00' },
-};
+import { CROSS_POST_NETWORKS } from '../crosspost';
+import { DEFAULT_POSTING_SCHEDULE, isLegacyPostingSchedule, normalizePostingSchedule } from '../schedule';
+import { DEFAULT_TIMEZONE } from '../timezone';
+import { decryptToken, encryptToken, isEncryptedToken } from '../token-crypto';
+import type {
+  AutoposterProfile, AutoposterProfileSummary, CrossPostConnection, CrossPostConnectionSummary, CrossPostNetwork,
+  PostingSchedule,
+} from '../types';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
-function toProfile(data: FirebaseFirestore.DocumentData): AutoposterProfile {
+/** Token fields on the profile doc — legacy LinkedIn ones, then per cross-post network */
+const LEGACY_TOKEN_FIELDS = ['linkedinAccessToken', 'linkedinRefreshToken'] as const;
+const CONNECTION_TOKEN_FIELDS = ['accessToken', 'refreshToken'] as const;
+
+async function decryptOptional(userId: string, value: string | null | undefined) {
+  return value ? decryptToken(userId, value) : value;
+}
+
+async function toCrossPostConnections(
+  userId: string,
+  data: Record<string, FirebaseFirestore.DocumentData> | undefined,
+): Promise<AutoposterProfile['crossPostConnections']> {
+  if (!data) return undefined;
+  return Object.fromEntries(await Promise.all(Object.entries(data).map(async ([network, c]) => [network, {
+    ...c,
+    accessToken: await decryptOptional(userId, c.accessToken),
+    refreshToken: await decryptOptional(userId, c.refreshToken),
+    tokenExpiry: (c.tokenExpiry as Timestamp)?.toDate?.() ?? undefined,
+    connectedAt: (c.connectedAt as Timestamp)?.toDate?.() ?? new Date(),
+  }]))) as AutoposterProfile['crossPostConnections'];
+}
+
+/** The profile without any of its tokens — nothing to decrypt */
+function toProfileSummary(data: FirebaseFirestore.DocumentData): AutoposterProfileSummary {
+  const fields = { ...data };
+  for (const field of [...LEGACY_TOKEN_FIELDS, 'crossPostConnections']) delete fields[field];
   return {
-    ...data,
+    ...fields,
     linkedinTokenExpiry: (data.linkedinTokenExpiry as Timestamp)?.toDate?.() ?? undefined,
+    // Profiles from before posting slots are read in the new shape
+    postingSchedule: data.postingSchedule ? normalizePostingSchedule(data.postingSchedule) : DEFAULT_POSTING_SCHEDULE,
     createdAt: (data.createdAt as Timestamp)?.toDate?.() ?? new Date(),
     updatedAt: (data.updatedAt as Timestamp)?.toDate?.() ?? new Date(),
+  } as AutoposterProfileSummary;
+}
+
+async function toProfile(userId: string, data: FirebaseFirestore.DocumentData): Promise<AutoposterProfile> {
+  return {
+    ...toProfileSummary(data),
+    linkedinAccessToken: await decryptOptional(userId, data.linkedinAccessToken),
+    linkedinRefreshToken: await decryptOptional(userId, data.linkedinRefreshToken),
+    crossPostConnections: await toCrossPostConnections(userId, data.crossPostConnections),
   } as AutoposterProfile;
 }
 
+/** Client-safe view of the user's cross-posting connections — no tokens */
+export function toCrossPostSummaries(profile: AutoposterProfile | null | undefined): CrossPostConnectionSummary[] {
+  return CROSS_POST_NETWORKS.flatMap((network) => {
+    const connection = profile?.crossPostConnections?.[network];
+    if (!connection) return [];
+    return [{
+      network,
+      handle: connection.handle,
+      accountId: connection.accountId,
+      serverUrl: connection.serverUrl ?? undefined,
+      tokenExpiry: connection.tokenExpiry,
+      connectedAt: connection.connectedAt,
+    }];
+  });
+}
+
 // ── Service ──────────────────────────────────────────────────────────────────
 
 export const ProfileService = {
@@ -51,10 +102,20 @@ export const ProfileService = {
       const db = getAdminDb();
       const snap = await db.collection(PROFILES_COLLECTION).doc(userId).get();
       if (!snap.exists) return null;
-      return toProfile(snap.data()!);
+      return toProfile(userId, snap.data()!);
     }, 'ProfileService.get');
   },
 
+  /** The user's profile without any tokens — what the browser gets */
+  getSummary(userId: string) {
+    return firebaseHandler(async () => {
+      const db = getAdminDb();
+      const snap = await db.collection(PROFILES_COLLECTION).doc(userId).get();
+      if (!snap.exists) return null;
+      return toProfileSummary(snap.data()!);
+    }, 'ProfileService.getSummary');
+  },
+
   /**
    * Create or fully replace the user's autoposter profile.
    * Called the first time the user enters the autoposter setup.
@@ -69,10 +130,11 @@ export const ProfileService = {
         linkedinTokenExpiry: null,
         linkedinMemberUrn: null,
         linkedinConnected: false,
+        defaultLinkedinAccountId: null,
         fcmToken: null,
         persona: null,
-        postingSchedule: DEFAULT_SCHEDULE,
-        timezone: 'Asia/Kolkata',
+        postingSchedule: DEFAULT_POSTING_SCHEDULE,
+        timezone: DEFAULT_TIMEZONE,
         draftGenerationHour: 21,
         reviewDeadlineHour: 3,
         ...data,
@@ -95,27 +157,23 @@ export const ProfileService = {
 
   // ── LinkedIn token management ────────────────────────────────────────────
 
-  /** Store LinkedIn OAuth tokens after a successful callback */
-  setLinkedInTokens(userId: string, tokens: {
-    accessToken: string;
-    refreshToken?: string;
-    expiresIn: number;
-    memberUrn: string;
-  }) {
+  /**
+   * Point the profile at the LinkedIn account used when a post/series
+   * doesn't pick one. Tokens themselves live in `linkedin_accounts`.
+   * Pass null once the last account is disconnected.
+   */
+  setDefaultLinkedInAccount(userId: string, accountId: string | null) {
     return firebaseVoidHandler(async () => {
       const db = getAdminDb();
       await db.collection(PROFILES_COLLECTION).doc(userId).update({
-        linkedinAccessToken: tokens.accessToken,
-        linkedinRefreshToken: tokens.refreshToken ?? null,
-        linkedinTokenExpiry: new Date(Date.now() + tokens.expiresIn * 1000),
-        linkedinMemberUrn: tokens.memberUrn,
-        linkedinConnected: true,
+        defaultLinkedinAccountId: accountId,
+        linkedinConnected: accountId !== null,
         updatedAt: FieldValue.serverTimestamp(),
       });
-    }, 'ProfileService.setLinkedInTokens');
+    }, 'ProfileService.setDefaultLinkedInAccount');
   },
 
-  /** Clear LinkedIn connection */
+  /** Clear the LinkedIn connection (legacy fields + default account pointer) */
   disconnectLinkedIn(userId: string) {
     return firebaseVoidHandler(async () => {
       const db = getAdminDb();
@@ -125,11 +183,98 @@ export const ProfileService = {
         linkedinTokenExpiry: null,
         linkedinMemberUrn: null,
         linkedinConnected: false,
+        defaultLinkedinAccountId: null,
         updatedAt: FieldValue.serverTimestamp(),
       });
     }, 'ProfileService.disconnectLinkedIn');
   },
 
+  // ── Cross-posting connections ────────────────────────────────────────────
+
+  /** Store (or replace) the user's Mastodon / Bluesky / X connection */
+  setCrossPostConnection(userId: string, connection: CrossPostConnection) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(PROFILES_COLLECTION).doc(userId).update({
+        [`crossPostConnections.${connection.network}`]: {
+          ...connection,
+          serverUrl: connection.serverUrl ?? null,
+          accessToken: await encryptToken(userId, connection.accessToken),
+          refreshToken: connection.refreshToken ? await encryptToken(userId, connection.refreshToken) : null,
+          tokenExpiry: connection.tokenExpiry ?? null,
+        },
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'ProfileService.setCrossPostConnection');
+  },
+
+  /** Forget a cross-posting connection */
+  removeCrossPostConnection(userId: string, network: CrossPostNetwork) {
+    return firebaseVoidHandler(async () => {
+      const db = getAdminDb();
+      await db.collection(PROFILES_COLLECTION).doc(userId).update({
+        [`crossPostConnections.${network}`]: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }, 'ProfileService.removeCrossPostConnection');
+  },
+
+  // ── Token encryption ─────────────────────────────────────────────────────
+
+  /**
+   * Encrypt any tokens on the profile still stored in plaintext (legacy
+   * LinkedIn fields and cross-post connections). Returns how many fields
+   * were encrypted.
+   */
+  encryptStoredTokens(userId: string) {
+    return firebaseHandler(async () => {
+      const db = getAdminDb();
+      const ref = db.collection(PROFILES_COLLECTION).doc(userId);
+      // In a transaction so a connection made meanwhile isn't overwritten
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const data = snap.data();
+        if (!data) return 0;
+
+        const updates: Record<string, string> = {};
+        const encryptField = async (path: string, value: unknown) => {
+          if (typeof value === 'string' && value && !isEncryptedToken(value)) {
+            updates[path] = await encryptToken(userId, value);
+          }
+        };
+        for (const field of LEGACY_TOKEN_FIELDS) await encryptField(field, data[field]);
+        for (const [network, connection] of Object.entries(data.crossPostConnections ?? {})) {
+          for (const field of CONNECTION_TOKEN_FIELDS) {
+            await encryptField(`crossPostConnections.${network}.${field}`, (connection as FirebaseFirestore.DocumentData)[field]);
+          }
+        }
+
+        if (Object.keys(updates).length > 0) tx.update(ref, updates);
+        return Object.keys(updates).length;
+      });
+    }, 'ProfileService.encryptStoredTokens');
+  },
+
+  /**
+   * Rewrite a schedule still stored in the single-`postTime` shape as
+   * posting slots. Returns whether anything changed.
+   */
+  migratePostingSchedule(userId: string) {
+    return firebaseHandler(async () => {
+      const db = getAdminDb();
+      const ref = db.collection(PROFILES_COLLECTION).doc(userId);
+      // In a transaction so a schedule saved meanwhile isn't overwritten
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const schedule = snap.data()?.postingSchedule;
+        if (!isLegacyPostingSchedule(schedule)) return false;
+
+        tx.update(ref, { postingSchedule: normalizePostingSchedule(schedule) });
+        return true;
+      });
+    }, 'ProfileService.migratePostingSchedule');
+  },
+
   // ── FCM token ────────────────────────────────────────────────────────────
 
   /** Update the FCM device token (called after requestPermission) */
@@ -147,13 +292,15 @@ export const ProfileService = {
 
   /**
    * Get ALL autoposter profiles (admin use only — for scheduled functions).
-   * Returns every document in the profiles collection.
+   * Returns every document in the profiles collection, without tokens —
+   * nothing is decrypted, so one unreadable token can't fail the lot.
+   * Use `get` for a profile's tokens.
    */
   getAllProfiles() {
     return firebaseHandler(async () => {
       const db = getAdminDb();
       const snap = await db.collection(PROFILES_COLLECTION).get();
-      return snap.docs.map(d => toProfile(d.data()));
+      return snap.docs.map(d => toProfileSummary(d.data()));
     }, 'ProfileService.getAllProfiles');
   },
 
@@ -164,7 +311,7 @@ export const ProfileService = {
     return firebaseVoidHandler(async () => {
       const db = getAdminDb();
       await db.collection(PROFILES_COLLECTION).doc(userId).update({
-        postingSchedule: schedule,
+        postingSchedule: normalizePostingSchedule(schedule),
         updatedAt: FieldValue.serverTimestamp(),
       });
     }, 'ProfileService.updateSchedule');
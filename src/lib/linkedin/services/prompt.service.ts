@@ -5,13 +5,14 @@
  * live here. This makes it easy to:
  *   - Tune prompts in one place
  *   - Add per-user prompt customization later
- *   - Support different content types (text, image, video)
+ *   - Support different content types (text, image, video, html, poll, article)
  *
  * SERVER-ONLY — uses `server-only` to prevent client-side imports.
  */
 
 import 'server-only';
-import type { PostMediaType, PostGenerationContext } from '../types';
+import { CROSS_POST_MAX_LENGTH, CROSS_POST_NETWORK_LABELS } from '../crosspost';
+import type { CrossPostNetwork, PostMediaType, PostGenerationContext } from '../types';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // CONSTANTS
@@ -23,6 +24,8 @@ const WORD_LIMITS: Record<PostMediaType, { min: number; max: number }> = {
   image: { min: 80,  max: 180 },
   video: { min: 60,  max: 150 },
   html:  { min: 80,  max: 180 },
+  poll:  { min: 40,  max: 120 },
+  article: { min: 60, max: 160 },
 };
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -81,6 +84,25 @@ CRITICAL RULES FOR THE TEXT:
 - Keep text shorter (the card carries visual weight) but make every sentence count
 - Every fact, stat, or technical claim in your text MUST be accurate. If you're unsure about a number, don't include it.`;
 
+const POLL_ADDON = `
+
+POLL CONTEXT:
+A LinkedIn poll will be attached below your text, with its own question and 2–4 answer options.
+- Set up the debate — give the context and your own take, then invite readers to vote (e.g. "Vote below 👇")
+- Do NOT list the poll options in the text — LinkedIn shows them
+- Keep it short — the poll is the main event
+- End by asking readers to explain their vote in the comments`;
+
+const ARTICLE_ADDON = `
+
+ARTICLE CONTEXT:
+Your post shares a link. LinkedIn shows it as a card (title, image, site) directly below your text.
+- Your job is to make people click: say WHY this link is worth their time — the one insight, surprise, or takeaway that matters
+- Add your own take — agree, push back, or connect it to real experience. Don't just summarise it.
+- Reference the link naturally (e.g. "Worth the 5-minute read 👇", "Link below")
+- NEVER paste the URL into the text — the card already carries it
+- Only state facts that come from the article details you're given — don't invent claims about its content`;
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // MEDIA PROMPT TEMPLATES
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -124,6 +146,47 @@ REQUIREMENTS:
 
 OUTPUT: Only the video prompt. No quotes, no prefix, no explanation.`;
 
+const POLL_PROMPT_INSTRUCTION = `You write LinkedIn polls for software developers and tech professionals. Given a post topic and the post text, propose ONE poll.
+
+RULES:
+- Question: max 140 characters. Specific and opinionated — people should have a gut answer.
+- Options: 2 to 4, each max 30 characters. Mutually exclusive, distinct, and roughly balanced — no obviously "right" answer.
+- Short options beat clever ones. No emojis, no numbering.
+- A final catch-all like "Something else (comment)" is allowed if it fits in 30 characters.
+
+OUTPUT: Only JSON, exactly this shape — no markdown, no explanation:
+{"question": "...", "options": ["...", "..."]}`;
+
+const ALT_TEXT_INSTRUCTION = `You write image alt text for screen-reader users on LinkedIn. You are given what each image shows and must describe it.
+
+RULES:
+- One alt text per image, in order. Max 250 characters each.
+- Describe what's visible: the main subject, any headline or key text shown, and the type of visual (diagram, chart, code snippet, illustration).
+- Don't start with "Image of" or "Picture of". No hashtags, no emojis, no marketing tone.
+
+OUTPUT: Only a JSON array of strings, one per image — no markdown, no explanation:
+["...", "..."]`;
+
+const CROSS_POST_INSTRUCTION = `You adapt LinkedIn posts for {{NETWORK}}. Given a LinkedIn post, rewrite it as ONE {{NETWORK}} post by the same author.
+
+RULES:
+- HARD LIMIT: {{MAX_CHARS}} characters including spaces, hashtags and links. Shorter is fine.
+- Keep the author's point, voice and any concrete facts. Drop LinkedIn framing ("Agree?", "Thoughts below 👇", "Follow for more").
+- {{NETWORK_STYLE}}
+- At most 2 hashtags. No thread numbering ("1/"), no markdown.
+- If a link is given, end the post with it exactly as given.
+
+OUTPUT: Only the post text. No quotes, no prefix, no explanation.`;
+
+const CROSS_POST_STYLE: Record<CrossPostNetwork, string> = {
+  mastodon: 'Mastodon readers dislike marketing tone — plain, conversational, substance first. Hashtags in CamelCase for screen readers.',
+  bluesky: 'Bluesky favours a punchy, casual single thought — lead with the most interesting line.',
+  x: 'X rewards a sharp hook in the first line — one idea, no filler.',
+};
+
+/** Ask for a little under each network's limit — models overshoot */
+const CROSS_POST_LENGTH_MARGIN = 0.9;
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // SUMMARY PROMPT
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -157,6 +220,8 @@ export const PromptService = {
     if (mediaType === 'image') prompt += IMAGE_ADDON;
     if (mediaType === 'video') prompt += VIDEO_ADDON;
     if (mediaType === 'html')  prompt += HTML_ADDON;
+    if (mediaType === 'poll')  prompt += POLL_ADDON;
+    if (mediaType === 'article') prompt += ARTICLE_ADDON;
 
     if (persona) {
       prompt += `\n\nUSER'S WRITING STYLE:\n${persona}\nAdapt your tone and style to match the above while keeping all other rules.`;
@@ -184,10 +249,21 @@ export const PromptService = {
       parts.push('BUILD on the previous post — reference what was covered without repeating it. Move the narrative forward.');
     }
 
+    if (ctx.article) {
+      const link = [`Title: ${ctx.article.title}`];
+      if (ctx.article.description) link.push(`Description: ${ctx.article.description}`);
+      link.push(`Site: ${new URL(ctx.article.source).hostname.replace(/^www\./, '')}`);
+      parts.push(`SHARED LINK (introduce this — the card shows it below your text):\n${link.join('\n')}`);
+    }
+
     if (ctx.notes) {
       parts.push(`AUTHOR'S NOTES (incorporate these naturally — they are key points, angles, or personal stories to weave in):\n${ctx.notes}`);
     }
 
+    if (ctx.visibility === 'CONNECTIONS') {
+      parts.push('AUDIENCE: connections only — write for people who already know the author; a more personal, candid tone fits.');
+    }
+
     if (ctx.publishDay) {
       parts.push(`PUBLISH DAY: ${ctx.publishDay}`);
     }
@@ -224,6 +300,56 @@ export const PromptService = {
     return `TOPIC: ${topic}\n\nLINKEDIN POST TEXT:\n${postContent}\n\nGenerate the ${mediaType} prompt now.`;
   },
 
+  // ── Poll Prompt ────────────────────────────────────────────────────────────
+
+  /** System instruction for proposing a poll question + options (JSON output) */
+  getPollInstruction(): string {
+    return POLL_PROMPT_INSTRUCTION;
+  },
+
+  /** Build the user prompt for the poll generator */
+  buildPollUserPrompt(topic: string, postContent: string): string {
+    return `TOPIC: ${topic}\n\nLINKEDIN POST TEXT:\n${postContent}\n\nPropose the poll now.`;
+  },
+
+  // ── Alt Text Prompt ────────────────────────────────────────────────────────
+
+  /** System instruction for writing image alt text (JSON array output) */
+  getAltTextInstruction(): string {
+    return ALT_TEXT_INSTRUCTION;
+  },
+
+  /**
+   * Build the user prompt for the alt text writer.
+   * `images` describes each image — the image prompt, or a slide's text.
+   */
+  buildAltTextUserPrompt(topic: string, images: string[]): string {
+    const list = images.map((desc, i) => `IMAGE ${i + 1}:\n${desc.slice(0, 1500)}`).join('\n\n');
+    return `TOPIC: ${topic}\n\n${list}\n\nWrite exactly ${images.length} alt text${images.length === 1 ? '' : 's'} now.`;
+  },
+
+  // ── Cross-post Prompt ──────────────────────────────────────────────────────
+
+  /** System instruction for rewriting a LinkedIn post for another network */
+  getCrossPostInstruction(network: CrossPostNetwork): string {
+    const label = CROSS_POST_NETWORK_LABELS[network];
+    return CROSS_POST_INSTRUCTION
+      .replaceAll('{{NETWORK}}', label)
+      .replace('{{MAX_CHARS}}', String(Math.floor(CROSS_POST_MAX_LENGTH[network] * CROSS_POST_LENGTH_MARGIN)))
+      .replace('{{NETWORK_STYLE}}', CROSS_POST_STYLE[network]);
+  },
+
+  /**
+   * Build the user prompt for the cross-post rewriter.
+   * `postContent` is plain text (see `toCrossPostText`).
+   */
+  buildCrossPostUserPrompt(postContent: string, link?: string): string {
+    const parts = [`LINKEDIN POST:\n${postContent}`];
+    if (link) parts.push(`LINK: ${link}`);
+    parts.push('Write the post now.');
+    return parts.join('\n\n');
+  },
+
   // ── Summary Prompt ─────────────────────────────────────────────────────────
 
   /** System instruction for the summary generator */
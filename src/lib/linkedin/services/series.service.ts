@@ -39,6 +39,8 @@ export const SeriesService = {
     topicQueue: SeriesTopic[];
     order?: number;
     templateId?: string;
+    linkedinAccountId?: string;
+    authorUrn?: string;
   }) {
     return firebaseHandler(async () => {
       const db = getAdminDb();
@@ -51,6 +53,8 @@ export const SeriesService = {
         status: 'active' as SeriesStatus,
         order: data.order ?? 0,
         templateId: data.templateId ?? null,
+        linkedinAccountId: data.linkedinAccountId ?? null,
+        authorUrn: data.authorUrn ?? null,
         createdAt: FieldValue.serverTimestamp(),
         updatedAt: FieldValue.serverTimestamp(),
       });
@@ -95,8 +99,8 @@ export const SeriesService = {
     }, 'SeriesService.getActiveSeries');
   },
 
-  /** Update series fields (title, category, topicQueue, status, order, templateId) */
-  update(seriesId: string, data: Partial<Pick<Series, 'title' | 'category' | 'topicQueue' | 'status' | 'order' | 'templateId'>>) {
+  /** Update series fields (title, category, topicQueue, status, order, templateId, linkedinAccountId, authorUrn) */
+  update(seriesId: string, data: Partial<Pick<Series, 'title' | 'category' | 'topicQueue' | 'status' | 'order' | 'templateId' | 'linkedinAccountId' | 'authorUrn'>>) {
     return firebaseVoidHandler(async () => {
       const db = getAdminDb();
       await db.collection(SERIES_COLLECTION).doc(seriesId).update({
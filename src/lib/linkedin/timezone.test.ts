@@ -0,0 +1,226 @@
+/**
+ * Property tests for timezone math
+ *
+ * Random instants and wall-clock times — uniform over 2010–2035 and
+ * clustered around every DST change in that range — checked against the
+ * rules in timezone.ts. The generator is seeded, so a failure reproduces.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { addDays, utcToZoned, weekdayOf, zonedToUtc, zoneOffsetMinutes, type ZonedDateTime } from './timezone';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const FROM = Date.UTC(2010, 0, 1);
+const TO = Date.UTC(2035, 0, 1);
+
+const SAMPLES = 400;
+
+/** Every offset each zone uses between FROM and TO, in minutes */
+const ZONES: Record<string, number[]> = {
+  // Northern hemisphere DST
+  'America/New_York': [-300, -240],
+  'Europe/London': [0, 60],
+  // Southern hemisphere DST — Santiago changes at midnight
+  'Australia/Sydney': [600, 660],
+  'America/Santiago': [-240, -180],
+  // 30- and 45-minute offsets, fixed and with DST (Lord Howe shifts by 30 minutes)
+  'Asia/Kolkata': [330],
+  'Asia/Kathmandu': [345],
+  'Australia/Eucla': [525],
+  'Australia/Adelaide': [570, 630],
+  'America/St_Johns': [-210, -150],
+  'Australia/Lord_Howe': [630, 660],
+  'Pacific/Chatham': [765, 825],
+};
+
+// ── Generators ───────────────────────────────────────────────────────────────
+
+/** mulberry32 — small, seeded, good enough to spread samples */
+function seeded(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomMinute(random: () => number, from: number, to: number): number {
+  return from + Math.floor(random() * ((to - from) / MINUTE_MS)) * MINUTE_MS;
+}
+
+interface Transition {
+  /** First instant on the new offset */
+  at: number;
+  before: number;
+  after: number;
+}
+
+const transitionCache = new Map<string, Transition[]>();
+
+/** Every offset change in the zone between FROM and TO, to the minute */
+function transitions(timeZone: string): Transition[] {
+  const cached = transitionCache.get(timeZone);
+  if (cached) return cached;
+
+  const found: Transition[] = [];
+  let offset = zoneOffsetMinutes(new Date(FROM), timeZone);
+  for (let day = FROM; day < TO; day += DAY_MS) {
+    const next = zoneOffsetMinutes(new Date(day + DAY_MS), timeZone);
+    if (next !== offset) {
+      let lo = day;
+      let hi = day + DAY_MS;
+      while (hi - lo > MINUTE_MS) {
+        const mid = lo + Math.floor((hi - lo) / MINUTE_MS / 2) * MINUTE_MS;
+        if (zoneOffsetMinutes(new Date(mid), timeZone) === offset) lo = mid;
+        else hi = mid;
+      }
+      found.push({ at: hi, before: offset, after: next });
+    }
+    offset = next;
+  }
+  transitionCache.set(timeZone, found);
+  return found;
+}
+
+/** UTC instants, half of them within three hours of a DST change */
+function sampleInstants(timeZone: string, seed: number): number[] {
+  const random = seeded(seed);
+  const changes = transitions(timeZone);
+  return Array.from({ length: SAMPLES }, (_, i) => {
+    if (i % 2 === 0 || changes.length === 0) return randomMinute(random, FROM, TO);
+    const change = changes[Math.floor(random() * changes.length)];
+    return randomMinute(random, change.at - 3 * HOUR_MS, change.at + 3 * HOUR_MS);
+  });
+}
+
+/** A UTC-read wall clock as "YYYY-MM-DD" / "HH:mm" */
+function toWall(wall: number): ZonedDateTime {
+  const iso = new Date(wall).toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+function wallOf(local: ZonedDateTime): number {
+  return Date.parse(`${local.date}T${local.time}:00Z`);
+}
+
+// ── Properties ───────────────────────────────────────────────────────────────
+
+describe('timezone', () => {
+  for (const [timeZone, offsets] of Object.entries(ZONES)) {
+    describe(timeZone, () => {
+      it('only ever uses the zone\'s own offsets', () => {
+        for (const at of sampleInstants(timeZone, 1)) {
+          assert.ok(offsets.includes(zoneOffsetMinutes(new Date(at), timeZone)), new Date(at).toISOString());
+        }
+        if (offsets.length === 1) assert.equal(transitions(timeZone).length, 0);
+        else assert.ok(transitions(timeZone).length > 0);
+      });
+
+      it('utcToZoned shows the instant shifted by the zone offset', () => {
+        for (const at of sampleInstants(timeZone, 2)) {
+          const offset = zoneOffsetMinutes(new Date(at), timeZone);
+          assert.deepEqual(utcToZoned(new Date(at), timeZone), toWall(at + offset * MINUTE_MS));
+        }
+      });
+
+      it('instant → wall clock → instant comes back, or to the first pass of a repeated time', () => {
+        for (const at of sampleInstants(timeZone, 3)) {
+          const local = utcToZoned(new Date(at), timeZone);
+          const back = zonedToUtc(local.date, local.time, timeZone).getTime();
+
+          assert.deepEqual(utcToZoned(new Date(back), timeZone), local);
+          if (back === at) continue;
+
+          // Only the second pass through a fall-back hour moves — back by the overlap
+          const overlap = zoneOffsetMinutes(new Date(back), timeZone) - zoneOffsetMinutes(new Date(at), timeZone);
+          assert.ok(back < at, `${new Date(at).toISOString()} came back later`);
+          assert.equal((at - back) / MINUTE_MS, overlap);
+        }
+      });
+
+      it('wall clock → instant → wall clock comes back, or moves forward across a gap', () => {
+        const random = seeded(4);
+        const changes = transitions(timeZone);
+        for (let i = 0; i < SAMPLES; i++) {
+          const change = changes.length > 0 && i % 2 === 1 ? changes[Math.floor(random() * changes.length)] : null;
+          const wall = change
+            ? randomMinute(random, change.at + change.before * MINUTE_MS - 3 * HOUR_MS, change.at + change.before * MINUTE_MS + 3 * HOUR_MS)
+            : randomMinute(random, FROM, TO);
+          const local = toWall(wall);
+
+          const shown = wallOf(utcToZoned(zonedToUtc(local.date, local.time, timeZone), timeZone));
+          if (shown === wall) continue;
+
+          const gap = changes.find(c => c.after > c.before
+            && wall >= c.at + c.before * MINUTE_MS && wall < c.at + c.after * MINUTE_MS);
+          assert.ok(gap, `${local.date} ${local.time} isn't in a gap`);
+          assert.equal((shown - wall) / MINUTE_MS, gap.after - gap.before);
+        }
+      });
+
+      it('skipped times move forward by the gap, repeated times take the first pass', () => {
+        const random = seeded(5);
+        for (const change of transitions(timeZone)) {
+          const shift = Math.abs(change.after - change.before);
+          const minute = Math.floor(random() * shift);
+          // Gap: [T + before, T + after) never shows. Overlap: [T + after, T + before) shows twice.
+          const wall = change.at + (Math.min(change.before, change.after) + minute) * MINUTE_MS;
+          const local = toWall(wall);
+
+          assert.equal(
+            zonedToUtc(local.date, local.time, timeZone).getTime(),
+            wall - change.before * MINUTE_MS,
+            `${local.date} ${local.time}`,
+          );
+        }
+      });
+    });
+  }
+
+  it('converts known DST edges', () => {
+    const cases: [date: string, time: string, timeZone: string, utc: string][] = [
+      // Spring forward — the skipped time moves on by the gap
+      ['2024-03-10', '02:30', 'America/New_York', '2024-03-10T07:30:00.000Z'],
+      ['2024-10-06', '02:30', 'Australia/Sydney', '2024-10-05T16:30:00.000Z'],
+      ['2024-09-08', '00:30', 'America/Santiago', '2024-09-08T04:30:00.000Z'],
+      ['2024-09-29', '03:00', 'Pacific/Chatham', '2024-09-28T14:15:00.000Z'],
+      ['2024-10-06', '02:15', 'Australia/Lord_Howe', '2024-10-05T15:45:00.000Z'],
+      // Fall back — the first of the two
+      ['2024-11-03', '01:30', 'America/New_York', '2024-11-03T05:30:00.000Z'],
+      ['2024-04-07', '02:30', 'Australia/Sydney', '2024-04-06T15:30:00.000Z'],
+      ['2024-04-06', '23:30', 'America/Santiago', '2024-04-07T02:30:00.000Z'],
+      ['2024-04-07', '03:00', 'Pacific/Chatham', '2024-04-06T13:15:00.000Z'],
+      ['2024-04-07', '01:45', 'Australia/Lord_Howe', '2024-04-06T14:45:00.000Z'],
+      // Fixed half- and three-quarter-hour zones
+      ['2024-06-01', '10:00', 'Asia/Kolkata', '2024-06-01T04:30:00.000Z'],
+      ['2024-06-01', '12:00', 'Asia/Kathmandu', '2024-06-01T06:15:00.000Z'],
+      ['2024-06-01', '10:00', 'Australia/Eucla', '2024-06-01T01:15:00.000Z'],
+    ];
+    for (const [date, time, timeZone, utc] of cases) {
+      assert.equal(zonedToUtc(date, time, timeZone).toISOString(), utc, `${date} ${time} ${timeZone}`);
+    }
+  });
+
+  it('addDays and weekdayOf follow the calendar', () => {
+    const random = seeded(6);
+    for (let i = 0; i < SAMPLES; i++) {
+      const date = toWall(randomMinute(random, FROM, TO)).date;
+      const days = Math.floor(random() * 1000) - 500;
+
+      assert.equal(addDays(addDays(date, days), -days), date);
+      assert.equal(addDays(date, days), new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10));
+      assert.equal(weekdayOf(addDays(date, 7)), weekdayOf(date));
+    }
+  });
+
+  it('rejects malformed dates and times', () => {
+    assert.throws(() => zonedToUtc('2024-13-01', '10:00', 'Asia/Kolkata'), RangeError);
+    assert.throws(() => zonedToUtc('2024-06-01', '9:00', 'Asia/Kolkata'), RangeError);
+  });
+});
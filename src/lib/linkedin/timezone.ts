@@ -0,0 +1,141 @@
+/**
+ * Timezone math for scheduling
+ *
+ * Every schedule is defined in the user's IANA zone (`profile.timezone`) —
+ * "Tuesday 10:00 in Asia/Kolkata" — and stored as a UTC instant. This is
+ * the one place that converts between the two; nothing else should read
+ * the server's or the browser's own zone.
+ *
+ * Dates are "YYYY-MM-DD" and times "HH:mm", both as seen on a wall clock
+ * in the zone. Around DST changes:
+ *   - a time the clock skips (02:30 on a spring-forward night) moves
+ *     forward by the gap — it happens at 03:30
+ *   - a time the clock passes twice (01:30 on a fall-back night) means
+ *     the first of the two
+ *
+ * Safe on client and server.
+ */
+
+import type { PostingSchedule } from './types';
+
+/** Zone used when a profile doesn't have one */
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+/** Weekday keys, indexed like Date#getUTCDay (Sunday = 0) */
+const WEEKDAYS: (keyof PostingSchedule)[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday',
+];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** A wall-clock reading in some zone */
+export interface ZonedDateTime {
+  /** "YYYY-MM-DD" */
+  date: string;
+  /** "HH:mm" */
+  time: string;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** The zone's wall clock at `at`, read as if it were UTC (minute precision) */
+function wallClockOf(at: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone).formatToParts(at).map(p => [p.type, Number(p.value)]),
+  );
+  // Some engines print midnight as 24 even with h23
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute);
+}
+
+function parseWallClock(date: string, time: string): number {
+  const wall = Date.parse(`${date}T${time}:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{2}:\d{2}$/.test(time) || Number.isNaN(wall)) {
+    throw new RangeError(`Invalid local date/time: ${date} ${time}`);
+  }
+  return wall;
+}
+
+// ── Zones ────────────────────────────────────────────────────────────────────
+
+/** True for an IANA zone name this runtime knows */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minutes `timeZone` is ahead of UTC at `at` — 330 for IST, -240 for New York in summer */
+export function zoneOffsetMinutes(at: Date, timeZone: string): number {
+  const instant = at.getTime() - (((at.getTime() % MINUTE_MS) + MINUTE_MS) % MINUTE_MS);
+  return (wallClockOf(at, timeZone) - instant) / MINUTE_MS;
+}
+
+// ── Conversions ──────────────────────────────────────────────────────────────
+
+/** What a wall clock in `timeZone` shows at the UTC instant `at` */
+export function utcToZoned(at: Date, timeZone: string): ZonedDateTime {
+  const iso = new Date(wallClockOf(at, timeZone)).toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+/**
+ * The UTC instant a wall clock in `timeZone` shows `time` on `date`.
+ * Skipped times move forward by the DST gap; repeated times resolve to
+ * the earlier instant.
+ */
+export function zonedToUtc(date: string, time: string, timeZone: string): Date {
+  const wall = parseWallClock(date, time);
+
+  // The offsets a day either side bracket any DST change around `wall`
+  const candidates = [
+    wall - zoneOffsetMinutes(new Date(wall - DAY_MS), timeZone) * MINUTE_MS,
+    wall - zoneOffsetMinutes(new Date(wall + DAY_MS), timeZone) * MINUTE_MS,
+  ];
+  const exact = candidates.filter(t => wallClockOf(new Date(t), timeZone) === wall);
+  if (exact.length > 0) return new Date(Math.min(...exact));
+
+  // In a gap: the pre-change offset lands as far past the gap as `time` was into it
+  return new Date(candidates[0]);
+}
+
+// ── Calendar dates ───────────────────────────────────────────────────────────
+
+/** Today's date ("YYYY-MM-DD") in `timeZone` */
+export function zonedToday(timeZone: string, now: Date = new Date()): string {
+  return utcToZoned(now, timeZone).date;
+}
+
+/** `date` moved by whole calendar days — unaffected by DST */
+export function addDays(date: string, days: number): string {
+  return new Date(parseWallClock(date, '00:00') + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Weekday key of a calendar date */
+export function weekdayOf(date: string): keyof PostingSchedule {
+  return WEEKDAYS[new Date(parseWallClock(date, '00:00')).getUTCDay()];
+}
+
+/** "Tuesday" — the weekday `at` falls on in `timeZone`, for prompts and labels */
+export function zonedWeekdayName(at: Date, timeZone: string): string {
+  const day = weekdayOf(utcToZoned(at, timeZone).date);
+  return day.charAt(0).toUpperCase() + day.slice(1);
+}
@@ -0,0 +1,103 @@
+/**
+ * Token encryption primitives
+ *
+ * The crypto behind token-crypto.ts — parsing master keys, wrapping data
+ * keys and sealing tokens (AES-256-GCM, bound to the user id). No
+ * Firestore or environment access here: token-crypto.ts decides which keys
+ * to use and where they're stored.
+ */
+
+import 'server-only';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/** A user's data key as stored in `token_keys` */
+export interface WrappedDataKey {
+  masterKeyId: string;
+  wrappedKey: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// KEYS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** "k2:<base64 32 bytes>,k1:<base64 32 bytes>" → master keys, current one first */
+export function parseMasterKeys(raw: string): MasterKey[] {
+  const keys = raw.split(',').map(s => s.trim()).filter(Boolean).map((entry, i) => {
+    const sep = entry.indexOf(':');
+    const id = entry.slice(0, sep);
+    const key = Buffer.from(entry.slice(sep + 1), 'base64');
+    if (sep <= 0 || key.length !== KEY_BYTES) {
+      throw new Error(`TOKEN_ENCRYPTION_KEYS entry ${i + 1} must be "id:<base64 of ${KEY_BYTES} bytes>"`);
+    }
+    return { id, key };
+  });
+  if (keys.length === 0) throw new Error('TOKEN_ENCRYPTION_KEYS has no keys');
+  return keys;
+}
+
+/** AES-256-GCM → "iv:tag:ciphertext", each base64 */
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString('base64')).join(':');
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split(':').map(s => Buffer.from(s, 'base64'));
+  if (!iv || !tag || !ciphertext) throw new Error('Malformed encrypted value');
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/** A fresh random data key for one user */
+export function createDataKey(): Buffer {
+  return randomBytes(KEY_BYTES);
+}
+
+/** Wrap the user's data key with `master` */
+export function wrapDataKey(master: MasterKey, userId: string, dataKey: Buffer): WrappedDataKey {
+  return { masterKeyId: master.id, wrappedKey: seal(master.key, dataKey, userId) };
+}
+
+/** Unwrap the user's data key with whichever of `masterKeys` wrapped it */
+export function unwrapDataKey(masterKeys: MasterKey[], userId: string, wrapped: WrappedDataKey): Buffer {
+  const master = masterKeys.find(k => k.id === wrapped.masterKeyId);
+  if (!master) {
+    throw new Error(`Token key for user ${userId} is wrapped with master key "${wrapped.masterKeyId}", which isn't in TOKEN_ENCRYPTION_KEYS`);
+  }
+  return open(master.key, wrapped.wrappedKey, userId);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOKENS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** True if `value` was written by `sealToken` */
+export function isEncryptedToken(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/** Encrypt a token with the user's data key */
+export function sealToken(dataKey: Buffer, userId: string, token: string): string {
+  return ENCRYPTED_PREFIX + seal(dataKey, Buffer.from(token, 'utf8'), userId);
+}
+
+/** Decrypt a value written by `sealToken` — throws if it was tampered with */
+export function openToken(dataKey: Buffer, userId: string, value: string): string {
+  if (!isEncryptedToken(value)) throw new Error('Not an encrypted token');
+  return open(dataKey, value.slice(ENCRYPTED_PREFIX.length), userId).toString('utf8');
+}
@@ -0,0 +1,134 @@
+/**
+ * Tests for token encryption — sealing and opening tokens, telling
+ * encrypted values from legacy plaintext, re-wrapping data keys when the
+ * master key rotates, and refusing anything that was tampered with.
+ *
+ * Runs against token-cipher.ts, the crypto token-crypto.ts stores in
+ * Firestore.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import {
+  createDataKey, isEncryptedToken, openToken, parseMasterKeys, sealToken, unwrapDataKey, wrapDataKey,
+  type WrappedDataKey,
+} from './token-cipher';
+
+const USER = 'user-a';
+const OTHER_USER = 'user-b';
+
+function masterKeyEntry(id: string): string {
+  return `${id}:${randomBytes(32).toString('base64')}`;
+}
+
+/** Flip one bit of the base64 part at `index` ("iv:tag:ciphertext") */
+function tamper(value: string, index: number): string {
+  const prefix = value.slice(0, value.indexOf(':', value.indexOf(':') + 1) + 1);
+  const parts = value.slice(prefix.length).split(':');
+  const bytes = Buffer.from(parts[index], 'base64');
+  bytes[0] ^= 1;
+  parts[index] = bytes.toString('base64');
+  return prefix + parts.join(':');
+}
+
+describe('token encryption', () => {
+  describe('tokens', () => {
+    const dataKey = createDataKey();
+
+    it('round-trips a token', () => {
+      for (const token of ['AQX-access-token', '', 'ünïcödé ✓ token', 'x'.repeat(4096)]) {
+        const sealed = sealToken(dataKey, USER, token);
+        assert.notEqual(sealed, token);
+        assert.ok(!sealed.includes(token) || token === '');
+        assert.equal(openToken(dataKey, USER, sealed), token);
+      }
+    });
+
+    it('seals the same token differently every time', () => {
+      assert.notEqual(sealToken(dataKey, USER, 'token'), sealToken(dataKey, USER, 'token'));
+    });
+
+    it('tells encrypted values from plaintext', () => {
+      assert.equal(isEncryptedToken(sealToken(dataKey, USER, 'token')), true);
+      assert.equal(isEncryptedToken('AQX-plaintext-token'), false);
+      assert.equal(isEncryptedToken(''), false);
+      assert.equal(isEncryptedToken(null), false);
+      assert.equal(isEncryptedToken(undefined), false);
+      assert.equal(isEncryptedToken(42), false);
+    });
+
+    it('refuses a tampered iv, tag or ciphertext', () => {
+      const sealed = sealToken(dataKey, USER, 'AQX-access-token');
+      for (const index of [0, 1, 2]) {
+        assert.throws(() => openToken(dataKey, USER, tamper(sealed, index)), `part ${index}`);
+      }
+    });
+
+    it('refuses a malformed value', () => {
+      assert.throws(() => openToken(dataKey, USER, 'enc:v1:not-sealed'), /Malformed/);
+      assert.throws(() => openToken(dataKey, USER, 'AQX-plaintext-token'), /Not an encrypted token/);
+    });
+
+    it('only opens for the user and key it was sealed for', () => {
+      const sealed = sealToken(dataKey, USER, 'AQX-access-token');
+      assert.throws(() => openToken(dataKey, OTHER_USER, sealed));
+      assert.throws(() => openToken(createDataKey(), USER, sealed));
+    });
+  });
+
+  describe('master keys', () => {
+    it('parses ids and keys, current one first', () => {
+      const keys = parseMasterKeys(` ${masterKeyEntry('k2')}, ${masterKeyEntry('k1')} ,`);
+      assert.deepEqual(keys.map(k => k.id), ['k2', 'k1']);
+      assert.ok(keys.every(k => k.key.length === 32));
+    });
+
+    it('rejects malformed keys', () => {
+      assert.throws(() => parseMasterKeys(''), /no keys/);
+      assert.throws(() => parseMasterKeys(randomBytes(32).toString('base64')), /entry 1/);
+      assert.throws(() => parseMasterKeys(`${masterKeyEntry('k1')},k2:${randomBytes(16).toString('base64')}`), /entry 2/);
+    });
+  });
+
+  describe('data keys', () => {
+    it('round-trips a data key through its master key', () => {
+      const [master] = parseMasterKeys(masterKeyEntry('k1'));
+      const dataKey = createDataKey();
+      const wrapped = wrapDataKey(master, USER, dataKey);
+
+      assert.equal(wrapped.masterKeyId, 'k1');
+      assert.deepEqual(unwrapDataKey([master], USER, wrapped), dataKey);
+      assert.throws(() => unwrapDataKey([master], OTHER_USER, wrapped));
+    });
+
+    it('rewraps under a new master key without changing the tokens', () => {
+      const k1 = masterKeyEntry('k1');
+      const before = parseMasterKeys(k1);
+      const dataKey = createDataKey();
+      const stored: WrappedDataKey = wrapDataKey(before[0], USER, dataKey);
+      const token = sealToken(dataKey, USER, 'AQX-access-token');
+
+      // Rotation: the new key goes first, the old one stays to unwrap
+      const during = parseMasterKeys(`${masterKeyEntry('k2')},${k1}`);
+      const rewrapped = wrapDataKey(during[0], USER, unwrapDataKey(during, USER, stored));
+      assert.equal(rewrapped.masterKeyId, 'k2');
+
+      // Once everything is rewrapped, the old key can go
+      const after = [during[0]];
+      assert.equal(openToken(unwrapDataKey(after, USER, rewrapped), USER, token), 'AQX-access-token');
+      assert.throws(() => unwrapDataKey(after, USER, stored), /master key "k1"/);
+    });
+
+    it('refuses a tampered wrapped key', () => {
+      const [master] = parseMasterKeys(masterKeyEntry('k1'));
+      const wrapped = wrapDataKey(master, USER, createDataKey());
+      const parts = wrapped.wrappedKey.split(':');
+      const ciphertext = Buffer.from(parts[2], 'base64');
+      ciphertext[0] ^= 1;
+      parts[2] = ciphertext.toString('base64');
+
+      assert.throws(() => unwrapDataKey([master], USER, { ...wrapped, wrappedKey: parts.join(':') }));
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * OAuth token encryption at rest
+ *
+ * Envelope encryption: every user gets a random 256-bit data key, stored
+ * in `token_keys` wrapped by a master key from the environment. Tokens
+ * are encrypted with the user's data key (AES-256-GCM, bound to the user
+ * id), so read access to Firestore alone can't be used to post as anyone.
+ *
+ * Required env var (server-only):
+ *   TOKEN_ENCRYPTION_KEYS   e.g. k2:<base64 32 bytes>,k1:<base64 32 bytes>
+ *
+ * The first key wraps new data keys; the others only unwrap. To rotate,
+ * put a new key first and run POST /api/autoposter/encrypt-tokens, which
+ * re-wraps every data key under it — the tokens themselves don't change.
+ * Drop the old key once the run reports nothing left on it.
+ *
+ * Encrypted values are strings prefixed `enc:v1:`. Anything else is a
+ * token written before encryption and is read as-is until the migration
+ * encrypts it. The crypto itself lives in token-cipher.ts.
+ */
+
+import 'server-only';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { TOKEN_KEYS_COLLECTION } from './collections';
+import {
+  createDataKey, isEncryptedToken, openToken, parseMasterKeys, sealToken, unwrapDataKey, wrapDataKey,
+  type MasterKey, type WrappedDataKey,
+} from './token-cipher';
+
+export { isEncryptedToken };
+
+/** gRPC ALREADY_EXISTS — another request created the user's key first */
+const ALREADY_EXISTS = 6;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// KEYS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let masterKeys: MasterKey[] | null = null;
+
+/** Master keys from the environment, current one first */
+function getMasterKeys(): MasterKey[] {
+  if (masterKeys) return masterKeys;
+  const raw = process.env.TOKEN_ENCRYPTION_KEYS;
+  if (!raw) throw new Error('TOKEN_ENCRYPTION_KEYS environment variable is not set');
+  masterKeys = parseMasterKeys(raw);
+  return masterKeys;
+}
+
+/** The user's data key — created (wrapped with the current master key) on first use */
+async function loadDataKey(userId: string): Promise<Buffer> {
+  const ref = getAdminDb().collection(TOKEN_KEYS_COLLECTION).doc(userId);
+  const snap = await ref.get();
+  if (snap.exists) return unwrapDataKey(getMasterKeys(), userId, snap.data() as WrappedDataKey);
+
+  const dataKey = createDataKey();
+  try {
+    await ref.create({
+      userId,
+      ...wrapDataKey(getMasterKeys()[0], userId, dataKey),
+      createdAt: FieldValue.serverTimestamp(),
+      rewrappedAt: null,
+    });
+    return dataKey;
+  } catch (err) {
+    if ((err as { code?: number }).code !== ALREADY_EXISTS) throw err;
+    return unwrapDataKey(getMasterKeys(), userId, (await ref.get()).data() as WrappedDataKey);
+  }
+}
+
+// Data keys never change for a user (rotation only re-wraps them), so
+// unwrapped keys can live for the life of the process
+const dataKeys = new Map<string, Promise<Buffer>>();
+
+function getDataKey(userId: string): Promise<Buffer> {
+  let key = dataKeys.get(userId);
+  if (!key) {
+    key = loadDataKey(userId);
+    key.catch(() => dataKeys.delete(userId));
+    dataKeys.set(userId, key);
+  }
+  return key;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOKENS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Encrypt a token with the user's data key. Already-encrypted values are returned unchanged. */
+export async function encryptToken(userId: string, token: string): Promise<string> {
+  if (isEncryptedToken(token)) return token;
+  return sealToken(await getDataKey(userId), userId, token);
+}
+
+/** Decrypt a stored token. Plaintext from before encryption is returned unchanged. */
+export async function decryptToken(userId: string, value: string): Promise<string> {
+  if (!isEncryptedToken(value)) return value;
+  return openToken(await getDataKey(userId), userId, value);
+}
+
+/**
+ * Re-wrap the user's data key with the current master key.
+ * Returns true if it was on an older one; false if current or the user has none.
+ */
+export async function rewrapTokenKey(userId: string): Promise<boolean> {
+  const db = getAdminDb();
+  const ref = db.collection(TOKEN_KEYS_COLLECTION).doc(userId);
+  const current = getMasterKeys()[0];
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const data = snap.data();
+    if (!data || data.masterKeyId === current.id) return false;
+
+    const dataKey = unwrapDataKey(getMasterKeys(), userId, data as WrappedDataKey);
+    tx.update(ref, {
+      ...wrapDataKey(current, userId, dataKey),
+      rewrappedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
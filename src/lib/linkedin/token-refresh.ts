@@ -0,0 +1,68 @@
+/**
+ * LinkedIn token maintenance
+ *
+ * Access tokens last 60 days. Anything about to use one calls
+ * `getFreshAccessToken`, which refreshes an expired token in place; the
+ * refresh-tokens cron refreshes every account a week ahead of expiry so
+ * publishing rarely has to.
+ *
+ * Only apps approved for LinkedIn's refresh tokens get one — without it
+ * the user has to reconnect, which the cron warns about in advance.
+ */
+
+import 'server-only';
+import { createPublisher } from './publisher';
+import { LinkedInAccountService } from './services/linkedin-account.service';
+import type { LinkedInAccount } from './types';
+
+/** Tokens expiring within this window are refreshed (or warned about) by the cron */
+export const TOKEN_REFRESH_WINDOW_MS = 7 * 24 * 60 * 60_000;
+
+/** Tries at storing refreshed tokens before giving the account up for a reconnect */
+const SAVE_ATTEMPTS = 3;
+const SAVE_RETRY_DELAY_MS = 500;
+
+/** True if the token is already expired or expires within `withinMs` */
+export function tokenExpiresWithin(account: LinkedInAccount, withinMs: number, now = new Date()): boolean {
+  if (!account.tokenExpiry) return false;
+  return new Date(account.tokenExpiry).getTime() - now.getTime() <= withinMs;
+}
+
+/**
+ * Exchange the account's refresh token for new tokens and store them.
+ * Throws if there's no refresh token, LinkedIn refuses it, or the new
+ * tokens can't be stored — LinkedIn may have rotated the refresh token
+ * already, so the account is flagged for a reconnect then.
+ */
+export async function refreshAccountToken(account: LinkedInAccount): Promise<string> {
+  if (!account.refreshToken) throw new Error('LinkedIn token expired — reconnect required');
+
+  const tokens = await createPublisher().refreshToken(account.refreshToken);
+  let saved = await LinkedInAccountService.setTokens(account.userId, account.id, tokens);
+  for (let attempt = 2; !saved.success && attempt <= SAVE_ATTEMPTS; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, SAVE_RETRY_DELAY_MS * (attempt - 1)));
+    saved = await LinkedInAccountService.setTokens(account.userId, account.id, tokens);
+  }
+
+  if (!saved.success) {
+    console.error(`[token-refresh] Could not store refreshed token for account ${account.id}:`, saved.error);
+    const flagged = await LinkedInAccountService.flagForReconnect(account.userId, account.id);
+    if (!flagged.success) console.error(`[token-refresh] Could not flag account ${account.id} for reconnect:`, flagged.error);
+    throw new Error('LinkedIn token refreshed but could not be saved — reconnect required');
+  }
+  return tokens.accessToken;
+}
+
+/**
+ * An access token that works right now — the stored one, or a refreshed
+ * one if it has expired. Throws if it expired and can't be refreshed.
+ */
+export async function getFreshAccessToken(account: LinkedInAccount, now = new Date()): Promise<string> {
+  if (!tokenExpiresWithin(account, 0, now)) return account.accessToken;
+  try {
+    return await refreshAccountToken(account);
+  } catch (err) {
+    console.error(`[token-refresh] Refresh failed for account ${account.id}:`, err);
+    throw new Error(account.refreshToken ? 'LinkedIn token refresh failed — reconnect required' : 'LinkedIn token expired — reconnect required');
+  }
+}
@@ -52,6 +52,14 @@ export interface Series {
   order: number;
   /** Default HTML template for posts in this series */
   templateId?: string;
+  /** Default LinkedIn account for posts in this series (undefined = profile default) */
+  linkedinAccountId?: string;
+  /**
+   * Default LinkedIn author for posts in this series.
+   * Undefined = the member's personal profile; otherwise an
+   * "urn:li:organization:..." the member administers.
+   */
+  authorUrn?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -85,7 +93,7 @@ export interface Idea {
 /**
  * Full lifecycle of a post:
  *
- *   pending_review → approved → published
+ *   pending_review → approved → published → deleted (removed from LinkedIn in the app)
  *                  → skipped  (missed the review window)
  *                  → rejected (user explicitly rejected)
  *                  → failed   (LinkedIn API error)
@@ -94,13 +102,103 @@ export type PostStatus =
   | 'scheduled'
   | 'pending_review'
   | 'approved'
+  /** Claimed by a worker that is uploading / posting it right now */
+  | 'publishing'
   | 'skipped'
   | 'rejected'
   | 'published'
+  | 'deleted'
   | 'failed';
 
+/** One failed publish attempt, kept on the post for troubleshooting */
+export interface PublishAttempt {
+  at: Date;
+  error: string;
+  /** Whether it was classified as transient (and retried if attempts remained) */
+  retryable: boolean;
+}
+
 /** What kind of media accompanies the text */
-export type PostMediaType = 'text' | 'image' | 'video' | 'html';
+export type PostMediaType = 'text' | 'image' | 'video' | 'html' | 'poll' | 'article';
+
+/** Who can see a published post — LinkedIn's own enum (Company Pages are always PUBLIC) */
+export type PostVisibility = 'PUBLIC' | 'CONNECTIONS';
+
+/** Networks a post can be cross-posted to besides LinkedIn */
+export type CrossPostNetwork = 'mastodon' | 'bluesky' | 'x';
+
+/** Where a cross-post target is — tracked separately from the LinkedIn post */
+export type CrossPostStatus = 'pending' | 'publishing' | 'published' | 'failed';
+
+/**
+ * One network a post is cross-posted to. Limits are enforced by
+ * `@/lib/linkedin/crosspost`. Stored as an array on the post, so dates
+ * are plain `Date`s (serverTimestamp() isn't allowed inside arrays).
+ */
+export interface CrossPostTarget {
+  network: CrossPostNetwork;
+  /** AI rewrite of the post for this network (user-editable) — null until generated */
+  content: string | null;
+  status: CrossPostStatus;
+  /** The network's id for the published post (Mastodon status id, Bluesky at:// URI, tweet id) */
+  remoteId?: string | null;
+  /** Public link to the published post */
+  url?: string | null;
+  /** Why the last attempt failed */
+  error?: string | null;
+  /** While 'publishing' — the claim may be taken over after this */
+  leaseExpiresAt?: Date | null;
+  publishedAt?: Date | null;
+}
+
+/** How long a LinkedIn poll stays open (LinkedIn's own enum) */
+export type PollDuration = 'ONE_DAY' | 'THREE_DAYS' | 'SEVEN_DAYS' | 'FOURTEEN_DAYS';
+
+/** Poll attached to a 'poll' post — limits are enforced by `@/lib/linkedin/poll` */
+export interface PostPoll {
+  /** Up to 140 characters */
+  question: string;
+  /** 2–4 options, up to 30 characters each */
+  options: string[];
+  duration: PollDuration;
+}
+
+/**
+ * Link shared as a rich article card on an 'article' post.
+ * Filled by hand or from the page's OpenGraph tags (`/api/posts/link-preview`).
+ */
+export interface PostArticle {
+  /** The URL being shared */
+  source: string;
+  title: string;
+  description?: string;
+  /** Public image URL — uploaded to LinkedIn as the card thumbnail at publish time */
+  thumbnailUrl?: string;
+}
+
+/** Vote counts read back from LinkedIn after a poll is published */
+export interface PollResults {
+  /** Same order as `PostPoll.options` */
+  options: { text: string; voteCount: number }[];
+  uniqueVoters: number;
+}
+
+/**
+ * How multi-page HTML posts are published:
+ *   document    — slides stitched into a PDF → native swipeable carousel
+ *   multi_image — slides attached as a `multiImage` grid
+ */
+export type CarouselFormat = 'document' | 'multi_image';
+
+/** One change made to a post after it went live on LinkedIn */
+export interface PostLiveChange {
+  action: 'edit' | 'delete';
+  /** Text that was live before the change */
+  previousContent: string;
+  /** New text (edits only) */
+  content?: string;
+  at: Date;
+}
 
 /**
  * Firestore: `posts/{postId}`
@@ -125,6 +223,11 @@ export interface Post {
   content: string;
   /** User-edited version — if the user modifies the draft, this takes over */
   editedContent?: string;
+  /**
+   * Posted as a comment right after publishing — links and extra hashtags
+   * go here so they don't cost the post body reach.
+   */
+  firstComment?: string;
   /** Summary of the previous post — fed to the AI for continuity */
   previousPostSummary?: string;
   /** The raw idea/prompt fed to the AI when generating this post */
@@ -146,6 +249,8 @@ export interface Post {
    * Format: "urn:li:image:..." or "urn:li:video:..."
    */
   linkedinMediaAsset?: string;
+  /** When the video in `linkedinMediaAsset` was uploaded — LinkedIn may still be processing it */
+  videoUploadedAt?: Date;
   /** MIME type of the media (e.g. 'image/png', 'video/mp4') */
   mediaMimeType?: string;
   /** The AI prompt used to generate the media */
@@ -160,6 +265,23 @@ export interface Post {
    * without needing a browser for HTML→PNG conversion.
    */
   imageUrls?: string[];
+  /** Multi-page HTML: PDF document carousel or multi-image (undefined = multi_image) */
+  carouselFormat?: CarouselFormat;
+  /** Title shown above a document carousel on LinkedIn (defaults to the topic) */
+  documentTitle?: string;
+  /**
+   * Alt text per published image — [0] for a single image, one per slide
+   * for HTML carousels. AI-written at generation time, user-editable.
+   */
+  altTexts?: string[];
+  /** Question + options for 'poll' posts (AI-proposed, user-editable until publish) */
+  poll?: PostPoll;
+  /** Shared link for 'article' posts (`linkedinMediaAsset` caches its thumbnail URN) */
+  article?: PostArticle;
+  /** SubRip (.srt) captions uploaded with 'video' posts */
+  videoCaptions?: string;
+  /** Custom cover image for 'video' posts (LinkedIn picks a frame when unset) */
+  videoThumbnailUrl?: string;
 
   // ── AI model metadata (saved with scheduled posts for deferred generation) ──
   templateId?: string;
@@ -168,6 +290,26 @@ export interface Post {
   /** Per-page content instructions (user decides what goes on each page) */
   pageInstructions?: string[];
 
+  // ── Author ─────────────────────────────────────────────────────────────
+  /**
+   * Connected LinkedIn account (`linkedin_accounts` doc id) to publish with.
+   * Undefined/null = the profile's default account at publish time.
+   */
+  linkedinAccountId?: string;
+  /**
+   * Who the post is published as — an "urn:li:organization:..." for a
+   * Company Page. Undefined/null = the member's personal profile.
+   */
+  authorUrn?: string;
+  /** Who can see the post — undefined/null = the profile default, then PUBLIC */
+  visibility?: PostVisibility;
+  /** Stops other members resharing the post — undefined/null = the profile default */
+  disableReshare?: boolean;
+
+  // ── Cross-posting ──────────────────────────────────────────────────────
+  /** Other networks this post goes to once it's live on LinkedIn */
+  crossPosts?: CrossPostTarget[];
+
   // ── Scheduling ─────────────────────────────────────────────────────────
   /** When the post should be published on LinkedIn */
   scheduledFor: Date;
@@ -175,6 +317,19 @@ export interface Post {
   reviewDeadline: Date;
   status: PostStatus;
 
+  // ── Publishing claim (exactly-once) ────────────────────────────────────
+  /** Worker holding the claim while status is 'publishing' ("cron:…" / "api:…") */
+  publishWorkerId?: string;
+  /** The claim may be recovered by another worker after this */
+  publishLeaseExpiresAt?: Date;
+  /** Status the post was claimed from — restored if the claim is recovered */
+  publishClaimedFrom?: PostStatus;
+  /**
+   * Written right before calling LinkedIn. If a claim goes stale with this
+   * set, the post may already be live, so it's never re-posted automatically.
+   */
+  publishIdempotencyKey?: string;
+
   // ── After publishing ───────────────────────────────────────────────────
   /** Timestamp when LinkedIn confirmed publication */
   publishedAt?: Date;
@@ -182,23 +337,87 @@ export interface Post {
   linkedinPostId?: string;
   /** If status is "failed", the error message from the last attempt */
   failureReason?: string;
+  /** URN of the first comment once LinkedIn accepted it */
+  firstCommentUrn?: string;
+  /**
+   * Why the first comment couldn't be posted. Kept apart from
+   * `failureReason` — the post itself is still published.
+   */
+  firstCommentError?: string;
   /** Number of publish retry attempts */
   retryCount: number;
+  /** When the next automatic retry is due — the post stays 'approved' until then */
+  nextRetryAt?: Date;
+  /** Every failed publish attempt, oldest first */
+  publishAttempts?: PublishAttempt[];
+  /** Edits / deletion of the live LinkedIn post made from the app, oldest first */
+  liveHistory?: PostLiveChange[];
+  /** When the post was deleted from LinkedIn (status "deleted") */
+  deletedAt?: Date;
+
+  // ── Engagement (synced by /api/autoposter/sync-metrics) ────────────────
+  /** Latest counters — full history lives in `post_metrics` */
+  metrics?: PostMetrics;
+  /** Counters from the sync before `metrics` — the UI shows the difference as a trend */
+  previousMetrics?: PostMetrics;
+  /** When `metrics` was captured */
+  metricsSyncedAt?: Date;
+  /** Latest vote counts — 'poll' posts only, synced alongside `metrics` */
+  pollResults?: PollResults;
 
   // ── Timestamps ─────────────────────────────────────────────────────────
   createdAt: Date;
   updatedAt: Date;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST METRICS (engagement time series)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Engagement counters for a published post at one point in time */
+export interface PostMetrics {
+  impressions: number;
+  reactions: number;
+  comments: number;
+  reshares: number;
+}
+
+/** One snapshot in the `post_metrics` collection */
+export interface PostMetricsSnapshot extends PostMetrics {
+  id: string;
+  postId: string;
+  userId: string;
+  linkedinPostId: string;
+  capturedAt: Date;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // USER PROFILE (LinkedIn connection + preferences)
 // ═══════════════════════════════════════════════════════════════════════════════
 
-/** Which day-slots are enabled and at what time (IST / local) */
+/** Days off, "YYYY-MM-DD" in the profile's timezone, both ends inclusive */
+export interface BlackoutRange {
+  start: string;
+  end: string;
+  /** "Diwali", "Conference week" */
+  label?: string;
+}
+
+/** One posting time on a weekday, optionally with defaults for posts booked into it */
+export interface PostingSlot {
+  /** 24h time string e.g. "10:00" — when to publish */
+  time: string;
+  /** Media type for posts booked into this slot — the one picked when booking if unset */
+  mediaType?: PostMediaType;
+  /** Only this series' topics are booked into this slot — any series if unset */
+  seriesId?: string;
+}
+
+/** Whether a weekday posts, and at which times (user's timezone) */
 export interface PostingDay {
   enabled: boolean;
-  /** 24h time string e.g. "10:00" — when to publish */
-  postTime: string;
+  /** Earliest first — see MAX_SLOTS_PER_DAY */
+  slots: PostingSlot[];
 }
 
 /** Weekly posting schedule — each day can be independently toggled */
@@ -222,12 +441,35 @@ export interface AutoposterProfile {
   userId: string;
 
   // ── LinkedIn OAuth ─────────────────────────────────────────────────────
+  /**
+   * Legacy single-account connection. New connections live in the
+   * `linkedin_accounts` sub-collection — these fields are migrated into it
+   * the first time the account is needed for publishing.
+   */
   linkedinAccessToken?: string;
   linkedinRefreshToken?: string;
   linkedinTokenExpiry?: Date;
   /** LinkedIn member URN — needed for "author" field in post creation */
   linkedinMemberUrn?: string;
+  /** True when at least one LinkedIn account is connected */
   linkedinConnected: boolean;
+  /** `linkedin_accounts` doc used when a post/series doesn't pick one */
+  defaultLinkedinAccountId?: string;
+  /**
+   * Accounts whose token expires soon and can't be refreshed — the user
+   * has to reconnect them. Maintained by /api/autoposter/refresh-tokens.
+   */
+  linkedinReconnectAccountIds?: string[];
+
+  // ── Cross-posting connections ──────────────────────────────────────────
+  /** Mastodon / Bluesky / X accounts posts can be cross-posted to */
+  crossPostConnections?: Partial<Record<CrossPostNetwork, CrossPostConnection>>;
+
+  // ── Audience defaults ──────────────────────────────────────────────────
+  /** Visibility for new posts that don't pick one (default: PUBLIC) */
+  defaultVisibility?: PostVisibility;
+  /** Disable resharing on new posts that don't say otherwise (default: false) */
+  defaultDisableReshare?: boolean;
 
   // ── FCM (push notifications) ───────────────────────────────────────────
   fcmToken?: string;
@@ -263,11 +505,132 @@ export interface AutoposterProfile {
    * Default: 3 (3 AM local time).
    */
   reviewDeadlineHour: number;
+  /**
+   * Opt-in: /api/autoposter/autopilot-all books every free slot over the
+   * next `autopilotDays` days from the idea bank and active series.
+   */
+  autopilotEnabled?: boolean;
+  /** Look-ahead for autopilot, 1–14 (default: 7) */
+  autopilotDays?: number;
+
+  // ── Time off ───────────────────────────────────────────────────────────
+  /** Nothing is drafted or published while on — until `vacationUntil` */
+  vacationMode?: boolean;
+  /** Last day of the vacation, "YYYY-MM-DD" in `timezone` (inclusive) */
+  vacationUntil?: string | null;
+  /** Date ranges nothing is drafted or published on — see lib/linkedin/blackout */
+  blackouts?: BlackoutRange[];
 
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Firestore: `autoposter_profiles/{userId}/linkedin_accounts/{accountId}`
+ *
+ * One connected LinkedIn member. The doc ID is the member's OpenID `sub`,
+ * so reconnecting the same account refreshes it in place instead of
+ * adding a duplicate.
+ */
+export interface LinkedInAccount {
+  id: string;
+  userId: string;
+  /** "urn:li:person:{sub}" — the personal author URN */
+  memberUrn: string;
+  /** Display name from the OpenID userinfo endpoint */
+  name: string;
+  email?: string;
+  pictureUrl?: string;
+
+  // ── OAuth ──────────────────────────────────────────────────────────────
+  /** Plaintext here — encrypted at rest by LinkedInAccountService */
+  accessToken: string;
+  refreshToken?: string;
+  tokenExpiry?: Date;
+  /** Set when the "token expiring" push went out — cleared by new tokens */
+  tokenExpiryWarnedAt?: Date;
+
+  /** Company Pages this member administers — refreshed on every connect */
+  organizations: LinkedInOrganization[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A connected Mastodon, Bluesky or X account, stored on the profile doc
+ * under `crossPostConnections.{network}`.
+ *
+ * `accessToken` is the Mastodon OAuth token, the Bluesky app password, or
+ * the X OAuth 2.0 user token (which expires — hence `refreshToken`).
+ */
+export interface CrossPostConnection {
+  network: CrossPostNetwork;
+  /** "@me@mastodon.social", "me.bsky.social", "@me" */
+  handle: string;
+  /** Mastodon account id, Bluesky DID, X user id */
+  accountId: string;
+  /** Mastodon instance or Bluesky PDS — e.g. "https://mastodon.social" */
+  serverUrl?: string;
+  accessToken: string;
+  refreshToken?: string;
+  tokenExpiry?: Date;
+  connectedAt: Date;
+}
+
+/** Token-free view of an AutoposterProfile — safe to send to the browser */
+export type AutoposterProfileSummary = Omit<
+  AutoposterProfile,
+  'linkedinAccessToken' | 'linkedinRefreshToken' | 'crossPostConnections'
+>;
+
+/** Secret-free view of a CrossPostConnection — safe to send to the browser */
+export type CrossPostConnectionSummary = Omit<CrossPostConnection, 'accessToken' | 'refreshToken'>;
+
+/** Token-free view of a LinkedInAccount — safe to send to the browser */
+export type LinkedInAccountSummary = Omit<LinkedInAccount, 'accessToken' | 'refreshToken'> & {
+  isDefault: boolean;
+  /** Today's LinkedIn API calls for this member (Settings shows it as a budget bar) */
+  apiUsage?: LinkedInApiUsage;
+};
+
+/**
+ * Firestore: `linkedin_rate_limits/{member_<sub>_<day>_<n> | app_<day>_<n>}`
+ * counter shards, plus `member_<sub>` for a 429 back-off
+ *
+ * LinkedIn API calls counted against a daily budget, per member and for
+ * the whole app. Days are UTC — LinkedIn resets its limits at midnight UTC.
+ */
+export interface LinkedInApiUsage {
+  /** UTC day the counter belongs to — "2026-10-19" */
+  day: string;
+  calls: number;
+  budget: number;
+  /** Set after a 429 — no calls go out before this */
+  limitedUntil: Date | null;
+}
+
+export type ConnectionAuditAction = 'connect_started' | 'connected' | 'connect_failed' | 'disconnected';
+
+/**
+ * Firestore: `connection_audit/{auto-id}`
+ *
+ * One LinkedIn connection event — append-only, written by the OAuth
+ * routes and the accounts API.
+ */
+export interface ConnectionAuditEvent {
+  id: string;
+  userId: string;
+  action: ConnectionAuditAction;
+  /** LinkedIn member `sub` — once known */
+  accountId?: string;
+  /** Why a connect failed — the same code the callback redirects with */
+  reason?: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // AI PROMPT CONTEXT (passed to the post-generation AI call)
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -288,7 +651,7 @@ export interface PostGenerationContext {
   persona?: string;
   /** What day the post will be published (so AI can reference "today") */
   publishDay: string;
-  /** Desired media type — 'text' (default), 'image', or 'video' */
+  /** Desired media type — 'text' (default), 'image', 'video', 'html', 'poll' or 'article' */
   mediaType?: PostMediaType;
 
   // ── Model Override (user control) ────────────────────────────────────────
@@ -333,6 +696,28 @@ export interface PostGenerationContext {
   pageCount?: number;
   /** Per-page content instructions — if provided, AI uses these instead of deciding structure */
   pageInstructions?: string[];
+
+  // ── Poll ─────────────────────────────────────────────────────────────────
+
+  /** How long the AI-proposed poll stays open (default: 3 days) */
+  pollDuration?: PollDuration;
+
+  // ── Article ──────────────────────────────────────────────────────────────
+
+  /** Link the post shares — the AI writes commentary introducing it */
+  article?: PostArticle;
+
+  // ── Audience ─────────────────────────────────────────────────────────────
+
+  /** CONNECTIONS posts are written for the author's own network */
+  visibility?: PostVisibility;
+  /** Resharing disabled by the author */
+  disableReshare?: boolean;
+
+  // ── Cross-posting ────────────────────────────────────────────────────────
+
+  /** Networks to rewrite the post for once the LinkedIn text is written */
+  crossPostNetworks?: CrossPostNetwork[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -378,7 +763,7 @@ export interface HtmlTemplate {
 export interface LinkedInCreatePostPayload {
   author: string;  // e.g. "urn:li:person:abc123"
   commentary: string;
-  visibility: 'PUBLIC' | 'CONNECTIONS';
+  visibility: PostVisibility;
   distribution: {
     feedDistribution: 'MAIN_FEED';
     targetEntities: [];
@@ -386,13 +771,15 @@ export interface LinkedInCreatePostPayload {
   };
   lifecycleState: 'PUBLISHED';
   isReshareDisabledByAuthor: boolean;
-  /** Media content — single image/video OR multi-image carousel */
+  /** Media content — single image/video/document, multi-image carousel, poll OR article */
   content?: {
     media?: {
-      /** LinkedIn asset URN (from upload API) */
+      /** LinkedIn asset URN (from upload API) — image, video or document */
       id: string;
       /** Alt text for the media */
       altText?: string;
+      /** Document title — required for document (PDF) posts */
+      title?: string;
     };
     multiImage?: {
       images: Array<{
@@ -400,6 +787,18 @@ export interface LinkedInCreatePostPayload {
         altText?: string;
       }>;
     };
+    poll?: {
+      question: string;
+      options: Array<{ text: string }>;
+      settings: { duration: PollDuration };
+    };
+    article?: {
+      source: string;
+      title: string;
+      description?: string;
+      /** LinkedIn image URN (from upload API) */
+      thumbnail?: string;
+    };
   };
 }
 
@@ -420,6 +819,19 @@ export interface LinkedInUploadResponse {
   };
 }
 
+/**
+ * A LinkedIn Company Page the connected member can post as.
+ * Sourced from the organizationAcls API (ADMINISTRATOR role only).
+ */
+export interface LinkedInOrganization {
+  /** "urn:li:organization:123456" — used as the post author */
+  urn: string;
+  /** Localized page name shown in author pickers */
+  name: string;
+  /** Public vanity slug — linkedin.com/company/{vanityName} */
+  vanityName?: string;
+}
+
 /** Subset of LinkedIn's profile response that we need */
 export interface LinkedInProfile {
   sub: string;           // member URN id
@@ -437,7 +849,9 @@ export type NotificationType =
   | 'post_skipped'     // Review deadline passed, post was held
   | 'post_published'   // Successfully posted to LinkedIn
   | 'post_failed'      // LinkedIn API error
-  | 'linkedin_token_expiring'; // OAuth token expiring soon
+  | 'linkedin_token_expiring' // OAuth token expiring soon
+  | 'cross_post_failed'       // Live on LinkedIn, but a Mastodon / Bluesky / X copy failed
+  | 'post_rescheduled';       // Approved post fell on a vacation / blackout day and was moved
 
 export interface NotificationPayload {
   type: NotificationType;
@@ -0,0 +1,85 @@
+/**
+ * LinkedIn video processing
+ *
+ * LinkedIn takes anywhere from seconds to many minutes to process an
+ * uploaded video and rejects posts that reference one still processing.
+ * Uploads don't wait for it: the video URN is stored on the post
+ * (`linkedinMediaAsset` + `videoUploadedAt`) and publishing checks its
+ * status instead —
+ *   - publish-all checks once per run. While the video is processing the
+ *     post goes back to 'approved' with `nextRetryAt` VIDEO_RECHECK_MS out,
+ *     so one slow video never holds up the rest of the batch
+ *   - "Post Now" waits up to VIDEO_POST_NOW_WAIT_MS, then hands the post
+ *     to publish-all the same way
+ *
+ * A video LinkedIn failed to process, or one still not ready
+ * VIDEO_PROCESSING_TIMEOUT_MS after upload, fails the attempt with a
+ * VideoProcessingError — the caller drops the URN so the next attempt
+ * uploads again.
+ */
+
+import 'server-only';
+import type { IPublisher } from './publisher';
+
+/** How soon publish-all looks at a processing video again */
+export const VIDEO_RECHECK_MS = 2 * 60_000;
+
+/** How long "Post Now" waits before handing a processing video to publish-all */
+export const VIDEO_POST_NOW_WAIT_MS = 90_000;
+
+const VIDEO_STATUS_POLL_INTERVAL_MS = 5_000;
+const VIDEO_PROCESSING_TIMEOUT_MS = 60 * 60_000;
+
+/** LinkedIn couldn't process the uploaded video, or gave up waiting on it */
+export class VideoProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VideoProcessingError';
+  }
+}
+
+/**
+ * True once LinkedIn reports the video AVAILABLE, false while it's still
+ * processing.
+ *
+ * @throws VideoProcessingError if processing failed or has run past
+ *   VIDEO_PROCESSING_TIMEOUT_MS since `uploadedAt`
+ */
+export async function isVideoReady(
+  publisher: IPublisher,
+  accessToken: string,
+  videoUrn: string,
+  uploadedAt: Date,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const { status, failureReason } = await publisher.getVideoStatus(accessToken, videoUrn);
+  if (status === 'AVAILABLE') return true;
+  if (status === 'PROCESSING_FAILED') {
+    throw new VideoProcessingError(`LinkedIn video processing failed${failureReason ? `: ${failureReason}` : ''}`);
+  }
+  if (now.getTime() - uploadedAt.getTime() > VIDEO_PROCESSING_TIMEOUT_MS) {
+    throw new VideoProcessingError(`LinkedIn video still ${status} after ${VIDEO_PROCESSING_TIMEOUT_MS / 60_000} minutes`);
+  }
+  return false;
+}
+
+/**
+ * Poll until the video is ready, for at most `maxWaitMs`.
+ * Returns false if it's still processing by then.
+ *
+ * @throws VideoProcessingError like isVideoReady
+ */
+export async function waitForVideo(
+  publisher: IPublisher,
+  accessToken: string,
+  videoUrn: string,
+  uploadedAt: Date,
+  maxWaitMs: number = VIDEO_POST_NOW_WAIT_MS,
+): Promise<boolean> {
+  const deadline = Date.now() + maxWaitMs;
+  while (true) {
+    if (await isVideoReady(publisher, accessToken, videoUrn, uploadedAt)) return true;
+    if (Date.now() + VIDEO_STATUS_POLL_INTERVAL_MS > deadline) return false;
+    await new Promise(resolve => setTimeout(resolve, VIDEO_STATUS_POLL_INTERVAL_MS));
+  }
+}
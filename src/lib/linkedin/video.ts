@@ -0,0 +1,40 @@
+/**
+ * Video extras rules — SRT captions and custom thumbnails
+ *
+ * Shared by the API routes and the video editor so captions that look fine
+ * in the form are ones LinkedIn will accept at upload time.
+ *
+ * Safe on client and server.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/videos-api
+ */
+
+import { isHttpUrl } from './article';
+
+/** "00:00:01,000 --> 00:00:04,000" — SubRip uses a comma before the milliseconds */
+const SRT_TIMING_PATTERN = /^\d{2}:\d{2}:\d{2},\d{3}\s*-->\s*\d{2}:\d{2}:\d{2},\d{3}/m;
+
+/**
+ * Coerce untrusted input into SRT text: strips a BOM, normalizes line
+ * endings and trims. Returns null when there's nothing left.
+ */
+export function normalizeCaptions(input: unknown): string | null {
+  if (typeof input !== 'string') return null;
+  const srt = input.replace(/^﻿/, '').replace(/\r\n?/g, '\n').trim();
+  return srt || null;
+}
+
+/** Why LinkedIn would reject these captions, or null if they look like SRT */
+export function getCaptionsError(srt: string | null | undefined): string | null {
+  if (!srt) return null;
+  if (!SRT_TIMING_PATTERN.test(srt)) {
+    return 'Captions must be SubRip (.srt) — e.g. "00:00:01,000 --> 00:00:04,000" timing lines';
+  }
+  return null;
+}
+
+/** Why the thumbnail URL can't be used, or null if it's fine */
+export function getVideoThumbnailError(url: string | null | undefined): string | null {
+  if (url && !isHttpUrl(url)) return 'Thumbnail must be an http(s) image URL';
+  return null;
+}
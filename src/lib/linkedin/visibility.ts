@@ -0,0 +1,52 @@
+/**
+ * Post audience rules
+ *
+ * Who can see a post and whether it can be reshared. Posts fall back to
+ * the profile defaults, then to LinkedIn's own (PUBLIC, resharable).
+ *
+ * Safe on client and server.
+ *
+ * @see https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/posts-api
+ */
+
+import type { PostVisibility } from './types';
+
+export const POST_VISIBILITIES: PostVisibility[] = ['PUBLIC', 'CONNECTIONS'];
+
+export const POST_VISIBILITY_LABELS: Record<PostVisibility, string> = {
+  PUBLIC: 'Anyone',
+  CONNECTIONS: 'Connections only',
+};
+
+export const DEFAULT_POST_VISIBILITY: PostVisibility = 'PUBLIC';
+
+/** Coerce untrusted input into a visibility — null when it isn't one */
+export function normalizeVisibility(input: unknown): PostVisibility | null {
+  return POST_VISIBILITIES.includes(input as PostVisibility) ? (input as PostVisibility) : null;
+}
+
+/**
+ * Why `visibility` can't be used with `authorUrn`, or null when it can.
+ * Company Pages have no connections, so their posts are always PUBLIC.
+ */
+export function getVisibilityError(visibility: PostVisibility, authorUrn?: string | null): string | null {
+  if (visibility === 'CONNECTIONS' && authorUrn?.startsWith('urn:li:organization:')) {
+    return 'Company Page posts are always public — "Connections only" is for personal posts';
+  }
+  return null;
+}
+
+/**
+ * The audience a post publishes with: its own settings, else the profile
+ * defaults. Company Page posts are forced to PUBLIC.
+ */
+export function resolveAudience(
+  post: { visibility?: PostVisibility | null; disableReshare?: boolean | null; authorUrn?: string | null },
+  defaults?: { defaultVisibility?: PostVisibility | null; defaultDisableReshare?: boolean | null } | null,
+): { visibility: PostVisibility; disableReshare: boolean } {
+  const visibility = post.visibility ?? defaults?.defaultVisibility ?? DEFAULT_POST_VISIBILITY;
+  return {
+    visibility: getVisibilityError(visibility, post.authorUrn) ? 'PUBLIC' : visibility,
+    disableReshare: post.disableReshare ?? defaults?.defaultDisableReshare ?? false,
+  };
+}
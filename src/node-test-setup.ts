@@ -0,0 +1,18 @@
+/**
+ * node:test setup — loaded with `--require` before every test file
+ *
+ * When Next bundles server code it resolves `server-only` to an empty
+ * module (the throwing one is for client bundles). Tests load server
+ * modules straight from tsc's output, so resolve it the same way.
+ */
+
+import Module from 'module';
+
+const loader = Module as unknown as {
+  _resolveFilename(request: string, ...rest: unknown[]): string;
+};
+
+const resolveFilename = loader._resolveFilename;
+loader._resolveFilename = function (request, ...rest) {
+  return resolveFilename.call(this, request === 'server-only' ? 'next/dist/compiled/server-only/empty' : request, ...rest);
+};